@@ -1,8 +1,49 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { checkApiKey, promptForApiKey, setApiKey, generateMockup, analyzeImageForPrompts, regenerateSinglePrompt, getEnvApiKey, normalizeApiKey, generateComposite, refineComposite, upscaleMockupWithGemini } from './services/geminiService';
+import * as browserGeneration from './services/geminiService';
+import { checkApiKey, promptForApiKey, setApiKey, getEnvApiKey, normalizeApiKey, extractContactSheetFrames } from './services/geminiService';
+import * as serverGeneration from './services/serverGenerationService';
+import { jobService, isTerminalStatus } from './services/jobService';
+import JobQueuePanel from './components/JobQueuePanel';
+import BlobImage from './components/BlobImage';
+import AccountPanel from './components/AccountPanel';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import VaryResultPanel from './components/VaryResultPanel';
+import LineageView from './components/LineageView';
+import CompareViewer, { type CompareSide } from './components/CompareViewer';
+import QuadEditor from './components/QuadEditor';
+import SceneTemplateEditor from './components/SceneTemplateEditor';
+import VibeEditor from './components/VibeEditor';
+import PromptTemplateFields from './components/PromptTemplateFields';
+import QualityCheckFields from './components/QualityCheckFields';
+import ArtworkPreprocessFields from './components/ArtworkPreprocessFields';
+import ArtworkSetFields from './components/ArtworkSetFields';
+import ExperimentPicker from './components/ExperimentPicker';
+import SceneRegionOverlay from './components/SceneRegionOverlay';
+import PrintScaleFields from './components/PrintScaleFields';
+import FrameSpecFields from './components/FrameSpecFields';
+import StylePresetPicker from './components/StylePresetPicker';
+import ReferenceLine from './components/ReferenceLine';
+import MotionExportPanel from './components/MotionExportPanel';
 import { storageService } from './services/storageService';
 import { cloudStorageService } from './services/cloudStorageService';
-import { GenerationSettings, MockupResult, FrameStyle, LightingStyle, WallTexture, PrintSize, AnalysisVibe, CameraAngle, GenerationMode, ContactSheetGrid, ArtworkLibraryItem, SourcePhotoLibraryItem } from './types';
+import { syncService, type RemoteChanges } from './services/syncService';
+import { accountService } from './services/accountService';
+import { projectService } from './services/projectService';
+import { sceneTemplateService } from './services/sceneTemplateService';
+import { stylePresetService } from './services/stylePresetService';
+import { customVibeService } from './services/customVibeService';
+import { BUILT_IN_TEMPLATES, normalizePromptTemplate, templateName } from './services/promptTemplates';
+import { ACCEPTED_ARTWORK_TYPES, DEFAULT_PREPROCESS_OPTIONS, preprocessArtwork } from './services/artworkPreprocessing';
+import { isCompleteSet, mapPanelImages } from './services/artworkSets';
+import { PRODUCT_TYPES, productProfile } from './services/productTypes';
+import { canEditShared, presetSettings } from './services/stylePresets';
+import { resolveSlot, sceneSlotInstructions } from './services/sceneTemplates';
+import { canRegenerate, groupVariants, regenerationSettings, variantRootId, type VariationOverrides } from './services/variants';
+import { LINEAGE_LINK_LABELS, buildLineage, findInLineage, flattenLineage, lineageRoots } from './services/lineage';
+import { DEFAULT_PLACEMENT_QUAD, PERSPECTIVE_COMPOSITOR_MODEL, boxToQuad, composePerspective, fitBoxToAspect, imageAspectRatio, isConvexQuad } from './services/perspectiveCompositor';
+import { buildRegionInstructions, getVibeProfile } from './services/promptEngine';
+import { DEFAULT_CUSTOM_PRINT_SIZE, buildScaleInstructions, fitArtworkToPrint, formatPhysicalSize, printDimensions } from './services/printSizing';
+import { GenerationSettings, MockupResult, FrameStyle, LightingStyle, WallTexture, PrintSize, AnalysisVibe, CameraAngle, GenerationMode, GenerationBackend, ContactSheetGrid, ArtworkLibraryItem, SourcePhotoLibraryItem, GenerationJob, JobRequest, SessionUser, Project, PerspectivePlacement, SceneTemplate, SceneAnalysis, SceneRegion, PhysicalSize, SceneReference, StylePreset, CustomVibe, PromptExperiment, ArtworkPreprocessOptions, ArtworkSet, ProductType } from './types';
 import {
   PhotoIcon,
   SparklesIcon,
@@ -12,6 +53,7 @@ import {
   AdjustmentsHorizontalIcon,
   CheckCircleIcon,
   Square2StackIcon,
+  BeakerIcon,
   SunIcon,
   HomeModernIcon,
   XMarkIcon,
@@ -21,7 +63,12 @@ import {
   PencilSquareIcon,
   SwatchIcon,
   ArrowUpTrayIcon,
-  CircleStackIcon
+  CircleStackIcon,
+  UserCircleIcon,
+  ShareIcon,
+  ArrowsRightLeftIcon,
+  ShoppingBagIcon,
+  FilmIcon
 } from '@heroicons/react/24/outline';
 
 // --- Toast ---
@@ -57,7 +104,7 @@ const WALL_TEXTURES: WallTexture[] = [
 ];
 
 const PRINT_SIZES: PrintSize[] = [
-  "A1", "A2", "A3", "A4"
+  "A1", "A2", "A3", "A4", "8x10", "11x14", "18x24", "24x36", "Custom"
 ];
 
 const ANALYSIS_VIBES: AnalysisVibe[] = [
@@ -101,7 +148,7 @@ const SingleSelectPills = <T extends string>({
   disabled = false
 }: { 
   options: T[], 
-  selected: T, 
+  selected: T | null, 
   onChange: (newSelected: T) => void,
   label: string,
   icon: React.ElementType,
@@ -204,6 +251,9 @@ function mergeResults(cloud: MockupResult[], local: MockupResult[]): MockupResul
 // --- Main App ---
 
 const TOKEN_KEY = 'site_token';
+const JOB_POLL_INTERVAL_MS = 4000;
+const CLOUD_PAGE_SIZE = 48;
+const ACTIVE_PROJECT_KEY = 'active_project';
 
 const App: React.FC = () => {
   const [toasts, setToasts] = useState<ToastItem[]>([]);
@@ -215,17 +265,34 @@ const App: React.FC = () => {
 
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isBootstrappingAuth, setIsBootstrappingAuth] = useState(true);
+  const [emailInput, setEmailInput] = useState("");
   const [passwordInput, setPasswordInput] = useState("");
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [authError, setAuthError] = useState("");
+  // Set when the page was opened from an invite link (/?invite=<token>)
+  const [inviteToken] = useState(() => new URLSearchParams(window.location.search).get("invite"));
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [showAccountPanel, setShowAccountPanel] = useState(false);
   const [hasKey, setHasKey] = useState<boolean>(false);
   const [hasEnvKey, setHasEnvKey] = useState<boolean>(false);
   const [isBootstrappingKey, setIsBootstrappingKey] = useState<boolean>(true);
   const [apiKeyInput, setApiKeyInput] = useState<string>("");
   const [isConnecting, setIsConnecting] = useState<boolean>(false);
   const [keyError, setKeyError] = useState<string>("");
+  const [generationBackend, setGenerationBackend] = useState<GenerationBackend>(serverGeneration.getGenerationBackend);
+  const generation = generationBackend === "server" ? serverGeneration : browserGeneration;
   const [sourceImage, setSourceImage] = useState<string | null>(null);
+  // The file as uploaded; sourceImage is what the pre-processing pipeline made of it
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [preprocessOptions, setPreprocessOptions] = useState<ArtworkPreprocessOptions>(() => {
+    const saved = localStorage.getItem('artworkPreprocessOptions');
+    return saved ? { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(saved) } : DEFAULT_PREPROCESS_OPTIONS;
+  });
+  const [isPreprocessing, setIsPreprocessing] = useState<boolean>(false);
   const [styleReferenceImage, setStyleReferenceImage] = useState<string | null>(null);
+  // Kept out of `settings` like the style reference: panel images would overflow localStorage
+  const [artworkSet, setArtworkSet] = useState<ArtworkSet | undefined>(undefined);
+  const activeArtworkSet = isCompleteSet(artworkSet) ? artworkSet : undefined;
   const [isDragging, setIsDragging] = useState<boolean>(false);
   const [isDraggingStyle, setIsDraggingStyle] = useState<boolean>(false);
   const [lightboxImage, setLightboxImage] = useState<string | null>(null);
@@ -250,14 +317,28 @@ const App: React.FC = () => {
     const saved = localStorage.getItem('mockupSettings');
     return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
   });
+  // Frames, print sizes and sets only mean something on a wall
+  const isWallArt = !productProfile(settings);
 
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [upscalingId, setUpscalingId] = useState<string | null>(null);
   const [upscalePopoverId, setUpscalePopoverId] = useState<string | null>(null);
   const [generatingContactSheetId, setGeneratingContactSheetId] = useState<string | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [varyingResult, setVaryingResult] = useState<MockupResult | null>(null);
+  const [animatingResult, setAnimatingResult] = useState<MockupResult | null>(null);
+  const [lineageView, setLineageView] = useState<{ rootId: string; focusId: string } | null>(null);
+  const [compare, setCompare] = useState<{ before: CompareSide; after: CompareSide } | null>(null);
+  // First result picked with the compare button; picking a second opens the viewer
+  const [comparePickId, setComparePickId] = useState<string | null>(null);
   const [results, setResults] = useState<MockupResult[]>([]);
   const [loadingMessage, setLoadingMessage] = useState<string>("");
   const [storageInitialized, setStorageInitialized] = useState<boolean>(false);
+  const [backgroundJobs, setBackgroundJobs] = useState<GenerationJob[]>([]);
+  // Cloud results load a page at a time; null once there is nothing older to fetch
+  const [cloudCursor, setCloudCursor] = useState<string | null>(null);
+  const [isLoadingCloudPage, setIsLoadingCloudPage] = useState(false);
+  const gallerySentinelRef = useRef<HTMLDivElement>(null);
 
   // Tab navigation
   const [activeTab, setActiveTab] = useState<"mockups" | "composite">("mockups");
@@ -280,8 +361,70 @@ const App: React.FC = () => {
   const [sourcePhotoLibrary, setSourcePhotoLibrary] = useState<SourcePhotoLibraryItem[]>([]);
   const [selectedLibrarySourcePhotos, setSelectedLibrarySourcePhotos] = useState<Set<string>>(new Set());
 
+  // Projects: null shows everything; otherwise the gallery, libraries and batches are scoped to one project
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(() => localStorage.getItem(ACTIVE_PROJECT_KEY));
+
+  const inActiveProject = <T extends { projectId?: string }>(items: T[]): T[] =>
+    activeProjectId ? items.filter(item => item.projectId === activeProjectId) : items;
+  const projectResults = useMemo(() => inActiveProject(results), [results, activeProjectId]);
+  const projectCompositeResults = useMemo(() => inActiveProject(compositeResults), [compositeResults, activeProjectId]);
+  const lineage = useMemo(() => {
+    const roots = buildLineage(projectResults);
+    return { rootById: lineageRoots(roots), sizes: new Map(roots.map(root => [root.result.id, flattenLineage(root).length])) };
+  }, [projectResults]);
+  const projectArtworkLibrary = useMemo(() => inActiveProject(artworkLibrary), [artworkLibrary, activeProjectId]);
+  const projectSourcePhotoLibrary = useMemo(() => inActiveProject(sourcePhotoLibrary), [sourcePhotoLibrary, activeProjectId]);
+
+  // Scene templates: saved wall regions that composites can target as "scene X, slot N" (1-based)
+  const [sceneTemplates, setSceneTemplates] = useState<SceneTemplate[]>([]);
+  const [editingTemplate, setEditingTemplate] = useState<SceneTemplate | null>(null);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [customVibes, setCustomVibes] = useState<CustomVibe[]>([]);
+  // When set (and still around), this team vibe is used instead of `analysisVibe`
+  const [customVibeId, setCustomVibeId] = useState<string | null>(null);
+  const [editingVibe, setEditingVibe] = useState<CustomVibe | null>(null);
+  const activeCustomVibe = customVibes.find(v => v.id === customVibeId);
+  const selectedVibe: AnalysisVibe | CustomVibe = activeCustomVibe ?? analysisVibe;
+  const [experiments, setExperiments] = useState<PromptExperiment[]>([]);
+  // Built-in template the current one is compared against
+  const [challengerName, setChallengerName] = useState<string>('Clean digital catalogue');
+  const [activeExperiment, setActiveExperiment] = useState<{ experiment: PromptExperiment; images: [string, string] } | null>(null);
+  const [sceneTarget, setSceneTarget] = useState<{ templateId: string; slot: number } | null>(null);
+  const projectSceneTemplates = useMemo(() => inActiveProject(sceneTemplates), [sceneTemplates, activeProjectId]);
+  const targetTemplate = sceneTarget ? projectSceneTemplates.find(t => t.id === sceneTarget.templateId) : undefined;
+  const targetSlot = targetTemplate && sceneTarget ? resolveSlot(targetTemplate, sceneTarget.slot) : undefined;
+
   // Multi-base queue state
   const [compositeBaseQueue, setCompositeBaseQueue] = useState<Array<{id: string, imageUrl: string, fileName: string}>>([]);
+  // "perspective" places the artwork locally on marked wall corners instead of asking Gemini to repaint the scene
+  const [compositeMode, setCompositeMode] = useState<"generative" | "perspective">("generative");
+  const [selectedBaseId, setSelectedBaseId] = useState<string | null>(null);
+  const [placement, setPlacement] = useState<PerspectivePlacement>({
+    quad: DEFAULT_PLACEMENT_QUAD,
+    frameStyle: "Sleek Black",
+    dropShadow: true,
+    lightTint: 0.5
+  });
+  const selectedBase = compositeBaseQueue.find(b => b.id === selectedBaseId) ?? compositeBaseQueue[0];
+  const perspectiveBaseImage = targetTemplate?.imageUrl ?? selectedBase?.imageUrl;
+
+  // Frames and empty wall space found on each queued photo, keyed by queue item id
+  const [sceneAnalyses, setSceneAnalyses] = useState<Record<string, SceneAnalysis>>({});
+  const [analyzingSceneIds, setAnalyzingSceneIds] = useState<Set<string>>(new Set());
+  const requestedSceneAnalyses = useRef(new Set<string>());
+  const selectedBaseAnalysis = selectedBase ? sceneAnalyses[selectedBase.id] : undefined;
+
+  // Physical print size for composites; null leaves the size to the model as before
+  const [compositePrintSize, setCompositePrintSize] = useState<PrintSize | null>(null);
+  const [compositeCustomSize, setCompositeCustomSize] = useState<PhysicalSize | undefined>(undefined);
+  const [compositeReference, setCompositeReference] = useState<SceneReference | undefined>(undefined);
+  // The artwork as printed: fitted to the chosen sheet in its own proportions, never stretched to it
+  const compositeSheet = compositePrintSize ? printDimensions(compositePrintSize, compositeCustomSize, compositeArtworkRatio) : null;
+  const compositePrint = compositeSheet && fitArtworkToPrint(compositeSheet, compositeArtworkRatio);
+  const withCompositeScale = (instructions: string): string =>
+    compositePrint ? [instructions.trim(), buildScaleInstructions(compositePrint, compositeReference)].filter(Boolean).join("\n") : instructions;
 
   // Batch composite state
   const [isBatchCompositing, setIsBatchCompositing] = useState<boolean>(false);
@@ -302,20 +445,49 @@ const App: React.FC = () => {
         urls.push(b.imageUrl);
       }
     }
-    for (const p of sourcePhotoLibrary) {
+    for (const p of projectSourcePhotoLibrary) {
       if (selectedLibrarySourcePhotos.has(p.id) && !seen.has(p.imageUrl)) {
         seen.add(p.imageUrl);
         urls.push(p.imageUrl);
       }
     }
     return urls;
-  }, [compositeBaseQueue, sourcePhotoLibrary, selectedLibrarySourcePhotos]);
+  }, [compositeBaseQueue, projectSourcePhotoLibrary, selectedLibrarySourcePhotos]);
 
   // Persist settings (only basic ones)
   useEffect(() => {
     localStorage.setItem('mockupSettings', JSON.stringify(settings));
   }, [settings]);
 
+  useEffect(() => {
+    localStorage.setItem('artworkPreprocessOptions', JSON.stringify(preprocessOptions));
+  }, [preprocessOptions]);
+
+  // Prepare the uploaded artwork, again whenever the pipeline options change
+  useEffect(() => {
+    if (!sourceFile) return;
+    let cancelled = false;
+    setIsPreprocessing(true);
+    preprocessArtwork(sourceFile, preprocessOptions)
+      .then(({ dataUrl, preprocessing }) => {
+        if (cancelled) return;
+        setSourceImage(dataUrl);
+        setSettings(prev => ({
+          ...prev,
+          aspectRatio: detectAspectRatio(preprocessing.aspectRatio, 1),
+          artworkAspectRatio: preprocessing.aspectRatio,
+          artworkPreprocessing: preprocessing
+        }));
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.error('Artwork pre-processing failed:', e);
+        toast('Could not read that image.', 'error');
+      })
+      .finally(() => { if (!cancelled) setIsPreprocessing(false); });
+    return () => { cancelled = true; };
+  }, [sourceFile, preprocessOptions]);
+
   // Close upscale popover when clicking outside
   useEffect(() => {
     if (!upscalePopoverId) return;
@@ -337,18 +509,88 @@ const App: React.FC = () => {
     }
   }, [results, storageInitialized]);
 
+  /**
+   * Loads the account's local data (each account on this browser has its own),
+   * merges the first cloud page, starts sync and resumes background jobs.
+   * Runs on load when already signed in, and right after signing in.
+   */
+  const openWorkspace = async (userId: string) => {
+    try {
+      await storageService.init(userId);
+      const savedResults = await storageService.loadAllResults();
+      // One-time move of inline images into the blob store; in-memory results keep working as-is
+      storageService.migrateLegacyImages().catch(e => console.warn('Blob migration failed:', e));
+      if (savedResults.length > 0) {
+        console.log(`Loaded ${savedResults.length} saved results from storage`);
+        setResults(savedResults);
+        setCompositeResults(savedResults.filter(r => r.variantType === "composite"));
+      }
+      // Load artwork library
+      const savedArtwork = await storageService.loadAllArtwork();
+      if (savedArtwork.length > 0) {
+        console.log(`Loaded ${savedArtwork.length} artworks from library`);
+        setArtworkLibrary(savedArtwork);
+      }
+      // Load source photo library
+      const savedSourcePhotos = await storageService.loadAllSourcePhotos();
+      if (savedSourcePhotos.length > 0) {
+        console.log(`Loaded ${savedSourcePhotos.length} source photos from library`);
+        setSourcePhotoLibrary(savedSourcePhotos);
+      }
+      // Projects (reconciled with the cloud)
+      const savedProjects = await projectService.sync();
+      setProjects(savedProjects);
+      setActiveProjectId(prev => prev && savedProjects.some(p => p.id === prev) ? prev : null);
+      setSceneTemplates(await sceneTemplateService.sync());
+      setStylePresets(await stylePresetService.sync());
+      setCustomVibes(await customVibeService.sync());
+      setExperiments(await storageService.loadAllPromptExperiments());
+      setStorageInitialized(true);
+
+      // Step: Fetch from cloud and merge (cloud wins on conflicts)
+      try {
+        const page = await cloudStorageService.fetchPage({ limit: CLOUD_PAGE_SIZE });
+        mergeCloudResults(page.items);
+        setCloudCursor(page.nextCursor);
+      } catch (cloudError) {
+        console.warn('Cloud sync failed, using local results:', cloudError);
+      }
+      // Push offline changes and follow other devices from here on
+      syncService.start(userId, applyRemoteChanges).catch(e => console.warn('Sync start failed:', e));
+
+      // Resume watching server jobs from before the reload
+      try {
+        const [watched, active] = await Promise.all([
+          jobService.fetchJobs(jobService.watchedIds()),
+          jobService.fetchActive(),
+        ]);
+        const byId = new Map([...active, ...watched].map(j => [j.id, j]));
+        const finished = [...byId.values()].filter(j => isTerminalStatus(j.status));
+        setBackgroundJobs([...byId.values()].filter(j => !isTerminalStatus(j.status)));
+        finished.forEach(j => collectFinishedJob(j));
+      } catch (jobError) {
+        console.warn('Could not resume background jobs:', jobError);
+      }
+    } catch (storageError) {
+      console.error('Failed to initialize storage:', storageError);
+      // Continue without storage - app still works
+    }
+  };
+
   useEffect(() => {
     const init = async () => {
       // Step 0: Check existing JWT (client-side expiry check)
       const raw = localStorage.getItem(TOKEN_KEY);
-      let authed = false;
+      let authedUserId: string | null = null;
       if (raw) {
         try {
           const b64 = raw.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
           const payload = JSON.parse(atob(b64));
-          if (payload.exp * 1000 > Date.now()) {
-            authed = true;
+          // Tokens from before accounts carry no user (`sub`) and must sign in again
+          if (payload.exp * 1000 > Date.now() && payload.sub && !inviteToken) {
+            authedUserId = payload.sub;
             setIsAuthenticated(true);
+            setCurrentUser(accountService.currentUser());
           } else {
             localStorage.removeItem(TOKEN_KEY);
           }
@@ -368,49 +610,8 @@ const App: React.FC = () => {
         const authorized = await checkApiKey();
         setHasKey(authorized);
 
-        // Initialize storage and load saved results
-        try {
-          await storageService.init();
-          const savedResults = await storageService.loadAllResults();
-          if (savedResults.length > 0) {
-            console.log(`Loaded ${savedResults.length} saved results from storage`);
-            setResults(savedResults);
-            setCompositeResults(savedResults.filter(r => r.variantType === "composite"));
-          }
-          // Load artwork library
-          const savedArtwork = await storageService.loadAllArtwork();
-          if (savedArtwork.length > 0) {
-            console.log(`Loaded ${savedArtwork.length} artworks from library`);
-            setArtworkLibrary(savedArtwork);
-          }
-          // Load source photo library
-          const savedSourcePhotos = await storageService.loadAllSourcePhotos();
-          if (savedSourcePhotos.length > 0) {
-            console.log(`Loaded ${savedSourcePhotos.length} source photos from library`);
-            setSourcePhotoLibrary(savedSourcePhotos);
-          }
-          setStorageInitialized(true);
-
-          // Step: Fetch from cloud and merge (cloud wins on conflicts)
-          if (authed) {
-            try {
-              const cloudResults = await cloudStorageService.fetchAll();
-              if (cloudResults.length > 0) {
-                console.log(`Loaded ${cloudResults.length} results from cloud`);
-                setResults(prev => mergeResults(cloudResults, prev));
-                setCompositeResults(prev => {
-                  const merged = mergeResults(cloudResults.filter(r => r.variantType === "composite"), prev);
-                  return merged.filter(r => r.variantType === "composite");
-                });
-              }
-            } catch (cloudError) {
-              console.warn('Cloud sync failed, using local results:', cloudError);
-            }
-          }
-        } catch (storageError) {
-          console.error('Failed to initialize storage:', storageError);
-          // Continue without storage - app still works
-        }
+        // Open the signed-in account's local data and start following the cloud
+        if (authedUserId) await openWorkspace(authedUserId);
       } finally {
         setIsBootstrappingKey(false);
       }
@@ -418,31 +619,79 @@ const App: React.FC = () => {
     init();
   }, []);
 
+  const mergeCloudResults = (page: MockupResult[]) => {
+    const cloudResults = syncService.withoutPendingDeletes(page);
+    if (cloudResults.length === 0) return;
+    console.log(`Loaded ${cloudResults.length} results from cloud`);
+    setResults(prev => mergeResults(cloudResults, prev));
+    setCompositeResults(prev => {
+      const merged = mergeResults(cloudResults.filter(r => r.variantType === "composite"), prev);
+      return merged.filter(r => r.variantType === "composite");
+    });
+  };
+
+  const applyRemoteChanges = ({ upserts, deletedIds }: RemoteChanges) => {
+    const deleted = new Set(deletedIds);
+    setResults(prev => mergeResults(upserts, prev.filter(r => !deleted.has(r.id))));
+    setCompositeResults(prev => mergeResults(
+      upserts.filter(r => r.variantType === "composite"),
+      prev.filter(r => !deleted.has(r.id))
+    ));
+  };
+
+  const loadMoreCloudResults = async () => {
+    if (!cloudCursor || isLoadingCloudPage) return;
+    setIsLoadingCloudPage(true);
+    try {
+      const page = await cloudStorageService.fetchPage({ limit: CLOUD_PAGE_SIZE, cursor: cloudCursor });
+      mergeCloudResults(page.items);
+      setCloudCursor(page.nextCursor);
+    } catch (e) {
+      console.warn('Loading more cloud results failed:', e);
+    } finally {
+      setIsLoadingCloudPage(false);
+    }
+  };
+
+  // Infinite scroll: fetch the next cloud page when the end of the gallery comes into view
+  useEffect(() => {
+    const sentinel = gallerySentinelRef.current;
+    if (!sentinel || !cloudCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) loadMoreCloudResults();
+    }, { rootMargin: '600px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [cloudCursor, isLoadingCloudPage, activeTab]);
+
   // --- Password Gate ---
   const handlePasswordSubmit = async () => {
-    if (!passwordInput.trim()) return;
+    if (!passwordInput.trim() || (!inviteToken && !emailInput.trim())) return;
     setIsAuthenticating(true);
     setAuthError("");
     try {
-      const res = await fetch('/api/auth', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password: passwordInput }),
-      });
-      if (!res.ok) {
-        setAuthError("Invalid password. Please try again.");
-        return;
-      }
-      const { token } = await res.json();
-      localStorage.setItem(TOKEN_KEY, token);
+      const user = await accountService.signIn(inviteToken
+        ? { inviteToken, password: passwordInput }
+        : { email: emailInput.trim(), password: passwordInput });
+      if (inviteToken) window.history.replaceState(null, "", window.location.pathname);
+      setCurrentUser(user);
       setIsAuthenticated(true);
-    } catch (e) {
-      setAuthError("Connection error. Please try again.");
+      openWorkspace(user.id);
+    } catch (e: any) {
+      setAuthError(e instanceof TypeError ? "Connection error. Please try again." : e.message);
     } finally {
       setIsAuthenticating(false);
     }
   };
 
+  // In-memory state belongs to the account that is leaving; a reload starts clean at the gate
+  const handleSignOut = () => {
+    syncService.stop();
+    storageService.close();
+    accountService.signOut();
+    window.location.reload();
+  };
+
   // Basic API key validation
   const validateApiKey = (key: string): string | null => {
     const normalized = normalizeApiKey(key);
@@ -494,16 +743,112 @@ const App: React.FC = () => {
     }
   };
 
+  const handleGenerationBackendChange = (backend: GenerationBackend) => {
+    serverGeneration.setGenerationBackend(backend);
+    setGenerationBackend(backend);
+  };
+
+  // --- Background Jobs (server backend) ---
+  const enqueueJobs = async (requests: JobRequest[], batchId?: string) => {
+    try {
+      // Jobs derived from an existing result carry its projectId; new work lands in the active project
+      const created = await jobService.enqueue(requests.map(r => ({ projectId: activeProjectId ?? undefined, ...r })), batchId);
+      setBackgroundJobs(prev => [...created, ...prev]);
+      toast(`Queued ${created.length} job${created.length === 1 ? '' : 's'}. Safe to close this tab.`, 'info');
+    } catch (e) {
+      console.error(e);
+      toast('Could not queue jobs. Please try again.', 'error');
+    }
+  };
+
+  const collectFinishedJob = async (job: GenerationJob) => {
+    jobService.unwatch([job.id]);
+    if (job.status === 'failed') {
+      toast(`Job failed: ${job.error || job.label}`, 'error');
+      return;
+    }
+    if (job.status !== 'succeeded' || !job.results?.length) return;
+
+    // The worker already saved these to the cloud
+    let collected = job.results;
+    if (job.kind === 'contactSheet' && job.frameGrid) {
+      const sheet = job.results[0];
+      try {
+        const frames = await extractContactSheetFrames(await storageService.resolveImage(sheet.imageUrl), job.frameGrid.gridSize, job.frameGrid.cameraAngles);
+        const frameResults: MockupResult[] = frames.map((frame, idx) => ({
+          id: `${sheet.id}-frame-${idx}`,
+          imageUrl: frame.imageUrl,
+          prompt: `${job.frameGrid!.framePrompt} (${frame.cameraAngle})`,
+          createdAt: sheet.createdAt + idx + 1,
+          isHighRes: true,
+          extractedFrom: sheet.id,
+          cameraAngle: frame.cameraAngle,
+          variantType: sheet.variantType,
+          aspectRatio: sheet.aspectRatio,
+          projectId: sheet.projectId
+        }));
+        syncService.recordUpsert(frameResults);
+        collected = [...collected, ...frameResults];
+      } catch (e) {
+        console.error('Frame extraction failed:', e);
+      }
+    }
+
+    setResults(prev => mergeResults(collected, prev));
+    const composites = collected.filter(r => r.variantType === "composite");
+    if (composites.length > 0) setCompositeResults(prev => mergeResults(composites, prev));
+  };
+
+  const handleCancelJob = async (id: string) => {
+    try {
+      await jobService.cancel(id);
+      jobService.unwatch([id]);
+      setBackgroundJobs(prev => prev.filter(j => j.id !== id));
+    } catch (e) {
+      console.error(e);
+      toast('Could not cancel job.', 'error');
+    }
+  };
+
+  const pendingJobIds = backgroundJobs.map(j => j.id).join(',');
+  useEffect(() => {
+    if (!pendingJobIds) return;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const updated = await jobService.fetchJobs(pendingJobIds.split(','));
+        if (stopped) return;
+        const finished = updated.filter(j => isTerminalStatus(j.status));
+        setBackgroundJobs(prev => prev
+          .map(j => updated.find(u => u.id === j.id) ?? j)
+          .filter(j => !isTerminalStatus(j.status)));
+        for (const job of finished) await collectFinishedJob(job);
+        // A worker run stops claiming after a while; start another if our jobs are stuck in the queue
+        if (updated.some(j => j.status === 'queued') && !updated.some(j => j.status === 'running')) {
+          jobService.kickWorker();
+        }
+      } catch (e) {
+        console.warn('Job poll failed:', e);
+      }
+      if (!stopped) timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+    };
+
+    timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+    return () => { stopped = true; clearTimeout(timer); };
+  }, [pendingJobIds]);
+
   // --- Magic Analysis ---
-  const handleMagicAnalysis = async (imageOverride?: string, vibeOverride?: AnalysisVibe) => {
+  const handleMagicAnalysis = async (imageOverride?: string, vibeOverride?: AnalysisVibe | CustomVibe) => {
     const imgToUse = imageOverride || sourceImage;
     if (!imgToUse) return;
-    const vibeToUse = vibeOverride || analysisVibe;
+    const vibeToUse = vibeOverride || selectedVibe;
     
     setIsAnalyzing(true);
-    setEditablePrompts([{ id: 'loading', text: `✨ Analyzing for "${vibeToUse}" vibe...` }]);
+    setEditablePrompts([{ id: 'loading', text: `✨ Analyzing for "${typeof vibeToUse === 'string' ? vibeToUse : vibeToUse.name}" vibe...` }]);
     try {
-      const suggestions = await analyzeImageForPrompts(imgToUse, vibeToUse);
+      const suggestions = await generation.analyzeImageForPrompts(imgToUse, vibeToUse);
       if (suggestions.length > 0) {
         const newPrompts = suggestions.map(s => ({ id: crypto.randomUUID(), text: s }));
         setEditablePrompts(newPrompts);
@@ -527,7 +872,7 @@ const App: React.FC = () => {
         .filter(p => p.id !== id)
         .map(p => p.text);
 
-      const newText = await regenerateSinglePrompt(sourceImage, analysisVibe, otherPrompts);
+      const newText = await generation.regenerateSinglePrompt(sourceImage, selectedVibe, otherPrompts);
       setEditablePrompts(prev => prev.map(p => p.id === id ? {...p, text: newText, isRegenerating: false} : p));
     } catch (e) {
       console.error(e);
@@ -550,26 +895,11 @@ const App: React.FC = () => {
   };
   const processFile = (file: File) => {
     if (!file) return;
-    if (file.type !== 'image/jpeg' && file.type !== 'image/jpg') {
-      toast('Please upload a JPEG image.', 'error');
+    if (!ACCEPTED_ARTWORK_TYPES.includes(file.type)) {
+      toast('Please upload a JPEG, PNG or WebP image.', 'error');
       return;
     }
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      setSourceImage(result);
-
-      const img = new Image();
-      img.onload = () => {
-        setSettings(prev => ({
-          ...prev,
-          aspectRatio: detectAspectRatio(img.width, img.height),
-          artworkAspectRatio: img.width / img.height
-        }));
-      };
-      img.src = result;
-    };
-    reader.readAsDataURL(file);
+    setSourceFile(file);
   };
 
   // --- Style Reference Upload ---
@@ -598,11 +928,160 @@ const App: React.FC = () => {
     reader.readAsDataURL(file);
   };
 
+  // --- Style Presets ---
+  const handleApplyStylePreset = async (preset: StylePreset) => {
+    let reference: string | null = null;
+    if (preset.styleReferenceImage) {
+      try {
+        reference = await storageService.resolveImage(preset.styleReferenceImage);
+      } catch (e) {
+        console.warn("Preset style reference unavailable:", e);
+        toast(`The style reference of "${preset.name}" isn't available offline; loaded the rest.`, 'info');
+      }
+    }
+    setSelectedFrames(preset.frames);
+    setSelectedLighting(preset.lighting);
+    setSelectedTextures(preset.textures);
+    setAnalysisVibe(preset.analysisVibe);
+    // A preset whose custom vibe has since been deleted falls back to its built-in one
+    setCustomVibeId(preset.customVibeId && customVibes.some(v => v.id === preset.customVibeId) ? preset.customVibeId : null);
+    // Optional fields the preset leaves out are cleared rather than kept from the last session
+    setSettings(prev => ({ ...prev, customPrintSize: undefined, sceneReference: undefined, frameSpec: undefined, promptTemplate: undefined, qualityCheck: undefined, productType: undefined, ...preset.settings }));
+    setStyleReferenceImage(reference);
+    setActivePresetId(preset.id);
+  };
+
+  const saveStylePreset = async (preset: StylePreset) => {
+    try {
+      const saved = await stylePresetService.save({
+        ...preset,
+        frames: selectedFrames,
+        lighting: selectedLighting,
+        textures: selectedTextures,
+        analysisVibe,
+        customVibeId: activeCustomVibe?.id,
+        settings: presetSettings(settings),
+        styleReferenceImage: styleReferenceImage ?? undefined
+      });
+      setStylePresets(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setActivePresetId(saved.id);
+      toast(`Saved preset "${saved.name}"`, 'success');
+    } catch (e) {
+      console.error("Failed to save style preset:", e);
+      toast('Could not save the preset.', 'error');
+    }
+  };
+
+  const handleSaveNewStylePreset = (name: string) => {
+    const now = Date.now();
+    saveStylePreset({
+      id: crypto.randomUUID(), name, frames: [], lighting: [], textures: [], analysisVibe,
+      settings: presetSettings(settings), createdAt: now, updatedAt: now
+    });
+  };
+
+  const handleDeleteStylePreset = async (preset: StylePreset) => {
+    if (!confirm(`Delete preset "${preset.name}" for the whole team?`)) return;
+    try {
+      await stylePresetService.remove(preset);
+    } catch (e) {
+      console.error("Failed to delete style preset:", e);
+      toast('Could not delete the preset.', 'error');
+      return;
+    }
+    setStylePresets(prev => prev.filter(p => p.id !== preset.id));
+    if (activePresetId === preset.id) setActivePresetId(null);
+  };
+
+  // --- Custom Vibes ---
+  const handleNewCustomVibe = () => {
+    const now = Date.now();
+    const { systemPrompt, imperfections, atmospheric, sceneDressing, realismLevel, ambientDetails, negatives } = getVibeProfile(analysisVibe);
+    setEditingVibe({
+      id: crypto.randomUUID(), name: '', systemPrompt, imperfections, atmospheric, sceneDressing, realismLevel, ambientDetails, negatives,
+      createdAt: now, updatedAt: now
+    });
+  };
+
+  const handleSaveCustomVibe = async (vibe: CustomVibe) => {
+    try {
+      const saved = await customVibeService.save(vibe);
+      setCustomVibes(prev => [...prev.filter(v => v.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setCustomVibeId(saved.id);
+      setEditingVibe(null);
+      toast(`Saved vibe "${saved.name}"`, 'success');
+    } catch (e) {
+      console.error("Failed to save custom vibe:", e);
+      toast('Could not save the vibe.', 'error');
+    }
+  };
+
+  const handleDeleteCustomVibe = async (vibe: CustomVibe) => {
+    if (!confirm(`Delete vibe "${vibe.name}" for the whole team?`)) return;
+    try {
+      await customVibeService.remove(vibe);
+    } catch (e) {
+      console.error("Failed to delete custom vibe:", e);
+      toast('Could not delete the vibe.', 'error');
+      return;
+    }
+    setCustomVibes(prev => prev.filter(v => v.id !== vibe.id));
+    if (customVibeId === vibe.id) setCustomVibeId(null);
+    setEditingVibe(null);
+  };
+
   // --- Generation Helpers ---
   const handleGenerateBatch = async () => {
     if (!sourceImage) return;
     if (editablePrompts.length === 0) return;
 
+    // LOGIC: Round-robin through user selected constraints
+    const settingsForPrompt = (text: string, index: number): GenerationSettings => ({
+        ...settings,
+        prompt: text,
+        count: 1,
+        frameStyle: selectedFrames[index % selectedFrames.length],
+        lighting: selectedLighting[index % selectedLighting.length],
+        wallTexture: selectedTextures[index % selectedTextures.length],
+        analysisVibe: analysisVibe,
+        customVibe: activeCustomVibe,
+        styleReferenceImage: styleReferenceImage || undefined,
+        artworkSet: isWallArt ? activeArtworkSet : undefined
+    });
+
+    // Global macro add-on: exactly +2 macro shots total (not per prompt)
+    const macroPrompt = editablePrompts[0].text;
+    const macroSettings: GenerationSettings = {
+      ...settings,
+      prompt: macroPrompt,
+      count: 2,
+      imageSize: settings.imageSize === "1K" ? "2K" : settings.imageSize,
+      frameStyle: selectedFrames[0] ?? settings.frameStyle,
+      lighting: selectedLighting[0] ?? settings.lighting,
+      wallTexture: selectedTextures[0] ?? settings.wallTexture,
+      analysisVibe: analysisVibe,
+      customVibe: activeCustomVibe,
+      styleReferenceImage: styleReferenceImage || undefined,
+      artworkSet: isWallArt ? activeArtworkSet : undefined
+    };
+
+    if (generationBackend === "server") {
+      const requests: JobRequest[] = editablePrompts.map((promptObj, index) => ({
+        kind: "mockup",
+        label: promptObj.text,
+        input: { artwork: sourceImage, settings: settingsForPrompt(promptObj.text, index), variantType: "standard" }
+      }));
+      if (settings.macroMode) {
+        requests.push({
+          kind: "mockup",
+          label: `${macroPrompt} (Macro)`,
+          input: { artwork: sourceImage, settings: macroSettings, macro: true, variantType: "macro" }
+        });
+      }
+      await enqueueJobs(requests, crypto.randomUUID());
+      return;
+    }
+
     setIsGenerating(true);
     
     try {
@@ -615,36 +1094,24 @@ const App: React.FC = () => {
                await new Promise(resolve => setTimeout(resolve, 2500));
             }
 
-            // LOGIC: Round-robin through user selected constraints
-            const frame = selectedFrames[index % selectedFrames.length];
-            const light = selectedLighting[index % selectedLighting.length];
-            const texture = selectedTextures[index % selectedTextures.length];
-
-            const baseSettings: GenerationSettings = {
-                ...settings,
-                prompt: promptObj.text,
-                count: 1,
-                frameStyle: frame,
-                lighting: light,
-                wallTexture: texture,
-                analysisVibe: analysisVibe,
-                styleReferenceImage: styleReferenceImage || undefined
-            };
+            const baseSettings = settingsForPrompt(promptObj.text, index);
 
             const promptResults: MockupResult[] = [];
             
             // Standard shot
             try {
-                const images = await generateMockup(sourceImage, baseSettings);
+                const images = await generation.generateMockup(sourceImage, baseSettings);
                 promptResults.push(
-                  ...images.map(img => ({
+                  ...images.map(({ imageUrl, generation: record }) => ({
                     id: crypto.randomUUID(),
-                    imageUrl: img,
+                    imageUrl,
+                    generation: { ...record, settings: baseSettings, sourceArtwork: sourceImage },
                     prompt: promptObj.text,
                     createdAt: Date.now(),
                     isHighRes: baseSettings.imageSize === '4K',
                     variantType: "standard" as const,
-                    aspectRatio: baseSettings.aspectRatio
+                    aspectRatio: baseSettings.aspectRatio,
+                    projectId: activeProjectId ?? undefined
                   }))
                 );
             } catch (e) {
@@ -657,35 +1124,22 @@ const App: React.FC = () => {
         const batchResults = await Promise.all(batchPromises);
         const allResults: MockupResult[] = batchResults.flat();
 
-        // Global macro add-on: exactly +2 macro shots total (not per prompt)
-        if (settings.macroMode && editablePrompts.length > 0) {
-          const macroPrompt = editablePrompts[0].text;
-          const macroImageSize = settings.imageSize === "1K" ? "2K" : settings.imageSize;
-          const macroSettings: GenerationSettings = {
-            ...settings,
-            prompt: macroPrompt,
-            count: 2,
-            imageSize: macroImageSize,
-            frameStyle: selectedFrames[0] ?? settings.frameStyle,
-            lighting: selectedLighting[0] ?? settings.lighting,
-            wallTexture: selectedTextures[0] ?? settings.wallTexture,
-            analysisVibe: analysisVibe,
-            styleReferenceImage: styleReferenceImage || undefined
-          };
-
+        if (settings.macroMode) {
           setLoadingMessage("Generating +2 macro detail shots...");
 
           try {
-            const macroImages = await generateMockup(sourceImage, macroSettings, { macro: true });
+            const macroImages = await generation.generateMockup(sourceImage, macroSettings, { macro: true });
             allResults.push(
-              ...macroImages.map(img => ({
+              ...macroImages.map(({ imageUrl, generation: record }) => ({
                 id: crypto.randomUUID(),
-                imageUrl: img,
+                imageUrl,
+                generation: { ...record, settings: macroSettings, sourceArtwork: sourceImage },
                 prompt: `${macroPrompt} (Macro)`,
                 createdAt: Date.now(),
                 isHighRes: macroSettings.imageSize === '4K',
                 variantType: "macro" as const,
-                aspectRatio: macroSettings.aspectRatio
+                aspectRatio: macroSettings.aspectRatio,
+                projectId: activeProjectId ?? undefined
               }))
             );
           } catch (macroError) {
@@ -695,7 +1149,7 @@ const App: React.FC = () => {
 
         if (allResults.length === 0) throw new Error("Batch generation yielded no results.");
         setResults(prev => [...allResults, ...prev]);
-        allResults.forEach(r => cloudStorageService.saveResult(r).catch(e => console.warn('Cloud save failed:', e)));
+        syncService.recordUpsert(allResults);
     } catch (e) {
         console.error(e);
         toast('Some images failed to generate.', 'error');
@@ -705,28 +1159,122 @@ const App: React.FC = () => {
     }
   };
 
+  // --- Template Experiments ---
+  // Renders the first prompt with the current template and a built-in one, in random order, for a blind pick
+  const handleRunExperiment = async () => {
+    const challenger = BUILT_IN_TEMPLATES.find(t => t.name === challengerName);
+    if (!sourceImage || editablePrompts.length === 0 || !challenger) return;
+
+    const prompt = editablePrompts[0].text;
+    const baseSettings: GenerationSettings = {
+      ...settings,
+      prompt,
+      count: 1,
+      frameStyle: selectedFrames[0] ?? settings.frameStyle,
+      lighting: selectedLighting[0] ?? settings.lighting,
+      wallTexture: selectedTextures[0] ?? settings.wallTexture,
+      analysisVibe: analysisVibe,
+      customVibe: activeCustomVibe,
+      styleReferenceImage: styleReferenceImage || undefined,
+      artworkSet: isWallArt ? activeArtworkSet : undefined
+    };
+    const arms = [
+      { label: templateName(settings.promptTemplate), template: normalizePromptTemplate(settings.promptTemplate) ?? {} },
+      { label: challenger.name, template: challenger.template },
+    ];
+    if (Math.random() < 0.5) arms.reverse();
+
+    setIsGenerating(true);
+    try {
+      const rendered: MockupResult[] = [];
+      for (const [index, arm] of arms.entries()) {
+        setLoadingMessage(`Rendering template ${index === 0 ? 'A' : 'B'}...`);
+        const armSettings: GenerationSettings = { ...baseSettings, promptTemplate: normalizePromptTemplate(arm.template) };
+        const [image] = await generation.generateMockup(sourceImage, armSettings);
+        if (!image) throw new Error("Experiment render yielded no image.");
+        rendered.push({
+          id: crypto.randomUUID(),
+          imageUrl: image.imageUrl,
+          generation: { ...image.generation, settings: armSettings, sourceArtwork: sourceImage },
+          prompt,
+          createdAt: Date.now(),
+          isHighRes: armSettings.imageSize === '4K',
+          variantType: "standard",
+          aspectRatio: armSettings.aspectRatio,
+          projectId: activeProjectId ?? undefined
+        });
+      }
+      setResults(prev => [...rendered, ...prev]);
+      syncService.recordUpsert(rendered);
+
+      const experiment: PromptExperiment = {
+        id: crypto.randomUUID(),
+        prompt,
+        variants: [
+          { label: arms[0].label, template: arms[0].template, resultId: rendered[0].id },
+          { label: arms[1].label, template: arms[1].template, resultId: rendered[1].id },
+        ],
+        createdAt: Date.now()
+      };
+      await storageService.savePromptExperiment(experiment);
+      setExperiments(prev => [experiment, ...prev]);
+      setActiveExperiment({ experiment, images: [rendered[0].imageUrl, rendered[1].imageUrl] });
+    } catch (e) {
+      console.error("Template experiment failed:", e);
+      toast('The experiment failed to render.', 'error');
+    } finally {
+      setIsGenerating(false);
+      setLoadingMessage("");
+    }
+  };
+
+  const handlePickExperimentVariant = async (index: 0 | 1) => {
+    if (!activeExperiment) return;
+    const picked: PromptExperiment = { ...activeExperiment.experiment, pickedIndex: index, pickedAt: Date.now() };
+    setActiveExperiment(prev => prev && { ...prev, experiment: picked });
+    setExperiments(prev => prev.map(e => e.id === picked.id ? picked : e));
+    try {
+      await storageService.savePromptExperiment(picked);
+    } catch (e) {
+      console.error("Failed to record experiment pick:", e);
+      toast('Could not record your pick.', 'error');
+    }
+  };
+
   const handleUpscale = async (result: MockupResult, size: '2K' | '4K') => {
     setUpscalePopoverId(null);
+    if (generationBackend === "server") {
+      await enqueueJobs([{
+        kind: "upscale",
+        label: result.prompt,
+        projectId: result.projectId,
+        input: { image: await storageService.resolveImage(result.imageUrl), targetSize: size, aspectRatio: result.aspectRatio || settings.aspectRatio, variantType: result.variantType, upscaledFrom: result.id }
+      }]);
+      return;
+    }
     setUpscalingId(result.id);
     try {
-      const upscaledUrl = await upscaleMockupWithGemini(
-        result.imageUrl,
+      const upscaled = await generation.upscaleMockupWithGemini(
+        await storageService.resolveImage(result.imageUrl),
         result.prompt,
         size,
         result.aspectRatio || settings.aspectRatio
       );
       const newResult: MockupResult = {
         id: crypto.randomUUID(),
-        imageUrl: upscaledUrl,
+        imageUrl: upscaled.imageUrl,
+        generation: upscaled.generation,
         prompt: result.prompt,
         createdAt: Date.now(),
         isHighRes: true,
         upscaleSize: size,
         variantType: result.variantType || 'standard',
         aspectRatio: result.aspectRatio || settings.aspectRatio,
+        upscaledFrom: result.id,
+        projectId: result.projectId,
       };
       setResults(prev => [newResult, ...prev]);
-      cloudStorageService.saveResult(newResult).catch(e => console.warn('Cloud save failed:', e));
+      syncService.recordUpsert([newResult]);
     } catch (e) {
       console.error(e);
       toast('Enhancement failed. Please try again.', 'error');
@@ -758,13 +1306,22 @@ const App: React.FC = () => {
         prompt: result.prompt,
         generationMode: "batch",
         imageSize: "4K", // Upgrade to 4K
-        analysisVibe: analysisVibe
+        analysisVibe: analysisVibe,
+        customVibe: activeCustomVibe
       };
 
-      const { generateContactSheet, extractContactSheetFrames } = await import('./services/geminiService');
+      if (generationBackend === "server") {
+        await enqueueJobs([{
+          kind: "contactSheet",
+          label: result.prompt,
+          projectId: result.projectId,
+          input: { artwork: sourceImage, settings: upscaleSettings, cameraAngles: defaultAngles, gridSize: "2x3", variantType: result.variantType, upscaledFrom: result.id }
+        }]);
+        return;
+      }
 
       // Generate 4K contact sheet
-      const contactSheetUrl = await generateContactSheet(
+      const contactSheet = await generation.generateContactSheet(
         sourceImage,
         upscaleSettings,
         defaultAngles
@@ -772,7 +1329,7 @@ const App: React.FC = () => {
 
       // Extract frames
       const extractedFrames = await extractContactSheetFrames(
-        contactSheetUrl,
+        contactSheet.imageUrl,
         "2x3",
         defaultAngles
       );
@@ -780,13 +1337,16 @@ const App: React.FC = () => {
       // Create high-res contact sheet result
       const contactSheetResult: MockupResult = {
         id: crypto.randomUUID(),
-        imageUrl: contactSheetUrl,
+        imageUrl: contactSheet.imageUrl,
+        generation: { ...contactSheet.generation, settings: upscaleSettings, sourceArtwork: sourceImage },
+        upscaledFrom: result.id,
         prompt: result.prompt,
         createdAt: Date.now(),
         isHighRes: true,
         isContactSheet: true,
         variantType: result.variantType,
-        aspectRatio: upscaleSettings.aspectRatio
+        aspectRatio: upscaleSettings.aspectRatio,
+        projectId: result.projectId
       };
 
       // Create high-res extracted frame results
@@ -799,13 +1359,13 @@ const App: React.FC = () => {
         extractedFrom: contactSheetResult.id,
         cameraAngle: frame.cameraAngle,
         variantType: result.variantType,
-        aspectRatio: upscaleSettings.aspectRatio
+        aspectRatio: upscaleSettings.aspectRatio,
+        projectId: result.projectId
       }));
 
       // Add all results to gallery
       setResults(prev => [contactSheetResult, ...frameResults, ...prev]);
-      cloudStorageService.saveResult(contactSheetResult).catch(e => console.warn('Cloud save failed:', e));
-      frameResults.forEach(r => cloudStorageService.saveResult(r).catch(e => console.warn('Cloud save failed:', e)));
+      syncService.recordUpsert([contactSheetResult, ...frameResults]);
 
     } catch (e) {
       console.error(e);
@@ -816,6 +1376,59 @@ const App: React.FC = () => {
     }
   };
 
+  // Re-rolls a result from its recorded provenance; with overrides this is "vary this"
+  const handleRegenerate = async (result: MockupResult, overrides: VariationOverrides = {}) => {
+    setVaryingResult(null);
+    const regenSettings = regenerationSettings(result, overrides);
+    if (!regenSettings || !result.generation?.sourceArtwork) {
+      toast('This result has no recorded settings to regenerate from.', 'error');
+      return;
+    }
+
+    setRegeneratingId(result.id);
+    try {
+      const artwork = await storageService.resolveImage(result.generation.sourceArtwork);
+      const resolvedSettings: GenerationSettings = {
+        ...regenSettings,
+        styleReferenceImage: regenSettings.styleReferenceImage && await storageService.resolveImage(regenSettings.styleReferenceImage),
+        artworkSet: regenSettings.artworkSet && await mapPanelImages(regenSettings.artworkSet, value => storageService.resolveImage(value)),
+      };
+      const macro = result.variantType === "macro";
+      const derivedFrom = variantRootId(result);
+
+      if (generationBackend === "server") {
+        await enqueueJobs([{
+          kind: "mockup",
+          label: result.prompt,
+          projectId: result.projectId,
+          input: { artwork, settings: resolvedSettings, macro, variantType: macro ? "macro" : "standard", derivedFrom }
+        }]);
+        return;
+      }
+
+      const images = await generation.generateMockup(artwork, resolvedSettings, { macro });
+      const newResults: MockupResult[] = images.map(({ imageUrl, generation: record }) => ({
+        id: crypto.randomUUID(),
+        imageUrl,
+        generation: { ...record, settings: resolvedSettings, sourceArtwork: artwork },
+        prompt: result.prompt,
+        createdAt: Date.now(),
+        isHighRes: resolvedSettings.imageSize === '4K',
+        variantType: macro ? "macro" as const : "standard" as const,
+        aspectRatio: resolvedSettings.aspectRatio,
+        derivedFrom,
+        projectId: result.projectId
+      }));
+      setResults(prev => [...newResults, ...prev]);
+      syncService.recordUpsert(newResults);
+    } catch (e) {
+      console.error(e);
+      toast('Regeneration failed. Please try again.', 'error');
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
   // --- Helper Functions ---
   const updatePrompt = (id: string, newText: string) => {
     setEditablePrompts(prev => prev.map(p => p.id === id ? {...p, text: newText} : p));
@@ -838,7 +1451,7 @@ const App: React.FC = () => {
         console.error('Failed to delete from storage:', err);
       }
     }
-    cloudStorageService.deleteResult(id).catch(e => console.warn('Cloud delete failed:', e));
+    syncService.recordDelete([id]);
   };
 
   const clearHistory = async () => {
@@ -880,45 +1493,58 @@ const App: React.FC = () => {
         prompt: result.prompt,
         generationMode: "batch", // Not used in prompt building, but required by type
         imageSize: "1K", // Generate at 1K for speed, can upgrade to 4K later
-        analysisVibe: analysisVibe
+        analysisVibe: analysisVibe,
+        customVibe: activeCustomVibe
       };
 
-      // Step 1: Generate contact sheet
-      const { generateContactSheet, extractContactSheetFrames } = await import('./services/geminiService');
+      if (generationBackend === "server") {
+        await enqueueJobs([{
+          kind: "contactSheet",
+          label: `Contact Sheet: ${result.prompt}`,
+          projectId: result.projectId,
+          input: { artwork: sourceImage, settings: contactSheetSettings, cameraAngles: defaultAngles, gridSize: "2x3", variantType: result.variantType, derivedFrom: result.id }
+        }]);
+        setLoadingMessage("");
+        return;
+      }
 
+      // Step 1: Generate contact sheet
       console.log("Generating contact sheet from result:", {
         resultId: result.id,
         prompt: result.prompt,
         angles: defaultAngles.length
       });
 
-      const contactSheetUrl = await generateContactSheet(
+      const contactSheet = await generation.generateContactSheet(
         sourceImage,
         contactSheetSettings,
         defaultAngles
       );
 
       // Add contact sheet to gallery
-      const contactSheetId = `cs-${Date.now()}`;
+      const contactSheetId = crypto.randomUUID();
       const contactSheetResult: MockupResult = {
         id: contactSheetId,
-        imageUrl: contactSheetUrl,
+        imageUrl: contactSheet.imageUrl,
+        generation: { ...contactSheet.generation, settings: contactSheetSettings, sourceArtwork: sourceImage },
+        derivedFrom: result.id,
         prompt: `Contact Sheet: ${result.prompt}`,
         createdAt: Date.now(),
         isHighRes: true,
         isContactSheet: true,
         variantType: result.variantType,
-        aspectRatio: contactSheetSettings.aspectRatio
+        aspectRatio: contactSheetSettings.aspectRatio,
+        projectId: result.projectId
       };
 
       setResults(prev => [contactSheetResult, ...prev]);
-      cloudStorageService.saveResult(contactSheetResult).catch(e => console.warn('Cloud save failed:', e));
+      syncService.recordUpsert([contactSheetResult]);
       setLoadingMessage("Extracting 6 individual frames...");
 
       // Step 2: Extract frames
       console.log("Extracting frames from contact sheet...");
       const extractedFrames = await extractContactSheetFrames(
-        contactSheetUrl,
+        contactSheet.imageUrl,
         "2x3",
         defaultAngles
       );
@@ -935,12 +1561,13 @@ const App: React.FC = () => {
         extractedFrom: contactSheetId,
         cameraAngle: frame.cameraAngle,
         variantType: result.variantType,
-        aspectRatio: contactSheetSettings.aspectRatio
+        aspectRatio: contactSheetSettings.aspectRatio,
+        projectId: result.projectId
       }));
 
       console.log("Adding extracted frames to gallery:", extractedResults.length);
       setResults(prev => [...extractedResults, ...prev]);
-      extractedResults.forEach(r => cloudStorageService.saveResult(r).catch(e => console.warn('Cloud save failed:', e)));
+      syncService.recordUpsert(extractedResults);
       setLoadingMessage("");
 
       toast(`Contact sheet ready — ${extractedFrames.length} frames extracted.`, 'success');
@@ -953,15 +1580,16 @@ const App: React.FC = () => {
     }
   };
 
-  const downloadImage = (dataUrl: string, id: string) => {
+  const downloadImage = async (imageUrl: string, id: string) => {
+    const dataUrl = await storageService.resolveImage(imageUrl);
     const link = document.createElement('a'); link.href = dataUrl; link.download = `mockup-${id}.png`;
     document.body.appendChild(link); link.click(); document.body.removeChild(link);
   };
 
   const downloadAll = () => {
-    if (results.length === 0) return;
+    if (projectResults.length === 0) return;
     if (!confirm("Download all?")) return;
-    results.forEach((result, index) => setTimeout(() => downloadImage(result.imageUrl, result.id), index * 300));
+    projectResults.forEach((result, index) => setTimeout(() => downloadImage(result.imageUrl, result.id), index * 300));
   };
 
   const handleExportData = async () => {
@@ -1001,10 +1629,12 @@ const App: React.FC = () => {
 
       try {
         const text = await file.text();
+        const knownIds = new Set(results.map(r => r.id));
         const count = await storageService.importFromJSON(text);
         // Reload results from storage
         const savedResults = await storageService.loadAllResults();
         setResults(savedResults);
+        syncService.recordUpsert(savedResults.filter(r => !knownIds.has(r.id)));
         toast(`Imported ${count} results.`, 'success');
       } catch (err) {
         console.error('Import failed:', err);
@@ -1014,6 +1644,73 @@ const App: React.FC = () => {
     input.click();
   };
 
+  // --- Projects ---
+
+  const handleSelectProject = (id: string | null) => {
+    setActiveProjectId(id);
+    if (id) localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+    else localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    // Library selections from another project would silently feed the next batch
+    setSelectedLibraryArtworks(new Set());
+    setSelectedLibrarySourcePhotos(new Set());
+  };
+
+  const handleCreateProject = async (name: string) => {
+    try {
+      const project = await projectService.create(name);
+      setProjects(prev => [...prev, project]);
+      handleSelectProject(project.id);
+    } catch (e) {
+      console.error('Failed to create project:', e);
+      toast('Could not create project.', 'error');
+    }
+  };
+
+  const handleRenameProject = async (project: Project, name: string) => {
+    try {
+      const saved = await projectService.save({ ...project, name });
+      setProjects(prev => prev.map(p => p.id === saved.id ? saved : p));
+    } catch (e) {
+      console.error('Failed to rename project:', e);
+      toast('Could not rename project.', 'error');
+    }
+  };
+
+  // Deleting a project keeps its work; results and library items just lose their projectId
+  const handleDeleteProject = async (project: Project) => {
+    try {
+      await projectService.remove(project);
+    } catch (e) {
+      console.error('Failed to delete project:', e);
+      toast('Could not delete project.', 'error');
+      return;
+    }
+    setProjects(prev => prev.filter(p => p.id !== project.id));
+    if (activeProjectId === project.id) handleSelectProject(null);
+
+    const now = Date.now();
+    const unassign = <T extends { projectId?: string }>(item: T): T =>
+      item.projectId === project.id ? { ...item, projectId: undefined } : item;
+    const moved = results.filter(r => r.projectId === project.id).map(r => ({ ...unassign(r), updatedAt: now }));
+    const movedById = new Map(moved.map(r => [r.id, r]));
+    setResults(prev => prev.map(r => movedById.get(r.id) ?? r));
+    setCompositeResults(prev => prev.map(r => movedById.get(r.id) ?? r));
+    syncService.recordUpsert(moved);
+
+    const movedArtwork = artworkLibrary.filter(a => a.projectId === project.id).map(unassign);
+    const movedPhotos = sourcePhotoLibrary.filter(p => p.projectId === project.id).map(unassign);
+    setArtworkLibrary(prev => prev.map(unassign));
+    setSourcePhotoLibrary(prev => prev.map(unassign));
+    if (storageInitialized) {
+      try {
+        for (const item of movedArtwork) await storageService.saveArtwork(item);
+        for (const item of movedPhotos) await storageService.saveSourcePhoto(item);
+      } catch (err) {
+        console.error('Failed to update library items:', err);
+      }
+    }
+  };
+
   // --- Composite Mode Handlers ---
   const processCompositeFile = (file: File, setter: (val: string) => void, shouldDetectAspectRatio?: boolean) => {
     if (!file) return;
@@ -1071,12 +1768,13 @@ const App: React.FC = () => {
 
   const handleSaveToLibrary = async () => {
     if (!compositeArtwork) return;
-    const name = prompt("Name this artwork:") || `Artwork ${artworkLibrary.length + 1}`;
+    const name = prompt("Name this artwork:") || `Artwork ${projectArtworkLibrary.length + 1}`;
     const item: ArtworkLibraryItem = {
       id: crypto.randomUUID(),
       name,
       imageUrl: compositeArtwork,
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      projectId: activeProjectId ?? undefined
     };
     setArtworkLibrary(prev => [item, ...prev]);
     if (storageInitialized) {
@@ -1120,15 +1818,16 @@ const App: React.FC = () => {
     const items: SourcePhotoLibraryItem[] = [];
     for (const queueItem of compositeBaseQueue) {
       // Skip if already in library (by imageUrl)
-      if (sourcePhotoLibrary.some(s => s.imageUrl === queueItem.imageUrl)) continue;
+      if (projectSourcePhotoLibrary.some(s => s.imageUrl === queueItem.imageUrl)) continue;
       const name = compositeBaseQueue.length === 1
-        ? (prompt("Name this source photo:") || `Source Photo ${sourcePhotoLibrary.length + items.length + 1}`)
-        : (queueItem.fileName || `Source Photo ${sourcePhotoLibrary.length + items.length + 1}`);
+        ? (prompt("Name this source photo:") || `Source Photo ${projectSourcePhotoLibrary.length + items.length + 1}`)
+        : (queueItem.fileName || `Source Photo ${projectSourcePhotoLibrary.length + items.length + 1}`);
       const item: SourcePhotoLibraryItem = {
         id: crypto.randomUUID(),
         name,
         imageUrl: queueItem.imageUrl,
-        createdAt: Date.now()
+        createdAt: Date.now(),
+        projectId: activeProjectId ?? undefined
       };
       items.push(item);
     }
@@ -1180,34 +1879,39 @@ const App: React.FC = () => {
       toast('Please upload at least one scene photo.', 'error');
       return;
     }
-    if (!compositeArtwork) {
+    // A set stands in for the single artwork; its first panel is what the result records as the artwork
+    const artwork = activeArtworkSet?.panels[0].image ?? compositeArtwork;
+    if (!artwork) {
       toast('Please upload artwork.', 'error');
       return;
     }
 
     setIsCompositing(true);
     try {
-      const images = await generateComposite(
+      const images = await generation.generateComposite(
         bases[0],
-        compositeArtwork,
-        compositeInstructions,
+        artwork,
+        withCompositeScale(compositeInstructions),
         compositeAspectRatio,
         "1K",
-        compositeArtworkRatio
+        compositeArtworkRatio,
+        activeArtworkSet
       );
-      const newResults: MockupResult[] = images.map(img => ({
+      const newResults: MockupResult[] = images.map(({ imageUrl, generation: record }) => ({
         id: crypto.randomUUID(),
-        imageUrl: img,
+        imageUrl,
+        generation: { ...record, sourceArtwork: artwork, artworkSet: activeArtworkSet },
         prompt: compositeInstructions || "Interior scene composite",
         createdAt: Date.now(),
         variantType: "composite" as const,
         aspectRatio: compositeAspectRatio,
         compositeBaseUrl: bases[0],
-        compositeArtworkUrl: compositeArtwork
+        compositeArtworkUrl: artwork,
+        projectId: activeProjectId ?? undefined
       }));
       setCompositeResults(prev => [...newResults, ...prev]);
       setResults(prev => [...newResults, ...prev]);
-      newResults.forEach(r => cloudStorageService.saveResult(r).catch(e => console.warn('Cloud save failed:', e)));
+      syncService.recordUpsert(newResults);
     } catch (e) {
       console.error("Composite generation failed:", e);
       toast(`Composite failed: ${e instanceof Error ? e.message : "Unknown error"}`, 'error');
@@ -1216,18 +1920,75 @@ const App: React.FC = () => {
     }
   };
 
+  const handlePerspectiveComposite = async () => {
+    const baseImage = perspectiveBaseImage;
+    if (!baseImage) {
+      toast('Please upload at least one scene photo.', 'error');
+      return;
+    }
+    if (!compositeArtwork) {
+      toast('Please upload artwork.', 'error');
+      return;
+    }
+    if (!isConvexQuad(placement.quad)) {
+      toast('The four corners must outline the wall region without crossing.', 'error');
+      return;
+    }
+
+    // With a marked reference the print is drawn at its true size, centred in the region
+    const reference = compositeReference?.from && compositeReference.to ? compositeReference : undefined;
+    const scaled: PerspectivePlacement = compositePrint && reference ? { ...placement, scale: { print: compositePrint, reference } } : placement;
+
+    setIsCompositing(true);
+    try {
+      const { imageUrl, width, height } = await composePerspective(await storageService.resolveImage(baseImage), compositeArtwork, scaled);
+      const frame = placement.frameStyle === "None" ? "unframed" : `${placement.frameStyle} frame`;
+      const prompt = `Perspective placement (${scaled.scale ? `${formatPhysicalSize(scaled.scale.print)}, ${frame}` : frame})`;
+      const newResult: MockupResult = {
+        id: crypto.randomUUID(),
+        imageUrl,
+        generation: { resolvedPrompt: prompt, model: PERSPECTIVE_COMPOSITOR_MODEL, sourceArtwork: compositeArtwork, generatedAt: Date.now(), retryCount: 0, placement: scaled },
+        prompt,
+        createdAt: Date.now(),
+        variantType: "composite",
+        aspectRatio: detectAspectRatio(width, height),
+        compositeBaseUrl: baseImage,
+        compositeArtworkUrl: compositeArtwork,
+        projectId: activeProjectId ?? undefined
+      };
+      setCompositeResults(prev => [newResult, ...prev]);
+      setResults(prev => [newResult, ...prev]);
+      syncService.recordUpsert([newResult]);
+    } catch (e) {
+      console.error("Perspective composite failed:", e);
+      toast(`Placement failed: ${e instanceof Error ? e.message : "Unknown error"}`, 'error');
+    } finally {
+      setIsCompositing(false);
+    }
+  };
+
   const handleBatchComposite = async () => {
-    const bases = deduplicatedBaseUrls;
+    // A targeted scene slot replaces the queued photos and turns the slot into placement instructions
+    const bases = targetTemplate ? [await storageService.resolveImage(targetTemplate.imageUrl)] : deduplicatedBaseUrls;
+    const instructions = withCompositeScale(targetTemplate && targetSlot
+      ? sceneSlotInstructions(targetTemplate, targetSlot, compositeInstructions)
+      : compositeInstructions);
+    const label = targetTemplate && targetSlot
+      ? `${targetTemplate.name}, ${targetSlot.name}${compositeInstructions ? `: ${compositeInstructions}` : ""}`
+      : compositeInstructions || "Interior scene composite";
+    const aspectRatio = targetTemplate?.aspectRatio ?? compositeAspectRatio;
 
     if (bases.length === 0) {
       toast('Please upload or select a scene photo.', 'error');
       return;
     }
 
-    // Gather artworks to use: selected library items + current artwork
+    // Gather artworks to use: selected library items + current artwork, or the set once per base
     const artworks: string[] = [];
-    if (selectedLibraryArtworks.size > 0) {
-      artworkLibrary.forEach(a => {
+    if (activeArtworkSet) {
+      artworks.push(activeArtworkSet.panels[0].image);
+    } else if (selectedLibraryArtworks.size > 0) {
+      projectArtworkLibrary.forEach(a => {
         if (selectedLibraryArtworks.has(a.id)) artworks.push(a.imageUrl);
       });
     }
@@ -1239,6 +2000,24 @@ const App: React.FC = () => {
       return;
     }
 
+    if (generationBackend === "server") {
+      const requests: JobRequest[] = bases.flatMap(base => artworks.map(artwork => ({
+        kind: "composite" as const,
+        label,
+        input: {
+          baseImage: base,
+          artwork,
+          instructions,
+          aspectRatio,
+          imageSize: "1K" as const,
+          artworkAspectRatio: compositeArtworkRatio,
+          artworkSet: activeArtworkSet
+        }
+      })));
+      await enqueueJobs(requests, crypto.randomUUID());
+      return;
+    }
+
     const totalJobs = bases.length * artworks.length;
     setIsBatchCompositing(true);
     setBatchProgress({ current: 0, total: totalJobs });
@@ -1250,27 +2029,30 @@ const App: React.FC = () => {
         setBatchProgress({ current: jobIndex, total: totalJobs });
         try {
           if (jobIndex > 1) await new Promise(r => setTimeout(r, 2500));
-          const images = await generateComposite(
+          const images = await generation.generateComposite(
             base,
             artwork,
-            compositeInstructions,
-            compositeAspectRatio,
+            instructions,
+            aspectRatio,
             "1K",
-            compositeArtworkRatio
+            compositeArtworkRatio,
+            activeArtworkSet
           );
-          const newResults: MockupResult[] = images.map(img => ({
+          const newResults: MockupResult[] = images.map(({ imageUrl, generation: record }) => ({
             id: crypto.randomUUID(),
-            imageUrl: img,
-            prompt: compositeInstructions || "Interior scene composite",
+            imageUrl,
+            generation: { ...record, sourceArtwork: artwork, artworkSet: activeArtworkSet },
+            prompt: label,
             createdAt: Date.now(),
             variantType: "composite" as const,
-            aspectRatio: compositeAspectRatio,
-            compositeBaseUrl: base,
-            compositeArtworkUrl: artwork
+            aspectRatio,
+            compositeBaseUrl: targetTemplate?.imageUrl ?? base,
+            compositeArtworkUrl: artwork,
+            projectId: activeProjectId ?? undefined
           }));
           setCompositeResults(prev => [...newResults, ...prev]);
           setResults(prev => [...newResults, ...prev]);
-          newResults.forEach(r => cloudStorageService.saveResult(r).catch(e => console.warn('Cloud save failed:', e)));
+          syncService.recordUpsert(newResults);
         } catch (e) {
           console.error(`Batch job ${jobIndex}/${totalJobs} failed:`, e);
         }
@@ -1281,6 +2063,98 @@ const App: React.FC = () => {
     setBatchProgress({ current: 0, total: 0 });
   };
 
+  const handleNewSceneTemplate = () => {
+    const base = compositeBaseQueue.find(b => b.id === selectedBaseId) ?? compositeBaseQueue[0];
+    if (!base) return;
+    const now = Date.now();
+    setEditingTemplate({
+      id: crypto.randomUUID(),
+      name: base.fileName.replace(/\.[^.]+$/, ""),
+      imageUrl: base.imageUrl,
+      slots: [{ name: "Slot 1", quad: placement.quad }],
+      defaultFrameStyle: placement.frameStyle,
+      aspectRatio: compositeAspectRatio,
+      projectId: activeProjectId ?? undefined,
+      createdAt: now,
+      updatedAt: now
+    });
+  };
+
+  const handleSaveSceneTemplate = async (template: SceneTemplate) => {
+    try {
+      const saved = await sceneTemplateService.save(template);
+      setSceneTemplates(prev => prev.some(t => t.id === saved.id) ? prev.map(t => t.id === saved.id ? saved : t) : [...prev, saved]);
+      setEditingTemplate(null);
+      if (sceneTarget?.templateId === saved.id && sceneTarget.slot > saved.slots.length) setSceneTarget(null);
+      toast(`Saved scene template "${saved.name}"`, 'success');
+    } catch (e) {
+      console.error("Failed to save scene template:", e);
+      toast('Could not save the scene template.', 'error');
+    }
+  };
+
+  const handleDeleteSceneTemplate = async (template: SceneTemplate) => {
+    if (!confirm(`Delete scene template "${template.name}"?`)) return;
+    try {
+      await sceneTemplateService.remove(template);
+    } catch (e) {
+      console.error("Failed to delete scene template:", e);
+      toast('Could not delete the scene template.', 'error');
+      return;
+    }
+    setSceneTemplates(prev => prev.filter(t => t.id !== template.id));
+    if (sceneTarget?.templateId === template.id) setSceneTarget(null);
+  };
+
+  /** Targets a slot; the perspective editor starts from the slot's corners and the template's frame */
+  // Each photo added to the queue is analyzed once; results arrive as overlays on the photo
+  useEffect(() => {
+    for (const item of compositeBaseQueue) {
+      if (requestedSceneAnalyses.current.has(item.id)) continue;
+      requestedSceneAnalyses.current.add(item.id);
+      setAnalyzingSceneIds(prev => new Set(prev).add(item.id));
+      generation.analyzeScene(item.imageUrl)
+        .then(analysis => setSceneAnalyses(prev => ({ ...prev, [item.id]: analysis })))
+        .catch(e => console.warn(`Scene analysis failed for ${item.fileName}:`, e))
+        .finally(() => setAnalyzingSceneIds(prev => {
+          const next = new Set(prev);
+          next.delete(item.id);
+          return next;
+        }));
+    }
+  }, [compositeBaseQueue]);
+
+  /**
+   * A detected region becomes the placement corners in perspective mode, shrunk
+   * to the artwork's proportions, or pre-filled instructions otherwise
+   */
+  const handlePickSceneRegion = async (region: SceneRegion) => {
+    if (compositeMode === "perspective") {
+      let box = region.box;
+      if (compositeArtworkRatio && selectedBase) {
+        try {
+          const photoRatio = await imageAspectRatio(await storageService.resolveDisplayUrl(selectedBase.imageUrl));
+          box = fitBoxToAspect(region.box, compositeArtworkRatio, photoRatio);
+        } catch (e) {
+          console.warn('Could not measure the scene photo:', e);
+        }
+      }
+      setPlacement(prev => ({ ...prev, quad: boxToQuad(box, region.orientation) }));
+    } else {
+      setCompositeInstructions(buildRegionInstructions(region));
+    }
+  };
+
+  const handleTargetSceneSlot = (template: SceneTemplate, slot: number) => {
+    if (sceneTarget?.templateId === template.id && sceneTarget.slot === slot) {
+      setSceneTarget(null);
+      return;
+    }
+    setSceneTarget({ templateId: template.id, slot });
+    const target = resolveSlot(template, slot);
+    if (target) setPlacement(prev => ({ ...prev, quad: target.quad, frameStyle: template.defaultFrameStyle }));
+  };
+
   const handleCompositeUpscale = async (result: MockupResult) => {
     if (!result.compositeBaseUrl || !result.compositeArtworkUrl) {
       toast('Cannot enhance: source images missing.', 'error');
@@ -1288,28 +2162,33 @@ const App: React.FC = () => {
     }
     setUpscalingId(result.id);
     try {
-      const images = await generateComposite(
-        result.compositeBaseUrl,
-        result.compositeArtworkUrl,
+      const set = result.generation?.artworkSet;
+      const images = await generation.generateComposite(
+        await storageService.resolveImage(result.compositeBaseUrl),
+        await storageService.resolveImage(result.compositeArtworkUrl),
         result.prompt,
         result.aspectRatio || compositeAspectRatio,
         "4K",
-        compositeArtworkRatio
+        compositeArtworkRatio,
+        set && await mapPanelImages(set, value => storageService.resolveImage(value))
       );
       const newResult: MockupResult = {
         id: crypto.randomUUID(),
-        imageUrl: images[0],
+        imageUrl: images[0].imageUrl,
+        generation: { ...images[0].generation, sourceArtwork: result.compositeArtworkUrl, artworkSet: set },
         prompt: result.prompt,
         createdAt: Date.now(),
         isHighRes: true,
         variantType: "composite",
         aspectRatio: result.aspectRatio || compositeAspectRatio,
+        upscaledFrom: result.id,
         compositeBaseUrl: result.compositeBaseUrl,
-        compositeArtworkUrl: result.compositeArtworkUrl
+        compositeArtworkUrl: result.compositeArtworkUrl,
+        projectId: result.projectId
       };
       setCompositeResults(prev => [newResult, ...prev]);
       setResults(prev => [newResult, ...prev]);
-      cloudStorageService.saveResult(newResult).catch(e => console.warn('Cloud save failed:', e));
+      syncService.recordUpsert([newResult]);
     } catch (e) {
       console.error("Upscale failed:", e);
       toast('Enhancement failed. Please try again.', 'error');
@@ -1326,27 +2205,29 @@ const App: React.FC = () => {
     }
     setRefiningId(result.id);
     try {
-      const images = await refineComposite(
-        result.imageUrl,
-        result.compositeArtworkUrl,
+      const images = await generation.refineComposite(
+        await storageService.resolveImage(result.imageUrl),
+        await storageService.resolveImage(result.compositeArtworkUrl),
         refinementText,
         result.aspectRatio || compositeAspectRatio,
         "1K"
       );
       const newResult: MockupResult = {
         id: crypto.randomUUID(),
-        imageUrl: images[0],
+        imageUrl: images[0].imageUrl,
+        generation: { ...images[0].generation, sourceArtwork: result.compositeArtworkUrl },
         prompt: `Refined: ${refinementText}`,
         createdAt: Date.now(),
         variantType: "composite",
         aspectRatio: result.aspectRatio || compositeAspectRatio,
         refinedFrom: result.id,
         compositeBaseUrl: result.compositeBaseUrl,
-        compositeArtworkUrl: result.compositeArtworkUrl
+        compositeArtworkUrl: result.compositeArtworkUrl,
+        projectId: result.projectId
       };
       setCompositeResults(prev => [newResult, ...prev]);
       setResults(prev => [newResult, ...prev]);
-      cloudStorageService.saveResult(newResult).catch(e => console.warn('Cloud save failed:', e));
+      syncService.recordUpsert([newResult]);
       setRefinementText("");
       setExpandedRefinement(null);
     } catch (e) {
@@ -1367,7 +2248,83 @@ const App: React.FC = () => {
         console.error('Failed to delete from storage:', err);
       }
     }
-    cloudStorageService.deleteResult(id).catch(e => console.warn('Cloud delete failed:', e));
+    syncService.recordDelete([id]);
+  };
+
+  const openLineage = (result: MockupResult) => {
+    const root = lineage.rootById.get(result.id);
+    if (root) setLineageView({ rootId: root.result.id, focusId: result.id });
+  };
+
+  const lineageSize = (result: MockupResult) => {
+    const root = lineage.rootById.get(result.id);
+    return root ? lineage.sizes.get(root.result.id) ?? 1 : 1;
+  };
+
+  const lineageEntry = (result: MockupResult) => {
+    const root = lineage.rootById.get(result.id);
+    return root ? findInLineage(root, result.id) : null;
+  };
+
+  const compareSide = (result: MockupResult, role: string): CompareSide =>
+    ({ src: result.imageUrl, label: `${role} · ${result.isHighRes ? result.upscaleSize ?? '2K' : '1K'}` });
+
+  const handleCompareWithParent = (parent: MockupResult, child: MockupResult) => {
+    const link = lineageEntry(child)?.node.link;
+    setLineageView(null);
+    setCompare({ before: compareSide(parent, 'Parent'), after: compareSide(child, link ? LINEAGE_LINK_LABELS[link] : 'Child') });
+  };
+
+  const handleComparePick = (result: MockupResult) => {
+    if (comparePickId === result.id) {
+      setComparePickId(null);
+      return;
+    }
+    const first = comparePickId && results.find(r => r.id === comparePickId);
+    if (!first) {
+      setComparePickId(result.id);
+      toast('Pick a second result to compare with.', 'info');
+      return;
+    }
+    setComparePickId(null);
+    setCompare({ before: compareSide(first, 'A'), after: compareSide(result, 'B') });
+  };
+
+  // A contact sheet's extracted angles make a reel, whether the sheet or one of its frames was picked
+  const motionReel = (result: MockupResult): MockupResult[] => {
+    const sheetId = result.isContactSheet ? result.id : result.extractedFrom;
+    return sheetId ? results.filter(r => r.extractedFrom === sheetId).sort((a, b) => Number(a.createdAt) - Number(b.createdAt)) : [];
+  };
+
+  const canBranch = (result: MockupResult) =>
+    result.variantType === "composite" ? !!result.compositeArtworkUrl : canRegenerate(result);
+
+  // Mockups branch through "vary this"; composites through a refinement
+  const handleBranch = (result: MockupResult) => {
+    setLineageView(null);
+    if (result.variantType === "composite") {
+      setActiveTab("composite");
+      setExpandedRefinement(result.id);
+      setRefinementText("");
+    } else {
+      setVaryingResult(result);
+    }
+  };
+
+  const handleDeleteSubtree = async (ids: string[]) => {
+    const doomed = new Set(ids);
+    setResults(prev => prev.filter(r => !doomed.has(r.id)));
+    setCompositeResults(prev => prev.filter(r => !doomed.has(r.id)));
+    if (storageInitialized) {
+      for (const id of ids) {
+        try {
+          await storageService.deleteResult(id);
+        } catch (err) {
+          console.error('Failed to delete from storage:', err);
+        }
+      }
+    }
+    syncService.recordDelete(ids);
   };
 
   const handleShowStorageStats = async () => {
@@ -1427,9 +2384,23 @@ const App: React.FC = () => {
           <div className="text-center mb-6">
             <SparklesIcon className="w-16 h-16 text-yellow-400 mx-auto mb-6" />
             <h1 className="text-3xl font-bold text-white mb-2">Art Mockup Pro</h1>
-            <p className="text-sm text-gray-400">Enter the site password to continue</p>
+            <p className="text-sm text-gray-400">{inviteToken ? "Choose a password to accept your invite" : "Sign in to continue"}</p>
           </div>
           <div className="space-y-4">
+            {!inviteToken && (
+              <div>
+                <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">Email</label>
+                <input
+                  type="email"
+                  value={emailInput}
+                  onChange={(e) => { setEmailInput(e.target.value); setAuthError(""); }}
+                  placeholder="you@example.com"
+                  autoComplete="username"
+                  className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:border-yellow-500 focus:outline-none focus:ring-2 focus:ring-yellow-500/20"
+                  disabled={isAuthenticating}
+                />
+              </div>
+            )}
             <div>
               <label className="block text-xs text-gray-400 mb-2 uppercase tracking-wide">Password</label>
               <input
@@ -1437,7 +2408,8 @@ const App: React.FC = () => {
                 value={passwordInput}
                 onChange={(e) => { setPasswordInput(e.target.value); setAuthError(""); }}
                 onKeyDown={(e) => { if (e.key === 'Enter' && !isAuthenticating) handlePasswordSubmit(); }}
-                placeholder="Enter site password"
+                placeholder={inviteToken ? "At least 8 characters" : "Enter your password"}
+                autoComplete={inviteToken ? "new-password" : "current-password"}
                 className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:border-yellow-500 focus:outline-none focus:ring-2 focus:ring-yellow-500/20"
                 disabled={isAuthenticating}
               />
@@ -1445,10 +2417,10 @@ const App: React.FC = () => {
             </div>
             <button
               onClick={handlePasswordSubmit}
-              disabled={isAuthenticating || !passwordInput.trim()}
+              disabled={isAuthenticating || !passwordInput.trim() || (!inviteToken && !emailInput.trim())}
               className="w-full bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 disabled:cursor-not-allowed text-black font-bold py-3 px-6 rounded-lg transition-colors"
             >
-              {isAuthenticating ? "Unlocking..." : "Unlock"}
+              {isAuthenticating ? "Signing in..." : inviteToken ? "Set password" : "Sign in"}
             </button>
           </div>
         </div>
@@ -1470,7 +2442,7 @@ const App: React.FC = () => {
     );
   }
 
-  if (!hasKey) {
+  if (!hasKey && generationBackend === "browser") {
     return (
       <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center p-4">
         <div className="max-w-md w-full bg-gray-800 rounded-2xl shadow-2xl p-8 border border-gray-700">
@@ -1541,6 +2513,12 @@ const App: React.FC = () => {
               Connect API Key
             </button>
           )}
+          <button
+            onClick={() => handleGenerationBackendChange("server")}
+            className="w-full mt-4 text-xs text-gray-400 hover:text-white transition-colors"
+          >
+            Or generate through the server (no personal key needed)
+          </button>
         </div>
       </div>
     );
@@ -1579,6 +2557,45 @@ const App: React.FC = () => {
             Composite
           </button>
         </div>
+        <ProjectSwitcher
+          projects={projects}
+          activeProjectId={activeProjectId}
+          onSelect={handleSelectProject}
+          onCreate={handleCreateProject}
+          onRename={handleRenameProject}
+          onDelete={handleDeleteProject}
+        />
+        {!serverGeneration.isServerOnlyDeployment() && (
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-[10px] text-gray-500 uppercase tracking-wide">Generate via</span>
+          <div className="flex gap-1 bg-gray-800 rounded-full p-1">
+            {(["browser", "server"] as GenerationBackend[]).map(backend => (
+              <button
+                key={backend}
+                onClick={() => handleGenerationBackendChange(backend)}
+                title={backend === "server" ? "Gemini runs on the server; no key in the browser" : "Gemini runs in this browser with your own key"}
+                className={`px-3 py-1 rounded-full text-[10px] font-semibold capitalize transition-all ${
+                  generationBackend === backend
+                    ? "bg-yellow-500 text-black shadow-md"
+                    : "text-gray-400 hover:text-white"
+                }`}
+              >
+                {backend}
+              </button>
+            ))}
+          </div>
+        </div>
+        )}
+        {currentUser && (
+          <button
+            onClick={() => setShowAccountPanel(true)}
+            className={`${serverGeneration.isServerOnlyDeployment() ? 'ml-auto' : ''} flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors`}
+            title="Account"
+          >
+            <UserCircleIcon className="w-5 h-5" />
+            <span className="hidden md:inline max-w-[10rem] truncate">{currentUser.name || currentUser.email}</span>
+          </button>
+        )}
       </nav>
 
       {activeTab === "mockups" ? (
@@ -1586,6 +2603,16 @@ const App: React.FC = () => {
       {/* Sidebar */}
       <aside className="w-full lg:w-[420px] bg-gray-900 border-r border-gray-800 p-6 flex flex-col gap-6 overflow-y-auto lg:h-[calc(100vh-56px)] sticky top-[56px] scrollbar-thin z-10">
 
+        <StylePresetPicker
+          presets={stylePresets}
+          activeId={activePresetId}
+          canEdit={preset => canEditShared(preset, currentUser)}
+          onApply={handleApplyStylePreset}
+          onSaveNew={handleSaveNewStylePreset}
+          onUpdate={saveStylePreset}
+          onDelete={handleDeleteStylePreset}
+        />
+
         {/* 1. Upload */}
         <div className="space-y-3">
           <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">1. Source Art & Vibe</label>
@@ -1593,7 +2620,7 @@ const App: React.FC = () => {
             className={`relative group transition-all duration-200 ease-in-out ${isDragging ? 'scale-105 ring-2 ring-yellow-500' : ''}`}
             onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}
           >
-            <input type="file" accept="image/jpeg, image/jpg" onChange={handleFileInput} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
+            <input type="file" accept={ACCEPTED_ARTWORK_TYPES.join(',')} onChange={handleFileInput} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
             <div className={`border-2 border-dashed rounded-xl p-4 text-center transition-colors h-32 flex flex-col items-center justify-center ${sourceImage ? 'border-green-500 bg-green-500/10' : 'border-gray-700 bg-gray-800'}`}>
               {sourceImage ? (
                 <div className="flex flex-col items-center">
@@ -1603,22 +2630,61 @@ const App: React.FC = () => {
               ) : (
                 <>
                   <CloudArrowUpIcon className="w-8 h-8 mb-2 text-gray-500" />
-                  <span className="text-xs text-gray-400">Drag & Drop Art (JPEG)</span>
+                  <span className="text-xs text-gray-400">Drag & Drop Art (JPEG, PNG, WebP)</span>
                 </>
               )}
             </div>
           </div>
           
+          <ArtworkPreprocessFields
+            options={preprocessOptions}
+            preprocessing={sourceImage ? settings.artworkPreprocessing : undefined}
+            isProcessing={isPreprocessing}
+            onChange={setPreprocessOptions}
+          />
+
+          {isWallArt && (
+            <ArtworkSetFields
+              set={artworkSet}
+              library={projectArtworkLibrary}
+              frameStyles={FRAME_STYLES}
+              current={sourceImage ? { name: 'Current artwork', image: sourceImage, aspectRatio: settings.artworkAspectRatio } : undefined}
+              onChange={setArtworkSet}
+            />
+          )}
+
           {/* Vibe Selector */}
           <SingleSelectPills
             label="Analysis Vibe"
             icon={SwatchIcon}
             options={ANALYSIS_VIBES}
-            selected={analysisVibe}
-            onChange={(v) => setAnalysisVibe(v)}
+            selected={activeCustomVibe ? null : analysisVibe}
+            onChange={(v) => { setAnalysisVibe(v); setCustomVibeId(null); }}
             disabled={!sourceImage || isAnalyzing}
           />
 
+          {/* Team vibes */}
+          <div className="-mt-2 flex flex-wrap items-center gap-1.5">
+            {customVibes.map(vibe => (
+              <span key={vibe.id} className={`flex items-center rounded-full border transition-all ${
+                vibe.id === activeCustomVibe?.id ? 'bg-yellow-500 border-yellow-500 text-black shadow-md' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+              }`}>
+                <button
+                  onClick={() => setCustomVibeId(vibe.id)}
+                  disabled={!sourceImage || isAnalyzing}
+                  title={vibe.systemPrompt}
+                  className="text-[10px] font-medium pl-2.5 pr-1 py-1.5 disabled:opacity-50"
+                >
+                  {vibe.name}
+                </button>
+                <button onClick={() => setEditingVibe(vibe)} title={`Edit "${vibe.name}"`} className="pr-2 py-1.5 opacity-60 hover:opacity-100">
+                  <PencilSquareIcon className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <button onClick={handleNewCustomVibe} className="text-[10px] text-yellow-500 hover:text-yellow-400">+ New vibe</button>
+          </div>
+
           {/* Manual Analyze Button */}
           <button
             onClick={() => handleMagicAnalysis()}
@@ -1682,24 +2748,52 @@ const App: React.FC = () => {
           </div>
           
           <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-800">
-            {/* Print Size - Single Select */}
-            <SingleSelectPills 
-              label="Print Size (Physical)" 
-              icon={ArrowsPointingOutIcon} 
-              options={PRINT_SIZES} 
-              selected={settings.printSize} 
-              onChange={(val) => setSettings(prev => ({...prev, printSize: val}))} 
+            <SingleSelectPills
+              label="Product"
+              icon={ShoppingBagIcon}
+              options={PRODUCT_TYPES}
+              selected={settings.productType ?? "Wall Art"}
+              onChange={(val: ProductType) => setSettings(prev => ({ ...prev, productType: val === "Wall Art" ? undefined : val }))}
             />
-            
-            <div className="h-px bg-gray-700/50 my-3"></div>
 
-            <MultiSelectPills 
-              label="Frame Styles" 
-              icon={Square2StackIcon}
-              options={FRAME_STYLES} 
-              selected={selectedFrames} 
-              onChange={setSelectedFrames} 
-            />
+            {isWallArt && (
+              <>
+                {/* Print Size - Single Select */}
+                <SingleSelectPills 
+                  label="Print Size (Physical)" 
+                  icon={ArrowsPointingOutIcon} 
+                  options={PRINT_SIZES} 
+                  selected={settings.printSize} 
+                  onChange={(val) => setSettings(prev => ({
+                    ...prev,
+                    printSize: val,
+                    customPrintSize: val === "Custom" ? prev.customPrintSize ?? DEFAULT_CUSTOM_PRINT_SIZE : prev.customPrintSize
+                  }))} 
+                />
+                <PrintScaleFields
+                  printSize={settings.printSize}
+                  customSize={settings.customPrintSize}
+                  reference={settings.sceneReference}
+                  onCustomSizeChange={size => setSettings(prev => ({ ...prev, customPrintSize: size }))}
+                  onReferenceChange={reference => setSettings(prev => ({ ...prev, sceneReference: reference }))}
+                />
+
+                <div className="h-px bg-gray-700/50 my-3"></div>
+
+                <MultiSelectPills 
+                  label="Frame Styles" 
+                  icon={Square2StackIcon}
+                  options={FRAME_STYLES} 
+                  selected={selectedFrames} 
+                  onChange={setSelectedFrames} 
+                />
+                <FrameSpecFields
+                  spec={settings.frameSpec}
+                  baseStyle={selectedFrames[0]}
+                  onChange={frameSpec => setSettings(prev => ({ ...prev, frameSpec }))}
+                />
+              </>
+            )}
             <MultiSelectPills 
               label="Lighting" 
               icon={SunIcon}
@@ -1782,6 +2876,14 @@ const App: React.FC = () => {
                 {settings.macroMode ? "On" : "Off"}
               </button>
            </div>
+           <PromptTemplateFields
+              template={settings.promptTemplate}
+              onChange={promptTemplate => setSettings(prev => ({ ...prev, promptTemplate }))}
+           />
+           <QualityCheckFields
+              check={settings.qualityCheck}
+              onChange={qualityCheck => setSettings(prev => ({ ...prev, qualityCheck }))}
+           />
            <div>
               <label className="block text-[10px] text-gray-500 mb-1 uppercase">Output Aspect Ratio</label>
               <select className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs" value={settings.aspectRatio} onChange={e => setSettings({...settings, aspectRatio: e.target.value as any})}>
@@ -1824,6 +2926,24 @@ const App: React.FC = () => {
               <p className="text-xs text-yellow-500 animate-pulse font-mono">{loadingMessage}</p>
             </div>
           )}
+          <div className="mt-2 flex items-center gap-1.5">
+            <span className="text-[10px] text-gray-500 shrink-0">A/B vs</span>
+            <select
+              value={challengerName}
+              onChange={e => setChallengerName(e.target.value)}
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded p-1.5 text-xs"
+            >
+              {BUILT_IN_TEMPLATES.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+            </select>
+            <button
+              onClick={handleRunExperiment}
+              disabled={!sourceImage || isGenerating || isAnalyzing || templateName(settings.promptTemplate) === challengerName}
+              title="Render the first prompt with the current template and this one, then pick the better image"
+              className="flex items-center gap-1 text-[10px] font-semibold bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-200 rounded px-2 py-1.5"
+            >
+              <BeakerIcon className="w-3.5 h-3.5" /> Compare
+            </button>
+          </div>
         </div>
 
       </aside>
@@ -1831,8 +2951,8 @@ const App: React.FC = () => {
       {/* Gallery */}
       <main className="flex-1 p-6 bg-gray-950 overflow-y-auto h-[calc(100vh-56px)]">
         <header className="flex justify-between items-center mb-6">
-          <h2 className="text-2xl font-bold">Gallery <span className="text-base font-normal text-gray-500 ml-2">{results.length} results</span></h2>
-          {results.length > 0 && (
+          <h2 className="text-2xl font-bold">Gallery <span className="text-base font-normal text-gray-500 ml-2">{projectResults.length} results</span></h2>
+          {projectResults.length > 0 && (
              <div className="flex gap-2">
                <button onClick={handleShowStorageStats} className="text-xs bg-gray-800 hover:bg-gray-700 px-3 py-2 rounded-lg flex items-center gap-1 transition-colors" title="Storage Statistics"><CircleStackIcon className="w-3 h-3" /> Stats</button>
                <button onClick={handleExportData} className="text-xs bg-gray-800 hover:bg-gray-700 px-3 py-2 rounded-lg flex items-center gap-1 transition-colors" title="Export all results as JSON backup"><ArrowUpTrayIcon className="w-3 h-3" /> Export</button>
@@ -1843,7 +2963,7 @@ const App: React.FC = () => {
           )}
         </header>
 
-        {results.filter(r => r.variantType !== "composite").length === 0 ? (
+        {projectResults.filter(r => r.variantType !== "composite").length === 0 ? (
           <div className="h-[60vh] flex flex-col items-center justify-center border-2 border-dashed border-gray-800 rounded-2xl bg-gray-900/30 text-center p-8">
             <div className="w-16 h-16 bg-gray-800 rounded-full flex items-center justify-center mb-4">
               <SparklesIcon className="w-8 h-8 text-yellow-500" />
@@ -1853,14 +2973,14 @@ const App: React.FC = () => {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 pb-12">
-            {results.filter(r => r.variantType !== "composite").map(result => (
-              <div key={result.id} className="group bg-gray-900 rounded-xl overflow-hidden border border-gray-800 shadow-lg hover:shadow-2xl hover:border-gray-600 transition-all">
+            {groupVariants(projectResults.filter(r => r.variantType !== "composite")).map(result => (
+              <div key={result.id} className={`group bg-gray-900 rounded-xl overflow-hidden border border-gray-800 shadow-lg hover:shadow-2xl hover:border-gray-600 transition-all ${comparePickId === result.id ? 'ring-2 ring-yellow-500' : ''}`}>
                 <div
                   className="relative cursor-pointer"
                   style={{ aspectRatio: result.aspectRatio ? result.aspectRatio.replace(":", " / ") : "1 / 1" }}
                   onClick={() => setLightboxImage(result.imageUrl)}
                 >
-                  <img src={result.imageUrl} alt="Result" className="w-full h-full object-cover" />
+                  <BlobImage src={result.thumbnailUrl || result.imageUrl} alt="Result" className="w-full h-full object-cover" />
                   {/* Status Badges */}
                   <div className="absolute top-2 left-2 flex flex-col gap-1">
                     <span className="px-1.5 py-0.5 bg-black/60 backdrop-blur rounded text-[10px] font-bold border border-white/10 uppercase">
@@ -1881,6 +3001,28 @@ const App: React.FC = () => {
                         🎞️ {result.cameraAngle || "Extracted"}
                       </span>
                     )}
+                    {result.derivedFrom && !result.isContactSheet && (
+                      <span className="px-1.5 py-0.5 bg-sky-600/90 backdrop-blur rounded text-[9px] font-bold border border-sky-400/30 uppercase">
+                        🎲 Variant
+                      </span>
+                    )}
+                    {result.generation?.settings && productProfile(result.generation.settings) && (
+                      <span className="px-1.5 py-0.5 bg-fuchsia-600/90 backdrop-blur rounded text-[9px] font-bold border border-fuchsia-400/30 uppercase">
+                        🛍️ {result.generation.settings.productType}
+                      </span>
+                    )}
+                    {result.generation?.fidelity && (
+                      <span
+                        className={`px-1.5 py-0.5 backdrop-blur rounded text-[9px] font-bold border uppercase ${
+                          result.generation.fidelity.passed
+                            ? 'bg-emerald-600/90 border-emerald-400/30'
+                            : 'bg-red-600/90 border-red-400/30'
+                        }`}
+                        title={result.generation.fidelity.failures.join('\n') || 'Artwork matches the source'}
+                      >
+                        Fidelity {Math.round(result.generation.fidelity.score * 100)}%
+                      </span>
+                    )}
                   </div>
                   {/* Hover Actions */}
                   <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
@@ -1914,6 +3056,14 @@ const App: React.FC = () => {
                          )}
                        </div>
                      )}
+                     {canRegenerate(result) && (
+                       <>
+                         <button onClick={(e) => { e.stopPropagation(); handleRegenerate(result); }} disabled={regeneratingId === result.id} className="bg-sky-600 hover:bg-sky-500 text-white p-2 rounded-full shadow-lg" title="Regenerate with same settings"><ArrowPathIcon className="w-5 h-5" /></button>
+                         <button onClick={(e) => { e.stopPropagation(); setVaryingResult(result); }} className="bg-sky-600 hover:bg-sky-500 text-white p-2 rounded-full shadow-lg" title="Vary this"><AdjustmentsHorizontalIcon className="w-5 h-5" /></button>
+                       </>
+                     )}
+                     <button onClick={(e) => { e.stopPropagation(); handleComparePick(result); }} className={`p-2 rounded-full shadow-lg ${comparePickId === result.id ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-600 text-white'}`} title={comparePickId && comparePickId !== result.id ? "Compare with picked result" : "Pick for comparison"}><ArrowsRightLeftIcon className="w-5 h-5" /></button>
+                     <button onClick={(e) => { e.stopPropagation(); setAnimatingResult(result); }} className="bg-gray-700 hover:bg-gray-600 text-white p-2 rounded-full shadow-lg" title="Animate (video, WebP or GIF)"><FilmIcon className="w-5 h-5" /></button>
                      <button onClick={(e) => { e.stopPropagation(); downloadImage(result.imageUrl, result.id); }} className="bg-white text-black p-2 rounded-full shadow-lg hover:bg-gray-200" title="Download"><ArrowDownTrayIcon className="w-5 h-5" /></button>
                      <button onClick={(e) => { e.stopPropagation(); deleteResult(result.id); }} className="bg-red-600 text-white p-2 rounded-full shadow-lg hover:bg-red-500" title="Delete"><TrashIcon className="w-5 h-5" /></button>
                      {/* Generate Contact Sheet Button */}
@@ -1945,11 +3095,27 @@ const App: React.FC = () => {
                        <span className="text-[10px] font-bold text-yellow-500 mt-2 tracking-widest">ENHANCING...</span>
                     </div>
                   )}
+                  {regeneratingId === result.id && (
+                    <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center z-10">
+                       <ArrowPathIcon className="w-8 h-8 text-sky-400 animate-spin" />
+                       <span className="text-[10px] font-bold text-sky-400 mt-2 tracking-widest">REGENERATING...</span>
+                    </div>
+                  )}
                 </div>
                 <div className="p-3">
                   <p className="text-[10px] text-gray-400 line-clamp-2 mb-2">{result.prompt}</p>
                   <div className="flex justify-between items-center text-[9px] text-gray-600 uppercase font-mono">
                     <span>{(() => { const d = new Date(Number(result.createdAt)); return isNaN(d.getTime()) ? '—' : d.toLocaleTimeString(); })()}</span>
+                    <span className="flex items-center gap-2">
+                      {lineageEntry(result)?.parent && (
+                        <button onClick={() => handleCompareWithParent(lineageEntry(result)!.parent!.result, result)} className="text-gray-500 hover:text-yellow-500" title="Compare with the result this was made from">vs parent</button>
+                      )}
+                      {lineageSize(result) > 1 && (
+                        <button onClick={() => openLineage(result)} className="flex items-center gap-1 text-gray-500 hover:text-yellow-500" title="Show lineage">
+                          <ShareIcon className="w-3 h-3" /> {lineageSize(result)}
+                        </button>
+                      )}
+                    </span>
                     <span>Gemini Flash</span>
                   </div>
                 </div>
@@ -1957,6 +3123,11 @@ const App: React.FC = () => {
             ))}
           </div>
         )}
+        {cloudCursor && (
+          <div ref={gallerySentinelRef} className="flex justify-center py-6 text-xs text-gray-500">
+            {isLoadingCloudPage && <ArrowPathIcon className="w-5 h-5 animate-spin" />}
+          </div>
+        )}
       </main>
       </div>
       ) : (
@@ -1992,9 +3163,19 @@ const App: React.FC = () => {
             {compositeBaseQueue.length > 0 && (
               <div className="space-y-2">
                 <div className="grid grid-cols-4 gap-2">
-                  {compositeBaseQueue.map(item => (
+                  {compositeBaseQueue.map(item => {
+                    const analysis = sceneAnalyses[item.id];
+                    const regionCount = analysis ? analysis.frames.length + analysis.emptyWalls.length : 0;
+                    return (
                     <div key={item.id} className="relative group/thumb">
-                      <img src={item.imageUrl} alt={item.fileName} className="w-full h-16 object-cover rounded border border-gray-700" />
+                      <button onClick={() => setSelectedBaseId(item.id)} className="block w-full">
+                        <img src={item.imageUrl} alt={item.fileName} className={`w-full h-16 object-cover rounded border ${selectedBase?.id === item.id ? 'border-yellow-500' : 'border-gray-700'}`} />
+                      </button>
+                      {analyzingSceneIds.has(item.id) ? (
+                        <ArrowPathIcon className="absolute bottom-1 left-1 w-3 h-3 text-yellow-500 animate-spin" title="Finding frames and empty walls" />
+                      ) : regionCount > 0 && (
+                        <span className="absolute bottom-1 left-1 px-1 rounded bg-black/70 text-[8px] text-emerald-400 font-bold" title="Detected frames and empty walls">{regionCount} spots</span>
+                      )}
                       <button
                         onClick={() => setCompositeBaseQueue(prev => prev.filter(b => b.id !== item.id))}
                         className="absolute -top-1 -right-1 bg-red-600 text-white rounded-full w-4 h-4 flex items-center justify-center opacity-0 group-hover/thumb:opacity-100 transition-opacity"
@@ -2002,7 +3183,8 @@ const App: React.FC = () => {
                         <XMarkIcon className="w-3 h-3" />
                       </button>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
                 <div className="flex gap-2">
                   <button
@@ -2023,13 +3205,13 @@ const App: React.FC = () => {
           </div>
 
           {/* Source Photo Library */}
-          {sourcePhotoLibrary.length > 0 && (
+          {projectSourcePhotoLibrary.length > 0 && (
             <div className="space-y-2">
               <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
-                <CircleStackIcon className="w-3.5 h-3.5" /> Source Photo Library ({sourcePhotoLibrary.length})
+                <CircleStackIcon className="w-3.5 h-3.5" /> Source Photo Library ({projectSourcePhotoLibrary.length})
               </label>
               <div className="grid grid-cols-4 gap-2 max-h-[120px] overflow-y-auto scrollbar-thin">
-                {sourcePhotoLibrary.map(photo => {
+                {projectSourcePhotoLibrary.map(photo => {
                   const isInQueue = compositeBaseQueue.some(b => b.imageUrl === photo.imageUrl);
                   return (
                     <div key={photo.id} className="relative group/lib">
@@ -2075,6 +3257,60 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {/* Scene Templates */}
+          {(projectSceneTemplates.length > 0 || compositeBaseQueue.length > 0) && (
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                <HomeModernIcon className="w-3.5 h-3.5" /> Scene Templates ({projectSceneTemplates.length})
+              </label>
+              {projectSceneTemplates.map(template => (
+                <div key={template.id} className="flex gap-2 bg-gray-800/50 border border-gray-800 rounded-lg p-2 group/tpl">
+                  <BlobImage src={template.imageUrl} alt={template.name} className="w-14 h-14 object-cover rounded shrink-0" />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs text-gray-200 truncate flex-1">{template.name}</span>
+                      <button onClick={() => setEditingTemplate(template)} title="Edit template" className="text-gray-500 hover:text-white opacity-0 group-hover/tpl:opacity-100">
+                        <PencilSquareIcon className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleDeleteSceneTemplate(template)} title="Delete template" className="text-gray-500 hover:text-red-400 opacity-0 group-hover/tpl:opacity-100">
+                        <TrashIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {template.slots.map((slot, i) => {
+                        const isTarget = sceneTarget?.templateId === template.id && sceneTarget.slot === i + 1;
+                        return (
+                          <button
+                            key={i}
+                            onClick={() => handleTargetSceneSlot(template, i + 1)}
+                            className={`text-[10px] px-2 py-0.5 rounded-full border transition-all ${
+                              isTarget ? 'bg-yellow-500 text-black border-yellow-500' : 'text-gray-300 border-gray-700 hover:border-gray-500'
+                            }`}
+                          >
+                            {i + 1}. {slot.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
+              ))}
+              {targetTemplate && targetSlot && (
+                <p className="text-[10px] text-yellow-500">
+                  Targeting {targetTemplate.name}, slot {sceneTarget!.slot} ({targetSlot.name}) instead of the queued photos
+                </p>
+              )}
+              {compositeBaseQueue.length > 0 && (
+                <button
+                  onClick={handleNewSceneTemplate}
+                  className="w-full text-[10px] text-yellow-500 hover:text-yellow-400 border border-yellow-500/30 rounded-lg py-1.5 transition-colors"
+                >
+                  + Save Scene as Template
+                </button>
+              )}
+            </div>
+          )}
+
           {/* 2. Artwork / Design */}
           <div className="space-y-3">
             <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">2. Artwork / Design</label>
@@ -2110,13 +3346,13 @@ const App: React.FC = () => {
           </div>
 
           {/* Artwork Library */}
-          {artworkLibrary.length > 0 && (
+          {projectArtworkLibrary.length > 0 && (
             <div className="space-y-2">
               <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
-                <CircleStackIcon className="w-3.5 h-3.5" /> Artwork Library ({artworkLibrary.length})
+                <CircleStackIcon className="w-3.5 h-3.5" /> Artwork Library ({projectArtworkLibrary.length})
               </label>
               <div className="grid grid-cols-4 gap-2 max-h-[120px] overflow-y-auto scrollbar-thin">
-                {artworkLibrary.map(artwork => (
+                {projectArtworkLibrary.map(artwork => (
                   <div key={artwork.id} className="relative group/lib">
                     <button
                       onClick={() => {
@@ -2156,9 +3392,70 @@ const App: React.FC = () => {
             </div>
           )}
 
+          <ArtworkSetFields
+            set={artworkSet}
+            library={projectArtworkLibrary}
+            frameStyles={FRAME_STYLES}
+            current={compositeArtwork ? { name: 'Current artwork', image: compositeArtwork, aspectRatio: compositeArtworkRatio } : undefined}
+            onChange={setArtworkSet}
+          />
+
+          {/* Print size and true scale */}
+          <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-800 space-y-3">
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Print Size (Physical)</label>
+              <select
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs"
+                value={compositePrintSize ?? ""}
+                onChange={e => {
+                  const size = (e.target.value || null) as PrintSize | null;
+                  setCompositePrintSize(size);
+                  if (size === "Custom") setCompositeCustomSize(prev => prev ?? DEFAULT_CUSTOM_PRINT_SIZE);
+                  if (!size) setCompositeReference(undefined);
+                }}
+              >
+                <option value="">Not specified</option>
+                {PRINT_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </div>
+            <PrintScaleFields
+              printSize={compositePrintSize}
+              customSize={compositeCustomSize}
+              reference={compositeReference}
+              onCustomSizeChange={setCompositeCustomSize}
+              onReferenceChange={reference => setCompositeReference(reference && { from: { x: 0.2, y: 0.85 }, to: { x: 0.8, y: 0.85 }, ...reference })}
+              referenceHint={compositeMode === "perspective" ? "Drag the cyan line's ends onto it in the photo." : undefined}
+            />
+          </div>
+
+          {/* Placement method */}
+          <div className="flex gap-1 bg-gray-800 rounded-full p-1">
+            {([["generative", "Generative (Gemini)"], ["perspective", "Perspective (offline)"]] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setCompositeMode(mode)}
+                className={`flex-1 px-3 py-1.5 rounded-full text-xs font-semibold transition-all ${
+                  compositeMode === mode ? "bg-yellow-500 text-black shadow-md" : "text-gray-400 hover:text-white"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {compositeMode === "generative" ? (<>
           {/* 3. Instructions */}
           <div className="space-y-2">
             <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">3. Instructions (optional)</label>
+            {!targetTemplate && selectedBase && selectedBaseAnalysis && selectedBaseAnalysis.frames.length + selectedBaseAnalysis.emptyWalls.length > 0 && (
+              <>
+                <div className="relative rounded-lg overflow-hidden border border-gray-700">
+                  <img src={selectedBase.imageUrl} alt={selectedBase.fileName} className="w-full block" />
+                  <SceneRegionOverlay analysis={selectedBaseAnalysis} onPick={handlePickSceneRegion} />
+                </div>
+                <p className="text-[10px] text-gray-500">Click a detected frame (blue) or empty wall (green) to fill in the instructions.</p>
+              </>
+            )}
             <textarea
               value={compositeInstructions}
               onChange={(e) => setCompositeInstructions(e.target.value)}
@@ -2190,9 +3487,9 @@ const App: React.FC = () => {
             {/* Generate Now (single) */}
             <button
               onClick={handleCompositeGenerate}
-              disabled={compositeBaseQueue.length === 0 || !compositeArtwork || isCompositing || isBatchCompositing}
+              disabled={compositeBaseQueue.length === 0 || !(compositeArtwork || activeArtworkSet) || isCompositing || isBatchCompositing}
               className={`w-full py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 shadow-lg transition-all
-                ${compositeBaseQueue.length === 0 || !compositeArtwork
+                ${compositeBaseQueue.length === 0 || !(compositeArtwork || activeArtworkSet)
                   ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
                   : isCompositing
                     ? 'bg-gray-700 text-white cursor-wait'
@@ -2214,9 +3511,9 @@ const App: React.FC = () => {
 
             {/* Run Batch */}
             {(() => {
-              const totalUniqueBases = deduplicatedBaseUrls.length;
-              const totalArtworks = Math.max(selectedLibraryArtworks.size, compositeArtwork ? 1 : 0);
-              const showBatch = totalUniqueBases > 1 || selectedLibraryArtworks.size > 0 || selectedLibrarySourcePhotos.size > 0;
+              const totalUniqueBases = targetTemplate ? 1 : deduplicatedBaseUrls.length;
+              const totalArtworks = activeArtworkSet ? 1 : Math.max(selectedLibraryArtworks.size, compositeArtwork ? 1 : 0);
+              const showBatch = !!targetTemplate || totalUniqueBases > 1 || selectedLibraryArtworks.size > 0 || selectedLibrarySourcePhotos.size > 0;
               if (!showBatch) return null;
               return (
               <button
@@ -2236,23 +3533,136 @@ const App: React.FC = () => {
                 ) : (
                   <>
                     <PlayCircleIcon className="w-5 h-5" />
-                    Run Batch ({totalUniqueBases * totalArtworks} drafts)
+                    {targetTemplate ? `Run on ${targetTemplate.name}` : "Run Batch"} ({totalUniqueBases * totalArtworks} drafts)
                   </>
                 )}
               </button>
               );
             })()}
           </div>
+          </>) : (<>
+          {/* 3. Wall Region */}
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">3. Mark the Wall Region</label>
+            {!perspectiveBaseImage ? (
+              <p className="text-[10px] text-gray-500">Add a scene photo, then drag its four corners to where the artwork hangs.</p>
+            ) : (
+              <>
+                {!targetTemplate && compositeBaseQueue.length > 1 && (
+                  <div className="flex gap-1 overflow-x-auto scrollbar-thin">
+                    {compositeBaseQueue.map(item => (
+                      <button
+                        key={item.id}
+                        onClick={() => setSelectedBaseId(item.id)}
+                        className={`shrink-0 border-2 rounded overflow-hidden ${
+                          (selectedBaseId ?? compositeBaseQueue[0].id) === item.id ? 'border-yellow-500' : 'border-gray-700 hover:border-gray-500'
+                        }`}
+                      >
+                        <img src={item.imageUrl} alt={item.fileName} className="h-10 w-14 object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <QuadEditor
+                  image={perspectiveBaseImage}
+                  quad={placement.quad}
+                  onChange={quad => setPlacement(prev => ({ ...prev, quad }))}
+                >
+                  {!targetTemplate && selectedBaseAnalysis && <SceneRegionOverlay analysis={selectedBaseAnalysis} onPick={handlePickSceneRegion} />}
+                  {compositePrint && compositeReference?.from && compositeReference.to && (
+                    <ReferenceLine
+                      from={compositeReference.from}
+                      to={compositeReference.to}
+                      label={`${compositeReference.label} · ${compositeReference.length} ${compositeReference.unit}`}
+                      onChange={(from, to) => setCompositeReference(prev => prev && { ...prev, from, to })}
+                    />
+                  )}
+                </QuadEditor>
+                <p className="text-[10px] text-gray-500">
+                  {compositePrint && compositeReference
+                    ? "Mark the wall region; the print is drawn at its true size, centred in it. The room is left exactly as photographed."
+                    : "Drag the corners around the spot for the frame, or click a detected spot to start from it; the framed artwork keeps its proportions and fills as much of it as fits. The room is left exactly as photographed."}
+                </p>
+              </>
+            )}
+          </div>
+
+          {/* Frame, shadow and light */}
+          <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-800 space-y-3">
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Frame</label>
+              <select
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs"
+                value={placement.frameStyle}
+                onChange={e => setPlacement(prev => ({ ...prev, frameStyle: e.target.value as FrameStyle }))}
+              >
+                {FRAME_STYLES.map(style => <option key={style} value={style}>{style}</option>)}
+              </select>
+            </div>
+            <div className="flex justify-between items-center">
+              <label className="block text-[10px] text-gray-500 uppercase">Drop Shadow</label>
+              <button
+                onClick={() => setPlacement(prev => ({ ...prev, dropShadow: !prev.dropShadow }))}
+                className={`text-[11px] px-3 py-1.5 rounded-full border transition-all ${
+                  placement.dropShadow
+                    ? 'bg-yellow-500 text-black border-yellow-500 shadow-md'
+                    : 'bg-gray-800 text-gray-300 border-gray-700 hover:border-gray-500'
+                }`}
+              >
+                {placement.dropShadow ? "On" : "Off"}
+              </button>
+            </div>
+            <div>
+              <label className="flex justify-between text-[10px] text-gray-500 mb-1 uppercase">
+                <span>Match Room Light</span>
+                <span>{Math.round(placement.lightTint * 100)}%</span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={placement.lightTint}
+                onChange={e => setPlacement(prev => ({ ...prev, lightTint: Number(e.target.value) }))}
+                className="w-full accent-yellow-500"
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={handlePerspectiveComposite}
+            disabled={!perspectiveBaseImage || !compositeArtwork || isCompositing}
+            className={`w-full py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 shadow-lg transition-all
+              ${!perspectiveBaseImage || !compositeArtwork
+                ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                : isCompositing
+                  ? 'bg-gray-700 text-white cursor-wait'
+                  : 'bg-gradient-to-r from-yellow-400 to-orange-500 hover:from-yellow-300 hover:to-orange-400 text-black transform hover:-translate-y-0.5'
+              }`}
+          >
+            {isCompositing ? (
+              <>
+                <ArrowPathIcon className="w-5 h-5 animate-spin" />
+                Placing...
+              </>
+            ) : (
+              <>
+                <Square2StackIcon className="w-5 h-5" />
+                Place Artwork
+              </>
+            )}
+          </button>
+          </>)}
         </aside>
 
         {/* Composite Gallery */}
         <main className="flex-1 p-6 bg-gray-950 overflow-y-auto h-[calc(100vh-56px)]">
           <header className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-bold">Composite Results <span className="text-base font-normal text-gray-500 ml-2">{compositeResults.length} results</span></h2>
-            {compositeResults.length > 0 && (
+            <h2 className="text-2xl font-bold">Composite Results <span className="text-base font-normal text-gray-500 ml-2">{projectCompositeResults.length} results</span></h2>
+            {projectCompositeResults.length > 0 && (
               <div className="flex gap-2">
                 <button
-                  onClick={() => { compositeResults.forEach((r, i) => setTimeout(() => downloadImage(r.imageUrl, r.id), i * 300)); }}
+                  onClick={() => { projectCompositeResults.forEach((r, i) => setTimeout(() => downloadImage(r.imageUrl, r.id), i * 300)); }}
                   className="text-xs bg-gray-800 hover:bg-gray-700 px-3 py-2 rounded-lg flex items-center gap-1 transition-colors"
                 >
                   <ArrowDownTrayIcon className="w-3 h-3" /> Download All
@@ -2267,7 +3677,7 @@ const App: React.FC = () => {
             )}
           </header>
 
-          {compositeResults.length === 0 ? (
+          {projectCompositeResults.length === 0 ? (
             <div className="h-[60vh] flex flex-col items-center justify-center border-2 border-dashed border-gray-800 rounded-2xl bg-gray-900/30 text-center p-8">
               <div className="w-16 h-16 bg-gray-800 rounded-full flex items-center justify-center mb-4">
                 <SparklesIcon className="w-8 h-8 text-yellow-500" />
@@ -2277,14 +3687,14 @@ const App: React.FC = () => {
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 pb-12">
-              {compositeResults.map(result => (
-                <div key={result.id} className="group bg-gray-900 rounded-xl overflow-hidden border border-gray-800 shadow-lg hover:shadow-2xl hover:border-gray-600 transition-all">
+              {projectCompositeResults.map(result => (
+                <div key={result.id} className={`group bg-gray-900 rounded-xl overflow-hidden border border-gray-800 shadow-lg hover:shadow-2xl hover:border-gray-600 transition-all ${comparePickId === result.id ? 'ring-2 ring-yellow-500' : ''}`}>
                   <div
                     className="relative cursor-pointer"
                     style={{ aspectRatio: result.aspectRatio ? result.aspectRatio.replace(":", " / ") : "1 / 1" }}
                     onClick={() => setLightboxImage(result.imageUrl)}
                   >
-                    <img src={result.imageUrl} alt="Composite Result" className="w-full h-full object-cover" />
+                    <BlobImage src={result.thumbnailUrl || result.imageUrl} alt="Composite Result" className="w-full h-full object-cover" />
                     {/* Status Badges */}
                     <div className="absolute top-2 left-2 flex flex-col gap-1">
                       <span className={`px-1.5 py-0.5 backdrop-blur rounded text-[9px] font-bold border uppercase ${
@@ -2299,11 +3709,16 @@ const App: React.FC = () => {
                           Refined
                         </span>
                       )}
+                      {result.generation?.model === PERSPECTIVE_COMPOSITOR_MODEL && (
+                        <span className="px-1.5 py-0.5 bg-teal-600/90 backdrop-blur rounded text-[9px] font-bold border border-teal-400/30 uppercase">
+                          Perspective
+                        </span>
+                      )}
                     </div>
                     {/* Hover Actions */}
                     <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
                       {/* Upscale button */}
-                      {!result.isHighRes && result.compositeBaseUrl && (
+                      {!result.isHighRes && result.compositeBaseUrl && result.generation?.model !== PERSPECTIVE_COMPOSITOR_MODEL && (
                         <button
                           onClick={(e) => { e.stopPropagation(); handleCompositeUpscale(result); }}
                           className="bg-indigo-600 hover:bg-indigo-500 text-white p-2 rounded-full shadow-lg"
@@ -2312,6 +3727,8 @@ const App: React.FC = () => {
                           <SparklesIcon className="w-5 h-5" />
                         </button>
                       )}
+                      <button onClick={(e) => { e.stopPropagation(); handleComparePick(result); }} className={`p-2 rounded-full shadow-lg ${comparePickId === result.id ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-600 text-white'}`} title={comparePickId && comparePickId !== result.id ? "Compare with picked result" : "Pick for comparison"}><ArrowsRightLeftIcon className="w-5 h-5" /></button>
+                      <button onClick={(e) => { e.stopPropagation(); setAnimatingResult(result); }} className="bg-gray-700 hover:bg-gray-600 text-white p-2 rounded-full shadow-lg" title="Animate (video, WebP or GIF)"><FilmIcon className="w-5 h-5" /></button>
                       <button onClick={(e) => { e.stopPropagation(); downloadImage(result.imageUrl, result.id); }} className="bg-white text-black p-2 rounded-full shadow-lg hover:bg-gray-200" title="Download"><ArrowDownTrayIcon className="w-5 h-5" /></button>
                       <button onClick={(e) => { e.stopPropagation(); deleteCompositeResult(result.id); }} className="bg-red-600 text-white p-2 rounded-full shadow-lg hover:bg-red-500" title="Delete"><TrashIcon className="w-5 h-5" /></button>
                     </div>
@@ -2334,6 +3751,16 @@ const App: React.FC = () => {
                     <p className="text-[10px] text-gray-400 line-clamp-2 mb-2">{result.prompt}</p>
                     <div className="flex justify-between items-center text-[9px] text-gray-600 uppercase font-mono mb-2">
                       <span>{(() => { const d = new Date(Number(result.createdAt)); return isNaN(d.getTime()) ? '—' : d.toLocaleTimeString(); })()}</span>
+                      <span className="flex items-center gap-2">
+                        {lineageEntry(result)?.parent && (
+                          <button onClick={() => handleCompareWithParent(lineageEntry(result)!.parent!.result, result)} className="text-gray-500 hover:text-yellow-500" title="Compare with the result this was made from">vs parent</button>
+                        )}
+                        {lineageSize(result) > 1 && (
+                          <button onClick={() => openLineage(result)} className="flex items-center gap-1 text-gray-500 hover:text-yellow-500" title="Show lineage">
+                            <ShareIcon className="w-3 h-3" /> {lineageSize(result)}
+                          </button>
+                        )}
+                      </span>
                       <span>Gemini Flash</span>
                     </div>
                     {/* Refine toggle */}
@@ -2375,18 +3802,92 @@ const App: React.FC = () => {
               ))}
             </div>
           )}
+          {cloudCursor && (
+            <div ref={gallerySentinelRef} className="flex justify-center py-6 text-xs text-gray-500">
+              {isLoadingCloudPage && <ArrowPathIcon className="w-5 h-5 animate-spin" />}
+            </div>
+          )}
         </main>
       </div>
       )}
 
+      {lineageView && lineage.rootById.get(lineageView.rootId) && (
+        <LineageView
+          root={lineage.rootById.get(lineageView.rootId)!}
+          focusId={lineageView.focusId}
+          canBranch={canBranch}
+          onBranch={handleBranch}
+          onOpen={result => setLightboxImage(result.imageUrl)}
+          onCompareWithParent={handleCompareWithParent}
+          onDeleteSubtree={handleDeleteSubtree}
+          onClose={() => setLineageView(null)}
+        />
+      )}
+
+      {compare && (
+        <CompareViewer before={compare.before} after={compare.after} onClose={() => setCompare(null)} />
+      )}
+
+      {activeExperiment && (
+        <ExperimentPicker
+          experiment={activeExperiment.experiment}
+          images={activeExperiment.images}
+          history={experiments}
+          onPick={handlePickExperimentVariant}
+          onClose={() => setActiveExperiment(null)}
+        />
+      )}
+
+      {editingVibe && (
+        <VibeEditor
+          key={editingVibe.id}
+          vibe={editingVibe}
+          builtIns={ANALYSIS_VIBES}
+          canDelete={customVibes.some(v => v.id === editingVibe.id) && canEditShared(editingVibe, currentUser)}
+          onSave={handleSaveCustomVibe}
+          onDelete={handleDeleteCustomVibe}
+          onClose={() => setEditingVibe(null)}
+        />
+      )}
+
+      {editingTemplate && (
+        <SceneTemplateEditor
+          key={editingTemplate.id}
+          template={editingTemplate}
+          frames={FRAME_STYLES}
+          onSave={handleSaveSceneTemplate}
+          onClose={() => setEditingTemplate(null)}
+        />
+      )}
+
       {/* Lightbox */}
       {lightboxImage && (
         <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur flex items-center justify-center p-4" onClick={() => setLightboxImage(null)}>
            <button className="absolute top-4 right-4 text-gray-400 hover:text-white"><XMarkIcon className="w-8 h-8" /></button>
-           <img src={lightboxImage} className="max-w-full max-h-full object-contain shadow-2xl" onClick={e => e.stopPropagation()} />
+           <BlobImage src={lightboxImage} className="max-w-full max-h-full object-contain shadow-2xl" onClick={e => e.stopPropagation()} />
         </div>
       )}
 
+      <JobQueuePanel jobs={backgroundJobs} onCancel={handleCancelJob} />
+
+      {varyingResult?.generation?.settings && (
+        <VaryResultPanel
+          result={varyingResult}
+          settings={varyingResult.generation.settings}
+          options={{ frames: FRAME_STYLES, lighting: LIGHTING_STYLES, textures: WALL_TEXTURES, printSizes: PRINT_SIZES }}
+          onGenerate={overrides => handleRegenerate(varyingResult, overrides)}
+          onClose={() => setVaryingResult(null)}
+        />
+      )}
+
+      {animatingResult && (
+        <MotionExportPanel result={animatingResult} reel={motionReel(animatingResult)} onClose={() => setAnimatingResult(null)} />
+      )}
+
+      {showAccountPanel && currentUser && (
+        <AccountPanel user={currentUser} onClose={() => setShowAccountPanel(false)} onSignOut={handleSignOut} toast={toast} />
+      )}
+
       {/* Toast notifications */}
       <div className="fixed bottom-4 right-4 flex flex-col gap-2 z-[9999] pointer-events-none">
         {toasts.map(t => (
@@ -0,0 +1,38 @@
+import type { VercelRequest } from '@vercel/node';
+import { SignJWT, jwtVerify } from 'jose';
+import { neon } from '@neondatabase/serverless';
+import { getActiveUser, type AuthUser } from './users';
+
+const secret = () => new TextEncoder().encode(process.env.JWT_SECRET!);
+
+/** Session JWT for a user: `sub` is the user id, `role` lets the client show admin UI */
+export async function signToken(user: AuthUser): Promise<string> {
+  return new SignJWT({ role: user.role })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(user.id)
+    .setExpirationTime('30d')
+    .sign(secret());
+}
+
+/**
+ * Checks the `Authorization: Bearer <jwt>` header issued by /api/auth and
+ * returns the user it belongs to. Disabled users are rejected even while
+ * their token is unexpired.
+ */
+export async function authenticate(req: VercelRequest): Promise<AuthUser | null> {
+  const auth = req.headers.authorization;
+  if (!auth?.startsWith('Bearer ')) return null;
+  const token = auth.slice(7);
+  try {
+    const { payload } = await jwtVerify(token, secret());
+    if (!payload.sub) return null;
+    return await getActiveUser(neon(process.env.DATABASE_URL!), payload.sub);
+  } catch {
+    return null;
+  }
+}
+
+/** For routes that only need a signed-in user, not who it is */
+export async function verifyToken(req: VercelRequest): Promise<boolean> {
+  return (await authenticate(req)) !== null;
+}
@@ -0,0 +1,225 @@
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { MockupResult } from '../../types';
+import { mapResultImages, isDataUrl, isBlobRef, parseDataUrl, sha256Hex, sniffImageMimeType, toBlobRef, blobRefHash } from '../../services/blobRefs';
+
+export interface StoredBlob {
+  bytes: Buffer;
+  mimeType: string;
+}
+
+/** Minimal object-storage surface; swap the adapter without touching callers */
+export interface BlobStore {
+  /** Whether blobs outlive this process and are visible to every instance; legacy rows are only migrated into durable stores */
+  readonly durable: boolean;
+  has(hash: string): Promise<boolean>;
+  get(hash: string): Promise<StoredBlob | null>;
+  put(hash: string, bytes: Buffer): Promise<void>;
+}
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Stores blobs as files under `root/ab/cd/<hash>`. Writes go through a temp
+ * file + rename so a concurrent reader never sees a partial blob.
+ */
+export class FsBlobStore implements BlobStore {
+  constructor(private readonly root: string, readonly durable = false) {}
+
+  private pathFor(hash: string): string {
+    if (!HASH_PATTERN.test(hash)) throw new Error(`Invalid blob hash: ${hash}`);
+    return path.join(this.root, hash.slice(0, 2), hash.slice(2, 4), hash);
+  }
+
+  async has(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async get(hash: string): Promise<StoredBlob | null> {
+    try {
+      const bytes = await fs.readFile(this.pathFor(hash));
+      return { bytes, mimeType: sniffImageMimeType(bytes) };
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async put(hash: string, bytes: Buffer): Promise<void> {
+    const target = this.pathFor(hash);
+    if (await this.has(hash)) return;
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, bytes);
+    await fs.rename(tmp, target);
+  }
+}
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** S3-compatible endpoint such as Cloudflare R2 or MinIO; AWS's regional endpoint by default */
+  endpoint?: string;
+  /** Key prefix inside the bucket, e.g. "mockups/" */
+  prefix?: string;
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+/**
+ * AWS Signature V4 headers for an S3 request. Every header passed in is
+ * signed, along with host, x-amz-date and x-amz-content-sha256.
+ */
+export function signS3Request(
+  request: { method: string; url: string; headers?: Record<string, string>; payloadHash: string },
+  credentials: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  now = new Date(),
+): Record<string, string> {
+  const url = new URL(request.url);
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const date = amzDate.slice(0, 8);
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(request.headers ?? {}).map(([k, v]) => [k.toLowerCase(), v.trim()])),
+    host: url.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+  const query = [...url.searchParams].sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`).join('&');
+  const canonicalRequest = [
+    request.method, url.pathname, query,
+    names.map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders, request.payloadHash,
+  ].join('\n');
+
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const key = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', key).update(stringToSign).digest('hex');
+
+  const { host: _host, ...rest } = headers;
+  return {
+    ...rest,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope},SignedHeaders=${signedHeaders},Signature=${signature}`,
+  };
+}
+
+/**
+ * Stores blobs as objects `prefix/ab/<hash>` in an S3-compatible bucket,
+ * through the REST API with path-style URLs. Objects are content-addressed,
+ * so a put that races another put of the same hash writes identical bytes.
+ */
+export class S3BlobStore implements BlobStore {
+  readonly durable = true;
+
+  constructor(private readonly config: S3Config, private readonly fetchImpl: typeof fetch = fetch) {}
+
+  private urlFor(hash: string): string {
+    if (!HASH_PATTERN.test(hash)) throw new Error(`Invalid blob hash: ${hash}`);
+    const endpoint = (this.config.endpoint || `https://s3.${this.config.region}.amazonaws.com`).replace(/\/+$/, '');
+    return `${endpoint}/${this.config.bucket}/${this.config.prefix ?? ''}${hash.slice(0, 2)}/${hash}`;
+  }
+
+  private async send(method: string, hash: string, body?: Buffer, headers: Record<string, string> = {}): Promise<Response> {
+    const url = this.urlFor(hash);
+    const signed = signS3Request({ method, url, headers, payloadHash: sha256(body ?? '') }, this.config);
+    const response = await this.fetchImpl(url, { method, headers: signed, body });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Blob storage ${method} failed: ${response.status} ${await response.text().catch(() => '')}`.trim());
+    }
+    return response;
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return (await this.send('HEAD', hash)).ok;
+  }
+
+  async get(hash: string): Promise<StoredBlob | null> {
+    const response = await this.send('GET', hash);
+    if (!response.ok) return null;
+    const bytes = Buffer.from(await response.arrayBuffer());
+    return { bytes, mimeType: sniffImageMimeType(bytes) };
+  }
+
+  async put(hash: string, bytes: Buffer): Promise<void> {
+    if (await this.has(hash)) return;
+    const response = await this.send('PUT', hash, bytes, { 'content-type': sniffImageMimeType(bytes) });
+    if (!response.ok) throw new Error(`Blob storage PUT failed: ${response.status}`);
+  }
+}
+
+/**
+ * Picks the adapter from the environment: an S3-compatible bucket when
+ * BLOB_S3_BUCKET is set, else files under BLOB_STORE_DIR (a persistent disk
+ * shared by every instance of a self-hosted server). The tmp-dir fallback is
+ * per instance and wiped with it, so it is refused on Vercel.
+ */
+export function blobStoreFromEnv(env: Record<string, string | undefined> = process.env): BlobStore {
+  if (env.BLOB_S3_BUCKET) {
+    const { BLOB_S3_ACCESS_KEY_ID: accessKeyId, BLOB_S3_SECRET_ACCESS_KEY: secretAccessKey } = env;
+    if (!accessKeyId || !secretAccessKey) throw new Error('BLOB_S3_ACCESS_KEY_ID and BLOB_S3_SECRET_ACCESS_KEY are required with BLOB_S3_BUCKET');
+    return new S3BlobStore({
+      bucket: env.BLOB_S3_BUCKET,
+      region: env.BLOB_S3_REGION || (env.BLOB_S3_ENDPOINT ? 'auto' : 'us-east-1'),
+      accessKeyId,
+      secretAccessKey,
+      endpoint: env.BLOB_S3_ENDPOINT,
+      prefix: env.BLOB_S3_PREFIX,
+    });
+  }
+  if (env.BLOB_STORE_DIR) return new FsBlobStore(env.BLOB_STORE_DIR, true);
+  if (env.VERCEL) throw new Error('Set BLOB_S3_BUCKET: function instances on Vercel share no disk, so blobs need object storage');
+  return new FsBlobStore(path.join(os.tmpdir(), 'mockup-blobs'));
+}
+
+let store: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (!store) store = blobStoreFromEnv();
+  return store;
+}
+
+/** Hashes and stores raw bytes, returning the `sha256:` reference */
+export async function putBytes(blobStore: BlobStore, bytes: Buffer): Promise<string> {
+  const hash = await sha256Hex(bytes);
+  await blobStore.put(hash, bytes);
+  return toBlobRef(hash);
+}
+
+export async function putDataUrl(blobStore: BlobStore, dataUrl: string): Promise<string> {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) throw new Error('Not a base64 data URL');
+  return putBytes(blobStore, Buffer.from(parsed.base64, 'base64'));
+}
+
+/** Reads a reference back as a data URL (what Gemini and MCP clients expect) */
+export async function readAsDataUrl(blobStore: BlobStore, ref: string): Promise<string | null> {
+  const blob = await blobStore.get(blobRefHash(ref));
+  if (!blob) return null;
+  return `data:${blob.mimeType};base64,${blob.bytes.toString('base64')}`;
+}
+
+/** Moves any inline data URLs on a result into the store, leaving references behind */
+export async function externalizeImages(blobStore: BlobStore, result: MockupResult): Promise<MockupResult> {
+  return mapResultImages(result, async value => isDataUrl(value) ? putDataUrl(blobStore, value) : value);
+}
+
+/** Accepts either form from callers: data URLs pass through, references are loaded */
+export async function resolveImage(blobStore: BlobStore, value: string): Promise<string> {
+  if (!isBlobRef(value)) return value;
+  const dataUrl = await readAsDataUrl(blobStore, value);
+  if (!dataUrl) throw new Error(`Blob not found: ${value}`);
+  return dataUrl;
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseCustomVibe } from './customVibes';
+import { bodyFactory } from './testBodies';
+
+const body = bodyFactory({
+  id: 'v1',
+  name: ' Coastal Scandi ',
+  systemPrompt: 'Bright coastal homes with whitewashed timber and linen.',
+  imperfections: ['sand on the floorboards', '  ', 'salt haze on the window'],
+  atmospheric: ['sea light through sheer curtains'],
+  sceneDressing: ['driftwood on a sideboard'],
+  realismLevel: 'lived-in',
+  ambientDetails: 'salt air',
+  negatives: ['snow'],
+  createdAt: 1,
+});
+
+describe('parseCustomVibe', () => {
+  it('normalizes the name and drops blank entries', () => {
+    const vibe = parseCustomVibe(body());
+    expect(vibe.name).toBe('Coastal Scandi');
+    expect(vibe.imperfections).toEqual(['sand on the floorboards', 'salt haze on the window']);
+    expect(vibe.updatedAt).toBe(1);
+    expect(vibe.ownerId).toBeUndefined();
+  });
+
+  it('defaults missing lists and ambient details to empty', () => {
+    const vibe = parseCustomVibe(body({ atmospheric: undefined, ambientDetails: undefined }));
+    expect(vibe.atmospheric).toEqual([]);
+    expect(vibe.ambientDetails).toBe('');
+  });
+
+  it('rejects built-in names, a missing theme and oversized lists', () => {
+    expect(() => parseCustomVibe(body({ name: 'surprise me' }))).toThrow('built-in vibe');
+    expect(() => parseCustomVibe(body({ systemPrompt: ' ' }))).toThrow('systemPrompt required');
+    expect(() => parseCustomVibe(body({ realismLevel: 'spotless' }))).toThrow('realismLevel');
+    expect(() => parseCustomVibe(body({ negatives: 'snow' }))).toThrow('negatives must be a list');
+    expect(() => parseCustomVibe(body({ sceneDressing: Array.from({ length: 21 }, (_, i) => `item ${i}`) }))).toThrow('at most 20');
+  });
+});
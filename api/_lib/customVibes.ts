@@ -0,0 +1,149 @@
+import type { AnalysisVibe, CustomVibe, EnvironmentalDetails } from '../../types';
+import { findByIdOrName } from '../../services/syncedRows';
+import type { Sql } from './mockupResults';
+import { skippedWrite, type WriteOutcome } from './teamRows';
+import type { AuthUser } from './users';
+
+const MAX_NAME_LENGTH = 80;
+const MAX_TEXT_LENGTH = 4000;
+const MAX_LIST_ITEMS = 20;
+const MAX_ITEM_LENGTH = 300;
+const ANALYSIS_VIBES: AnalysisVibe[] = ['Industrial & Raw', 'Modern & Minimalist', 'Cozy & Bohemian', 'Luxury & High-end', 'Public & Street', 'Surprise Me'];
+const REALISM_LEVELS: EnvironmentalDetails['realismLevel'][] = ['pristine', 'lived-in', 'worn', 'gritty'];
+
+function toCustomVibe(row: any): CustomVibe {
+  return {
+    id: row.id,
+    name: row.name,
+    systemPrompt: row.systemPrompt,
+    imperfections: row.imperfections,
+    atmospheric: row.atmospheric,
+    sceneDressing: row.sceneDressing,
+    realismLevel: row.realismLevel,
+    ambientDetails: row.ambientDetails,
+    negatives: row.negatives,
+    ownerId: row.ownerId,
+    createdAt: Number(row.createdAt),
+    updatedAt: Number(row.updatedAt),
+    deletedAt: row.deletedAt == null ? undefined : Number(row.deletedAt),
+  };
+}
+
+function parseText(value: unknown, field: string, required: boolean): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (required && !text) throw new Error(`${field} required`);
+  if (text.length > MAX_TEXT_LENGTH) throw new Error(`${field} must be at most ${MAX_TEXT_LENGTH} characters`);
+  return text;
+}
+
+function parseList(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`${field} must be a list`);
+  const items = value.map(v => typeof v === 'string' ? v.trim() : '').filter(Boolean);
+  if (items.length > MAX_LIST_ITEMS) throw new Error(`${field} can have at most ${MAX_LIST_ITEMS} entries`);
+  if (items.some(item => item.length > MAX_ITEM_LENGTH)) throw new Error(`${field} entries must be at most ${MAX_ITEM_LENGTH} characters`);
+  return items;
+}
+
+/** Validates a vibe from a request body; throws with a client-facing message. The owner is set by the server. */
+export function parseCustomVibe(body: unknown): CustomVibe {
+  const v = (body ?? {}) as Partial<CustomVibe>;
+  if (typeof v.id !== 'string' || !v.id) throw new Error('id required');
+  const name = typeof v.name === 'string' ? v.name.trim() : '';
+  if (!name) throw new Error('name required');
+  if (name.length > MAX_NAME_LENGTH) throw new Error(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (ANALYSIS_VIBES.some(builtIn => builtIn.toLowerCase() === name.toLowerCase())) throw new Error(`"${name}" is a built-in vibe`);
+  if (!REALISM_LEVELS.includes(v.realismLevel!)) throw new Error('Invalid realismLevel');
+  const createdAt = Number(v.createdAt ?? Date.now());
+  const updatedAt = Number(v.updatedAt ?? createdAt);
+  if (!Number.isFinite(createdAt) || !Number.isFinite(updatedAt)) throw new Error('Invalid timestamps');
+  return {
+    id: v.id,
+    name,
+    systemPrompt: parseText(v.systemPrompt, 'systemPrompt', true),
+    imperfections: parseList(v.imperfections, 'imperfections'),
+    atmospheric: parseList(v.atmospheric, 'atmospheric'),
+    sceneDressing: parseList(v.sceneDressing, 'sceneDressing'),
+    realismLevel: v.realismLevel!,
+    ambientDetails: parseText(v.ambientDetails, 'ambientDetails', false),
+    negatives: parseList(v.negatives, 'negatives'),
+    createdAt,
+    updatedAt,
+  };
+}
+
+/** Every vibe on the team, tombstones included so other devices learn about deletions */
+export async function listCustomVibes(sql: Sql): Promise<CustomVibe[]> {
+  const rows = await sql`
+    SELECT id, name, system_prompt AS "systemPrompt", imperfections, atmospheric, scene_dressing AS "sceneDressing",
+      realism_level AS "realismLevel", ambient_details AS "ambientDetails", negatives, owner_id AS "ownerId",
+      created_at AS "createdAt", updated_at AS "updatedAt", deleted_at AS "deletedAt"
+    FROM custom_vibes
+    ORDER BY created_at
+  `;
+  return rows.map(toCustomVibe);
+}
+
+/** A live vibe by id or name */
+export async function findCustomVibe(sql: Sql, ref: string): Promise<CustomVibe | undefined> {
+  const vibes = (await listCustomVibes(sql)).filter(v => !v.deletedAt);
+  return findByIdOrName(vibes, ref);
+}
+
+/**
+ * The vibe a request asks for: a built-in name, a custom vibe id or name, or
+ * an inline custom vibe definition. Throws with a client-facing message.
+ */
+export async function resolveVibe(sql: Sql, value: unknown): Promise<AnalysisVibe | CustomVibe> {
+  if (value === undefined || value === null || value === '') return 'Surprise Me';
+  if (typeof value === 'object') return parseCustomVibe(value);
+  if (typeof value !== 'string') throw new Error('Invalid vibe');
+  if (ANALYSIS_VIBES.includes(value as AnalysisVibe)) return value as AnalysisVibe;
+  const custom = await findCustomVibe(sql, value);
+  if (!custom) throw new Error(`Unknown vibe: ${value}`);
+  return custom;
+}
+
+async function ownerOf(sql: Sql, id: string): Promise<string | undefined> {
+  const rows = await sql`SELECT owner_id AS "ownerId" FROM custom_vibes WHERE id = ${id}`;
+  return rows[0]?.ownerId;
+}
+
+/**
+ * Insert or update, newer `updatedAt` wins. Updates keep the original owner
+ * and only apply for that owner or an admin; the outcome says which applied.
+ */
+export async function upsertCustomVibe(sql: Sql, user: AuthUser, vibe: CustomVibe): Promise<WriteOutcome> {
+  const isAdmin = user.role === 'admin';
+  const rows = await sql`
+    INSERT INTO custom_vibes (id, owner_id, name, system_prompt, imperfections, atmospheric, scene_dressing, realism_level,
+      ambient_details, negatives, created_at, updated_at)
+    VALUES (${vibe.id}, ${user.id}, ${vibe.name}, ${vibe.systemPrompt}, ${JSON.stringify(vibe.imperfections)},
+      ${JSON.stringify(vibe.atmospheric)}, ${JSON.stringify(vibe.sceneDressing)}, ${vibe.realismLevel}, ${vibe.ambientDetails},
+      ${JSON.stringify(vibe.negatives)}, ${vibe.createdAt}, ${vibe.updatedAt})
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      system_prompt = EXCLUDED.system_prompt,
+      imperfections = EXCLUDED.imperfections,
+      atmospheric = EXCLUDED.atmospheric,
+      scene_dressing = EXCLUDED.scene_dressing,
+      realism_level = EXCLUDED.realism_level,
+      ambient_details = EXCLUDED.ambient_details,
+      negatives = EXCLUDED.negatives,
+      updated_at = EXCLUDED.updated_at,
+      deleted_at = NULL
+    WHERE (custom_vibes.owner_id = EXCLUDED.owner_id OR ${isAdmin}) AND custom_vibes.updated_at < EXCLUDED.updated_at
+    RETURNING id
+  `;
+  return rows.length > 0 ? 'saved' : skippedWrite(user, await ownerOf(sql, vibe.id));
+}
+
+export async function deleteCustomVibe(sql: Sql, user: AuthUser, id: string, deletedAt = Date.now()): Promise<WriteOutcome> {
+  const isAdmin = user.role === 'admin';
+  const rows = await sql`
+    UPDATE custom_vibes SET deleted_at = ${deletedAt}, updated_at = ${deletedAt}
+    WHERE id = ${id} AND (owner_id = ${user.id} OR ${isAdmin}) AND deleted_at IS NULL AND updated_at <= ${deletedAt}
+    RETURNING id
+  `;
+  return rows.length > 0 ? 'saved' : skippedWrite(user, await ownerOf(sql, id));
+}
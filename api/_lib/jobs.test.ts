@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { JobRequest } from '../../types';
+import type { Sql } from './mockupResults';
+
+vi.mock('./mockupResults', () => ({ insertMockupResult: vi.fn(async () => {}) }));
+
+vi.mock('./blobStore', () => ({
+  getBlobStore: () => ({}),
+  externalizeImages: async (_store: unknown, result: unknown) => result,
+  resolveImage: async (_store: unknown, value: string) => value,
+}));
+
+const generated = { imageUrl: 'data:image/png;base64,OUT', generation: { resolvedPrompt: 'P', model: 'm', generatedAt: 1, retryCount: 0 } };
+
+vi.mock('./geminiServerService', () => ({
+  serverGenerateMockup: vi.fn(async () => [generated]),
+  serverGenerateComposite: vi.fn(),
+  serverGenerateContactSheet: vi.fn(),
+  serverRegenerateHighRes: vi.fn(),
+}));
+
+import { MAX_ATTEMPTS, cancelJob, enqueueJobs, runWorker } from './jobs';
+import { insertMockupResult } from './mockupResults';
+import { serverGenerateMockup } from './geminiServerService';
+
+interface JobRow {
+  id: string;
+  ownerId: string;
+  status: string;
+  attempts: number;
+  createdAt: number;
+  startedAt?: number;
+  input: unknown;
+  kind: string;
+  label: string;
+  error?: string;
+}
+
+/** The jobs table in memory, answering the queue's statements the way Postgres would */
+function fakeQueue() {
+  const rows = new Map<string, JobRow>();
+  const statements: string[] = [];
+  const sql = (async (strings: TemplateStringsArray, ...values: any[]) => {
+    const text = strings.join('?');
+    statements.push(text);
+    if (text.includes('INSERT INTO jobs')) {
+      const [id, ownerId, , kind, status, label, , input, createdAt] = values;
+      rows.set(id, { id, ownerId, kind, status, label, input: JSON.parse(input), attempts: 0, createdAt });
+      return [];
+    }
+    if (text.includes("status = 'cancelled'")) {
+      const [, id, ownerId] = values;
+      const row = rows.get(id);
+      if (!row || row.ownerId !== ownerId || !['queued', 'running'].includes(row.status)) return [];
+      row.status = 'cancelled';
+      return [{ id }];
+    }
+    if (text.includes('Worker timed out')) {
+      const [maxAttempts, , cutoff] = values;
+      for (const row of rows.values()) {
+        if (row.status === 'running' && row.startedAt! < cutoff) {
+          row.status = row.attempts >= maxAttempts ? 'failed' : 'queued';
+          row.error = 'Worker timed out';
+        }
+      }
+      return [];
+    }
+    if (text.includes('FOR UPDATE SKIP LOCKED')) {
+      const next = [...rows.values()].filter(r => r.status === 'queued').sort((a, b) => a.createdAt - b.createdAt)[0];
+      if (!next) return [];
+      next.status = 'running';
+      next.attempts++;
+      next.startedAt = values[0];
+      return [{ ...next }];
+    }
+    if (text.includes("status = 'succeeded'")) {
+      const [, , id] = values;
+      const row = rows.get(id)!;
+      if (row.status !== 'running') return [];
+      row.status = 'succeeded';
+      return [{ id }];
+    }
+    if (text.includes('UPDATE jobs SET status =')) {
+      const [status, error, , id] = values;
+      const row = rows.get(id)!;
+      if (row.status === 'running') Object.assign(row, { status, error });
+      return [];
+    }
+    throw new Error(`Unexpected statement: ${text}`);
+  }) as unknown as Sql;
+  return { sql, rows, statements };
+}
+
+const mockupJob = (label: string): JobRequest => ({
+  kind: 'mockup',
+  label,
+  input: {
+    artwork: 'sha256:art',
+    variantType: 'standard',
+    settings: {
+      prompt: label, negativePrompt: '', count: 1, aspectRatio: '3:4', imageSize: '2K',
+      frameStyle: 'Auto', lighting: 'Auto', wallTexture: 'Auto', printSize: 'A2', generationMode: 'batch',
+    },
+  },
+});
+
+const FAR_DEADLINE = () => Date.now() + 60_000;
+
+describe('job queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(serverGenerateMockup).mockImplementation(async () => [generated]);
+  });
+
+  it('claims jobs oldest first with SKIP LOCKED and saves their results', async () => {
+    const { sql, rows, statements } = fakeQueue();
+    const [first, second] = await enqueueJobs(sql, 'u1', [mockupJob('first'), mockupJob('second')]);
+    expect(await runWorker(sql, FAR_DEADLINE())).toBe(2);
+    expect(statements.some(s => s.includes('FOR UPDATE SKIP LOCKED'))).toBe(true);
+    expect(vi.mocked(serverGenerateMockup).mock.calls.map(([, settings]) => settings.prompt)).toEqual(['first', 'second']);
+    expect(rows.get(first.id)!.status).toBe('succeeded');
+    expect(rows.get(second.id)!.status).toBe('succeeded');
+    expect(insertMockupResult).toHaveBeenCalledTimes(2);
+    expect(insertMockupResult).toHaveBeenCalledWith(sql, 'u1', expect.objectContaining({ prompt: 'first', imageUrl: generated.imageUrl }));
+  });
+
+  it('only cancels the owner\'s unfinished jobs', async () => {
+    const { sql, rows } = fakeQueue();
+    const [job] = await enqueueJobs(sql, 'u1', [mockupJob('a')]);
+    expect(await cancelJob(sql, 'u2', job.id)).toBe(false);
+    expect(await cancelJob(sql, 'u1', job.id)).toBe(true);
+    expect(rows.get(job.id)!.status).toBe('cancelled');
+    expect(await cancelJob(sql, 'u1', job.id)).toBe(false);
+    expect(await runWorker(sql, FAR_DEADLINE())).toBe(0);
+  });
+
+  it('drops the output of a job cancelled while it runs', async () => {
+    const { sql, rows } = fakeQueue();
+    const [job] = await enqueueJobs(sql, 'u1', [mockupJob('a')]);
+    vi.mocked(serverGenerateMockup).mockImplementation(async () => {
+      await cancelJob(sql, 'u1', job.id);
+      return [generated];
+    });
+    await runWorker(sql, FAR_DEADLINE());
+    expect(rows.get(job.id)!.status).toBe('cancelled');
+    expect(insertMockupResult).not.toHaveBeenCalled();
+  });
+
+  it('retries a failing job and counts earlier attempts as retries', async () => {
+    const { sql, rows } = fakeQueue();
+    const [job] = await enqueueJobs(sql, 'u1', [mockupJob('a')]);
+    vi.mocked(serverGenerateMockup).mockRejectedValueOnce(new Error('overloaded'));
+    await runWorker(sql, FAR_DEADLINE());
+    expect(rows.get(job.id)).toMatchObject({ status: 'succeeded', attempts: 2 });
+    expect(insertMockupResult).toHaveBeenCalledWith(sql, 'u1', expect.objectContaining({
+      generation: expect.objectContaining({ retryCount: 1 }),
+    }));
+  });
+
+  it(`fails a job after ${MAX_ATTEMPTS} attempts`, async () => {
+    const { sql, rows } = fakeQueue();
+    const [job] = await enqueueJobs(sql, 'u1', [mockupJob('a')]);
+    vi.mocked(serverGenerateMockup).mockRejectedValue(new Error('bad artwork'));
+    await runWorker(sql, FAR_DEADLINE());
+    expect(serverGenerateMockup).toHaveBeenCalledTimes(MAX_ATTEMPTS);
+    expect(rows.get(job.id)).toMatchObject({ status: 'failed', attempts: MAX_ATTEMPTS, error: 'bad artwork' });
+  });
+
+  it('requeues jobs whose worker died, and fails them once out of attempts', async () => {
+    const { sql, rows } = fakeQueue();
+    const [retry, spent] = await enqueueJobs(sql, 'u1', [mockupJob('retry'), mockupJob('spent')]);
+    const longAgo = Date.now() - 60 * 60 * 1000;
+    Object.assign(rows.get(retry.id)!, { status: 'running', attempts: 1, startedAt: longAgo });
+    Object.assign(rows.get(spent.id)!, { status: 'running', attempts: MAX_ATTEMPTS, startedAt: longAgo });
+    await runWorker(sql, FAR_DEADLINE());
+    expect(rows.get(retry.id)).toMatchObject({ status: 'succeeded', attempts: 2 });
+    expect(rows.get(spent.id)).toMatchObject({ status: 'failed', error: 'Worker timed out' });
+  });
+
+  it('leaves a recently started job to its worker', async () => {
+    const { sql, rows } = fakeQueue();
+    const [job] = await enqueueJobs(sql, 'u1', [mockupJob('a')]);
+    Object.assign(rows.get(job.id)!, { status: 'running', attempts: 1, startedAt: Date.now() });
+    expect(await runWorker(sql, FAR_DEADLINE())).toBe(0);
+    expect(rows.get(job.id)!.status).toBe('running');
+  });
+});
@@ -0,0 +1,259 @@
+import type { ArtworkSet, GenerationJob, GenerationSettings, JobRequest, JobStatus, MockupResult } from '../../types';
+import { mapPanelImages } from '../../services/artworkSets';
+import { mapSettingsImages } from '../../services/blobRefs';
+import { insertMockupResult, type Sql } from './mockupResults';
+import { externalizeImages, getBlobStore, resolveImage } from './blobStore';
+import {
+  serverGenerateMockup,
+  serverGenerateComposite,
+  serverGenerateContactSheet,
+  serverRegenerateHighRes,
+} from './geminiServerService';
+
+export const MAX_ATTEMPTS = 3;
+
+/** A running job whose worker hasn't reported back in this long is assumed dead */
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+interface ClaimedJob {
+  id: string;
+  ownerId: string;
+  label: string;
+  attempts: number;
+  request: JobRequest;
+}
+
+function toJob(row: any): GenerationJob {
+  return {
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    label: row.label,
+    batchId: row.batchId ?? undefined,
+    results: row.results ?? undefined,
+    error: row.error ?? undefined,
+    attempts: row.attempts,
+    createdAt: Number(row.createdAt),
+    updatedAt: Number(row.updatedAt),
+    frameGrid: row.frameGrid ?? undefined,
+  };
+}
+
+export async function enqueueJobs(sql: Sql, ownerId: string, requests: JobRequest[], batchId?: string): Promise<GenerationJob[]> {
+  const now = Date.now();
+  const jobs: GenerationJob[] = [];
+  for (const [i, r] of requests.entries()) {
+    const id = crypto.randomUUID();
+    // Offset created_at so the queue keeps submission order within a batch
+    const createdAt = now + i;
+    await sql`
+      INSERT INTO jobs (id, owner_id, project_id, kind, status, label, batch_id, input, attempts, created_at, updated_at)
+      VALUES (${id}, ${ownerId}, ${r.projectId ?? null}, ${r.kind}, ${'queued'}, ${r.label}, ${batchId ?? null}, ${JSON.stringify(r.input)}, 0, ${createdAt}, ${createdAt})
+    `;
+    jobs.push({
+      id, kind: r.kind, status: 'queued', label: r.label, batchId,
+      attempts: 0, createdAt, updatedAt: createdAt,
+      frameGrid: r.kind === 'contactSheet' ? { gridSize: r.input.gridSize, cameraAngles: r.input.cameraAngles, framePrompt: r.input.settings.prompt } : undefined,
+    });
+  }
+  return jobs;
+}
+
+export async function getJobs(sql: Sql, ownerId: string, ids: string[]): Promise<GenerationJob[]> {
+  if (ids.length === 0) return [];
+  const rows = await sql`
+    SELECT
+      id, kind, status, label, batch_id AS "batchId", result AS "results", error, attempts,
+      created_at AS "createdAt", updated_at AS "updatedAt",
+      CASE WHEN kind = 'contactSheet'
+        THEN jsonb_build_object('gridSize', input->'gridSize', 'cameraAngles', input->'cameraAngles', 'framePrompt', input->'settings'->'prompt')
+      END AS "frameGrid"
+    FROM jobs
+    WHERE id = ANY(${ids}) AND owner_id = ${ownerId}
+    ORDER BY created_at DESC
+  `;
+  return rows.map(toJob);
+}
+
+/** Recent jobs without their (potentially huge) results; fetch by id for those */
+export async function listJobs(sql: Sql, ownerId: string, opts: { activeOnly: boolean; limit: number }): Promise<GenerationJob[]> {
+  const rows = opts.activeOnly
+    ? await sql`
+        SELECT id, kind, status, label, batch_id AS "batchId", error, attempts,
+          created_at AS "createdAt", updated_at AS "updatedAt"
+        FROM jobs
+        WHERE owner_id = ${ownerId} AND status IN ('queued', 'running')
+        ORDER BY created_at DESC
+        LIMIT ${opts.limit}
+      `
+    : await sql`
+        SELECT id, kind, status, label, batch_id AS "batchId", error, attempts,
+          created_at AS "createdAt", updated_at AS "updatedAt"
+        FROM jobs
+        WHERE owner_id = ${ownerId}
+        ORDER BY created_at DESC
+        LIMIT ${opts.limit}
+      `;
+  return rows.map(toJob);
+}
+
+/** Cancels a queued or running job. A running job's output is discarded when it finishes. */
+export async function cancelJob(sql: Sql, ownerId: string, id: string): Promise<boolean> {
+  const rows = await sql`
+    UPDATE jobs SET status = 'cancelled', updated_at = ${Date.now()}
+    WHERE id = ${id} AND owner_id = ${ownerId} AND status IN ('queued', 'running')
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/** Atomically moves the oldest queued job to running. SKIP LOCKED lets several workers share the queue. */
+async function claimNextJob(sql: Sql): Promise<ClaimedJob | null> {
+  const now = Date.now();
+  const rows = await sql`
+    UPDATE jobs
+    SET status = 'running', attempts = attempts + 1, started_at = ${now}, updated_at = ${now}
+    WHERE id = (
+      SELECT id FROM jobs WHERE status = 'queued'
+      ORDER BY created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, owner_id AS "ownerId", project_id AS "projectId", kind, label, input, attempts
+  `;
+  if (rows.length === 0) return null;
+  const row = rows[0] as any;
+  return {
+    id: row.id,
+    ownerId: row.ownerId,
+    label: row.label,
+    attempts: row.attempts,
+    request: { kind: row.kind, label: row.label, projectId: row.projectId ?? undefined, input: row.input } as JobRequest,
+  };
+}
+
+/** Requeues (or fails, once out of attempts) jobs whose worker died mid-run */
+async function recoverStaleJobs(sql: Sql): Promise<void> {
+  const now = Date.now();
+  await sql`
+    UPDATE jobs
+    SET status = CASE WHEN attempts >= ${MAX_ATTEMPTS} THEN 'failed' ELSE 'queued' END,
+        error = 'Worker timed out',
+        updated_at = ${now}
+    WHERE status = 'running' AND started_at < ${now - STALE_AFTER_MS}
+  `;
+}
+
+/** Runs one job against Gemini and shapes the output as gallery results */
+export async function runJob(request: JobRequest): Promise<MockupResult[]> {
+  const createdAt = Date.now();
+  const base = { prompt: request.label, createdAt, projectId: request.projectId };
+  // Inputs may reference stored blobs instead of inlining the image
+  const image = (value: string) => resolveImage(getBlobStore(), value);
+  const panels = (set?: ArtworkSet) => set && mapPanelImages(set, image);
+  const resolved = (settings: GenerationSettings) => mapSettingsImages(settings, image);
+
+  switch (request.kind) {
+    case 'mockup': {
+      const { artwork, settings, macro, variantType, derivedFrom } = request.input;
+      const images = await serverGenerateMockup(await image(artwork), await resolved(settings), { macro });
+      return images.map(({ imageUrl, generation }) => ({
+        ...base,
+        id: crypto.randomUUID(),
+        imageUrl,
+        generation: { ...generation, settings, sourceArtwork: artwork },
+        isHighRes: settings.imageSize === '4K',
+        variantType,
+        aspectRatio: settings.aspectRatio,
+        derivedFrom,
+      }));
+    }
+    case 'composite': {
+      const { baseImage, artwork, instructions, aspectRatio, imageSize, artworkAspectRatio, artworkSet } = request.input;
+      const images = await serverGenerateComposite(await image(baseImage), await image(artwork), instructions, aspectRatio, imageSize, artworkAspectRatio, await panels(artworkSet));
+      return images.map(({ imageUrl, generation }) => ({
+        ...base,
+        id: crypto.randomUUID(),
+        imageUrl,
+        generation: { ...generation, sourceArtwork: artwork, artworkSet },
+        isHighRes: imageSize === '4K',
+        variantType: 'composite' as const,
+        aspectRatio,
+        compositeBaseUrl: baseImage,
+        compositeArtworkUrl: artwork,
+      }));
+    }
+    case 'contactSheet': {
+      const { artwork, settings, cameraAngles, variantType, derivedFrom, upscaledFrom } = request.input;
+      const { imageUrl, generation } = await serverGenerateContactSheet(await image(artwork), await resolved(settings), cameraAngles);
+      return [{
+        ...base,
+        id: crypto.randomUUID(),
+        imageUrl,
+        generation: { ...generation, settings, sourceArtwork: artwork },
+        isHighRes: true,
+        isContactSheet: true,
+        variantType,
+        aspectRatio: settings.aspectRatio,
+        derivedFrom,
+        upscaledFrom,
+      }];
+    }
+    case 'upscale': {
+      const { targetSize, aspectRatio, variantType, upscaledFrom } = request.input;
+      const { imageUrl, generation } = await serverRegenerateHighRes(await image(request.input.image), request.label, targetSize, aspectRatio);
+      return [{
+        ...base,
+        id: crypto.randomUUID(),
+        imageUrl,
+        generation,
+        isHighRes: true,
+        upscaleSize: targetSize,
+        variantType: variantType || 'standard',
+        aspectRatio,
+        upscaledFrom,
+      }];
+    }
+  }
+}
+
+async function processJob(sql: Sql, job: ClaimedJob): Promise<void> {
+  try {
+    const blobStore = getBlobStore();
+    // Earlier failed attempts of this job count as retries too
+    const results = await Promise.all((await runJob(job.request)).map(r => externalizeImages(blobStore, r.generation
+      ? { ...r, generation: { ...r.generation, retryCount: r.generation.retryCount + job.attempts - 1 } }
+      : r)));
+    const finished = await sql`
+      UPDATE jobs SET status = 'succeeded', result = ${JSON.stringify(results)}, error = NULL, updated_at = ${Date.now()}
+      WHERE id = ${job.id} AND status = 'running'
+      RETURNING id
+    `;
+    // Cancelled while running: drop the output instead of adding it to the gallery
+    if (finished.length === 0) return;
+    await Promise.all(results.map(r => insertMockupResult(sql, job.ownerId, r)));
+  } catch (err: any) {
+    console.error(`Job ${job.id} (${job.request.kind}) attempt ${job.attempts} failed:`, err);
+    const nextStatus: JobStatus = job.attempts >= MAX_ATTEMPTS ? 'failed' : 'queued';
+    await sql`
+      UPDATE jobs SET status = ${nextStatus}, error = ${err?.message || 'Job failed'}, updated_at = ${Date.now()}
+      WHERE id = ${job.id} AND status = 'running'
+    `;
+  }
+}
+
+/**
+ * Drains the queue until `deadline`. Each job can take a couple of minutes,
+ * so callers should leave that much headroom below their function timeout.
+ */
+export async function runWorker(sql: Sql, deadline: number): Promise<number> {
+  await recoverStaleJobs(sql);
+  let processed = 0;
+  while (Date.now() < deadline) {
+    const job = await claimNextJob(sql);
+    if (!job) break;
+    await processJob(sql, job);
+    processed++;
+  }
+  return processed;
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import type { BlobStore } from './blobStore';
+import { MAX_PAGE_SIZE, decodeCursor, listMockupChanges, migrateLegacyRows, parseMockupQuery, parseSyncCursor, type Sql } from './mockupResults';
+
+// 1x1 PNG
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+/** In-memory store; `lose` drops puts, like a store that acknowledged a write it didn't keep */
+function memoryStore(durable = true, lose = false): BlobStore & { blobs: Map<string, Buffer> } {
+  const blobs = new Map<string, Buffer>();
+  return {
+    durable,
+    blobs,
+    has: async hash => blobs.has(hash),
+    get: async hash => blobs.has(hash) ? { bytes: blobs.get(hash)!, mimeType: 'image/png' } : null,
+    put: async (hash, bytes) => { if (!lose) blobs.set(hash, bytes); },
+  };
+}
+
+/** Answers the migration's SELECT with `rows` and records every UPDATE's parameters */
+function fakeSql(rows: object[]) {
+  const updates: unknown[][] = [];
+  const statements: string[] = [];
+  const sql = (async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    if (strings[0].trim().startsWith('SELECT')) return rows;
+    updates.push(values);
+    statements.push(strings.join('?'));
+    return [{ id: 'r1' }];
+  }) as unknown as Sql;
+  return { sql, updates, statements };
+}
+
+const legacyRow = { id: 'r1', imageUrl: PNG, createdAt: '100', compositeBaseUrl: null, compositeArtworkUrl: null, thumbnailUrl: 'sha256:thumb' };
+
+describe('parseMockupQuery', () => {
+  it('maps snake_case parameters onto the query', () => {
+    expect(parseMockupQuery({
+      variant_type: 'macro',
+      is_contact_sheet: 'false',
+      aspect_ratio: '3:4',
+      camera_angle: 'Medium Focus',
+      project_id: 'p-1',
+      fields: 'meta',
+      limit: '20',
+    })).toEqual({
+      variantType: 'macro',
+      isContactSheet: false,
+      aspectRatio: '3:4',
+      cameraAngle: 'Medium Focus',
+      projectId: 'p-1',
+      fields: 'meta',
+      limit: 20,
+    });
+  });
+
+  it('accepts epoch milliseconds or dates for the range', () => {
+    const q = parseMockupQuery({ from: '1700000000000', to: '2026-03-01' });
+    expect(q.from).toBe(1700000000000);
+    expect(q.to).toBe(Date.parse('2026-03-01'));
+  });
+
+  it('caps the page size', () => {
+    expect(parseMockupQuery({ limit: '5000' }).limit).toBe(MAX_PAGE_SIZE);
+  });
+
+  it('keeps ids containing dashes in the cursor', () => {
+    expect(parseMockupQuery({ cursor: '1700000000000:cs-1-frame-0' }).cursor).toBe('1700000000000:cs-1-frame-0');
+  });
+
+  it('rejects malformed values', () => {
+    expect(() => parseMockupQuery({ cursor: 'nope' })).toThrow('Invalid cursor');
+    expect(() => parseMockupQuery({ variant_type: 'poster' })).toThrow('Invalid variant_type');
+    expect(() => parseMockupQuery({ limit: '0' })).toThrow('Invalid limit');
+    expect(() => parseMockupQuery({ from: 'yesterday' })).toThrow('Invalid from');
+  });
+});
+
+describe('migrateLegacyRows', () => {
+  it('refuses to move images into storage that isn\'t durable', async () => {
+    const { sql, updates } = fakeSql([legacyRow]);
+    await expect(migrateLegacyRows(sql, memoryStore(false))).rejects.toThrow('durable');
+    expect(updates).toHaveLength(0);
+  });
+
+  it('rewrites a row to references once its blobs are stored', async () => {
+    const store = memoryStore();
+    const { sql, updates, statements } = fakeSql([legacyRow]);
+    const result = await migrateLegacyRows(sql, store, { limit: 1 });
+    expect(result).toEqual({ migrated: 1, failed: [], nextCursor: '100:r1' });
+    expect(store.blobs.size).toBe(1);
+    expect(updates[0][0]).toMatch(/^sha256:[0-9a-f]{64}$/);
+    // Guarded on the data URL it read, so a concurrent write isn't overwritten
+    expect(updates[0]).toContain(PNG);
+    // Other devices pick the new references up from the sync feed
+    expect(statements[0]).toContain('sync_xid = pg_current_xact_id()');
+  });
+
+  it('keeps the data URL when the blob can\'t be confirmed in storage', async () => {
+    const { sql, updates } = fakeSql([legacyRow]);
+    const result = await migrateLegacyRows(sql, memoryStore(true, true));
+    expect(result).toEqual({ migrated: 0, failed: ['r1'], nextCursor: null });
+    expect(updates).toHaveLength(0);
+  });
+
+  it('takes keyset cursors, not sync-feed ones', () => {
+    expect(decodeCursor('100:r1')).toEqual({ createdAt: 100, id: 'r1' });
+    expect(() => decodeCursor('x42:r1')).toThrow('Invalid cursor');
+  });
+});
+
+describe('listMockupChanges', () => {
+  const row = (id: string, syncXid: string) => ({ id, imageUrl: 'sha256:a', prompt: '', createdAt: '1', updatedAt: '2', deletedAt: null, syncXid });
+
+  it('starts a new feed at the oldest transaction still running', async () => {
+    const sql = (async () => [{ xmin: '900' }]) as unknown as Sql;
+    expect(await listMockupChanges(sql, 'u1')).toEqual({ changes: [], nextSince: 'x900:', hasMore: false });
+  });
+
+  it('continues from the last transaction and row returned', async () => {
+    const params: unknown[][] = [];
+    const sql = (async (_: TemplateStringsArray, ...values: unknown[]) => {
+      params.push(values);
+      return [row('a', '41'), row('b', '42'), row('c', '43')];
+    }) as unknown as Sql;
+    const page = await listMockupChanges(sql, 'u1', 'x40:z', 2);
+    expect(params[0]).toEqual(['u1', '40', 'z', 3]);
+    expect(page.changes.map(c => c.id)).toEqual(['a', 'b']);
+    expect(page.changes[0]).not.toHaveProperty('syncXid');
+    expect(page).toMatchObject({ nextSince: 'x42:b', hasMore: true });
+  });
+
+  it('restarts the feed for time-based cursors and rejects garbage', async () => {
+    const params: unknown[][] = [];
+    const sql = (async (_: TemplateStringsArray, ...values: unknown[]) => { params.push(values); return []; }) as unknown as Sql;
+    expect((await listMockupChanges(sql, 'u1', '1712000000000:r9')).nextSince).toBe('1712000000000:r9');
+    expect(params[0].slice(1, 3)).toEqual(['0', '']);
+    expect(() => parseSyncCursor('xabc:r1')).toThrow('Invalid cursor');
+    expect(() => parseSyncCursor('later')).toThrow('Invalid cursor');
+  });
+});
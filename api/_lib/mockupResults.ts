@@ -0,0 +1,362 @@
+import type { NeonQueryFunction } from '@neondatabase/serverless';
+import type { MockupChanges, MockupPage, MockupQuery, MockupResult, MockupResultMeta } from '../../types';
+import { IMAGE_FIELDS, blobRefHash, isBlobRef } from '../../services/blobRefs';
+import { type BlobStore, externalizeImages, getBlobStore } from './blobStore';
+import { storeThumbnail } from './thumbnails';
+
+/** The default `neon(url)` query function: rows as objects, no full results */
+export type Sql = NeonQueryFunction<false, false>;
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+export const SYNC_BATCH_SIZE = 200;
+
+const VARIANT_TYPES = ['standard', 'macro', 'composite'];
+const ASPECT_RATIOS = ['1:1', '3:4', '4:3', '16:9', '9:16'];
+
+/**
+ * Insert or update a result owned by `ownerId`. The newer `updatedAt` wins, so
+ * re-sending the same version is a no-op and an older copy never overwrites
+ * a newer one (including a tombstone). Another user's row is never touched.
+ * Inline data URLs are moved to the blob store so rows only carry references,
+ * and a gallery thumbnail is generated from the main image.
+ */
+export async function insertMockupResult(sql: Sql, ownerId: string, result: MockupResult): Promise<void> {
+  const blobStore = getBlobStore();
+  const r = await externalizeImages(blobStore, result);
+  const updatedAt = r.updatedAt ?? r.createdAt;
+  const applied = await sql`
+    INSERT INTO mockup_results (
+      id, image_url, prompt, created_at,
+      is_high_res, is_contact_sheet, extracted_from, camera_angle,
+      variant_type, aspect_ratio, refined_from,
+      composite_base_url, composite_artwork_url, thumbnail_url,
+      updated_at, deleted_at, synced_at, sync_xid, owner_id, project_id, generation, derived_from, upscaled_from
+    ) VALUES (
+      ${r.id}, ${r.imageUrl}, ${r.prompt}, ${r.createdAt},
+      ${r.isHighRes ?? null}, ${r.isContactSheet ?? null}, ${r.extractedFrom ?? null}, ${r.cameraAngle ?? null},
+      ${r.variantType ?? null}, ${r.aspectRatio ?? null}, ${r.refinedFrom ?? null},
+      ${r.compositeBaseUrl ?? null}, ${r.compositeArtworkUrl ?? null}, ${r.thumbnailUrl ?? null},
+      ${updatedAt}, ${r.deletedAt ?? null}, ${Date.now()}, pg_current_xact_id()::text::bigint, ${ownerId}, ${r.projectId ?? null},
+      ${r.generation ? JSON.stringify(r.generation) : null}, ${r.derivedFrom ?? null}, ${r.upscaledFrom ?? null}
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      image_url = EXCLUDED.image_url,
+      prompt = EXCLUDED.prompt,
+      is_high_res = EXCLUDED.is_high_res,
+      is_contact_sheet = EXCLUDED.is_contact_sheet,
+      extracted_from = EXCLUDED.extracted_from,
+      camera_angle = EXCLUDED.camera_angle,
+      variant_type = EXCLUDED.variant_type,
+      aspect_ratio = EXCLUDED.aspect_ratio,
+      refined_from = EXCLUDED.refined_from,
+      composite_base_url = EXCLUDED.composite_base_url,
+      composite_artwork_url = EXCLUDED.composite_artwork_url,
+      thumbnail_url = COALESCE(EXCLUDED.thumbnail_url, mockup_results.thumbnail_url),
+      updated_at = EXCLUDED.updated_at,
+      deleted_at = EXCLUDED.deleted_at,
+      synced_at = EXCLUDED.synced_at,
+      sync_xid = EXCLUDED.sync_xid,
+      project_id = EXCLUDED.project_id,
+      generation = EXCLUDED.generation,
+      derived_from = EXCLUDED.derived_from,
+      upscaled_from = EXCLUDED.upscaled_from
+    WHERE mockup_results.owner_id = EXCLUDED.owner_id
+      AND COALESCE(mockup_results.updated_at, mockup_results.created_at) < EXCLUDED.updated_at
+    RETURNING thumbnail_url AS "thumbnailUrl"
+  `;
+
+  // Only render a thumbnail when the write won; replays of known rows stay cheap
+  if (applied.length === 0 || applied[0].thumbnailUrl || r.deletedAt) return;
+  const thumbnailUrl = await storeThumbnail(blobStore, r.imageUrl);
+  // A new sync_xid puts the thumbnail on the sync feed; updated_at stays, a thumbnail isn't an edit
+  if (thumbnailUrl) await sql`UPDATE mockup_results SET thumbnail_url = ${thumbnailUrl}, synced_at = ${Date.now()}, sync_xid = pg_current_xact_id()::text::bigint WHERE id = ${r.id}`;
+}
+
+/**
+ * Turns a row into a tombstone unless it changed after `deletedAt`. Tombstones
+ * stay in the table so the deletion reaches other devices through the sync feed.
+ */
+export async function deleteMockupResult(sql: Sql, ownerId: string, id: string, deletedAt = Date.now()): Promise<boolean> {
+  const rows = await sql`
+    UPDATE mockup_results
+    SET deleted_at = ${deletedAt}, updated_at = ${deletedAt}, synced_at = ${Date.now()}, sync_xid = pg_current_xact_id()::text::bigint
+    WHERE id = ${id} AND owner_id = ${ownerId} AND deleted_at IS NULL AND COALESCE(updated_at, created_at) <= ${deletedAt}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+export const MIGRATION_BATCH_SIZE = 20;
+
+/**
+ * Moves rows written before the blob store (inline data URLs) and before
+ * thumbnails into the blob store, one batch per call, oldest first; pass
+ * `nextCursor` back until it is null. The data URL columns are the only copy
+ * of those images, so a row is only rewritten into a durable store, after
+ * every blob it will point at has been read back from the store, and only if
+ * the row hasn't changed since it was read.
+ */
+export async function migrateLegacyRows(
+  sql: Sql,
+  blobStore: BlobStore,
+  options: { cursor?: string; limit?: number } = {},
+): Promise<{ migrated: number; failed: string[]; nextCursor: string | null }> {
+  if (!blobStore.durable) throw new Error('Legacy images can only be migrated into durable blob storage');
+  const limit = options.limit ?? MIGRATION_BATCH_SIZE;
+  const after = options.cursor ? decodeCursor(options.cursor) : null;
+
+  const rows = await sql`
+    SELECT
+      id,
+      image_url AS "imageUrl",
+      created_at AS "createdAt",
+      composite_base_url AS "compositeBaseUrl",
+      composite_artwork_url AS "compositeArtworkUrl",
+      thumbnail_url AS "thumbnailUrl"
+    FROM mockup_results
+    WHERE deleted_at IS NULL
+      AND (image_url LIKE 'data:%' OR composite_base_url LIKE 'data:%' OR composite_artwork_url LIKE 'data:%' OR thumbnail_url IS NULL)
+      AND (${after?.createdAt ?? null}::bigint IS NULL OR (created_at, id) > (${after?.createdAt ?? null}, ${after?.id ?? null}))
+    ORDER BY created_at, id
+    LIMIT ${limit}
+  `;
+
+  let migrated = 0;
+  const failed: string[] = [];
+  for (const raw of rows as any[]) {
+    const row = { ...raw, createdAt: Number(raw.createdAt) } as MockupResult;
+    try {
+      const upgraded = await externalizeImages(blobStore, row);
+      upgraded.thumbnailUrl = row.thumbnailUrl ?? await storeThumbnail(blobStore, upgraded.imageUrl) ?? undefined;
+      const refs = [...IMAGE_FIELDS.map(field => upgraded[field]), upgraded.thumbnailUrl].filter((v): v is string => !!v && isBlobRef(v));
+      for (const ref of refs) {
+        if (!(await blobStore.has(blobRefHash(ref)))) throw new Error(`${ref} is not in blob storage`);
+      }
+      // Same images, so updated_at stays; the new sync_xid sends the refs to other devices
+      const updated = await sql`
+        UPDATE mockup_results
+        SET image_url = ${upgraded.imageUrl},
+            composite_base_url = ${upgraded.compositeBaseUrl ?? null},
+            composite_artwork_url = ${upgraded.compositeArtworkUrl ?? null},
+            thumbnail_url = ${upgraded.thumbnailUrl ?? null},
+            synced_at = ${Date.now()},
+            sync_xid = pg_current_xact_id()::text::bigint
+        WHERE id = ${row.id}
+          AND image_url = ${row.imageUrl}
+          AND composite_base_url IS NOT DISTINCT FROM ${row.compositeBaseUrl ?? null}
+          AND composite_artwork_url IS NOT DISTINCT FROM ${row.compositeArtworkUrl ?? null}
+        RETURNING id
+      `;
+      if (updated.length > 0) migrated++;
+    } catch (err) {
+      console.warn(`Migrating mockup ${row.id} failed:`, err);
+      failed.push(row.id);
+    }
+  }
+
+  const last = (rows as any[])[rows.length - 1];
+  return { migrated, failed, nextCursor: rows.length === limit ? encodeCursor({ createdAt: Number(last.createdAt), id: last.id }) : null };
+}
+
+const encodeCursor = (row: { createdAt: number; id: string }) => `${row.createdAt}:${row.id}`;
+
+/** `<ms>:<id>`, or a bare `<ms>` meaning "everything after this time"; the keyset format of list pages and the blob migration */
+export function decodeCursor(cursor: string): { createdAt: number; id: string } {
+  const sep = cursor.includes(':') ? cursor.indexOf(':') : cursor.length;
+  const createdAt = Number(cursor.slice(0, sep));
+  if (sep < 1 || !Number.isFinite(createdAt)) throw new Error('Invalid cursor');
+  return { createdAt, id: cursor.slice(sep + 1) };
+}
+
+/**
+ * Sync feed position `x<xid>:<id>`: the transaction id and row id of the last
+ * change returned. Older time-based cursors, and `0`, start the feed over.
+ */
+function decodeSyncCursor(cursor: string): { xid: string; id: string } {
+  if (!cursor.startsWith('x')) {
+    decodeCursor(cursor);
+    return { xid: '0', id: '' };
+  }
+  const sep = cursor.includes(':') ? cursor.indexOf(':') : cursor.length;
+  const xid = cursor.slice(1, sep);
+  if (!/^\d+$/.test(xid)) throw new Error('Invalid cursor');
+  return { xid, id: cursor.slice(sep + 1) };
+}
+
+const encodeSyncCursor = (xid: string, id: string) => `x${xid}:${id}`;
+
+/** Validates a sync cursor from the query string (throws on garbage) */
+export function parseSyncCursor(since: string): string {
+  decodeSyncCursor(since);
+  return since;
+}
+
+/** Accepts epoch milliseconds or anything Date.parse understands (e.g. 2026-03-01) */
+function parseTimestamp(value: string, name: string): number {
+  const ms = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(ms)) throw new Error(`Invalid ${name}`);
+  return ms;
+}
+
+function oneOf<T extends string>(value: string, allowed: readonly string[], name: string): T {
+  if (!allowed.includes(value)) throw new Error(`Invalid ${name}: ${value}`);
+  return value as T;
+}
+
+/** Turns GET /api/mockups query parameters into a MockupQuery; throws on malformed values */
+export function parseMockupQuery(query: Record<string, string | string[] | undefined>): MockupQuery {
+  const param = (name: string): string | undefined => {
+    const value = query[name];
+    return Array.isArray(value) ? value[0] : value || undefined;
+  };
+  const out: MockupQuery = {};
+
+  const cursor = param('cursor');
+  if (cursor) {
+    decodeCursor(cursor);
+    out.cursor = cursor;
+  }
+  const limit = param('limit');
+  if (limit) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1) throw new Error('Invalid limit');
+    out.limit = Math.min(n, MAX_PAGE_SIZE);
+  }
+  const fields = param('fields');
+  if (fields) out.fields = oneOf<'meta'>(fields, ['meta'], 'fields');
+
+  const variantType = param('variant_type');
+  if (variantType) out.variantType = oneOf(variantType, VARIANT_TYPES, 'variant_type');
+  const isContactSheet = param('is_contact_sheet');
+  if (isContactSheet) out.isContactSheet = oneOf(isContactSheet, ['true', 'false'], 'is_contact_sheet') === 'true';
+  const aspectRatio = param('aspect_ratio');
+  if (aspectRatio) out.aspectRatio = oneOf(aspectRatio, ASPECT_RATIOS, 'aspect_ratio');
+  const cameraAngle = param('camera_angle');
+  if (cameraAngle) out.cameraAngle = cameraAngle as MockupQuery['cameraAngle'];
+  const projectId = param('project_id');
+  if (projectId) out.projectId = projectId;
+
+  const from = param('from');
+  if (from) out.from = parseTimestamp(from, 'from');
+  const to = param('to');
+  if (to) out.to = parseTimestamp(to, 'to');
+  return out;
+}
+
+/**
+ * One page of results, newest first. Keyset pagination on (created_at, id)
+ * keeps pages stable while new results are inserted at the top.
+ * In `meta` mode image columns are never read, so legacy rows stay cheap.
+ */
+export async function listMockupResults(sql: Sql, ownerId: string, query: MockupQuery): Promise<MockupPage<MockupResult | MockupResultMeta>> {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const meta = query.fields === 'meta';
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+
+  const rows = await sql`
+    SELECT
+      id,
+      CASE WHEN ${meta} THEN NULL ELSE image_url END AS "imageUrl",
+      prompt,
+      created_at AS "createdAt",
+      is_high_res AS "isHighRes",
+      is_contact_sheet AS "isContactSheet",
+      extracted_from AS "extractedFrom",
+      camera_angle AS "cameraAngle",
+      variant_type AS "variantType",
+      aspect_ratio AS "aspectRatio",
+      refined_from AS "refinedFrom",
+      CASE WHEN ${meta} THEN NULL ELSE composite_base_url END AS "compositeBaseUrl",
+      CASE WHEN ${meta} THEN NULL ELSE composite_artwork_url END AS "compositeArtworkUrl",
+      thumbnail_url AS "thumbnailUrl",
+      updated_at AS "updatedAt",
+      project_id AS "projectId",
+      generation,
+      derived_from AS "derivedFrom",
+      upscaled_from AS "upscaledFrom"
+    FROM mockup_results
+    WHERE owner_id = ${ownerId}
+      AND deleted_at IS NULL
+      AND (${query.variantType ?? null}::text IS NULL OR COALESCE(variant_type, 'standard') = ${query.variantType ?? null})
+      AND (${query.isContactSheet ?? null}::boolean IS NULL OR COALESCE(is_contact_sheet, false) = ${query.isContactSheet ?? null})
+      AND (${query.aspectRatio ?? null}::text IS NULL OR aspect_ratio = ${query.aspectRatio ?? null})
+      AND (${query.cameraAngle ?? null}::text IS NULL OR camera_angle = ${query.cameraAngle ?? null})
+      AND (${query.projectId ?? null}::text IS NULL OR project_id = ${query.projectId ?? null})
+      AND (${query.from ?? null}::bigint IS NULL OR created_at >= ${query.from ?? null})
+      AND (${query.to ?? null}::bigint IS NULL OR created_at < ${query.to ?? null})
+      AND (${after?.createdAt ?? null}::bigint IS NULL OR (created_at, id) < (${after?.createdAt ?? null}, ${after?.id ?? null}))
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${limit + 1}
+  `;
+
+  const page = (rows as any[]).slice(0, limit).map(row => {
+    const r = { ...row, createdAt: Number(row.createdAt), updatedAt: Number(row.updatedAt ?? row.createdAt) };
+    if (meta) {
+      for (const field of IMAGE_FIELDS) delete r[field];
+    }
+    return r;
+  });
+  const nextCursor = rows.length > limit ? encodeCursor(page[page.length - 1]) : null;
+  return { items: page, nextCursor };
+}
+
+/**
+ * Rows written (by any device) after `since`, in commit-safe order, tombstones
+ * included. Rows are ordered by the transaction that wrote them and only
+ * returned once every older transaction has finished, so a write that commits
+ * late can't slip behind a cursor that already moved past it. Without `since`
+ * the feed starts now.
+ */
+export async function listMockupChanges(sql: Sql, ownerId: string, since?: string, limit = SYNC_BATCH_SIZE): Promise<MockupChanges> {
+  if (!since) {
+    const [{ xmin }] = await sql`SELECT pg_snapshot_xmin(pg_current_snapshot())::text AS xmin`;
+    return { changes: [], nextSince: encodeSyncCursor(xmin, ''), hasMore: false };
+  }
+  const after = decodeSyncCursor(since);
+
+  const rows = await sql`
+    SELECT
+      id,
+      image_url AS "imageUrl",
+      prompt,
+      created_at AS "createdAt",
+      is_high_res AS "isHighRes",
+      is_contact_sheet AS "isContactSheet",
+      extracted_from AS "extractedFrom",
+      camera_angle AS "cameraAngle",
+      variant_type AS "variantType",
+      aspect_ratio AS "aspectRatio",
+      refined_from AS "refinedFrom",
+      composite_base_url AS "compositeBaseUrl",
+      composite_artwork_url AS "compositeArtworkUrl",
+      thumbnail_url AS "thumbnailUrl",
+      updated_at AS "updatedAt",
+      deleted_at AS "deletedAt",
+      sync_xid::text AS "syncXid",
+      project_id AS "projectId",
+      generation,
+      derived_from AS "derivedFrom",
+      upscaled_from AS "upscaledFrom"
+    FROM mockup_results
+    WHERE owner_id = ${ownerId}
+      AND (sync_xid, id) > (${after.xid}::bigint, ${after.id})
+      AND sync_xid < pg_snapshot_xmin(pg_current_snapshot())::text::bigint
+    ORDER BY sync_xid, id
+    LIMIT ${limit + 1}
+  `;
+
+  const batch = (rows as any[]).slice(0, limit);
+  const changes: MockupResult[] = batch.map(({ syncXid, ...row }) => ({
+    ...row,
+    createdAt: Number(row.createdAt),
+    updatedAt: Number(row.updatedAt ?? row.createdAt),
+    deletedAt: row.deletedAt == null ? undefined : Number(row.deletedAt),
+  }));
+  const last = batch[batch.length - 1];
+  return {
+    changes,
+    nextSince: last ? encodeSyncCursor(last.syncXid, last.id) : since,
+    hasMore: rows.length > limit,
+  };
+}
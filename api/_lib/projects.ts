@@ -0,0 +1,79 @@
+import type { Project } from '../../types';
+import type { Sql } from './mockupResults';
+
+const MAX_NAME_LENGTH = 120;
+
+function toProject(row: any): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    createdAt: Number(row.createdAt),
+    updatedAt: Number(row.updatedAt),
+    deletedAt: row.deletedAt == null ? undefined : Number(row.deletedAt),
+  };
+}
+
+/** Validates a project from a request body; throws with a client-facing message */
+export function parseProject(body: unknown): Project {
+  const p = (body ?? {}) as Partial<Project>;
+  if (typeof p.id !== 'string' || !p.id) throw new Error('id required');
+  const name = typeof p.name === 'string' ? p.name.trim() : '';
+  if (!name) throw new Error('name required');
+  if (name.length > MAX_NAME_LENGTH) throw new Error(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  const createdAt = Number(p.createdAt ?? Date.now());
+  const updatedAt = Number(p.updatedAt ?? createdAt);
+  if (!Number.isFinite(createdAt) || !Number.isFinite(updatedAt)) throw new Error('Invalid timestamps');
+  return {
+    id: p.id,
+    name,
+    description: typeof p.description === 'string' && p.description.trim() ? p.description.trim() : undefined,
+    createdAt,
+    updatedAt,
+  };
+}
+
+/** All of a user's projects, tombstones included so other devices learn about deletions */
+export async function listProjects(sql: Sql, ownerId: string): Promise<Project[]> {
+  const rows = await sql`
+    SELECT id, name, description, created_at AS "createdAt", updated_at AS "updatedAt", deleted_at AS "deletedAt"
+    FROM projects
+    WHERE owner_id = ${ownerId}
+    ORDER BY created_at
+  `;
+  return rows.map(toProject);
+}
+
+/** Insert or update; like mockup results, the newer `updatedAt` wins and other users' rows are never touched */
+export async function upsertProject(sql: Sql, ownerId: string, project: Project): Promise<void> {
+  await sql`
+    INSERT INTO projects (id, owner_id, name, description, created_at, updated_at)
+    VALUES (${project.id}, ${ownerId}, ${project.name}, ${project.description ?? null}, ${project.createdAt}, ${project.updatedAt})
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      description = EXCLUDED.description,
+      updated_at = EXCLUDED.updated_at,
+      deleted_at = NULL
+    WHERE projects.owner_id = EXCLUDED.owner_id AND projects.updated_at < EXCLUDED.updated_at
+  `;
+}
+
+/**
+ * Tombstones a project and moves its results back to "no project". The
+ * results are re-stamped so the change reaches other devices through the sync feed.
+ */
+export async function deleteProject(sql: Sql, ownerId: string, id: string, deletedAt = Date.now()): Promise<boolean> {
+  const rows = await sql`
+    UPDATE projects SET deleted_at = ${deletedAt}, updated_at = ${deletedAt}
+    WHERE id = ${id} AND owner_id = ${ownerId} AND deleted_at IS NULL AND updated_at <= ${deletedAt}
+    RETURNING id
+  `;
+  if (rows.length === 0) return false;
+  await sql`
+    UPDATE mockup_results
+    SET project_id = NULL, updated_at = GREATEST(COALESCE(updated_at, created_at), ${deletedAt}), synced_at = ${Date.now()},
+        sync_xid = pg_current_xact_id()::text::bigint
+    WHERE owner_id = ${ownerId} AND project_id = ${id}
+  `;
+  return true;
+}
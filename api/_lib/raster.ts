@@ -0,0 +1,28 @@
+import sharp from 'sharp';
+import type { NormalizedBox } from '../../types';
+import { RASTER_SIZE, type DecodedRaster } from '../../services/fidelity';
+import { stripBase64Header } from '../../services/promptEngine';
+
+/** Decodes a data URL or bare base64 image, cropped to `region` if given, into a small RGBA raster for the fidelity check */
+export async function decodeRaster(image: string, region?: NormalizedBox): Promise<DecodedRaster> {
+  const bytes = Buffer.from(stripBase64Header(image), 'base64');
+  const { width = 0, height = 0 } = await sharp(bytes).metadata();
+  if (!width || !height) throw new Error('Unreadable image');
+
+  const box = region ?? { x: 0, y: 0, width: 1, height: 1 };
+  const left = Math.min(width - 1, Math.floor(box.x * width));
+  const top = Math.min(height - 1, Math.floor(box.y * height));
+  const cropWidth = Math.max(1, Math.min(width - left, Math.round(box.width * width)));
+  const cropHeight = Math.max(1, Math.min(height - top, Math.round(box.height * height)));
+
+  const { data, info } = await sharp(bytes)
+    .extract({ left, top, width: cropWidth, height: cropHeight })
+    .resize(RASTER_SIZE, RASTER_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return {
+    raster: { data: new Uint8Array(data.buffer, data.byteOffset, data.length), width: info.width, height: info.height },
+    aspectRatio: cropWidth / cropHeight,
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseSceneTemplate } from './sceneTemplates';
+import { bodyFactory } from './testBodies';
+
+const quad = [{ x: 0.1, y: 0.1 }, { x: 0.5, y: 0.1 }, { x: 0.5, y: 0.6 }, { x: 0.1, y: 0.6 }];
+const body = bodyFactory({
+  id: 't1',
+  name: ' Loft ',
+  imageUrl: 'data:image/png;base64,AAAA',
+  slots: [{ name: 'Above sofa', quad }, { quad }],
+  defaultFrameStyle: 'Natural Oak',
+  createdAt: 1,
+});
+
+describe('parseSceneTemplate', () => {
+  it('normalizes names and fills in defaults', () => {
+    const template = parseSceneTemplate(body());
+    expect(template.name).toBe('Loft');
+    expect(template.slots.map(s => s.name)).toEqual(['Above sofa', 'Slot 2']);
+    expect(template.updatedAt).toBe(1);
+    expect(template.aspectRatio).toBeUndefined();
+  });
+
+  it('rejects templates without a usable slot', () => {
+    expect(() => parseSceneTemplate(body({ slots: [] }))).toThrow('at least one slot');
+    expect(() => parseSceneTemplate(body({ slots: [{ quad: quad.slice(0, 3) }] }))).toThrow('four corners');
+    expect(() => parseSceneTemplate(body({ slots: [{ quad: [quad[0], quad[2], quad[1], quad[3]] }] }))).toThrow('without crossing');
+    expect(() => parseSceneTemplate(body({ slots: [{ quad: [{ x: 2, y: 0 }, ...quad.slice(1)] }] }))).toThrow('between 0 and 1');
+  });
+
+  it('rejects unknown frames and aspect ratios, and remote image URLs', () => {
+    expect(() => parseSceneTemplate(body({ defaultFrameStyle: 'Velvet' }))).toThrow('defaultFrameStyle');
+    expect(() => parseSceneTemplate(body({ aspectRatio: '2:1' }))).toThrow('aspectRatio');
+    expect(() => parseSceneTemplate(body({ imageUrl: 'https://example.com/room.jpg' }))).toThrow('imageUrl');
+  });
+});
@@ -0,0 +1,121 @@
+import type { FrameStyle, PlacementSlot, SceneTemplate } from '../../types';
+import { isBlobRef, isDataUrl } from '../../services/blobRefs';
+import { isConvexQuad } from '../../services/perspectiveCompositor';
+import { findByIdOrName } from '../../services/syncedRows';
+import { getBlobStore, putDataUrl } from './blobStore';
+import type { Sql } from './mockupResults';
+
+const MAX_NAME_LENGTH = 120;
+const MAX_SLOTS = 12;
+const MAX_NOTES_LENGTH = 2000;
+const FRAME_STYLES: FrameStyle[] = ['Auto', 'None', 'Sleek Black', 'Modern White', 'Natural Oak', 'Classic Gold', 'Industrial Metal'];
+const ASPECT_RATIOS = ['1:1', '3:4', '4:3', '16:9', '9:16'] as const;
+
+function toSceneTemplate(row: any): SceneTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    imageUrl: row.imageUrl,
+    slots: row.slots,
+    defaultFrameStyle: row.defaultFrameStyle,
+    aspectRatio: row.aspectRatio ?? undefined,
+    notes: row.notes ?? undefined,
+    projectId: row.projectId ?? undefined,
+    createdAt: Number(row.createdAt),
+    updatedAt: Number(row.updatedAt),
+    deletedAt: row.deletedAt == null ? undefined : Number(row.deletedAt),
+  };
+}
+
+function parseSlot(value: unknown, index: number): PlacementSlot {
+  const s = (value ?? {}) as Partial<PlacementSlot>;
+  const name = typeof s.name === 'string' && s.name.trim() ? s.name.trim() : `Slot ${index + 1}`;
+  if (!Array.isArray(s.quad) || s.quad.length !== 4) throw new Error(`slot ${index + 1} needs four corners`);
+  const quad = s.quad.map(p => {
+    const x = Number(p?.x), y = Number(p?.y);
+    if (!(x >= 0 && x <= 1 && y >= 0 && y <= 1)) throw new Error(`slot ${index + 1} corners must be between 0 and 1`);
+    return { x, y };
+  }) as PlacementSlot['quad'];
+  if (!isConvexQuad(quad)) throw new Error(`slot ${index + 1} corners must outline the region without crossing`);
+  return { name, quad };
+}
+
+/** Validates a template from a request body; throws with a client-facing message */
+export function parseSceneTemplate(body: unknown): SceneTemplate {
+  const t = (body ?? {}) as Partial<SceneTemplate>;
+  if (typeof t.id !== 'string' || !t.id) throw new Error('id required');
+  const name = typeof t.name === 'string' ? t.name.trim() : '';
+  if (!name) throw new Error('name required');
+  if (name.length > MAX_NAME_LENGTH) throw new Error(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (typeof t.imageUrl !== 'string' || !(isDataUrl(t.imageUrl) || isBlobRef(t.imageUrl))) throw new Error('imageUrl must be a data URL or blob reference');
+  if (!Array.isArray(t.slots) || t.slots.length === 0) throw new Error('at least one slot required');
+  if (t.slots.length > MAX_SLOTS) throw new Error(`at most ${MAX_SLOTS} slots`);
+  const defaultFrameStyle = t.defaultFrameStyle ?? 'Auto';
+  if (!FRAME_STYLES.includes(defaultFrameStyle)) throw new Error('Invalid defaultFrameStyle');
+  if (t.aspectRatio !== undefined && !ASPECT_RATIOS.includes(t.aspectRatio)) throw new Error('Invalid aspectRatio');
+  const notes = typeof t.notes === 'string' && t.notes.trim() ? t.notes.trim() : undefined;
+  if (notes && notes.length > MAX_NOTES_LENGTH) throw new Error(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+  const createdAt = Number(t.createdAt ?? Date.now());
+  const updatedAt = Number(t.updatedAt ?? createdAt);
+  if (!Number.isFinite(createdAt) || !Number.isFinite(updatedAt)) throw new Error('Invalid timestamps');
+  return {
+    id: t.id,
+    name,
+    imageUrl: t.imageUrl,
+    slots: t.slots.map(parseSlot),
+    defaultFrameStyle,
+    aspectRatio: t.aspectRatio,
+    notes,
+    projectId: typeof t.projectId === 'string' && t.projectId ? t.projectId : undefined,
+    createdAt,
+    updatedAt,
+  };
+}
+
+/** All of a user's templates, tombstones included so other devices learn about deletions */
+export async function listSceneTemplates(sql: Sql, ownerId: string): Promise<SceneTemplate[]> {
+  const rows = await sql`
+    SELECT id, name, image_url AS "imageUrl", slots, default_frame_style AS "defaultFrameStyle", aspect_ratio AS "aspectRatio",
+      notes, project_id AS "projectId", created_at AS "createdAt", updated_at AS "updatedAt", deleted_at AS "deletedAt"
+    FROM scene_templates
+    WHERE owner_id = ${ownerId}
+    ORDER BY created_at
+  `;
+  return rows.map(toSceneTemplate);
+}
+
+/** A live template by id or name, for tools that let callers say "scene Loft" */
+export async function findUserSceneTemplate(sql: Sql, ownerId: string, ref: string): Promise<SceneTemplate | undefined> {
+  const templates = (await listSceneTemplates(sql, ownerId)).filter(t => !t.deletedAt);
+  return findByIdOrName(templates, ref);
+}
+
+/** Insert or update, newer `updatedAt` wins; the photo is moved to the blob store first */
+export async function upsertSceneTemplate(sql: Sql, ownerId: string, template: SceneTemplate): Promise<void> {
+  const imageUrl = isDataUrl(template.imageUrl) ? await putDataUrl(getBlobStore(), template.imageUrl) : template.imageUrl;
+  await sql`
+    INSERT INTO scene_templates (id, owner_id, name, image_url, slots, default_frame_style, aspect_ratio, notes, project_id, created_at, updated_at)
+    VALUES (${template.id}, ${ownerId}, ${template.name}, ${imageUrl}, ${JSON.stringify(template.slots)}, ${template.defaultFrameStyle},
+      ${template.aspectRatio ?? null}, ${template.notes ?? null}, ${template.projectId ?? null}, ${template.createdAt}, ${template.updatedAt})
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      image_url = EXCLUDED.image_url,
+      slots = EXCLUDED.slots,
+      default_frame_style = EXCLUDED.default_frame_style,
+      aspect_ratio = EXCLUDED.aspect_ratio,
+      notes = EXCLUDED.notes,
+      project_id = EXCLUDED.project_id,
+      updated_at = EXCLUDED.updated_at,
+      deleted_at = NULL
+    WHERE scene_templates.owner_id = EXCLUDED.owner_id AND scene_templates.updated_at < EXCLUDED.updated_at
+  `;
+}
+
+export async function deleteSceneTemplate(sql: Sql, ownerId: string, id: string, deletedAt = Date.now()): Promise<boolean> {
+  const rows = await sql`
+    UPDATE scene_templates SET deleted_at = ${deletedAt}, updated_at = ${deletedAt}
+    WHERE id = ${id} AND owner_id = ${ownerId} AND deleted_at IS NULL AND updated_at <= ${deletedAt}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
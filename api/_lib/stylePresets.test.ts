@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import type { Sql } from './mockupResults';
+import { deleteStylePreset, parseStylePreset, upsertStylePreset } from './stylePresets';
+import { bodyFactory } from './testBodies';
+
+const body = bodyFactory({
+  id: 'p1',
+  name: ' Client A house style ',
+  frames: ['Natural Oak', 'Natural Oak', 'Modern White'],
+  lighting: ['Soft Morning'],
+  textures: ['Smooth Plaster'],
+  analysisVibe: 'Modern & Minimalist',
+  settings: { negativePrompt: 'people', count: 1, aspectRatio: '4:3', imageSize: '2K', printSize: 'A2', generationMode: 'batch' },
+  createdAt: 1,
+});
+
+describe('parseStylePreset', () => {
+  it('normalizes the name and de-duplicates choices', () => {
+    const preset = parseStylePreset(body());
+    expect(preset.name).toBe('Client A house style');
+    expect(preset.frames).toEqual(['Natural Oak', 'Modern White']);
+    expect(preset.updatedAt).toBe(1);
+    expect(preset.ownerId).toBeUndefined();
+  });
+
+  it('keeps only known settings', () => {
+    const preset = parseStylePreset(body({ settings: { ...body().settings, prompt: 'sneaky', styleReferenceImage: 'data:image/png;base64,AAAA' } }));
+    expect(preset.settings).not.toHaveProperty('prompt');
+    expect(preset.settings).not.toHaveProperty('styleReferenceImage');
+    expect(preset.settings.aspectRatio).toBe('4:3');
+  });
+
+  it('rejects unknown options, empty choices and remote references', () => {
+    expect(() => parseStylePreset(body({ lighting: [] }))).toThrow('lighting must list');
+    expect(() => parseStylePreset(body({ frames: ['Velvet'] }))).toThrow('Invalid frames');
+    expect(() => parseStylePreset(body({ analysisVibe: 'Spooky' }))).toThrow('analysisVibe');
+    expect(() => parseStylePreset(body({ settings: { ...body().settings, printSize: 'B2' } }))).toThrow('printSize');
+    expect(() => parseStylePreset(body({ styleReferenceImage: 'https://example.com/a.jpg' }))).toThrow('styleReferenceImage');
+  });
+
+  it('keeps a normalized prompt template and rejects unknown sections', () => {
+    const settings = { ...body().settings, promptTemplate: { qualityPrefix: { enabled: true, text: ' Clean digital ' }, lensSpecs: { enabled: true } } };
+    expect(parseStylePreset(body({ settings })).settings.promptTemplate).toEqual({ qualityPrefix: { enabled: true, text: 'Clean digital' } });
+    expect(() => parseStylePreset(body({ settings: { ...settings, promptTemplate: { grain: { enabled: false } } } }))).toThrow('Unknown prompt section');
+  });
+
+  it('validates the quality check', () => {
+    const settings = { ...body().settings, qualityCheck: { critique: 'yes', minScore: 0.7, maxRetries: 2 } };
+    expect(parseStylePreset(body({ settings })).settings.qualityCheck).toEqual({ critique: false, minScore: 0.7, maxRetries: 2 });
+    expect(() => parseStylePreset(body({ settings: { ...settings, qualityCheck: { minScore: 70 } } }))).toThrow('minScore');
+    expect(() => parseStylePreset(body({ settings: { ...settings, qualityCheck: { minScore: 0.5, maxRetries: 5 } } }))).toThrow('maxRetries');
+  });
+
+  it('keeps a known product type', () => {
+    expect(parseStylePreset(body({ settings: { ...body().settings, productType: 'Mug' } })).settings.productType).toBe('Mug');
+    expect(parseStylePreset(body()).settings.productType).toBeUndefined();
+    expect(() => parseStylePreset(body({ settings: { ...body().settings, productType: 'Sticker' } }))).toThrow('productType');
+  });
+});
+
+// Writes touch no row; the stored preset belongs to `ownerId` (or doesn't exist)
+function sqlWithStoredOwner(ownerId?: string) {
+  return (async (strings: TemplateStringsArray) =>
+    strings[0].trim().startsWith('SELECT') ? (ownerId ? [{ ownerId }] : []) : []) as unknown as Sql;
+}
+
+describe('upsertStylePreset and deleteStylePreset', () => {
+  const member = { id: 'u1', role: 'member' as const };
+
+  it('report a write to someone else\'s preset as forbidden, not saved', async () => {
+    const preset = parseStylePreset(body());
+    await expect(upsertStylePreset(sqlWithStoredOwner('u2'), member, preset)).resolves.toBe('forbidden');
+    await expect(deleteStylePreset(sqlWithStoredOwner('u2'), member, 'p1', 5)).resolves.toBe('forbidden');
+  });
+
+  it('report a write that lost to a newer copy as stale, for admins too', async () => {
+    const preset = parseStylePreset(body());
+    await expect(upsertStylePreset(sqlWithStoredOwner('u1'), member, preset)).resolves.toBe('stale');
+    await expect(upsertStylePreset(sqlWithStoredOwner('u2'), { id: 'u3', role: 'admin' }, preset)).resolves.toBe('stale');
+    await expect(deleteStylePreset(sqlWithStoredOwner(), member, 'gone', 5)).resolves.toBe('stale');
+  });
+
+  it('report an applied write as saved', async () => {
+    const sql = (async () => [{ id: 'p1' }]) as unknown as Sql;
+    await expect(upsertStylePreset(sql, member, parseStylePreset(body()))).resolves.toBe('saved');
+  });
+});
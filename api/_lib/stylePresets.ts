@@ -0,0 +1,198 @@
+import type { AnalysisVibe, FrameStyle, LightingStyle, PresetSettings, PromptTemplate, QualityCheckSettings, StylePreset, WallTexture } from '../../types';
+import { isBlobRef, isDataUrl } from '../../services/blobRefs';
+import { normalizePromptTemplate, PROMPT_SECTIONS } from '../../services/promptTemplates';
+import { PRODUCT_TYPES } from '../../services/productTypes';
+import { findByIdOrName } from '../../services/syncedRows';
+import { getBlobStore, putDataUrl } from './blobStore';
+import type { Sql } from './mockupResults';
+import { skippedWrite, type WriteOutcome } from './teamRows';
+import type { AuthUser } from './users';
+
+const MAX_NAME_LENGTH = 120;
+const MAX_NEGATIVE_PROMPT_LENGTH = 2000;
+const MAX_SECTION_LENGTH = 4000;
+const FRAME_STYLES: FrameStyle[] = ['Auto', 'None', 'Sleek Black', 'Modern White', 'Natural Oak', 'Classic Gold', 'Industrial Metal'];
+const LIGHTING_STYLES: LightingStyle[] = ['Auto', 'Natural Daylight', 'Soft Morning', 'Golden Hour', 'Studio Lighting', 'Moody Dim'];
+const WALL_TEXTURES: WallTexture[] = ['Auto', 'Clean Drywall', 'Exposed Brick', 'Raw Concrete', 'Smooth Plaster', 'Wooden Paneling'];
+const ANALYSIS_VIBES: AnalysisVibe[] = ['Industrial & Raw', 'Modern & Minimalist', 'Cozy & Bohemian', 'Luxury & High-end', 'Public & Street', 'Surprise Me'];
+const ASPECT_RATIOS = ['1:1', '3:4', '4:3', '16:9', '9:16'] as const;
+const IMAGE_SIZES = ['1K', '2K', '4K'] as const;
+const PRINT_SIZES = ['A1', 'A2', 'A3', 'A4', '8x10', '11x14', '18x24', '24x36', 'Custom'] as const;
+const GENERATION_MODES = ['batch', 'contactSheet'] as const;
+
+function toStylePreset(row: any): StylePreset {
+  return {
+    id: row.id,
+    name: row.name,
+    frames: row.frames,
+    lighting: row.lighting,
+    textures: row.textures,
+    analysisVibe: row.analysisVibe,
+    customVibeId: row.customVibeId ?? undefined,
+    settings: row.settings,
+    styleReferenceImage: row.styleReferenceImage ?? undefined,
+    ownerId: row.ownerId,
+    createdAt: Number(row.createdAt),
+    updatedAt: Number(row.updatedAt),
+    deletedAt: row.deletedAt == null ? undefined : Number(row.deletedAt),
+  };
+}
+
+function parseChoices<T extends string>(value: unknown, allowed: readonly T[], field: string): T[] {
+  if (!Array.isArray(value) || value.length === 0) throw new Error(`${field} must list at least one option`);
+  for (const v of value) if (!allowed.includes(v)) throw new Error(`Invalid ${field}: ${v}`);
+  return [...new Set(value as T[])];
+}
+
+function parsePromptTemplate(value: unknown): PromptTemplate | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object') throw new Error('Invalid settings.promptTemplate');
+  const template = value as Record<string, any>;
+  for (const key of Object.keys(template)) {
+    if (!PROMPT_SECTIONS.some(s => s.id === key)) throw new Error(`Unknown prompt section: ${key}`);
+    const text = template[key]?.text;
+    if (text !== undefined && typeof text !== 'string') throw new Error(`Invalid settings.promptTemplate.${key}.text`);
+    if (text && text.length > MAX_SECTION_LENGTH) throw new Error(`settings.promptTemplate.${key}.text must be at most ${MAX_SECTION_LENGTH} characters`);
+  }
+  return normalizePromptTemplate(template as PromptTemplate);
+}
+
+function parseQualityCheck(value: unknown): QualityCheckSettings | undefined {
+  if (value === undefined || value === null) return undefined;
+  const q = value as Partial<QualityCheckSettings>;
+  const minScore = Number(q.minScore);
+  if (!Number.isFinite(minScore) || minScore < 0 || minScore > 1) throw new Error('settings.qualityCheck.minScore must be between 0 and 1');
+  const maxRetries = Number(q.maxRetries ?? 0);
+  if (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > 3) throw new Error('settings.qualityCheck.maxRetries must be between 0 and 3');
+  return { critique: q.critique === true, minScore, maxRetries };
+}
+
+/** Mockups one generation may ask for; each is a paid model call */
+export const MAX_GENERATION_COUNT = 8;
+
+export const isGenerationCount = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_GENERATION_COUNT;
+
+function parseSettings(value: unknown): PresetSettings {
+  const s = (value ?? {}) as Partial<PresetSettings>;
+  if (!ASPECT_RATIOS.includes(s.aspectRatio!)) throw new Error('Invalid settings.aspectRatio');
+  if (!IMAGE_SIZES.includes(s.imageSize!)) throw new Error('Invalid settings.imageSize');
+  if (!PRINT_SIZES.includes(s.printSize!)) throw new Error('Invalid settings.printSize');
+  const generationMode = s.generationMode ?? 'batch';
+  if (!GENERATION_MODES.includes(generationMode)) throw new Error('Invalid settings.generationMode');
+  if (s.productType !== undefined && !PRODUCT_TYPES.includes(s.productType)) throw new Error('Invalid settings.productType');
+  const negativePrompt = typeof s.negativePrompt === 'string' ? s.negativePrompt : '';
+  if (negativePrompt.length > MAX_NEGATIVE_PROMPT_LENGTH) throw new Error(`settings.negativePrompt must be at most ${MAX_NEGATIVE_PROMPT_LENGTH} characters`);
+  const count = Number(s.count ?? 1);
+  if (!isGenerationCount(count)) throw new Error(`settings.count must be between 1 and ${MAX_GENERATION_COUNT}`);
+  // Only known fields are kept, so a preset can't smuggle a prompt or artwork along
+  return {
+    negativePrompt,
+    count,
+    aspectRatio: s.aspectRatio!,
+    imageSize: s.imageSize!,
+    printSize: s.printSize!,
+    generationMode,
+    contactSheetSettings: s.contactSheetSettings,
+    macroMode: s.macroMode === true,
+    customPrintSize: s.customPrintSize,
+    sceneReference: s.sceneReference,
+    frameSpec: s.frameSpec,
+    promptTemplate: parsePromptTemplate(s.promptTemplate),
+    qualityCheck: parseQualityCheck(s.qualityCheck),
+    productType: s.productType,
+  };
+}
+
+/** Validates a preset from a request body; throws with a client-facing message. The owner is set by the server. */
+export function parseStylePreset(body: unknown): StylePreset {
+  const p = (body ?? {}) as Partial<StylePreset>;
+  if (typeof p.id !== 'string' || !p.id) throw new Error('id required');
+  const name = typeof p.name === 'string' ? p.name.trim() : '';
+  if (!name) throw new Error('name required');
+  if (name.length > MAX_NAME_LENGTH) throw new Error(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (!ANALYSIS_VIBES.includes(p.analysisVibe!)) throw new Error('Invalid analysisVibe');
+  if (p.styleReferenceImage !== undefined && !(isDataUrl(p.styleReferenceImage) || isBlobRef(p.styleReferenceImage))) {
+    throw new Error('styleReferenceImage must be a data URL or blob reference');
+  }
+  const createdAt = Number(p.createdAt ?? Date.now());
+  const updatedAt = Number(p.updatedAt ?? createdAt);
+  if (!Number.isFinite(createdAt) || !Number.isFinite(updatedAt)) throw new Error('Invalid timestamps');
+  return {
+    id: p.id,
+    name,
+    frames: parseChoices(p.frames, FRAME_STYLES, 'frames'),
+    lighting: parseChoices(p.lighting, LIGHTING_STYLES, 'lighting'),
+    textures: parseChoices(p.textures, WALL_TEXTURES, 'textures'),
+    analysisVibe: p.analysisVibe!,
+    customVibeId: typeof p.customVibeId === 'string' && p.customVibeId ? p.customVibeId : undefined,
+    settings: parseSettings(p.settings),
+    styleReferenceImage: p.styleReferenceImage,
+    createdAt,
+    updatedAt,
+  };
+}
+
+/** Every preset on the team, tombstones included so other devices learn about deletions */
+export async function listStylePresets(sql: Sql): Promise<StylePreset[]> {
+  const rows = await sql`
+    SELECT id, name, frames, lighting, textures, analysis_vibe AS "analysisVibe", custom_vibe_id AS "customVibeId", settings,
+      style_reference_image AS "styleReferenceImage", owner_id AS "ownerId",
+      created_at AS "createdAt", updated_at AS "updatedAt", deleted_at AS "deletedAt"
+    FROM style_presets
+    ORDER BY created_at
+  `;
+  return rows.map(toStylePreset);
+}
+
+/** A live preset by id or name, for tools that let callers say "preset Client A house style" */
+export async function findStylePreset(sql: Sql, ref: string): Promise<StylePreset | undefined> {
+  const presets = (await listStylePresets(sql)).filter(p => !p.deletedAt);
+  return findByIdOrName(presets, ref);
+}
+
+async function ownerOf(sql: Sql, id: string): Promise<string | undefined> {
+  const rows = await sql`SELECT owner_id AS "ownerId" FROM style_presets WHERE id = ${id}`;
+  return rows[0]?.ownerId;
+}
+
+/**
+ * Insert or update, newer `updatedAt` wins. Updates keep the original owner
+ * and only apply for that owner or an admin; the outcome says which applied.
+ * The style reference is moved to the blob store first.
+ */
+export async function upsertStylePreset(sql: Sql, user: AuthUser, preset: StylePreset): Promise<WriteOutcome> {
+  const reference = preset.styleReferenceImage;
+  const styleReferenceImage = reference && isDataUrl(reference) ? await putDataUrl(getBlobStore(), reference) : reference;
+  const isAdmin = user.role === 'admin';
+  const rows = await sql`
+    INSERT INTO style_presets (id, owner_id, name, frames, lighting, textures, analysis_vibe, custom_vibe_id, settings, style_reference_image, created_at, updated_at)
+    VALUES (${preset.id}, ${user.id}, ${preset.name}, ${JSON.stringify(preset.frames)}, ${JSON.stringify(preset.lighting)},
+      ${JSON.stringify(preset.textures)}, ${preset.analysisVibe}, ${preset.customVibeId ?? null}, ${JSON.stringify(preset.settings)},
+      ${styleReferenceImage ?? null}, ${preset.createdAt}, ${preset.updatedAt})
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      frames = EXCLUDED.frames,
+      lighting = EXCLUDED.lighting,
+      textures = EXCLUDED.textures,
+      analysis_vibe = EXCLUDED.analysis_vibe,
+      custom_vibe_id = EXCLUDED.custom_vibe_id,
+      settings = EXCLUDED.settings,
+      style_reference_image = EXCLUDED.style_reference_image,
+      updated_at = EXCLUDED.updated_at,
+      deleted_at = NULL
+    WHERE (style_presets.owner_id = EXCLUDED.owner_id OR ${isAdmin}) AND style_presets.updated_at < EXCLUDED.updated_at
+    RETURNING id
+  `;
+  return rows.length > 0 ? 'saved' : skippedWrite(user, await ownerOf(sql, preset.id));
+}
+
+export async function deleteStylePreset(sql: Sql, user: AuthUser, id: string, deletedAt = Date.now()): Promise<WriteOutcome> {
+  const isAdmin = user.role === 'admin';
+  const rows = await sql`
+    UPDATE style_presets SET deleted_at = ${deletedAt}, updated_at = ${deletedAt}
+    WHERE id = ${id} AND (owner_id = ${user.id} OR ${isAdmin}) AND deleted_at IS NULL AND updated_at <= ${deletedAt}
+    RETURNING id
+  `;
+  return rows.length > 0 ? 'saved' : skippedWrite(user, await ownerOf(sql, id));
+}
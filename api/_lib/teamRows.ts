@@ -0,0 +1,14 @@
+import type { AuthUser } from './users';
+
+/**
+ * What a change to a row shared by the team did: `stale` when the stored copy
+ * is as new or newer, `forbidden` when it belongs to someone else and the user
+ * isn't an admin.
+ */
+export type WriteOutcome = 'saved' | 'stale' | 'forbidden';
+
+/** Why a write touched no row, given the stored row's owner (undefined when there is no row) */
+export function skippedWrite(user: AuthUser, ownerId: string | undefined): WriteOutcome {
+  return ownerId !== undefined && ownerId !== user.id && user.role !== 'admin' ? 'forbidden' : 'stale';
+}
+
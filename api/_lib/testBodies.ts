@@ -0,0 +1,3 @@
+/** Request bodies for parser tests: `defaults` with any fields in `extra` replaced or added */
+export const bodyFactory = <T extends Record<string, unknown>>(defaults: T) =>
+  (extra: Record<string, unknown> = {}): T => ({ ...defaults, ...extra });
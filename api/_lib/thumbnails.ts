@@ -0,0 +1,36 @@
+import sharp from 'sharp';
+import { isBlobRef, blobRefHash, parseDataUrl } from '../../services/blobRefs';
+import { type BlobStore, putBytes } from './blobStore';
+
+/** Longest edge of a gallery thumbnail, sized for a 3-column grid on a retina screen */
+export const THUMBNAIL_SIZE = 480;
+
+export async function createThumbnail(bytes: Buffer): Promise<Buffer> {
+  return sharp(bytes)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 72 })
+    .toBuffer();
+}
+
+/**
+ * Builds a thumbnail for an image field (data URL or blob reference) and
+ * stores it as a blob. Returns null when the source can't be read or decoded;
+ * a missing thumbnail only costs the gallery a bigger download.
+ */
+export async function storeThumbnail(blobStore: BlobStore, image: string): Promise<string | null> {
+  try {
+    let bytes: Buffer | null = null;
+    if (isBlobRef(image)) {
+      bytes = (await blobStore.get(blobRefHash(image)))?.bytes ?? null;
+    } else {
+      const parsed = parseDataUrl(image);
+      if (parsed) bytes = Buffer.from(parsed.base64, 'base64');
+    }
+    if (!bytes) return null;
+    return await putBytes(blobStore, await createThumbnail(bytes));
+  } catch (err) {
+    console.warn('Thumbnail generation failed:', err);
+    return null;
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword, validatePassword } from './users';
+
+describe('password hashing', () => {
+  it('verifies the original password and rejects others', async () => {
+    const stored = await hashPassword('correct horse');
+    expect(stored).toMatch(/^scrypt\$/);
+    expect(stored).not.toContain('correct horse');
+    expect(await verifyPassword('correct horse', stored)).toBe(true);
+    expect(await verifyPassword('wrong horse', stored)).toBe(false);
+  });
+
+  it('salts each hash', async () => {
+    expect(await hashPassword('same')).not.toBe(await hashPassword('same'));
+  });
+
+  it('rejects malformed stored hashes', async () => {
+    expect(await verifyPassword('anything', 'plaintext')).toBe(false);
+  });
+
+  it('enforces a minimum length', () => {
+    expect(validatePassword('short')).toMatch(/at least/);
+    expect(validatePassword('long enough')).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import type { SessionUser, TeamMember, UserRole } from '../../types';
+import type { Sql } from './mockupResults';
+
+/** Who a request acts as; every owned row is scoped to `id` */
+export interface AuthUser {
+  id: string;
+  role: UserRole;
+}
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const SCRYPT_KEYLEN = 64;
+
+const scryptAsync = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => scrypt(password, salt, SCRYPT_KEYLEN, (err, key) => err ? reject(err) : resolve(key)));
+
+/** `scrypt$<salt b64>$<key b64>` */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/** Invite tokens and API keys are random, so a fast hash is enough to keep them out of the database */
+const hashSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex');
+
+const newSecret = (): string => randomBytes(32).toString('base64url');
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+function toSessionUser(row: any): SessionUser {
+  return { id: row.id, email: row.email, name: row.name ?? undefined, role: row.role };
+}
+
+/** The user behind a token, or null once they have been disabled or removed */
+export async function getActiveUser(sql: Sql, id: string): Promise<AuthUser | null> {
+  const rows = await sql`SELECT id, role FROM users WHERE id = ${id} AND disabled_at IS NULL`;
+  return rows.length > 0 ? { id: rows[0].id, role: rows[0].role } : null;
+}
+
+export async function signIn(sql: Sql, email: string, password: string): Promise<SessionUser | null> {
+  const rows = await sql`
+    SELECT id, email, name, role, password_hash AS "passwordHash"
+    FROM users
+    WHERE email = ${normalizeEmail(email)} AND disabled_at IS NULL AND password_hash IS NOT NULL
+  `;
+  if (rows.length === 0 || !(await verifyPassword(password, rows[0].passwordHash))) return null;
+  return toSessionUser(rows[0]);
+}
+
+/**
+ * First sign-in after upgrading from the shared site password: ADMIN_EMAIL
+ * with SITE_PASSWORD creates the admin account (password stored hashed) and
+ * hands it every mockup and job that predates accounts.
+ */
+export async function bootstrapAdmin(sql: Sql, email: string, password: string): Promise<SessionUser | null> {
+  const adminEmail = process.env.ADMIN_EMAIL?.trim();
+  const sitePassword = (process.env.SITE_PASSWORD || '').trim();
+  if (!adminEmail || !sitePassword || normalizeEmail(email) !== normalizeEmail(adminEmail) || password !== sitePassword) {
+    return null;
+  }
+
+  const id = crypto.randomUUID();
+  const created = await sql`
+    INSERT INTO users (id, email, role, password_hash, created_at)
+    VALUES (${id}, ${normalizeEmail(adminEmail)}, 'admin', ${await hashPassword(password)}, ${Date.now()})
+    ON CONFLICT (email) DO NOTHING
+    RETURNING id, email, name, role
+  `;
+  if (created.length === 0) return null;
+  await sql`UPDATE mockup_results SET owner_id = ${id} WHERE owner_id IS NULL`;
+  await sql`UPDATE jobs SET owner_id = ${id} WHERE owner_id IS NULL`;
+  return toSessionUser(created[0]);
+}
+
+export async function listUsers(sql: Sql): Promise<TeamMember[]> {
+  const rows = await sql`
+    SELECT id, email, name, role, created_at AS "createdAt", disabled_at AS "disabledAt",
+      (password_hash IS NULL) AS "invitePending"
+    FROM users
+    ORDER BY created_at
+  `;
+  return rows.map(row => ({
+    id: row.id,
+    email: row.email,
+    name: row.name ?? undefined,
+    role: row.role,
+    createdAt: Number(row.createdAt),
+    disabledAt: row.disabledAt == null ? undefined : Number(row.disabledAt),
+    invitePending: row.invitePending,
+  }));
+}
+
+/**
+ * Creates a pending account, or refreshes the invite of one that never signed
+ * in. Returns the one-time invite token; only its hash is stored.
+ */
+export async function inviteUser(
+  sql: Sql,
+  invite: { email: string; name?: string; role?: UserRole }
+): Promise<{ user: TeamMember; inviteToken: string } | null> {
+  const token = newSecret();
+  const now = Date.now();
+  const rows = await sql`
+    INSERT INTO users (id, email, name, role, invite_token_hash, invite_expires_at, created_at)
+    VALUES (${crypto.randomUUID()}, ${normalizeEmail(invite.email)}, ${invite.name ?? null}, ${invite.role ?? 'member'},
+      ${hashSecret(token)}, ${now + INVITE_TTL_MS}, ${now})
+    ON CONFLICT (email) DO UPDATE SET
+      name = COALESCE(EXCLUDED.name, users.name),
+      role = EXCLUDED.role,
+      invite_token_hash = EXCLUDED.invite_token_hash,
+      invite_expires_at = EXCLUDED.invite_expires_at
+    WHERE users.password_hash IS NULL
+    RETURNING id, email, name, role, created_at AS "createdAt"
+  `;
+  if (rows.length === 0) return null;
+  const row = rows[0];
+  return {
+    user: { id: row.id, email: row.email, name: row.name ?? undefined, role: row.role, createdAt: Number(row.createdAt), invitePending: true },
+    inviteToken: token,
+  };
+}
+
+/** Sets the password for an invited account and consumes the invite */
+export async function acceptInvite(sql: Sql, token: string, password: string): Promise<SessionUser | null> {
+  const rows = await sql`
+    UPDATE users
+    SET password_hash = ${await hashPassword(password)}, invite_token_hash = NULL, invite_expires_at = NULL
+    WHERE invite_token_hash = ${hashSecret(token)} AND invite_expires_at > ${Date.now()} AND disabled_at IS NULL
+    RETURNING id, email, name, role
+  `;
+  return rows.length > 0 ? toSessionUser(rows[0]) : null;
+}
+
+/** Disabling takes effect on the user's next request; their tokens stop verifying */
+export async function setUserDisabled(sql: Sql, id: string, disabled: boolean): Promise<boolean> {
+  const rows = await sql`
+    UPDATE users SET disabled_at = ${disabled ? Date.now() : null}
+    WHERE id = ${id}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/** Issues a new personal MCP key, replacing any previous one. Shown to the user once. */
+export async function rotateApiKey(sql: Sql, id: string): Promise<string> {
+  const key = `mmp_${newSecret()}`;
+  await sql`UPDATE users SET api_key_hash = ${hashSecret(key)} WHERE id = ${id}`;
+  return key;
+}
+
+/**
+ * Resolves an MCP `X-API-Key`: a personal key acts as its owner; the legacy
+ * shared MCP_API_KEY acts as the ADMIN_EMAIL account.
+ */
+export async function findUserByApiKey(sql: Sql, key: string): Promise<AuthUser | null> {
+  const legacyKey = process.env.MCP_API_KEY;
+  const rows = legacyKey && key === legacyKey
+    ? await sql`SELECT id, role FROM users WHERE email = ${normalizeEmail(process.env.ADMIN_EMAIL || '')} AND disabled_at IS NULL`
+    : await sql`SELECT id, role FROM users WHERE api_key_hash = ${hashSecret(key)} AND disabled_at IS NULL`;
+  return rows.length > 0 ? { id: rows[0].id, role: rows[0].role } : null;
+}
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import type { VibeRef } from '../services/promptEngine';
+import { verifyToken } from './_lib/auth';
+import { resolveVibe } from './_lib/customVibes';
+import { serverAnalyzeArtwork, serverAnalyzeScene, serverRegenerateSinglePrompt } from './_lib/geminiServerService';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '20mb' } },
+  maxDuration: 60,
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  if (!(await verifyToken(req))) return res.status(401).json({ error: 'Unauthorized' });
+
+  const { artwork, scene, single = false, existingPrompts = [] } = req.body;
+  if (!artwork && !scene) return res.status(400).json({ error: 'artwork or scene required' });
+
+  // A built-in vibe name, a custom vibe id or name, or a custom vibe definition
+  let vibe: VibeRef = 'Surprise Me';
+  if (artwork) {
+    try {
+      vibe = await resolveVibe(neon(process.env.DATABASE_URL!), req.body.vibe);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+  }
+
+  try {
+    if (scene) {
+      const analysis = await serverAnalyzeScene(scene);
+      return res.status(200).json({ analysis });
+    }
+    if (single) {
+      const suggestion = await serverRegenerateSinglePrompt(artwork, vibe, existingPrompts);
+      return res.status(200).json({ suggestion });
+    }
+    const suggestions = await serverAnalyzeArtwork(artwork, vibe);
+    return res.status(200).json({ suggestions });
+  } catch (err: any) {
+    console.error('Analyze error:', err);
+    return res.status(500).json({ error: err.message || 'Analysis failed' });
+  }
+}
@@ -1,22 +1,40 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { SignJWT } from 'jose';
+import { neon } from '@neondatabase/serverless';
+import type { SessionUser } from '../types';
+import { authenticate, signToken } from './_lib/auth';
+import { acceptInvite, bootstrapAdmin, rotateApiKey, signIn, validatePassword } from './_lib/users';
 
+// POST {email, password}       → sign in
+// POST {inviteToken, password} → accept an invite and sign in
+// PUT  (signed in)             → issue a new personal MCP API key
 export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const sql = neon(process.env.DATABASE_URL!);
+
+  if (req.method === 'PUT') {
+    const user = await authenticate(req);
+    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+    return res.status(200).json({ apiKey: await rotateApiKey(sql, user.id) });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { password } = req.body as { password?: string };
-  const expected = (process.env.SITE_PASSWORD || '').trim();
-  if (!password || password !== expected) {
-    return res.status(401).json({ error: 'Invalid password' });
-  }
+  const { email, password, inviteToken } = req.body as { email?: string; password?: string; inviteToken?: string };
+  if (!password) return res.status(400).json({ error: 'Password required' });
 
-  const secret = new TextEncoder().encode(process.env.JWT_SECRET!);
-  const token = await new SignJWT({})
-    .setProtectedHeader({ alg: 'HS256' })
-    .setExpirationTime('30d')
-    .sign(secret);
+  let user: SessionUser | null;
+  if (inviteToken) {
+    const invalid = validatePassword(password);
+    if (invalid) return res.status(400).json({ error: invalid });
+    user = await acceptInvite(sql, inviteToken, password);
+    if (!user) return res.status(401).json({ error: 'Invite is invalid or has expired' });
+  } else {
+    if (!email) return res.status(400).json({ error: 'Email required' });
+    user = (await signIn(sql, email, password)) ?? (await bootstrapAdmin(sql, email, password));
+    if (!user) return res.status(401).json({ error: 'Invalid email or password' });
+  }
 
-  return res.status(200).json({ token });
+  const token = await signToken(user);
+  return res.status(200).json({ token, user });
 }
@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { verifyToken } from './_lib/auth';
+import { getBlobStore, putDataUrl } from './_lib/blobStore';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '50mb' } },
+};
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+// GET/HEAD are public: a blob is only reachable by its SHA-256, and public
+// reads let <img> tags load blobs without an Authorization header.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const store = getBlobStore();
+
+  if (req.method === 'GET' || req.method === 'HEAD') {
+    const { hash } = req.query as { hash?: string };
+    if (!hash || !HASH_PATTERN.test(hash)) return res.status(400).json({ error: 'Valid hash required' });
+
+    if (req.method === 'HEAD') {
+      res.status((await store.has(hash)) ? 200 : 404).end();
+      return;
+    }
+
+    const blob = await store.get(hash);
+    if (!blob) return res.status(404).json({ error: 'Not found' });
+    res.setHeader('Content-Type', blob.mimeType);
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.setHeader('ETag', `"${hash}"`);
+    return res.status(200).send(blob.bytes);
+  }
+
+  if (req.method === 'POST') {
+    if (!(await verifyToken(req))) return res.status(401).json({ error: 'Unauthorized' });
+    const { dataUrl } = req.body as { dataUrl?: string };
+    if (!dataUrl) return res.status(400).json({ error: 'dataUrl required' });
+    try {
+      const ref = await putDataUrl(store, dataUrl);
+      return res.status(201).json({ ref });
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
@@ -0,0 +1,24 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { verifyToken } from './_lib/auth';
+import { serverGenerateComposite } from './_lib/geminiServerService';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '50mb' } },
+  maxDuration: 300,
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  if (!(await verifyToken(req))) return res.status(401).json({ error: 'Unauthorized' });
+
+  const { baseImage, artwork, instructions = '', aspectRatio = '3:4', imageSize = '2K', artworkAspectRatio, artworkSet } = req.body;
+  if (!baseImage || !artwork) return res.status(400).json({ error: 'baseImage and artwork required' });
+
+  try {
+    const generated = await serverGenerateComposite(baseImage, artwork, instructions, aspectRatio, imageSize, artworkAspectRatio, artworkSet);
+    return res.status(200).json({ images: generated.map(g => g.imageUrl), generations: generated.map(g => g.generation) });
+  } catch (err: any) {
+    console.error('Composite error:', err);
+    return res.status(500).json({ error: err.message || 'Composite failed' });
+  }
+}
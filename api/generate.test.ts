@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+vi.mock('jose', () => ({
+  jwtVerify: vi.fn().mockResolvedValue({ payload: { sub: 'user-1' } }),
+}));
+
+// The token's user is looked up to reject disabled accounts
+vi.mock('@neondatabase/serverless', () => ({ neon: vi.fn(() => vi.fn()) }));
+vi.mock('./_lib/users', () => ({
+  getActiveUser: vi.fn().mockResolvedValue({ id: 'user-1', role: 'member' }),
+}));
+
+const generated = (imageUrl: string) =>
+  ({ imageUrl, generation: { resolvedPrompt: 'PROMPT', model: 'test-model', generatedAt: 1, retryCount: 0 } });
+
+vi.mock('./_lib/geminiServerService', () => ({
+  serverGenerateMockup: vi.fn(async () => [generated('data:image/png;base64,AAAA')]),
+  serverGenerateContactSheet: vi.fn(async () => generated('data:image/png;base64,SHEET')),
+  serverRegenerateHighRes: vi.fn(async () => generated('data:image/png;base64,HIGHRES')),
+}));
+
+const settings = { prompt: 'A loft', count: 1, aspectRatio: '3:4', imageSize: '1K' };
+
+function makeReq(overrides: Partial<VercelRequest> = {}): VercelRequest {
+  return {
+    method: 'POST',
+    headers: { authorization: 'Bearer valid-token' },
+    body: { artwork: 'data:image/jpeg;base64,ART', settings },
+    ...overrides,
+  } as unknown as VercelRequest;
+}
+
+function makeRes() {
+  const res = { _status: 200, _body: {} } as any;
+  res.status = (code: number) => { res._status = code; return res; };
+  res.json = (body: any) => { res._body = body; return res; };
+  return res as VercelResponse & { _status: number; _body: any };
+}
+
+describe('POST /api/generate', () => {
+  let handler: typeof import('./generate').default;
+  let lib: typeof import('./_lib/geminiServerService');
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    handler = (await import('./generate')).default;
+    lib = await import('./_lib/geminiServerService');
+  });
+
+  it('returns 405 for non-POST methods', async () => {
+    const res = makeRes();
+    await handler(makeReq({ method: 'GET' }), res);
+    expect(res._status).toBe(405);
+  });
+
+  it('returns 401 without a bearer token', async () => {
+    const res = makeRes();
+    await handler(makeReq({ headers: {} }), res);
+    expect(res._status).toBe(401);
+  });
+
+  it('returns 400 when artwork is missing', async () => {
+    const res = makeRes();
+    await handler(makeReq({ body: { settings } }), res);
+    expect(res._status).toBe(400);
+  });
+
+  it('returns 400 for a count that is not an integer from 1 to 8', async () => {
+    for (const count of [0, 9, 2.5, '4', undefined]) {
+      const res = makeRes();
+      await handler(makeReq({ body: { artwork: 'ART', settings: { ...settings, count } } }), res);
+      expect(res._status).toBe(400);
+    }
+    expect(lib.serverGenerateMockup).not.toHaveBeenCalled();
+  });
+
+  it('generates mockups with the macro flag passed through', async () => {
+    const res = makeRes();
+    await handler(makeReq({ body: { artwork: 'ART', settings, macro: true } }), res);
+    expect(res._status).toBe(200);
+    expect(res._body.images).toEqual(['data:image/png;base64,AAAA']);
+    expect(res._body.generations).toEqual([expect.objectContaining({ resolvedPrompt: 'PROMPT', retryCount: 0 })]);
+    expect(lib.serverGenerateMockup).toHaveBeenCalledWith('ART', settings, { macro: true });
+  });
+
+  it('routes contact sheets and high-res regeneration by kind', async () => {
+    const sheetRes = makeRes();
+    await handler(makeReq({ body: { kind: 'contactSheet', artwork: 'ART', settings, cameraAngles: ['Medium Focus'] } }), sheetRes);
+    expect(sheetRes._body.image).toBe('data:image/png;base64,SHEET');
+
+    const highResRes = makeRes();
+    await handler(makeReq({ body: { kind: 'highRes', image: 'IMG', prompt: 'A loft', targetSize: '4K', aspectRatio: '3:4' } }), highResRes);
+    expect(highResRes._body.image).toBe('data:image/png;base64,HIGHRES');
+    expect(lib.serverRegenerateHighRes).toHaveBeenCalledWith('IMG', 'A loft', '4K', '3:4');
+  });
+
+  it('surfaces generation errors as 500', async () => {
+    vi.mocked(lib.serverGenerateMockup).mockRejectedValueOnce(new Error('No images generated'));
+    const res = makeRes();
+    await handler(makeReq(), res);
+    expect(res._status).toBe(500);
+    expect(res._body.error).toBe('No images generated');
+  });
+});
@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { GenerationSettings, CameraAngle } from '../types';
+import { verifyToken } from './_lib/auth';
+import { MAX_GENERATION_COUNT, isGenerationCount } from './_lib/stylePresets';
+import { serverGenerateMockup, serverGenerateContactSheet, serverRegenerateHighRes } from './_lib/geminiServerService';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '50mb' } },
+  maxDuration: 300,
+};
+
+type GenerateBody =
+  | { kind?: 'mockup'; artwork: string; settings: GenerationSettings; macro?: boolean }
+  | { kind: 'contactSheet'; artwork: string; settings: GenerationSettings; cameraAngles: CameraAngle[] }
+  | { kind: 'highRes'; image: string; prompt: string; targetSize: '2K' | '4K'; aspectRatio: string };
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  if (!(await verifyToken(req))) return res.status(401).json({ error: 'Unauthorized' });
+
+  const body = req.body as GenerateBody;
+
+  try {
+    if (body.kind === 'contactSheet') {
+      if (!body.artwork || !body.settings || !body.cameraAngles?.length) {
+        return res.status(400).json({ error: 'artwork, settings and cameraAngles required' });
+      }
+      const { imageUrl, generation } = await serverGenerateContactSheet(body.artwork, body.settings, body.cameraAngles);
+      return res.status(200).json({ image: imageUrl, generation });
+    }
+
+    if (body.kind === 'highRes') {
+      if (!body.image || !body.targetSize) return res.status(400).json({ error: 'image and targetSize required' });
+      const { imageUrl, generation } = await serverRegenerateHighRes(body.image, body.prompt ?? '', body.targetSize, body.aspectRatio);
+      return res.status(200).json({ image: imageUrl, generation });
+    }
+
+    if (!body.artwork || !body.settings) return res.status(400).json({ error: 'artwork and settings required' });
+    if (!isGenerationCount(body.settings.count)) {
+      return res.status(400).json({ error: `settings.count must be an integer from 1 to ${MAX_GENERATION_COUNT}` });
+    }
+    const generated = await serverGenerateMockup(body.artwork, body.settings, { macro: body.macro });
+    return res.status(200).json({ images: generated.map(g => g.imageUrl), generations: generated.map(g => g.generation) });
+  } catch (err: any) {
+    console.error('Generate error:', err);
+    return res.status(500).json({ error: err.message || 'Generation failed' });
+  }
+}
@@ -0,0 +1,60 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import type { JobRequest } from '../types';
+import { authenticate } from './_lib/auth';
+import { enqueueJobs, getJobs, listJobs, cancelJob } from './_lib/jobs';
+import { MAX_GENERATION_COUNT, isGenerationCount } from './_lib/stylePresets';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '50mb' } },
+};
+
+const JOB_KINDS = ['mockup', 'composite', 'contactSheet', 'upscale'];
+const MAX_JOBS_PER_REQUEST = 100;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const user = await authenticate(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const sql = neon(process.env.DATABASE_URL!);
+
+  // GET ?id=<id> | ?ids=a,b,c → full jobs incl. results; otherwise a lightweight list
+  if (req.method === 'GET') {
+    const { id, ids, active, limit } = req.query as { id?: string; ids?: string; active?: string; limit?: string };
+    if (id || ids) {
+      const wanted = (ids ?? id!).split(',').filter(Boolean).slice(0, MAX_JOBS_PER_REQUEST);
+      return res.status(200).json(await getJobs(sql, user.id, wanted));
+    }
+    const jobs = await listJobs(sql, user.id, {
+      activeOnly: active === '1' || active === 'true',
+      limit: Math.min(Number(limit) || 50, 200),
+    });
+    return res.status(200).json(jobs);
+  }
+
+  if (req.method === 'POST') {
+    const { jobs, batchId } = req.body as { jobs?: JobRequest[]; batchId?: string };
+    if (!Array.isArray(jobs) || jobs.length === 0) return res.status(400).json({ error: 'jobs required' });
+    if (jobs.length > MAX_JOBS_PER_REQUEST) return res.status(400).json({ error: `At most ${MAX_JOBS_PER_REQUEST} jobs per request` });
+    if (jobs.some(j => !JOB_KINDS.includes(j?.kind) || !j.input || typeof j.label !== 'string')) {
+      return res.status(400).json({ error: `Each job needs kind (${JOB_KINDS.join(', ')}), label and input` });
+    }
+    if (jobs.some(j => j.kind === 'mockup' && !isGenerationCount(j.input.settings?.count))) {
+      return res.status(400).json({ error: `settings.count must be an integer from 1 to ${MAX_GENERATION_COUNT}` });
+    }
+    const created = await enqueueJobs(sql, user.id, jobs, batchId);
+    return res.status(201).json(created);
+  }
+
+  if (req.method === 'DELETE') {
+    const { id } = req.query as { id?: string };
+    if (!id) return res.status(400).json({ error: 'Missing id' });
+    const cancelled = await cancelJob(sql, user.id, id);
+    if (!cancelled) return res.status(409).json({ error: 'Job already finished' });
+    return res.status(200).json({ ok: true });
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
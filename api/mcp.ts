@@ -1,4 +1,17 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { GenerationSettings, AnalysisVibe, CustomVibe, MockupResult, FrameSpec, FrameStyle } from '../types';
+import { IMAGE_FIELDS, isBlobRef } from '../services/blobRefs';
+import { DEFAULT_QUALITY_CHECK } from '../services/fidelity';
+import { frameSpecFromStyle } from '../services/frameSpec';
+import { applyStylePreset } from '../services/stylePresets';
+import { resolveSlot, sceneSlotInstructions } from '../services/sceneTemplates';
+import { getBlobStore, readAsDataUrl, resolveImage } from './_lib/blobStore';
+import { findCustomVibe, listCustomVibes, resolveVibe } from './_lib/customVibes';
+import { deleteMockupResult, insertMockupResult } from './_lib/mockupResults';
+import { findUserSceneTemplate } from './_lib/sceneTemplates';
+import { findStylePreset, listStylePresets } from './_lib/stylePresets';
+import { findUserByApiKey, type AuthUser } from './_lib/users';
+import type { VibeRef } from '../services/promptEngine';
 
 export const config = {
   api: { bodyParser: { sizeLimit: '50mb' } },
@@ -6,24 +19,28 @@ export const config = {
 };
 
 // All external ESM packages are dynamically imported to avoid
-// Vercel ncc bundling issues with ESM-only modules.
+// Vercel ncc bundling issues with ESM-only modules. The Gemini service (and
+// sharp behind its fidelity check) is loaded by the tools that call it.
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const apiKey = req.headers['x-api-key'];
-  if (!apiKey || apiKey !== process.env.MCP_API_KEY) {
+  if (!apiKey || typeof apiKey !== 'string') {
     return res.status(401).json({ error: 'Unauthorized: invalid or missing X-API-Key' });
   }
 
   try {
-    const [{ McpServer }, { WebStandardStreamableHTTPServerTransport }, { z }, { neon }, { GoogleGenAI }] = await Promise.all([
+    const [{ McpServer }, { WebStandardStreamableHTTPServerTransport }, { z }, { neon }] = await Promise.all([
       import('@modelcontextprotocol/sdk/server/mcp.js'),
       import('@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js'),
       import('zod'),
       import('@neondatabase/serverless'),
-      import('@google/genai'),
     ]);
 
-    const mcp = buildServer(McpServer, z, neon, GoogleGenAI);
+    // Personal keys act as their owner; tools only see that user's mockups
+    const owner = await findUserByApiKey(neon(process.env.DATABASE_URL!), apiKey);
+    if (!owner) return res.status(401).json({ error: 'Unauthorized: invalid or missing X-API-Key' });
+
+    const mcp = buildServer(McpServer, z, neon, owner);
     const transport = new WebStandardStreamableHTTPServerTransport({ sessionIdGenerator: undefined });
     await mcp.connect(transport);
 
@@ -67,146 +84,22 @@ async function writeWebResponse(webRes: Response, res: VercelResponse) {
   } finally { res.end(); }
 }
 
-// --- Gemini helpers (inlined to avoid _lib import issues) ---
-
-const GENERATION_MODEL = 'gemini-3.1-flash-image-preview';
-const ANALYSIS_MODEL = 'gemini-3.1-flash-preview';
-
-function getGeminiApiKey(): string {
-  const trimmed = process.env.GEMINI_API_KEY?.trim();
-  if (!trimmed) throw new Error('GEMINI_API_KEY not set');
-  return trimmed;
-}
-
-const stripBase64Header = (b64: string) => b64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
-
-function extractImage(response: any): string | null {
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData?.data) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-  return null;
-}
-
-async function retryFn<T>(fn: () => Promise<T>, retries = 3, baseDelay = 2000): Promise<T> {
-  for (let i = 0; i < retries; i++) {
-    try { return await fn(); } catch (e: any) {
-      if (i === retries - 1) throw e;
-      const s = e.toString() + (JSON.stringify(e) || '');
-      if (!(s.includes('503') || s.includes('overloaded') || s.includes('UNAVAILABLE') || s.includes('429'))) throw e;
-      await new Promise(r => setTimeout(r, baseDelay * Math.pow(2, i)));
-    }
-  }
-  throw new Error('Max retries');
-}
-
-async function serverGenerateMockup(GoogleGenAI: any, artworkBase64: string, settings: any): Promise<string[]> {
-  const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() });
-  const cleanBase64 = stripBase64Header(artworkBase64);
-
-  const prompt = `
-    Award-winning editorial photography, shot on 35mm film, Kodak Portra 400.
-    Features: Slight chromatic aberration, organic color grading.
-    8k resolution, hyperrealistic, detailed texture. Apply authentic analog film grain.
-
-    CRITICAL: The attached image is the artwork to display INSIDE a frame on a wall.
-    ENVIRONMENT: ${settings.prompt}
-
-    Frame: ${settings.frameStyle === 'None' ? 'Unframed poster taped to wall' : settings.frameStyle === 'Auto' ? 'Frame matching environment aesthetic' : settings.frameStyle + ' frame'}.
-    ${settings.lighting !== 'Auto' ? 'Lighting: ' + settings.lighting + '.' : ''}
-    ${settings.wallTexture !== 'Auto' ? 'Wall: ' + settings.wallTexture + '.' : ''}
-
-    RULES:
-    - NEVER crop, stretch, or distort the artwork. Preserve its exact aspect ratio.
-    - The frame shape MUST match the artwork proportions.
-    - The artwork is a physical print LIT BY room light, not self-illuminated.
-    - Tint colors to match ambient light temperature.
-    - Include realistic glass reflections and frame shadows.
-
-    Do NOT include: 3d render, cgi, digital art, people, animals, text, watermarks, blurry.
-  `;
-
-  const promises = Array.from({ length: settings.count }).map(async () => {
-    try {
-      const response = await retryFn(() => ai.models.generateContent({
-        model: GENERATION_MODEL,
-        contents: { parts: [{ text: prompt }, { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } }] },
-        config: { imageConfig: { aspectRatio: settings.aspectRatio, imageSize: settings.imageSize || '2K' } },
-      }));
-      return extractImage(response);
-    } catch (e) { console.error('Generation error:', e); return null; }
-  });
-
-  const results = (await Promise.all(promises)).filter((img): img is string => img !== null);
-  if (results.length === 0) throw new Error('No images generated');
-  return results;
-}
-
-async function serverGenerateComposite(GoogleGenAI: any, baseImg: string, artworkImg: string, instructions: string, aspectRatio: string, imageSize: string): Promise<string[]> {
-  const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() });
-
-  const prompt = `
-    Place the ARTWORK (second image) into the INTERIOR SCENE (first image) as a framed print on the wall.
-    ${instructions.trim() ? 'Instructions: ' + instructions.trim() : 'Place as a framed print on the most natural wall spot.'}
-
-    RULES:
-    - Frame proportions MUST match artwork shape (portrait/landscape/square).
-    - If existing frame has wrong proportions, change the frame shape.
-    - Match wall vanishing point and perspective exactly.
-    - Artwork colors tinted by room light temperature (warm room = warm tint).
-    - Include glass reflections (15-25% opacity), frame shadow, surface texture.
-    - Print should look like ink on paper reflecting room light, not a screen.
-    - Preserve everything else in the photo exactly as-is.
-  `;
-
-  const response = await retryFn(() => ai.models.generateContent({
-    model: GENERATION_MODEL,
-    contents: { parts: [
-      { text: prompt },
-      { inlineData: { mimeType: 'image/jpeg', data: stripBase64Header(baseImg) } },
-      { inlineData: { mimeType: 'image/jpeg', data: stripBase64Header(artworkImg) } },
-    ] },
-    config: { imageConfig: { aspectRatio: aspectRatio as any, imageSize: imageSize as any } },
-  }));
-
-  const img = extractImage(response);
-  if (!img) throw new Error('No image in composite response');
-  return [img];
-}
-
-async function serverAnalyzeArtwork(GoogleGenAI: any, artworkBase64: string, vibe?: string): Promise<string[]> {
-  const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() });
-  const v = vibe || 'Surprise Me';
-
-  const vibeContext: Record<string, string> = {
-    'Industrial & Raw': 'Industrial lofts, concrete, abandoned factories, exposed brick, brutalist architecture.',
-    'Modern & Minimalist': 'Clean gallery spaces, scandinavian interiors, museum settings, polished concrete.',
-    'Cozy & Bohemian': 'Warm living rooms with plants, coffee shops, soft light, vintage rugs, macramé.',
-    'Luxury & High-end': 'Hotel lobbies, marble walls, gold accents, dark moody offices, designer furniture.',
-    'Public & Street': 'Subway stations, wheatpasted walls, bus stops, urban textures, neon signage.',
-    'Surprise Me': 'Mix of unexpected locations — film sets, art installations, unusual cultural spaces.',
+/** Tool args accept bare base64; stored images need a full data URL */
+const asDataUrl = (b64: string) => b64.startsWith('data:') ? b64 : `data:image/jpeg;base64,${b64}`;
+
+/** A build from the tool's snake_case frame_spec, seeded from the frame style's preset */
+function toFrameSpec(args: any, style?: FrameStyle): FrameSpec {
+  const base = frameSpecFromStyle(style);
+  return {
+    mouldingMaterial: args.moulding_material ?? base.mouldingMaterial,
+    mouldingColour: args.moulding_colour ?? base.mouldingColour,
+    profileWidth: args.profile_width_cm ?? base.profileWidth,
+    profileDepth: args.profile_depth_cm ?? base.profileDepth,
+    matWidth: args.mat_width_cm ?? base.matWidth,
+    matColour: args.mat_colour ?? base.matColour,
+    glazing: args.glazing ?? base.glazing,
+    mount: args.mount ?? base.mount,
   };
-
-  const prompt = `
-    Analyze this artwork. Identify style, color palette, and mood.
-    Suggest 4 DISTINCT, CREATIVE settings where this art would look amazing.
-    THEME: ${vibeContext[v] || vibeContext['Surprise Me']}
-    Be specific and unique. Avoid generic descriptions.
-    Output strictly a JSON array of 4 strings.
-  `;
-
-  try {
-    const response = await retryFn(() => ai.models.generateContent({
-      model: ANALYSIS_MODEL,
-      contents: { parts: [{ text: prompt }, { inlineData: { mimeType: 'image/jpeg', data: stripBase64Header(artworkBase64) } }] },
-      config: { responseMimeType: 'application/json', temperature: 1.2 },
-    }));
-    const suggestions = JSON.parse(response.text || '[]');
-    return Array.isArray(suggestions) ? suggestions.slice(0, 4) : [];
-  } catch {
-    return ['A modern gallery wall with spot lighting', 'A cozy bohemian bedroom with plants', 'A professional office with sleek furniture', 'An industrial loft with exposed brick'];
-  }
 }
 
 // --- MCP response helpers ---
@@ -216,63 +109,175 @@ const mcpError = (value: unknown) => ({ ...mcpJson(value), isError: true as cons
 
 // --- MCP Server builder ---
 
-function buildServer(McpServer: any, z: any, neon: any, GoogleGenAI: any) {
+function buildServer(McpServer: any, z: any, neon: any, owner: AuthUser) {
   const mcp = new McpServer({ name: 'mockup-magic-pro', version: '1.0.0' });
   const getSql = () => neon(process.env.DATABASE_URL!);
+  const gemini = () => import('./_lib/geminiServerService');
 
-  mcp.tool('generate_mockup', 'Generate AI mockup images from artwork. Returns array of {id, imageUrl}.', {
+  mcp.tool('generate_mockup', 'Generate AI mockup images from artwork, optionally in a team style preset. Returns array of {id, imageUrl}, with the fidelity score and failures when quality_check is on.', {
     artwork_base64: z.string().describe('Base64-encoded artwork image'),
     prompt: z.string().describe('Description of the mockup scene'),
+    preset: z.string().optional().describe('Style preset id or name (see list_presets); the other options override it'),
+    vibe: z.string().optional().describe('Built-in vibe name, or a custom vibe id or name (see list_vibes)'),
     aspect_ratio: z.enum(['1:1', '3:4', '4:3', '16:9', '9:16']).optional(),
     camera_angle: z.string().optional(),
     frame_style: z.enum(['Auto', 'None', 'Sleek Black', 'Modern White', 'Natural Oak', 'Classic Gold', 'Industrial Metal']).optional(),
+    frame_spec: z.object({
+      moulding_material: z.enum(['Wood', 'Painted Wood', 'Metal', 'Gilded']).optional(),
+      moulding_colour: z.string().optional(),
+      profile_width_cm: z.number().positive().optional().describe('Face width of the moulding'),
+      profile_depth_cm: z.number().positive().optional().describe('Depth off the wall; for canvas wraps, the stretcher depth'),
+      mat_width_cm: z.number().min(0).optional().describe('0 for no mat'),
+      mat_colour: z.string().optional(),
+      glazing: z.enum(['None', 'Glass', 'Acrylic', 'Anti-Glare']).optional(),
+      mount: z.enum(['Standard', 'Float', 'Canvas Wrap', 'Poster Hanger']).optional(),
+    }).optional().describe('Custom frame build; overrides frame_style, which seeds any omitted fields'),
+    product_type: z.enum(['Wall Art', 'T-Shirt', 'Mug', 'Phone Case', 'Tote Bag', 'Book']).optional().describe('Merchandise to print the artwork on; frame options only apply to Wall Art (the default)'),
     lighting: z.enum(['Auto', 'Natural Daylight', 'Soft Morning', 'Golden Hour', 'Studio Lighting', 'Moody Dim']).optional(),
     wall_texture: z.enum(['Auto', 'Clean Drywall', 'Exposed Brick', 'Raw Concrete', 'Smooth Plaster', 'Wooden Paneling']).optional(),
     count: z.number().min(1).max(4).optional().describe('Number of mockups (1-4)'),
+    macro: z.boolean().optional().describe('Extreme close-up of the print surface instead of a room shot'),
+    quality_check: z.object({
+      critique: z.boolean().optional().describe('Also have the analysis model critique the placed artwork'),
+      min_score: z.number().min(0).max(1).optional().describe('Fidelity score (0-1) a mockup must reach'),
+      max_retries: z.number().int().min(0).max(3).optional().describe('Regenerations to try for a failing mockup; 0 only flags it'),
+    }).optional().describe('Check each mockup against the artwork (hash, colour, proportions) and report a fidelity score'),
   }, async (args: any) => {
-    const settings = {
-      prompt: args.prompt, negativePrompt: '', count: args.count ?? 1,
-      aspectRatio: args.aspect_ratio ?? '3:4', imageSize: '2K',
-      frameStyle: args.frame_style ?? 'Auto', lighting: args.lighting ?? 'Auto',
-      wallTexture: args.wall_texture ?? 'Auto', printSize: 'A2', generationMode: 'batch',
-    };
-    const images = await serverGenerateMockup(GoogleGenAI, args.artwork_base64, settings);
     const sql = getSql();
+    const defaults: GenerationSettings = {
+      prompt: args.prompt, negativePrompt: '', count: 1, aspectRatio: '3:4', imageSize: '2K',
+      frameStyle: 'Auto', lighting: 'Auto', wallTexture: 'Auto', printSize: 'A2', generationMode: 'batch',
+    };
+    let base = defaults;
+    if (args.preset) {
+      const preset = await findStylePreset(sql, args.preset);
+      if (!preset) return mcpError({ error: `Style preset not found: ${args.preset}` });
+      const presetVibe = preset.customVibeId ? await findCustomVibe(sql, preset.customVibeId) : undefined;
+      base = applyStylePreset(defaults, preset, presetVibe);
+    }
+    if (args.vibe) {
+      let vibe: AnalysisVibe | CustomVibe;
+      try {
+        vibe = await resolveVibe(sql, args.vibe);
+      } catch (e: any) {
+        return mcpError({ error: e.message });
+      }
+      base = typeof vibe === 'string' ? { ...base, analysisVibe: vibe, customVibe: undefined } : { ...base, customVibe: vibe };
+    }
+    const frameStyle: FrameStyle = args.frame_style ?? base.frameStyle;
+    const settings: GenerationSettings = {
+      ...base,
+      prompt: args.prompt, count: args.count ?? 1, generationMode: 'batch',
+      aspectRatio: args.aspect_ratio ?? base.aspectRatio,
+      frameStyle, lighting: args.lighting ?? base.lighting, wallTexture: args.wall_texture ?? base.wallTexture,
+      productType: args.product_type ?? base.productType,
+      // An explicit frame style replaces the preset's custom build
+      frameSpec: args.frame_spec ? toFrameSpec(args.frame_spec, frameStyle) : args.frame_style ? undefined : base.frameSpec,
+      qualityCheck: args.quality_check ? {
+        critique: args.quality_check.critique ?? DEFAULT_QUALITY_CHECK.critique,
+        minScore: args.quality_check.min_score ?? DEFAULT_QUALITY_CHECK.minScore,
+        maxRetries: args.quality_check.max_retries ?? DEFAULT_QUALITY_CHECK.maxRetries,
+      } : base.qualityCheck,
+    };
+    // The preset keeps its style reference as a blob reference; the model needs the bytes
+    const styleReferenceImage = settings.styleReferenceImage && await resolveImage(getBlobStore(), settings.styleReferenceImage);
+    const { serverGenerateMockup } = await gemini();
+    const images = await serverGenerateMockup(args.artwork_base64, { ...settings, styleReferenceImage }, { macro: args.macro });
     const createdAt = Date.now();
-    const results = images.map(imageUrl => ({ id: crypto.randomUUID(), imageUrl }));
-    await Promise.all(results.map(({ id, imageUrl }) =>
-      sql`INSERT INTO mockup_results (id, image_url, prompt, created_at, aspect_ratio, camera_angle) VALUES (${id}, ${imageUrl}, ${args.prompt}, ${createdAt}, ${settings.aspectRatio}, ${args.camera_angle ?? null}) ON CONFLICT (id) DO NOTHING`
-    ));
-    return mcpJson(results);
+    const sourceArtwork = asDataUrl(args.artwork_base64);
+    const results = images.map(({ imageUrl, generation }) => ({ id: crypto.randomUUID(), imageUrl, generation }));
+    await Promise.all(results.map(({ id, imageUrl, generation }) => insertMockupResult(sql, owner.id, {
+      id, imageUrl, prompt: args.prompt, createdAt, aspectRatio: settings.aspectRatio, cameraAngle: args.camera_angle,
+      generation: { ...generation, settings, sourceArtwork },
+    })));
+    return mcpJson(results.map(({ id, imageUrl, generation }) => ({
+      id, imageUrl,
+      ...(generation.fidelity && { fidelity: generation.fidelity.score, passed: generation.fidelity.passed, failures: generation.fidelity.failures }),
+    })));
   });
 
-  mcp.tool('generate_composite', 'Generate a composite mockup by placing artwork onto a base scene image.', {
-    base_image_base64: z.string().describe('Base64-encoded base/scene image'),
+  mcp.tool('generate_composite', 'Generate a composite mockup by placing artwork onto a base scene image, or onto a slot of a saved scene template ("scene Loft, slot 2").', {
+    base_image_base64: z.string().optional().describe('Base64-encoded base/scene image; omit when using scene'),
+    scene: z.string().optional().describe('Scene template id or name; its photo is used as the base image'),
+    slot: z.union([z.number().int().min(1), z.string()]).optional().describe('Slot of the scene template: 1-based position or slot name (default 1)'),
     artwork_base64: z.string().describe('Base64-encoded artwork to composite'),
-    instructions: z.string().describe('Instructions for placement'),
-    aspect_ratio: z.string().optional(),
+    instructions: z.string().optional().describe('Instructions for placement; with a scene slot, extra guidance on top of it'),
+    aspect_ratio: z.string().optional().describe('Defaults to the scene template\'s preferred ratio, then 3:4'),
   }, async (args: any) => {
-    const images = await serverGenerateComposite(GoogleGenAI, args.base_image_base64, args.artwork_base64, args.instructions, args.aspect_ratio ?? '3:4', '2K');
     const sql = getSql();
+    let baseImage: string = args.base_image_base64;
+    let instructions: string = args.instructions ?? '';
+    let aspectRatio: string | undefined = args.aspect_ratio;
+    let compositeBaseUrl = baseImage ? asDataUrl(baseImage) : '';
+    if (args.scene) {
+      const template = await findUserSceneTemplate(sql, owner.id, args.scene);
+      if (!template) return mcpError({ error: `Scene template not found: ${args.scene}` });
+      const slot = resolveSlot(template, args.slot ?? 1);
+      if (!slot) return mcpError({ error: `Slot ${args.slot} not found; ${template.name} has ${template.slots.map((s, i) => `${i + 1}. ${s.name}`).join(', ')}` });
+      baseImage = await resolveImage(getBlobStore(), template.imageUrl);
+      compositeBaseUrl = template.imageUrl;
+      instructions = sceneSlotInstructions(template, slot, instructions);
+      aspectRatio ??= template.aspectRatio;
+    } else if (!baseImage) {
+      return mcpError({ error: 'Provide base_image_base64 or scene' });
+    }
+    const { serverGenerateComposite } = await gemini();
+    const images = await serverGenerateComposite(baseImage, args.artwork_base64, instructions, aspectRatio ?? '3:4', '2K');
     const id = crypto.randomUUID();
-    await sql`INSERT INTO mockup_results (id, image_url, prompt, created_at, aspect_ratio, variant_type, composite_base_url, composite_artwork_url) VALUES (${id}, ${images[0]}, ${args.instructions}, ${Date.now()}, ${args.aspect_ratio ?? null}, ${'composite'}, ${args.base_image_base64.slice(0, 100)}, ${args.artwork_base64.slice(0, 100)}) ON CONFLICT (id) DO NOTHING`;
-    return mcpJson({ id, imageUrl: images[0] });
+    const { imageUrl, generation } = images[0];
+    await insertMockupResult(sql, owner.id, {
+      id, imageUrl, prompt: instructions, createdAt: Date.now(), aspectRatio: aspectRatio as MockupResult['aspectRatio'],
+      variantType: 'composite', compositeBaseUrl, compositeArtworkUrl: asDataUrl(args.artwork_base64),
+      generation: { ...generation, sourceArtwork: asDataUrl(args.artwork_base64) },
+    });
+    return mcpJson({ id, imageUrl });
   });
 
   mcp.tool('analyze_artwork', 'Analyze artwork and return prompt suggestions for mockup generation.', {
     artwork_base64: z.string().describe('Base64-encoded artwork image'),
-    vibe: z.enum(['Industrial & Raw', 'Modern & Minimalist', 'Cozy & Bohemian', 'Luxury & High-end', 'Public & Street', 'Surprise Me']).optional(),
+    vibe: z.string().optional().describe('Built-in vibe name, or a custom vibe id or name (see list_vibes)'),
+    preset: z.string().optional().describe('Style preset id or name whose vibe to use when vibe is omitted'),
   }, async (args: any) => {
-    const suggestions = await serverAnalyzeArtwork(GoogleGenAI, args.artwork_base64, args.vibe);
+    const sql = getSql();
+    let vibe: VibeRef | undefined;
+    if (args.vibe) {
+      try {
+        vibe = await resolveVibe(sql, args.vibe);
+      } catch (e: any) {
+        return mcpError({ error: e.message });
+      }
+    } else if (args.preset) {
+      const preset = await findStylePreset(sql, args.preset);
+      if (!preset) return mcpError({ error: `Style preset not found: ${args.preset}` });
+      vibe = (preset.customVibeId && await findCustomVibe(sql, preset.customVibeId)) || preset.analysisVibe;
+    }
+    const { serverAnalyzeArtwork } = await gemini();
+    const suggestions = await serverAnalyzeArtwork(args.artwork_base64, vibe);
     return mcpJson(suggestions);
   });
 
+  mcp.tool('list_presets', 'List the team\'s style presets: name, frames, lighting, textures, vibe and main settings.', {}, async () => {
+    const presets = (await listStylePresets(getSql())).filter(p => !p.deletedAt);
+    return mcpJson(presets.map(p => ({
+      id: p.id, name: p.name, frames: p.frames, lighting: p.lighting, textures: p.textures, vibe: p.analysisVibe,
+      customVibeId: p.customVibeId, aspectRatio: p.settings.aspectRatio, printSize: p.settings.printSize,
+      hasStyleReference: !!p.styleReferenceImage,
+    })));
+  });
+
+  mcp.tool('list_vibes', 'List the team\'s custom vibes, usable as the vibe of analyze_artwork and generate_mockup alongside the built-in ones.', {}, async () => {
+    const vibes = (await listCustomVibes(getSql())).filter(v => !v.deletedAt);
+    return mcpJson(vibes.map(v => ({
+      id: v.id, name: v.name, theme: v.systemPrompt, realismLevel: v.realismLevel, negatives: v.negatives,
+    })));
+  });
+
   mcp.tool('list_mockups', 'List mockup metadata from the database.', {
     limit: z.number().min(1).max(100).optional(),
     offset: z.number().min(0).optional(),
   }, async (args: any) => {
     const sql = getSql();
-    const rows = await sql`SELECT id, prompt, created_at AS "createdAt", is_high_res AS "isHighRes", is_contact_sheet AS "isContactSheet", camera_angle AS "cameraAngle", variant_type AS "variantType", aspect_ratio AS "aspectRatio" FROM mockup_results ORDER BY created_at DESC LIMIT ${args.limit ?? 20} OFFSET ${args.offset ?? 0}`;
+    const rows = await sql`SELECT id, prompt, created_at AS "createdAt", is_high_res AS "isHighRes", is_contact_sheet AS "isContactSheet", camera_angle AS "cameraAngle", variant_type AS "variantType", aspect_ratio AS "aspectRatio" FROM mockup_results WHERE owner_id = ${owner.id} AND deleted_at IS NULL ORDER BY created_at DESC LIMIT ${args.limit ?? 20} OFFSET ${args.offset ?? 0}`;
     return mcpJson(rows);
   });
 
@@ -280,16 +285,23 @@ function buildServer(McpServer: any, z: any, neon: any, GoogleGenAI: any) {
     id: z.string().describe('Mockup ID'),
   }, async (args: any) => {
     const sql = getSql();
-    const rows = await sql`SELECT id, image_url AS "imageUrl", prompt, created_at AS "createdAt", is_high_res AS "isHighRes", is_contact_sheet AS "isContactSheet", extracted_from AS "extractedFrom", camera_angle AS "cameraAngle", variant_type AS "variantType", aspect_ratio AS "aspectRatio", refined_from AS "refinedFrom", composite_base_url AS "compositeBaseUrl", composite_artwork_url AS "compositeArtworkUrl" FROM mockup_results WHERE id = ${args.id}`;
+    const rows = await sql`SELECT id, image_url AS "imageUrl", prompt, created_at AS "createdAt", is_high_res AS "isHighRes", is_contact_sheet AS "isContactSheet", extracted_from AS "extractedFrom", camera_angle AS "cameraAngle", variant_type AS "variantType", aspect_ratio AS "aspectRatio", refined_from AS "refinedFrom", composite_base_url AS "compositeBaseUrl", composite_artwork_url AS "compositeArtworkUrl", generation, derived_from AS "derivedFrom", upscaled_from AS "upscaledFrom" FROM mockup_results WHERE id = ${args.id} AND owner_id = ${owner.id} AND deleted_at IS NULL`;
     if (rows.length === 0) return mcpError({ error: 'Not found' });
-    return mcpJson(rows[0]);
+    // Agents get inline images; the database only stores blob references
+    const row = rows[0] as MockupResult;
+    const blobStore = getBlobStore();
+    for (const field of IMAGE_FIELDS) {
+      const value = row[field];
+      if (isBlobRef(value)) row[field] = (await readAsDataUrl(blobStore, value)) ?? value;
+    }
+    return mcpJson(row);
   });
 
   mcp.tool('delete_mockup', 'Delete a mockup by ID.', {
     id: z.string().describe('Mockup ID to delete'),
   }, async (args: any) => {
     const sql = getSql();
-    await sql`DELETE FROM mockup_results WHERE id = ${args.id}`;
+    if (!(await deleteMockupResult(sql, owner.id, args.id))) return mcpError({ error: 'Not found' });
     return mcpJson({ success: true, id: args.id });
   });
 
@@ -0,0 +1,28 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { authenticate } from '../_lib/auth';
+import { getBlobStore } from '../_lib/blobStore';
+import { MIGRATION_BATCH_SIZE, decodeCursor, migrateLegacyRows } from '../_lib/mockupResults';
+
+// POST /api/mockups/migrate-blobs {cursor?, limit?} — admin-only, moves one batch of
+// legacy inline images into the blob store. Repeat with `nextCursor` until it is null.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  const user = await authenticate(req);
+  if (!user) return res.status(401).json({ error: 'Unauthorized' });
+  if (user.role !== 'admin') return res.status(403).json({ error: 'Admins only' });
+
+  const { cursor, limit } = (req.body ?? {}) as { cursor?: string; limit?: number };
+  try {
+    if (cursor) decodeCursor(cursor);
+  } catch (err: any) {
+    return res.status(400).json({ error: err.message });
+  }
+
+  const blobStore = getBlobStore();
+  if (!blobStore.durable) return res.status(409).json({ error: 'Configure durable blob storage (BLOB_S3_BUCKET or BLOB_STORE_DIR) before migrating' });
+
+  const sql = neon(process.env.DATABASE_URL!);
+  const batch = Math.min(Math.max(1, Number(limit) || MIGRATION_BATCH_SIZE), 100);
+  return res.status(200).json(await migrateLegacyRows(sql, blobStore, { cursor, limit: batch }));
+}
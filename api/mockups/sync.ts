@@ -0,0 +1,23 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { authenticate } from '../_lib/auth';
+import { listMockupChanges, parseSyncCursor } from '../_lib/mockupResults';
+
+// GET /api/mockups/sync?since=<cursor> — delta feed for the client sync engine.
+// Omit `since` to get a starting cursor; then loop while `hasMore` is true.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+  const user = await authenticate(req);
+  if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+  const { since } = req.query as { since?: string };
+  let cursor: string | undefined;
+  try {
+    cursor = since ? parseSyncCursor(since) : undefined;
+  } catch (err: any) {
+    return res.status(400).json({ error: err.message });
+  }
+
+  const sql = neon(process.env.DATABASE_URL!);
+  return res.status(200).json(await listMockupChanges(sql, user.id, cursor));
+}
@@ -0,0 +1,41 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import type { Project } from '../types';
+import { authenticate } from './_lib/auth';
+import { deleteProject, listProjects, parseProject, upsertProject } from './_lib/projects';
+
+// GET                      → the signed-in user's projects (tombstones included)
+// POST {id, name, ...}     → create or update (newer updatedAt wins)
+// DELETE ?id=&deletedAt=   → delete; its mockups move back to "no project"
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const user = await authenticate(req);
+  if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+  const sql = neon(process.env.DATABASE_URL!);
+
+  if (req.method === 'GET') {
+    return res.status(200).json(await listProjects(sql, user.id));
+  }
+
+  if (req.method === 'POST') {
+    let project: Project;
+    try {
+      project = parseProject(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    await upsertProject(sql, user.id, project);
+    return res.status(201).json(project);
+  }
+
+  if (req.method === 'DELETE') {
+    const { id, deletedAt } = req.query as { id?: string; deletedAt?: string };
+    if (!id) return res.status(400).json({ error: 'Missing id' });
+    const at = deletedAt ? Number(deletedAt) : Date.now();
+    if (!Number.isFinite(at)) return res.status(400).json({ error: 'Invalid deletedAt' });
+    await deleteProject(sql, user.id, id, at);
+    return res.status(200).json({ ok: true });
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
@@ -0,0 +1,26 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { verifyToken } from './_lib/auth';
+import { serverRefineComposite } from './_lib/geminiServerService';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '50mb' } },
+  maxDuration: 300,
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  if (!(await verifyToken(req))) return res.status(401).json({ error: 'Unauthorized' });
+
+  const { previousOutput, artwork, instructions, aspectRatio = '3:4', imageSize = '2K' } = req.body;
+  if (!previousOutput || !artwork || !instructions) {
+    return res.status(400).json({ error: 'previousOutput, artwork and instructions required' });
+  }
+
+  try {
+    const generated = await serverRefineComposite(previousOutput, artwork, instructions, aspectRatio, imageSize);
+    return res.status(200).json({ images: generated.map(g => g.imageUrl), generations: generated.map(g => g.generation) });
+  } catch (err: any) {
+    console.error('Refine error:', err);
+    return res.status(500).json({ error: err.message || 'Refine failed' });
+  }
+}
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import type { SceneTemplate } from '../types';
+import { authenticate } from './_lib/auth';
+import { deleteSceneTemplate, listSceneTemplates, parseSceneTemplate, upsertSceneTemplate } from './_lib/sceneTemplates';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '50mb' } },
+};
+
+// GET                        → the signed-in user's scene templates (tombstones included)
+// POST {id, name, slots, ...} → create or update (newer updatedAt wins)
+// DELETE ?id=&deletedAt=     → delete
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const user = await authenticate(req);
+  if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+  const sql = neon(process.env.DATABASE_URL!);
+
+  if (req.method === 'GET') {
+    return res.status(200).json(await listSceneTemplates(sql, user.id));
+  }
+
+  if (req.method === 'POST') {
+    let template: SceneTemplate;
+    try {
+      template = parseSceneTemplate(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    await upsertSceneTemplate(sql, user.id, template);
+    return res.status(201).json({ ok: true });
+  }
+
+  if (req.method === 'DELETE') {
+    const { id, deletedAt } = req.query as { id?: string; deletedAt?: string };
+    if (!id) return res.status(400).json({ error: 'Missing id' });
+    const at = deletedAt ? Number(deletedAt) : Date.now();
+    if (!Number.isFinite(at)) return res.status(400).json({ error: 'Invalid deletedAt' });
+    await deleteSceneTemplate(sql, user.id, id, at);
+    return res.status(200).json({ ok: true });
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
@@ -0,0 +1,50 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import type { StylePreset } from '../types';
+import { authenticate } from './_lib/auth';
+import { deleteStylePreset, listStylePresets, parseStylePreset, upsertStylePreset } from './_lib/stylePresets';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '50mb' } },
+};
+
+// GET                            → every preset on the team (tombstones included)
+// POST {id, name, frames, ...}   → create or update (newer updatedAt wins, else 409; creator or admin only, else 403)
+// DELETE ?id=&deletedAt=         → delete (creator or admin only, else 403)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const user = await authenticate(req);
+  if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+  const sql = neon(process.env.DATABASE_URL!);
+
+  if (req.method === 'GET') {
+    return res.status(200).json(await listStylePresets(sql));
+  }
+
+  if (req.method === 'POST') {
+    let preset: StylePreset;
+    try {
+      preset = parseStylePreset(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    const outcome = await upsertStylePreset(sql, user, preset);
+    if (outcome === 'forbidden') return res.status(403).json({ error: 'Only its creator or an admin can change this preset' });
+    if (outcome === 'stale') return res.status(409).json({ error: 'A newer version of this preset is already saved' });
+    return res.status(201).json({ ok: true });
+  }
+
+  if (req.method === 'DELETE') {
+    const { id, deletedAt } = req.query as { id?: string; deletedAt?: string };
+    if (!id) return res.status(400).json({ error: 'Missing id' });
+    const at = deletedAt ? Number(deletedAt) : Date.now();
+    if (!Number.isFinite(at)) return res.status(400).json({ error: 'Invalid deletedAt' });
+    // A stale delete (already gone, or edited since) leaves the newer row for the next sync to bring back
+    if (await deleteStylePreset(sql, user, id, at) === 'forbidden') {
+      return res.status(403).json({ error: 'Only its creator or an admin can delete this preset' });
+    }
+    return res.status(200).json({ ok: true });
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
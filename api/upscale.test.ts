@@ -3,7 +3,13 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 
 // Mock jose before importing handler
 vi.mock('jose', () => ({
-  jwtVerify: vi.fn().mockResolvedValue({}),
+  jwtVerify: vi.fn().mockResolvedValue({ payload: { sub: 'user-1' } }),
+}));
+
+// The token's user is looked up to reject disabled accounts
+vi.mock('@neondatabase/serverless', () => ({ neon: vi.fn(() => vi.fn()) }));
+vi.mock('./_lib/users', () => ({
+  getActiveUser: vi.fn().mockResolvedValue({ id: 'user-1', role: 'member' }),
 }));
 
 function makeReq(overrides: Partial<VercelRequest> = {}): VercelRequest {
@@ -30,7 +36,7 @@ describe('POST /api/upscale', () => {
     vi.resetModules();
     process.env = { ...originalEnv, REPLICATE_API_TOKEN: 'test-token' };
     // Re-mock jose after resetModules
-    vi.mock('jose', () => ({ jwtVerify: vi.fn().mockResolvedValue({}) }));
+    vi.mock('jose', () => ({ jwtVerify: vi.fn().mockResolvedValue({ payload: { sub: 'user-1' } }) }));
     handler = (await import('./upscale')).default;
   });
 
@@ -51,7 +57,7 @@ describe('POST /api/upscale', () => {
     process.env = { ...originalEnv };
     delete process.env.REPLICATE_API_TOKEN;
     vi.resetModules();
-    vi.mock('jose', () => ({ jwtVerify: vi.fn().mockResolvedValue({}) }));
+    vi.mock('jose', () => ({ jwtVerify: vi.fn().mockResolvedValue({ payload: { sub: 'user-1' } }) }));
     handler = (await import('./upscale')).default;
     const res = makeRes();
     await handler(makeReq(), res);
@@ -1,21 +1,11 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { jwtVerify } from 'jose';
+import { verifyToken } from './_lib/auth';
 
 export const config = {
   api: { bodyParser: { sizeLimit: '15mb' } },
   maxDuration: 300,
 };
 
-async function verifyToken(req: VercelRequest): Promise<boolean> {
-  const auth = req.headers.authorization;
-  if (!auth?.startsWith('Bearer ')) return false;
-  try {
-    const secret = new TextEncoder().encode(process.env.JWT_SECRET!);
-    await jwtVerify(auth.slice(7), secret);
-    return true;
-  } catch { return false; }
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
   if (!(await verifyToken(req))) return res.status(401).json({ error: 'Unauthorized' });
@@ -0,0 +1,47 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import type { UserRole } from '../types';
+import { authenticate } from './_lib/auth';
+import { inviteUser, listUsers, setUserDisabled } from './_lib/users';
+
+const ROLES: UserRole[] = ['admin', 'member'];
+
+// Admin-only team management.
+// GET                          → all users
+// POST  {email, name?, role?}  → invite (returns a one-time invite link)
+// PATCH {id, disabled}         → disable or re-enable a user
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const user = await authenticate(req);
+  if (!user) return res.status(401).json({ error: 'Unauthorized' });
+  if (user.role !== 'admin') return res.status(403).json({ error: 'Admins only' });
+
+  const sql = neon(process.env.DATABASE_URL!);
+
+  if (req.method === 'GET') {
+    return res.status(200).json(await listUsers(sql));
+  }
+
+  if (req.method === 'POST') {
+    const { email, name, role } = req.body as { email?: string; name?: string; role?: UserRole };
+    if (!email || !email.includes('@')) return res.status(400).json({ error: 'Valid email required' });
+    if (role && !ROLES.includes(role)) return res.status(400).json({ error: `role must be one of ${ROLES.join(', ')}` });
+    const invited = await inviteUser(sql, { email, name, role });
+    if (!invited) return res.status(409).json({ error: 'That user already has an account' });
+
+    const origin = req.headers.origin || `https://${req.headers.host}`;
+    return res.status(201).json({
+      user: invited.user,
+      inviteUrl: `${origin}/?invite=${encodeURIComponent(invited.inviteToken)}`,
+    });
+  }
+
+  if (req.method === 'PATCH') {
+    const { id, disabled } = req.body as { id?: string; disabled?: boolean };
+    if (!id || typeof disabled !== 'boolean') return res.status(400).json({ error: 'id and disabled required' });
+    if (id === user.id && disabled) return res.status(400).json({ error: 'You cannot disable yourself' });
+    if (!(await setUserDisabled(sql, id, disabled))) return res.status(404).json({ error: 'Not found' });
+    return res.status(200).json({ ok: true });
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
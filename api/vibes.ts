@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import type { CustomVibe } from '../types';
+import { authenticate } from './_lib/auth';
+import { deleteCustomVibe, listCustomVibes, parseCustomVibe, upsertCustomVibe } from './_lib/customVibes';
+
+// GET                               → every custom vibe on the team (tombstones included)
+// POST {id, name, systemPrompt, ...} → create or update (newer updatedAt wins, else 409; creator or admin only, else 403)
+// DELETE ?id=&deletedAt=            → delete (creator or admin only, else 403)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const user = await authenticate(req);
+  if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+  const sql = neon(process.env.DATABASE_URL!);
+
+  if (req.method === 'GET') {
+    return res.status(200).json(await listCustomVibes(sql));
+  }
+
+  if (req.method === 'POST') {
+    let vibe: CustomVibe;
+    try {
+      vibe = parseCustomVibe(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    const outcome = await upsertCustomVibe(sql, user, vibe);
+    if (outcome === 'forbidden') return res.status(403).json({ error: 'Only its creator or an admin can change this vibe' });
+    if (outcome === 'stale') return res.status(409).json({ error: 'A newer version of this vibe is already saved' });
+    return res.status(201).json({ ok: true });
+  }
+
+  if (req.method === 'DELETE') {
+    const { id, deletedAt } = req.query as { id?: string; deletedAt?: string };
+    if (!id) return res.status(400).json({ error: 'Missing id' });
+    const at = deletedAt ? Number(deletedAt) : Date.now();
+    if (!Number.isFinite(at)) return res.status(400).json({ error: 'Invalid deletedAt' });
+    // A stale delete (already gone, or edited since) leaves the newer row for the next sync to bring back
+    if (await deleteCustomVibe(sql, user, id, at) === 'forbidden') {
+      return res.status(403).json({ error: 'Only its creator or an admin can delete this vibe' });
+    }
+    return res.status(200).json({ ok: true });
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
@@ -0,0 +1,33 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { verifyToken } from './_lib/auth';
+import { runWorker } from './_lib/jobs';
+
+export const config = {
+  maxDuration: 300,
+};
+
+// Stop claiming new jobs after this long so the last one can finish before maxDuration
+const CLAIM_WINDOW_MS = 150_000;
+
+// Vercel Cron calls with `Authorization: Bearer $CRON_SECRET`; signed-in clients
+// also kick the worker right after enqueueing so jobs start without waiting for cron.
+async function isAuthorized(req: VercelRequest): Promise<boolean> {
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && req.headers.authorization === `Bearer ${cronSecret}`) return true;
+  return verifyToken(req);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  if (!(await isAuthorized(req))) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const sql = neon(process.env.DATABASE_URL!);
+    const processed = await runWorker(sql, Date.now() + CLAIM_WINDOW_MS);
+    return res.status(200).json({ processed });
+  } catch (err: any) {
+    console.error('Worker error:', err);
+    return res.status(500).json({ error: err.message || 'Worker failed' });
+  }
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRightOnRectangleIcon, ClipboardDocumentIcon, KeyIcon, UserPlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { SessionUser, TeamMember, UserRole } from '../types';
+import { accountService } from '../services/accountService';
+
+/** Modal with the signed-in user's MCP key, sign-out and, for admins, team invites and access */
+const AccountPanel: React.FC<{
+  user: SessionUser;
+  onClose: () => void;
+  onSignOut: () => void;
+  toast: (message: string, type?: 'info' | 'success' | 'error') => void;
+}> = ({ user, onClose, onSignOut, toast }) => {
+  const isAdmin = user.role === 'admin';
+  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('member');
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    accountService.listTeam().then(setTeam).catch(e => toast(e.message, 'error'));
+  }, [isAdmin]);
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text).then(() => toast('Copied to clipboard.', 'success'));
+  };
+
+  const handleCreateKey = async () => {
+    if (apiKey === null && !confirm('Create a new MCP key? Any previous key stops working.')) return;
+    try {
+      setApiKey(await accountService.createMcpApiKey());
+    } catch (e: any) {
+      toast(e.message, 'error');
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!inviteEmail.trim()) return;
+    setIsBusy(true);
+    try {
+      const { user: invited, inviteUrl } = await accountService.invite(inviteEmail.trim(), inviteRole);
+      setTeam(prev => [...prev.filter(m => m.id !== invited.id), invited]);
+      setInviteUrl(inviteUrl);
+      setInviteEmail('');
+    } catch (e: any) {
+      toast(e.message, 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleToggleDisabled = async (member: TeamMember) => {
+    const disabled = !member.disabledAt;
+    try {
+      await accountService.setDisabled(member.id, disabled);
+      setTeam(prev => prev.map(m => m.id === member.id ? { ...m, disabledAt: disabled ? Date.now() : undefined } : m));
+    } catch (e: any) {
+      toast(e.message, 'error');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+          <div>
+            <h2 className="text-sm font-bold text-white">{user.name || user.email}</h2>
+            <p className="text-[10px] text-gray-500 uppercase tracking-wide">{user.role}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={onSignOut} className="text-xs text-gray-400 hover:text-white flex items-center gap-1" title="Sign out">
+              <ArrowRightOnRectangleIcon className="w-4 h-4" /> Sign out
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+          </div>
+        </div>
+
+        <div className="p-5 space-y-6 max-h-[70vh] overflow-y-auto scrollbar-thin">
+          <section>
+            <h3 className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-2">MCP access</h3>
+            {apiKey ? (
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate bg-gray-950 border border-gray-800 rounded px-2 py-1.5 text-[11px] text-yellow-400">{apiKey}</code>
+                <button onClick={() => copy(apiKey)} className="p-1.5 text-gray-400 hover:text-white" title="Copy"><ClipboardDocumentIcon className="w-4 h-4" /></button>
+              </div>
+            ) : (
+              <button onClick={handleCreateKey} className="text-xs bg-gray-800 hover:bg-gray-700 px-3 py-2 rounded-lg flex items-center gap-1 transition-colors">
+                <KeyIcon className="w-3 h-3" /> Create personal MCP key
+              </button>
+            )}
+            <p className="mt-2 text-[10px] text-gray-500">Send it as <code>X-API-Key</code>. Agents using it only see your mockups. It is shown once.</p>
+          </section>
+
+          {isAdmin && (
+            <section>
+              <h3 className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-2">Team</h3>
+              <div className="flex gap-2 mb-3">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={e => setInviteEmail(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') handleInvite(); }}
+                  placeholder="teammate@example.com"
+                  className="flex-1 bg-gray-950 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white placeholder-gray-600 focus:border-yellow-500 focus:outline-none"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={e => setInviteRole(e.target.value as UserRole)}
+                  className="bg-gray-950 border border-gray-700 rounded-lg px-2 text-xs text-white"
+                >
+                  <option value="member">Member</option>
+                  <option value="admin">Admin</option>
+                </select>
+                <button
+                  onClick={handleInvite}
+                  disabled={isBusy || !inviteEmail.trim()}
+                  className="bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-black text-xs font-bold px-3 rounded-lg flex items-center gap-1"
+                >
+                  <UserPlusIcon className="w-3 h-3" /> Invite
+                </button>
+              </div>
+              {inviteUrl && (
+                <div className="mb-3 flex items-center gap-2 bg-gray-950 border border-gray-800 rounded-lg px-2 py-1.5">
+                  <span className="flex-1 min-w-0 truncate text-[11px] text-gray-300">{inviteUrl}</span>
+                  <button onClick={() => copy(inviteUrl)} className="p-1 text-gray-400 hover:text-white" title="Copy invite link"><ClipboardDocumentIcon className="w-4 h-4" /></button>
+                </div>
+              )}
+              <ul className="divide-y divide-gray-800 border border-gray-800 rounded-lg">
+                {team.map(member => (
+                  <li key={member.id} className="flex items-center gap-2 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-xs truncate ${member.disabledAt ? 'text-gray-600 line-through' : 'text-gray-200'}`}>{member.email}</p>
+                      <p className="text-[10px] text-gray-500">
+                        {member.role}{member.invitePending ? ' · invite pending' : ''}{member.disabledAt ? ' · disabled' : ''}
+                      </p>
+                    </div>
+                    {member.id !== user.id && (
+                      <button
+                        onClick={() => handleToggleDisabled(member)}
+                        className={`text-[10px] px-2 py-1 rounded ${member.disabledAt ? 'text-green-400 hover:bg-green-900/30' : 'text-red-400 hover:bg-red-900/30'}`}
+                      >
+                        {member.disabledAt ? 'Enable' : 'Disable'}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountPanel;
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { ArtworkPreprocessing, ArtworkPreprocessOptions } from '../types';
+import { describePreprocessing } from '../services/artworkPreprocessing';
+
+const MAX_EDGES = [2048, 3072, 4096];
+const BLEEDS = [0, 2, 3, 5];
+
+const select = 'bg-gray-800 border border-gray-700 rounded p-1 text-[11px]';
+
+/** How uploaded artwork is prepared, and what was done to the current one */
+const ArtworkPreprocessFields: React.FC<{
+  options: ArtworkPreprocessOptions;
+  /** Record of the current artwork; absent until one is uploaded */
+  preprocessing?: ArtworkPreprocessing;
+  isProcessing: boolean;
+  onChange: (options: ArtworkPreprocessOptions) => void;
+}> = ({ options, preprocessing, isProcessing, onChange }) => {
+  const update = (changes: Partial<ArtworkPreprocessOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-1.5 flex-wrap">
+        <button
+          onClick={() => update({ autoTrim: !options.autoTrim })}
+          className={`text-[11px] px-2.5 py-1 rounded-full border transition-all ${
+            options.autoTrim
+              ? 'bg-yellow-500 text-black border-yellow-500 shadow-md'
+              : 'bg-gray-800 text-gray-300 border-gray-700 hover:border-gray-500'
+          }`}
+          title="Crop uniform scanner borders"
+        >
+          Auto-trim
+        </button>
+        <label className="flex items-center gap-1 text-[10px] text-gray-500 uppercase">
+          Max
+          <select value={options.maxEdge} onChange={e => update({ maxEdge: Number(e.target.value) })} className={select}>
+            {MAX_EDGES.map(edge => <option key={edge} value={edge}>{edge}px</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 text-[10px] text-gray-500 uppercase">
+          Bleed
+          <select value={options.bleedPercent} onChange={e => update({ bleedPercent: Number(e.target.value) })} className={select}>
+            {BLEEDS.map(b => <option key={b} value={b}>{b === 0 ? 'None' : `${b}%`}</option>)}
+          </select>
+        </label>
+      </div>
+      {isProcessing ? (
+        <p className="text-[10px] text-yellow-500 animate-pulse">Preparing artwork…</p>
+      ) : preprocessing && (
+        <p className="text-[10px] text-gray-500" title={`${preprocessing.source.width}×${preprocessing.source.height} ${preprocessing.source.format.toUpperCase()} → ${preprocessing.output.width}×${preprocessing.output.height} ${preprocessing.output.mimeType}`}>
+          {preprocessing.output.reencoded ? describePreprocessing(preprocessing).join(' · ') : `Used as uploaded · ${describePreprocessing(preprocessing).join(' · ')}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ArtworkPreprocessFields;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { ChevronDownIcon, ChevronUpIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { ArtworkLibraryItem, ArtworkPanel, ArtworkSet, FrameStyle, PanelLayout } from '../types';
+import { DEFAULT_PANEL_SPACING_CM, MAX_PANELS, MIN_PANELS, PANEL_LAYOUTS } from '../services/artworkSets';
+
+const numberInput = 'w-14 bg-gray-800 border border-gray-700 rounded p-1 text-[11px] text-gray-200 focus:border-yellow-500 focus:outline-none';
+const select = 'bg-gray-800 border border-gray-700 rounded p-1 text-[11px]';
+
+const measureAspectRatio = (imageUrl: string): Promise<number | undefined> => new Promise(resolve => {
+  const img = new Image();
+  img.onload = () => resolve(img.width / img.height);
+  img.onerror = () => resolve(undefined);
+  img.src = imageUrl;
+});
+
+/** Diptych / triptych / gallery wall: 2–9 library pieces hung together. Off generates the single artwork. */
+const ArtworkSetFields: React.FC<{
+  set?: ArtworkSet;
+  library: ArtworkLibraryItem[];
+  frameStyles: FrameStyle[];
+  /** The artwork currently loaded, offered as a panel alongside the library */
+  current?: { name: string; image: string; aspectRatio?: number };
+  onChange: (set: ArtworkSet | undefined) => void;
+}> = ({ set, library, frameStyles, current, onChange }) => {
+  const update = (changes: Partial<ArtworkSet>) => set && onChange({ ...set, ...changes });
+  const updatePanel = (index: number, changes: Partial<ArtworkPanel>) =>
+    set && update({ panels: set.panels.map((panel, i) => i === index ? { ...panel, ...changes } : panel) });
+  const move = (index: number, offset: number) => {
+    if (!set) return;
+    const panels = [...set.panels];
+    [panels[index], panels[index + offset]] = [panels[index + offset], panels[index]];
+    update({ panels });
+  };
+  const add = async (panel: Omit<ArtworkPanel, 'frameStyle'>) => {
+    if (!set || set.panels.length >= MAX_PANELS) return;
+    const aspectRatio = panel.aspectRatio ?? await measureAspectRatio(panel.image);
+    update({ panels: [...set.panels, { ...panel, aspectRatio, frameStyle: 'Auto' }] });
+  };
+
+  const full = !!set && set.panels.length >= MAX_PANELS;
+  const available = library.filter(item => !set?.panels.some(panel => panel.artworkId === item.id));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] text-gray-500 uppercase">Artwork Set</label>
+        <button
+          onClick={() => onChange(set ? undefined : { layout: 'row', spacingCm: DEFAULT_PANEL_SPACING_CM, panels: [] })}
+          className={`text-[11px] px-3 py-1.5 rounded-full border transition-all ${
+            set
+              ? 'bg-yellow-500 text-black border-yellow-500 shadow-md'
+              : 'bg-gray-800 text-gray-300 border-gray-700 hover:border-gray-500'
+          }`}
+        >
+          {set ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {set && (
+        <>
+          <div className="flex items-center gap-1.5">
+            <select value={set.layout} onChange={e => update({ layout: e.target.value as PanelLayout })} className={`${select} flex-1`} aria-label="Layout">
+              {PANEL_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+            <label className="flex items-center gap-1 text-[10px] text-gray-500 uppercase">
+              Gap
+              <input
+                type="number" min={0} max={50} step={0.5}
+                value={set.spacingCm}
+                onChange={e => update({ spacingCm: Math.max(0, Number(e.target.value) || 0) })}
+                className={numberInput}
+              />
+              cm
+            </label>
+          </div>
+
+          {set.panels.map((panel, i) => (
+            <div key={`${panel.artworkId ?? 'current'}-${i}`} className="flex items-center gap-1.5">
+              <span className="text-[10px] text-gray-500 w-3 shrink-0">{i + 1}</span>
+              <img src={panel.image} alt={panel.name} className="h-8 w-8 object-contain rounded bg-gray-800 shrink-0" />
+              <span className="text-[11px] text-gray-300 truncate flex-1 min-w-0" title={panel.name}>{panel.name}</span>
+              <select value={panel.frameStyle} onChange={e => updatePanel(i, { frameStyle: e.target.value as FrameStyle })} className={select} aria-label={`Panel ${i + 1} frame`}>
+                {frameStyles.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+              <button onClick={() => move(i, -1)} disabled={i === 0} className="text-gray-500 hover:text-white disabled:opacity-30" title="Move earlier">
+                <ChevronUpIcon className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => move(i, 1)} disabled={i === set.panels.length - 1} className="text-gray-500 hover:text-white disabled:opacity-30" title="Move later">
+                <ChevronDownIcon className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => update({ panels: set.panels.filter((_, j) => j !== i) })} className="text-gray-500 hover:text-red-400" title="Remove">
+                <XMarkIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-1.5">
+            {current && !set.panels.some(panel => panel.image === current.image) && (
+              <button
+                onClick={() => add(current)}
+                disabled={full}
+                className="h-10 px-2 rounded border border-dashed border-gray-600 text-[10px] text-gray-400 hover:border-gray-400 disabled:opacity-40"
+              >
+                + Current
+              </button>
+            )}
+            {available.map(item => (
+              <button
+                key={item.id}
+                onClick={() => add({ artworkId: item.id, name: item.name, image: item.imageUrl })}
+                disabled={full}
+                className="border border-gray-700 hover:border-yellow-500 rounded overflow-hidden disabled:opacity-40"
+                title={`Add ${item.name}`}
+              >
+                <img src={item.imageUrl} alt={item.name} className="h-10 w-10 object-cover" />
+              </button>
+            ))}
+          </div>
+
+          <p className="text-[10px] text-gray-500">
+            {library.length === 0 && !current
+              ? 'Save artworks to the library to build a set.'
+              : set.panels.length < MIN_PANELS
+                ? `Add at least ${MIN_PANELS} pieces; the set replaces the single artwork.`
+                : `${set.panels.length} of up to ${MAX_PANELS} pieces, hung as one arrangement.`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ArtworkSetFields;
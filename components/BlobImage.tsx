@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react';
+import { isBlobRef } from '../services/blobRefs';
+import { storageService } from '../services/storageService';
+
+/** <img> that also accepts `sha256:` blob references, loading them from the local store or /api/blobs */
+const BlobImage: React.FC<React.ImgHTMLAttributes<HTMLImageElement> & { src: string }> = ({ src, ...props }) => {
+  const [resolved, setResolved] = useState<string | null>(isBlobRef(src) ? null : src);
+
+  useEffect(() => {
+    if (!isBlobRef(src)) {
+      setResolved(src);
+      return;
+    }
+    let cancelled = false;
+    setResolved(null);
+    storageService.resolveDisplayUrl(src)
+      .then(url => { if (!cancelled) setResolved(url); })
+      .catch(err => console.warn('Failed to load image:', err));
+    return () => { cancelled = true; };
+  }, [src]);
+
+  if (!resolved) return <div className={`${props.className ?? ''} bg-gray-800 animate-pulse`} />;
+  return <img src={resolved} {...props} />;
+};
+
+export default BlobImage;
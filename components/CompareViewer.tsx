@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowPathIcon, ArrowsRightLeftIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { storageService } from '../services/storageService';
+import { RESET_VIEW, differenceImage, zoomAt, type ZoomView } from '../services/imageCompare';
+
+export interface CompareSide {
+  /** Data URL or blob reference */
+  src: string;
+  label: string;
+}
+
+type CompareMode = 'slider' | 'sideBySide' | 'difference';
+
+const MODES: { mode: CompareMode; label: string }[] = [
+  { mode: 'slider', label: 'Slider' },
+  { mode: 'sideBySide', label: 'Side by side' },
+  { mode: 'difference', label: 'Difference' },
+];
+
+/** Full-screen lightbox comparing two images; zoom (wheel) and pan (drag) stay in sync across panes and modes */
+const CompareViewer: React.FC<{
+  before: CompareSide;
+  after: CompareSide;
+  onClose: () => void;
+}> = ({ before, after, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [urls, setUrls] = useState<[string, string] | null>(null);
+  const [view, setView] = useState<ZoomView>(RESET_VIEW);
+  const [split, setSplit] = useState(0.5);
+  const [difference, setDifference] = useState<{ url: string; changedRatio: number } | null>(null);
+  const [diffError, setDiffError] = useState('');
+  const drag = useRef<{ kind: 'pan' | 'split'; x: number; y: number; view: ZoomView; rect: DOMRect } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([storageService.resolveDisplayUrl(before.src), storageService.resolveDisplayUrl(after.src)])
+      .then(([a, b]) => { if (!cancelled) setUrls([a, b]); })
+      .catch(err => console.warn('Failed to load images for comparison:', err));
+    return () => { cancelled = true; };
+  }, [before.src, after.src]);
+
+  // The overlay is computed once per pair, the first time the mode is opened
+  useEffect(() => {
+    if (mode !== 'difference' || !urls || difference || diffError) return;
+    differenceImage(urls[0], urls[1])
+      .then(setDifference)
+      .catch(err => setDiffError(err.message));
+  }, [mode, urls, difference, diffError]);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [onClose]);
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setView(v => zoomAt(v, e.deltaY < 0 ? 1.2 : 1 / 1.2, e.clientX - rect.left, e.clientY - rect.top));
+  };
+
+  const startDrag = (kind: 'pan' | 'split') => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const pane = (e.currentTarget.closest('[data-pane]') ?? e.currentTarget) as HTMLElement;
+    pane.setPointerCapture(e.pointerId);
+    drag.current = { kind, x: e.clientX, y: e.clientY, view, rect: pane.getBoundingClientRect() };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const d = drag.current;
+    if (!d) return;
+    if (d.kind === 'split') {
+      setSplit(Math.min(1, Math.max(0, (e.clientX - d.rect.left) / d.rect.width)));
+    } else if (d.view.scale > 1) {
+      setView({ ...d.view, x: d.view.x + e.clientX - d.x, y: d.view.y + e.clientY - d.y });
+    }
+  };
+
+  const endDrag = () => { drag.current = null; };
+
+  const transform = { transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`, transformOrigin: '0 0' };
+
+  const layer = (src: string, alt: string, style?: React.CSSProperties) => (
+    <div className="absolute inset-0" style={style}>
+      <img src={src} alt={alt} draggable={false} className="w-full h-full object-contain select-none" style={transform} />
+    </div>
+  );
+
+  const pane = (content: React.ReactNode, caption?: React.ReactNode) => (
+    <div
+      data-pane
+      className={`relative flex-1 overflow-hidden rounded-lg bg-gray-950 ${view.scale > 1 ? 'cursor-grab' : ''}`}
+      onWheel={handleWheel}
+      onPointerDown={startDrag('pan')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+      onDoubleClick={() => setView(RESET_VIEW)}
+    >
+      {content}
+      {caption && <div className="absolute bottom-2 left-2 px-2 py-1 bg-black/70 rounded text-[10px] text-gray-300 pointer-events-none">{caption}</div>}
+    </div>
+  );
+
+  const renderBody = () => {
+    if (!urls) return <div className="flex-1 flex items-center justify-center"><ArrowPathIcon className="w-8 h-8 text-yellow-500 animate-spin" /></div>;
+    const [a, b] = urls;
+
+    if (mode === 'sideBySide') {
+      return (
+        <div className="flex-1 flex gap-2 min-h-0">
+          {pane(layer(a, before.label), before.label)}
+          {pane(layer(b, after.label), after.label)}
+        </div>
+      );
+    }
+
+    if (mode === 'difference') {
+      if (diffError) return <div className="flex-1 flex items-center justify-center text-sm text-red-400">{diffError}</div>;
+      if (!difference) return <div className="flex-1 flex items-center justify-center"><ArrowPathIcon className="w-8 h-8 text-yellow-500 animate-spin" /></div>;
+      return (
+        <div className="flex-1 flex min-h-0">
+          {pane(layer(difference.url, 'Difference'), `${(difference.changedRatio * 100).toFixed(1)}% of pixels changed`)}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex-1 flex min-h-0">
+        {pane(
+          <>
+            {layer(a, before.label)}
+            {layer(b, after.label, { clipPath: `inset(0 0 0 ${split * 100}%)` })}
+            <div className="absolute top-0 bottom-0 w-0.5 bg-yellow-500 pointer-events-none" style={{ left: `${split * 100}%` }} />
+            <div
+              className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-yellow-500 text-black flex items-center justify-center cursor-ew-resize shadow-lg"
+              style={{ left: `${split * 100}%` }}
+              onPointerDown={startDrag('split')}
+            >
+              <ArrowsRightLeftIcon className="w-4 h-4" />
+            </div>
+            <div className="absolute top-2 left-2 px-2 py-1 bg-black/70 rounded text-[10px] text-gray-300 pointer-events-none">{before.label}</div>
+            <div className="absolute top-2 right-2 px-2 py-1 bg-black/70 rounded text-[10px] text-gray-300 pointer-events-none">{after.label}</div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur flex flex-col p-4 gap-3">
+      <div className="flex items-center gap-2">
+        <div className="flex bg-gray-900 border border-gray-800 rounded-lg p-0.5">
+          {MODES.map(m => (
+            <button
+              key={m.mode}
+              onClick={() => setMode(m.mode)}
+              className={`px-3 py-1.5 rounded-md text-xs ${mode === m.mode ? 'bg-yellow-500 text-black font-bold' : 'text-gray-400 hover:text-white'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-[10px] text-gray-500">
+          {view.scale > 1 ? `${view.scale.toFixed(1)}x · drag to pan · double-click to reset` : 'Scroll to zoom'}
+        </span>
+        <button onClick={onClose} className="ml-auto text-gray-400 hover:text-white"><XMarkIcon className="w-8 h-8" /></button>
+      </div>
+      {renderBody()}
+    </div>
+  );
+};
+
+export default CompareViewer;
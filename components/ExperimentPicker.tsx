@@ -0,0 +1,60 @@
+import React from 'react';
+import { BeakerIcon, CheckCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { PromptExperiment } from '../types';
+import { experimentTally } from '../services/promptTemplates';
+import BlobImage from './BlobImage';
+
+/** Blind side-by-side of an A/B template experiment; which template made which render is shown once the user picks */
+const ExperimentPicker: React.FC<{
+  experiment: PromptExperiment;
+  /** Image of each variant, in `experiment.variants` order */
+  images: [string, string];
+  /** Every experiment so far, for the running tally */
+  history: PromptExperiment[];
+  onPick: (index: 0 | 1) => void;
+  onClose: () => void;
+}> = ({ experiment, images, history, onPick, onClose }) => {
+  const picked = experiment.pickedIndex;
+  const tally = experimentTally(history);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-full flex flex-col bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+          <div className="min-w-0">
+            <h2 className="text-sm font-bold text-white flex items-center gap-2"><BeakerIcon className="w-4 h-4" /> Which one is better?</h2>
+            <p className="text-[10px] text-gray-500 truncate">{experiment.prompt}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-5 grid grid-cols-2 gap-4 overflow-y-auto">
+          {experiment.variants.map((variant, i) => (
+            <button
+              key={variant.resultId}
+              onClick={() => picked === undefined && onPick(i as 0 | 1)}
+              disabled={picked !== undefined}
+              className={`text-left rounded-xl border-2 overflow-hidden transition-all ${
+                picked === i ? 'border-yellow-500' : picked === undefined ? 'border-gray-700 hover:border-gray-400' : 'border-gray-800 opacity-60'
+              }`}
+            >
+              <BlobImage src={images[i]} alt={`Variant ${i === 0 ? 'A' : 'B'}`} className="w-full object-contain bg-black" />
+              <div className="flex items-center justify-between px-3 py-2 text-xs">
+                <span className="font-bold text-gray-200">{i === 0 ? 'A' : 'B'}{picked !== undefined && <span className="ml-2 font-normal text-gray-400">{variant.label}</span>}</span>
+                {picked === i && <CheckCircleIcon className="w-4 h-4 text-yellow-500" />}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="px-5 py-4 border-t border-gray-800 text-[10px] text-gray-500">
+          {picked === undefined
+            ? 'Templates are hidden until you pick, so the choice stays blind.'
+            : tally.map(t => `${t.label}: ${t.wins} of ${t.runs}`).join(' · ')}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentPicker;
@@ -0,0 +1,96 @@
+import React from 'react';
+import type { FrameSpec, FrameStyle, GlazingType, MountType, MouldingMaterial } from '../types';
+import { describeFrameSpec, frameSpecFromStyle } from '../services/frameSpec';
+
+const MATERIALS: MouldingMaterial[] = ['Wood', 'Painted Wood', 'Metal', 'Gilded'];
+const GLAZINGS: GlazingType[] = ['None', 'Glass', 'Acrylic', 'Anti-Glare'];
+const MOUNTS: MountType[] = ['Standard', 'Float', 'Canvas Wrap', 'Poster Hanger'];
+
+const numberInput = 'w-14 bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none';
+const textInput = 'flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none';
+const select = 'bg-gray-800 border border-gray-700 rounded p-1.5 text-xs';
+const rowLabel = 'text-[10px] text-gray-500 uppercase w-14 shrink-0';
+
+/** Custom frame build: moulding, profile, mat, glazing and mount. Off uses the frame style pills instead. */
+const FrameSpecFields: React.FC<{
+  spec?: FrameSpec;
+  /** Seeds the build when it's switched on */
+  baseStyle?: FrameStyle;
+  onChange: (spec: FrameSpec | undefined) => void;
+}> = ({ spec, baseStyle, onChange }) => {
+  const update = (changes: Partial<FrameSpec>) => spec && onChange({ ...spec, ...changes });
+  const framed = spec && spec.mount !== 'Canvas Wrap';
+  const glazed = spec && (spec.mount === 'Standard' || spec.mount === 'Float');
+
+  return (
+    <div className="space-y-2 mb-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] text-gray-500 uppercase">Custom Frame Build</label>
+        <button
+          onClick={() => onChange(spec ? undefined : frameSpecFromStyle(baseStyle))}
+          className={`text-[11px] px-3 py-1.5 rounded-full border transition-all ${
+            spec
+              ? 'bg-yellow-500 text-black border-yellow-500 shadow-md'
+              : 'bg-gray-800 text-gray-300 border-gray-700 hover:border-gray-500'
+          }`}
+        >
+          {spec ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {spec && (
+        <>
+          <div className="flex items-center gap-1.5">
+            <span className={rowLabel}>Mount</span>
+            <select value={spec.mount} onChange={e => update({ mount: e.target.value as MountType })} className={`${select} flex-1`}>
+              {MOUNTS.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          </div>
+
+          {framed && (
+            <div className="flex items-center gap-1.5">
+              <span className={rowLabel}>Moulding</span>
+              <select value={spec.mouldingMaterial} onChange={e => update({ mouldingMaterial: e.target.value as MouldingMaterial })} className={select}>
+                {MATERIALS.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+              <input value={spec.mouldingColour} onChange={e => update({ mouldingColour: e.target.value })} placeholder="colour" className={textInput} aria-label="Moulding colour" />
+            </div>
+          )}
+
+          <div className="flex items-center gap-1.5">
+            <span className={rowLabel}>Profile</span>
+            {framed && (
+              <>
+                <input type="number" min={0.5} step={0.5} value={spec.profileWidth} onChange={e => update({ profileWidth: Number(e.target.value) })} className={numberInput} aria-label="Profile width" title="Face width" />
+                <span className="text-[10px] text-gray-500">×</span>
+              </>
+            )}
+            <input type="number" min={0.5} step={0.5} value={spec.profileDepth} onChange={e => update({ profileDepth: Number(e.target.value) })} className={numberInput} aria-label="Profile depth" title="Depth off the wall" />
+            <span className="text-[10px] text-gray-500">cm {framed ? 'wide × deep' : 'deep'}</span>
+          </div>
+
+          {glazed && (
+            <>
+              <div className="flex items-center gap-1.5">
+                <span className={rowLabel}>Mat</span>
+                <input type="number" min={0} step={0.5} value={spec.matWidth} onChange={e => update({ matWidth: Number(e.target.value) })} className={numberInput} aria-label="Mat width" />
+                <span className="text-[10px] text-gray-500">cm</span>
+                <input value={spec.matColour} onChange={e => update({ matColour: e.target.value })} disabled={spec.matWidth <= 0} placeholder="colour" className={`${textInput} disabled:opacity-40`} aria-label="Mat colour" />
+              </div>
+              <div className="flex items-center gap-1.5">
+                <span className={rowLabel}>Glazing</span>
+                <select value={spec.glazing} onChange={e => update({ glazing: e.target.value as GlazingType })} className={`${select} flex-1`}>
+                  {GLAZINGS.map(g => <option key={g} value={g}>{g}</option>)}
+                </select>
+              </div>
+            </>
+          )}
+
+          <p className="text-[10px] text-gray-500">{describeFrameSpec(spec)}. Used for every prompt in place of the frame styles.</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FrameSpecFields;
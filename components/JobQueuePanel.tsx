@@ -0,0 +1,50 @@
+import React from 'react';
+import { ArrowPathIcon, ClockIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { GenerationJob, JobKind } from '../types';
+
+const KIND_LABELS: Record<JobKind, string> = {
+  mockup: 'Mockup',
+  composite: 'Composite',
+  contactSheet: 'Contact sheet',
+  upscale: 'Enhance',
+};
+
+/** Floating list of server-side jobs that are still queued or running */
+const JobQueuePanel: React.FC<{
+  jobs: GenerationJob[];
+  onCancel: (id: string) => void;
+}> = ({ jobs, onCancel }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 w-72 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl overflow-hidden">
+      <div className="px-3 py-2 border-b border-gray-800 text-[10px] font-semibold text-gray-400 uppercase tracking-wider">
+        Background jobs ({jobs.length})
+      </div>
+      <ul className="max-h-60 overflow-y-auto scrollbar-thin divide-y divide-gray-800">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-center gap-2 px-3 py-2">
+            {job.status === 'running'
+              ? <ArrowPathIcon className="w-4 h-4 text-yellow-400 animate-spin shrink-0" />
+              : <ClockIcon className="w-4 h-4 text-gray-500 shrink-0" />}
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-gray-200 truncate" title={job.label}>{job.label}</p>
+              <p className="text-[10px] text-gray-500">
+                {KIND_LABELS[job.kind]} · {job.status}{job.attempts > 1 ? ` (attempt ${job.attempts})` : ''}
+              </p>
+            </div>
+            <button
+              onClick={() => onCancel(job.id)}
+              title="Cancel job"
+              className="text-gray-500 hover:text-red-400 transition-colors"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowsRightLeftIcon, EyeIcon, ShareIcon, SparklesIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { MockupResult } from '../types';
+import { LINEAGE_LINK_LABELS, findInLineage, flattenLineage, type LineageNode } from '../services/lineage';
+import BlobImage from './BlobImage';
+
+const resolutionLabel = (result: MockupResult) => result.isHighRes ? `${result.upscaleSize ?? '2K'}` : '1K';
+
+/** Modal showing the tree a result belongs to, with branch, compare and subtree delete */
+const LineageView: React.FC<{
+  root: LineageNode;
+  focusId: string;
+  canBranch: (result: MockupResult) => boolean;
+  onBranch: (result: MockupResult) => void;
+  onOpen: (result: MockupResult) => void;
+  onCompareWithParent: (parent: MockupResult, child: MockupResult) => void;
+  onDeleteSubtree: (ids: string[]) => void;
+  onClose: () => void;
+}> = ({ root, focusId, canBranch, onBranch, onOpen, onCompareWithParent, onDeleteSubtree, onClose }) => {
+  const [selectedId, setSelectedId] = useState(focusId);
+  const [isComparing, setIsComparing] = useState(false);
+
+  // The tree is rebuilt as results change; fall back to the root once the selection is gone
+  const found = useMemo(() => findInLineage(root, selectedId) ?? { node: root, parent: null }, [root, selectedId]);
+  const selected = found.node;
+  const siblings = found.parent?.children ?? [];
+  const subtree = flattenLineage(selected);
+
+  const handleDelete = () => {
+    const count = subtree.length;
+    if (confirm(`Delete this result${count > 1 ? ` and the ${count - 1} made from it` : ''}? This cannot be undone.`)) {
+      onDeleteSubtree(subtree.map(n => n.result.id));
+      setSelectedId(found.parent?.result.id ?? root.result.id);
+      setIsComparing(false);
+    }
+  };
+
+  const renderNode = (node: LineageNode, depth: number): React.ReactNode => (
+    <li key={node.result.id}>
+      <button
+        onClick={() => setSelectedId(node.result.id)}
+        onDoubleClick={() => onOpen(node.result)}
+        className={`w-full flex items-center gap-3 py-1.5 pr-2 rounded-lg text-left transition-colors ${
+          node === selected ? 'bg-yellow-500/10 ring-1 ring-yellow-500/60' : 'hover:bg-gray-800'
+        }`}
+        style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}
+      >
+        <BlobImage src={node.result.thumbnailUrl || node.result.imageUrl} alt="" className="w-12 h-12 rounded object-cover shrink-0 border border-gray-700" />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-1.5 text-[9px] font-bold uppercase">
+            <span className={node.link ? 'text-sky-400' : 'text-yellow-500'}>{node.link ? LINEAGE_LINK_LABELS[node.link] : 'Original'}</span>
+            <span className="text-gray-500">{resolutionLabel(node.result)}</span>
+            {node.result.cameraAngle && <span className="text-gray-500">{node.result.cameraAngle}</span>}
+          </div>
+          <p className="text-[11px] text-gray-300 truncate">{node.result.prompt}</p>
+        </div>
+      </button>
+      {node.children.length > 0 && <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>}
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+          <h2 className="text-sm font-bold text-white flex items-center gap-2">
+            <ShareIcon className="w-4 h-4 text-yellow-500" /> Lineage
+            <span className="text-[10px] font-normal text-gray-500">{flattenLineage(root).length} results</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+        </div>
+
+        {isComparing ? (
+          <div className="p-5 overflow-y-auto scrollbar-thin">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {siblings.map(node => (
+                <button
+                  key={node.result.id}
+                  onClick={() => setSelectedId(node.result.id)}
+                  onDoubleClick={() => onOpen(node.result)}
+                  className={`rounded-xl overflow-hidden border text-left ${node === selected ? 'border-yellow-500' : 'border-gray-800 hover:border-gray-600'}`}
+                >
+                  <BlobImage src={node.result.imageUrl} alt="" className="w-full aspect-square object-cover" />
+                  <div className="p-2">
+                    <div className="text-[9px] font-bold uppercase text-sky-400">{LINEAGE_LINK_LABELS[node.link!]} · {resolutionLabel(node.result)}</div>
+                    <p className="text-[10px] text-gray-400 line-clamp-2">{node.result.prompt}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <ul className="p-3 overflow-y-auto scrollbar-thin flex-1">{renderNode(root, 0)}</ul>
+        )}
+
+        <div className="flex items-center gap-2 px-5 py-3 border-t border-gray-800">
+          <button
+            onClick={() => onBranch(selected.result)}
+            disabled={!canBranch(selected.result)}
+            className="flex items-center gap-1.5 bg-yellow-500 hover:bg-yellow-400 disabled:opacity-40 text-black text-xs font-bold rounded-lg px-3 py-2"
+            title="Start a new branch from the selected result"
+          >
+            <SparklesIcon className="w-4 h-4" /> Branch
+          </button>
+          <button
+            onClick={() => setIsComparing(c => !c)}
+            disabled={!isComparing && siblings.length < 2}
+            className="flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 text-xs rounded-lg px-3 py-2"
+          >
+            <ArrowsRightLeftIcon className="w-4 h-4" /> {isComparing ? 'Back to tree' : `Compare siblings${siblings.length > 1 ? ` (${siblings.length})` : ''}`}
+          </button>
+          <button
+            onClick={() => found.parent && onCompareWithParent(found.parent.result, selected.result)}
+            disabled={!found.parent}
+            className="flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 text-xs rounded-lg px-3 py-2"
+          >
+            <EyeIcon className="w-4 h-4" /> Compare with parent
+          </button>
+          <button
+            onClick={handleDelete}
+            className="ml-auto flex items-center gap-1.5 bg-gray-800 hover:bg-red-900/40 text-red-400 text-xs rounded-lg px-3 py-2"
+          >
+            <TrashIcon className="w-4 h-4" /> Delete {subtree.length > 1 ? `subtree (${subtree.length})` : 'result'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LineageView;
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowPathIcon, FilmIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { MockupResult } from '../types';
+import { storageService } from '../services/storageService';
+import {
+  MOTION_EFFECTS, MOTION_FORMATS, canEncodeWebP, motionFocus, renderMotion, videoMimeType,
+  type MotionEffect, type MotionFormat,
+} from '../services/mockupMotion';
+
+const DEFAULT_SECONDS: Record<MotionEffect, number> = { kenBurns: 6, parallax: 4, crossfade: 2.5 };
+const MAX_SECONDS = 20;
+
+const pill = (on: boolean) => `text-[11px] px-3 py-1.5 rounded-full border transition-all ${
+  on ? 'bg-yellow-500 text-black border-yellow-500 shadow-md' : 'bg-gray-800 text-gray-300 border-gray-700 hover:border-gray-500 disabled:opacity-40'
+}`;
+
+/**
+ * Modal that turns a result into a short clip: a push-in or parallax loop of
+ * the result itself, or a crossfade reel through `reel` (e.g. the angles
+ * extracted from a contact sheet). Rendered and encoded in the browser.
+ */
+const MotionExportPanel: React.FC<{
+  result: MockupResult;
+  /** Results a crossfade reel plays through, in order; the reel is unavailable with fewer than two */
+  reel: MockupResult[];
+  onClose: () => void;
+}> = ({ result, reel, onClose }) => {
+  const videoType = useMemo(videoMimeType, []);
+  const webp = useMemo(canEncodeWebP, []);
+  const canReel = reel.length >= 2;
+  const focus = motionFocus(result);
+
+  const [effect, setEffect] = useState<MotionEffect>(focus ? 'parallax' : 'kenBurns');
+  const [format, setFormat] = useState<MotionFormat>(videoType ? 'video' : webp ? 'webp' : 'gif');
+  const [seconds, setSeconds] = useState(DEFAULT_SECONDS[effect]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [output, setOutput] = useState<{ url: string; type: string } | null>(null);
+  const [error, setError] = useState('');
+
+  const formats: { id: MotionFormat; label: string; available: boolean }[] = [
+    { id: 'video', label: videoType?.startsWith('video/mp4') ? 'MP4' : 'WebM', available: !!videoType },
+    { id: 'webp', label: MOTION_FORMATS.webp.label, available: webp },
+    { id: 'gif', label: MOTION_FORMATS.gif.label, available: true },
+  ];
+
+  // A reel's length follows its slide count; the other effects keep one clip length
+  const duration = effect === 'crossfade' ? Math.min(MAX_SECONDS, seconds * reel.length) : seconds;
+
+  useEffect(() => () => { if (output) URL.revokeObjectURL(output.url); }, [output]);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => { if (e.key === 'Escape' && progress === null) onClose(); };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [onClose, progress]);
+
+  const chooseEffect = (next: MotionEffect) => {
+    setEffect(next);
+    setSeconds(DEFAULT_SECONDS[next]);
+  };
+
+  const render = async () => {
+    setError('');
+    setOutput(null);
+    setProgress(0);
+    try {
+      const items = effect === 'crossfade' ? reel : [result];
+      const sources = await Promise.all(items.map(async item => ({
+        imageUrl: await storageService.resolveDisplayUrl(item.imageUrl),
+        focus: motionFocus(item),
+      })));
+      const blob = await renderMotion(sources, { effect, format, durationSec: duration }, setProgress);
+      setOutput({ url: URL.createObjectURL(blob), type: blob.type });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Rendering failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const extension = output?.type === 'video/mp4' ? 'mp4' : output?.type.split('/')[1] ?? '';
+  const rendering = progress !== null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => !rendering && onClose()}>
+      <div className="w-full max-w-lg bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+          <div className="min-w-0">
+            <h2 className="text-sm font-bold text-white flex items-center gap-2"><FilmIcon className="w-4 h-4" /> Animate</h2>
+            <p className="text-[10px] text-gray-500 truncate">{result.prompt}</p>
+          </div>
+          <button onClick={onClose} disabled={rendering} className="text-gray-400 hover:text-white disabled:opacity-40"><XMarkIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="space-y-1.5">
+            <label className="text-[10px] text-gray-500 uppercase">Motion</label>
+            <div className="flex flex-wrap gap-1.5">
+              {MOTION_EFFECTS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => chooseEffect(id)}
+                  disabled={rendering || (id === 'crossfade' && !canReel)}
+                  className={pill(effect === id)}
+                  title={id === 'crossfade' && !canReel ? 'Extract the frames of a contact sheet to build a reel' : undefined}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-500">
+              {effect === 'crossfade'
+                ? `${reel.length} images, ${seconds}s each.`
+                : focus
+                  ? 'Moves toward the artwork where it was detected in the image.'
+                  : 'No artwork position recorded for this result; the centre of the image is used.'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <label className="text-[10px] text-gray-500 uppercase">Format</label>
+              <div className="flex flex-wrap gap-1.5">
+                {formats.map(({ id, label, available }) => (
+                  <button
+                    key={id}
+                    onClick={() => setFormat(id)}
+                    disabled={rendering || !available}
+                    className={pill(format === id)}
+                    title={available ? undefined : 'Not supported by this browser'}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <label className="text-[10px] text-gray-500 uppercase">{effect === 'crossfade' ? 'Seconds per image' : 'Seconds'}</label>
+              <input
+                type="number" min={1} max={MAX_SECONDS} step={0.5}
+                value={seconds}
+                disabled={rendering}
+                onChange={e => setSeconds(Math.min(MAX_SECONDS, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-20 bg-gray-800 border border-gray-700 rounded p-1 text-[11px] text-gray-200 focus:border-yellow-500 focus:outline-none"
+              />
+            </div>
+          </div>
+
+          <p className="text-[10px] text-gray-500">
+            {MOTION_FORMATS[format].longEdge}px, {MOTION_FORMATS[format].fps} fps, {duration}s
+            {format === 'video' && ' — recorded in real time; keep this tab in view.'}
+          </p>
+
+          {output && (
+            <div className="rounded-lg overflow-hidden bg-black">
+              {output.type.startsWith('video/')
+                ? <video src={output.url} autoPlay loop muted playsInline className="w-full max-h-72 object-contain" />
+                : <img src={output.url} alt="Animated mockup" className="w-full max-h-72 object-contain" />}
+            </div>
+          )}
+
+          {rendering && (
+            <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-yellow-500 transition-all" style={{ width: `${Math.round((progress ?? 0) * 100)}%` }} />
+            </div>
+          )}
+          {error && <p className="text-[11px] text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            {output && (
+              <a
+                href={output.url}
+                download={`mockup-${result.id}-${effect}.${extension}`}
+                className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-white text-black text-xs font-bold hover:bg-gray-200"
+              >
+                <ArrowDownTrayIcon className="w-4 h-4" /> Download
+              </a>
+            )}
+            <button
+              onClick={render}
+              disabled={rendering}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-yellow-500 text-black text-xs font-bold hover:bg-yellow-400 disabled:opacity-60"
+            >
+              {rendering ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <FilmIcon className="w-4 h-4" />}
+              {rendering ? 'Rendering…' : output ? 'Render again' : 'Render'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MotionExportPanel;
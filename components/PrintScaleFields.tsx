@@ -0,0 +1,75 @@
+import React from 'react';
+import type { LengthUnit, PhysicalSize, PrintSize, SceneReference } from '../types';
+import { DEFAULT_CUSTOM_PRINT_SIZE, DEFAULT_SCENE_REFERENCE } from '../services/printSizing';
+
+const UNITS: LengthUnit[] = ['cm', 'in'];
+
+const numberInput = 'w-16 bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none';
+const unitSelect = 'bg-gray-800 border border-gray-700 rounded p-1.5 text-xs';
+
+/** Custom print dimensions (for "Custom") and the scale-aware reference length */
+const PrintScaleFields: React.FC<{
+  printSize: PrintSize | null;
+  customSize?: PhysicalSize;
+  reference?: SceneReference;
+  onCustomSizeChange: (size: PhysicalSize) => void;
+  onReferenceChange: (reference: SceneReference | undefined) => void;
+  /** Extra guidance under the reference fields, e.g. how to mark it on the photo */
+  referenceHint?: string;
+}> = ({ printSize, customSize, reference, onCustomSizeChange, onReferenceChange, referenceHint }) => {
+  const size = customSize ?? DEFAULT_CUSTOM_PRINT_SIZE;
+
+  return (
+    <div className="space-y-2">
+      {printSize === 'Custom' && (
+        <div className="flex items-center gap-1.5">
+          <label className="text-[10px] text-gray-500 uppercase mr-auto">Custom Size</label>
+          <input type="number" min={1} step={0.1} value={size.width} onChange={e => onCustomSizeChange({ ...size, width: Number(e.target.value) })} className={numberInput} aria-label="Width" />
+          <span className="text-[10px] text-gray-500">×</span>
+          <input type="number" min={1} step={0.1} value={size.height} onChange={e => onCustomSizeChange({ ...size, height: Number(e.target.value) })} className={numberInput} aria-label="Height" />
+          <select value={size.unit} onChange={e => onCustomSizeChange({ ...size, unit: e.target.value as LengthUnit })} className={unitSelect}>
+            {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] text-gray-500 uppercase">True Scale</label>
+        <button
+          onClick={() => onReferenceChange(reference ? undefined : DEFAULT_SCENE_REFERENCE)}
+          disabled={!printSize}
+          className={`text-[11px] px-3 py-1.5 rounded-full border transition-all disabled:opacity-40 ${
+            reference
+              ? 'bg-yellow-500 text-black border-yellow-500 shadow-md'
+              : 'bg-gray-800 text-gray-300 border-gray-700 hover:border-gray-500'
+          }`}
+        >
+          {reference ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {reference && (
+        <>
+          <div className="flex items-center gap-1.5">
+            <input
+              value={reference.label}
+              onChange={e => onReferenceChange({ ...reference, label: e.target.value })}
+              placeholder="e.g. sofa width"
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none"
+            />
+            <span className="text-[10px] text-gray-500">is</span>
+            <input type="number" min={1} step={0.1} value={reference.length} onChange={e => onReferenceChange({ ...reference, length: Number(e.target.value) })} className={numberInput} aria-label="Reference length" />
+            <select value={reference.unit} onChange={e => onReferenceChange({ ...reference, unit: e.target.value as LengthUnit })} className={unitSelect}>
+              {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+          </div>
+          <p className="text-[10px] text-gray-500">
+            Something in the scene of known size; the print is drawn in true proportion to it.{referenceHint ? ` ${referenceHint}` : ''}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PrintScaleFields;
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckIcon, ChevronDownIcon, FolderIcon, PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { Project } from '../types';
+
+/** Nav dropdown that picks the project the gallery, libraries and new work are scoped to */
+const ProjectSwitcher: React.FC<{
+  projects: Project[];
+  activeProjectId: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: (name: string) => void;
+  onRename: (project: Project, name: string) => void;
+  onDelete: (project: Project) => void;
+}> = ({ projects, activeProjectId, onSelect, onCreate, onRename, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+  const active = projects.find(p => p.id === activeProjectId) ?? null;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handler = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [isOpen]);
+
+  const select = (id: string | null) => {
+    onSelect(id);
+    setIsOpen(false);
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const handleRename = (project: Project) => {
+    const name = prompt('Rename project:', project.name)?.trim();
+    if (name && name !== project.name) onRename(project, name);
+  };
+
+  const handleDelete = (project: Project) => {
+    if (confirm(`Delete "${project.name}"? Its mockups and library items are kept but no longer grouped.`)) onDelete(project);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="flex items-center gap-1.5 bg-gray-900 border border-gray-800 hover:border-gray-700 rounded-lg px-2.5 py-1 text-xs text-gray-300 transition-colors"
+        title="Project"
+      >
+        <FolderIcon className="w-4 h-4 text-yellow-500" />
+        <span className="max-w-[10rem] truncate">{active ? active.name : 'All projects'}</span>
+        <ChevronDownIcon className="w-3 h-3 text-gray-500" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 z-50 w-64 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl overflow-hidden">
+          <ul className="max-h-72 overflow-y-auto scrollbar-thin py-1">
+            <li>
+              <button onClick={() => select(null)} className="w-full flex items-center gap-2 px-3 py-2 text-xs text-gray-300 hover:bg-gray-800">
+                <span className="w-3">{activeProjectId === null && <CheckIcon className="w-3 h-3 text-yellow-500" />}</span>
+                All projects
+              </button>
+            </li>
+            {projects.map(project => (
+              <li key={project.id} className="group flex items-center hover:bg-gray-800">
+                <button onClick={() => select(project.id)} className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 text-xs text-gray-200 text-left">
+                  <span className="w-3 shrink-0">{project.id === activeProjectId && <CheckIcon className="w-3 h-3 text-yellow-500" />}</span>
+                  <span className="truncate" title={project.description}>{project.name}</span>
+                </button>
+                <button onClick={() => handleRename(project)} className="p-1.5 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100" title="Rename">
+                  <PencilIcon className="w-3 h-3" />
+                </button>
+                <button onClick={() => handleDelete(project)} className="p-1.5 mr-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100" title="Delete project">
+                  <TrashIcon className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-1 p-2 border-t border-gray-800">
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleCreate(); }}
+              placeholder="New project name"
+              className="flex-1 min-w-0 bg-gray-950 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white placeholder-gray-600 focus:border-yellow-500 focus:outline-none"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-black rounded-lg px-2"
+              title="Create project"
+            >
+              <PlusIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
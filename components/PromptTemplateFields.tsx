@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { PromptSection, PromptSectionOverride, PromptTemplate } from '../types';
+import { BUILT_IN_TEMPLATES, normalizePromptTemplate, PROMPT_SECTIONS, templateName } from '../services/promptTemplates';
+
+/** Switch prompt sections off or reword them; unticked sections are left out of the prompt */
+const PromptTemplateFields: React.FC<{
+  template?: PromptTemplate;
+  onChange: (template: PromptTemplate | undefined) => void;
+}> = ({ template, onChange }) => {
+  const [editing, setEditing] = useState<PromptSection | null>(null);
+  const name = templateName(template);
+
+  const updateSection = (section: PromptSection, changes: Partial<PromptSectionOverride>) => {
+    const current = template?.[section] ?? { enabled: true };
+    // Empty rewordings are kept while typing and dropped by normalizing on the way out
+    onChange({ ...template, [section]: { ...current, ...changes } });
+  };
+
+  return (
+    <div className="space-y-2 mb-3">
+      <div className="flex justify-between items-center gap-2">
+        <label className="text-[10px] text-gray-500 uppercase">Prompt Template</label>
+        <select
+          value={BUILT_IN_TEMPLATES.some(t => t.name === name) ? name : ''}
+          onChange={e => onChange(normalizePromptTemplate(BUILT_IN_TEMPLATES.find(t => t.name === e.target.value)?.template))}
+          className="bg-gray-800 border border-gray-700 rounded p-1.5 text-xs"
+        >
+          {name === 'Custom' && <option value="">Custom</option>}
+          {BUILT_IN_TEMPLATES.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+        </select>
+      </div>
+
+      {PROMPT_SECTIONS.map(({ id, label }) => {
+        const override = template?.[id];
+        const enabled = override?.enabled ?? true;
+        const reworded = !!override?.text?.trim();
+        return (
+          <div key={id}>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={e => updateSection(id, { enabled: e.target.checked })}
+                className="accent-yellow-500"
+                aria-label={`Include ${label}`}
+              />
+              <span className={`flex-1 text-xs ${enabled ? 'text-gray-300' : 'text-gray-600 line-through'}`}>
+                {label}{reworded && <span className="ml-1 text-[10px] text-yellow-500">reworded</span>}
+              </span>
+              {enabled && (
+                <button onClick={() => setEditing(editing === id ? null : id)} className="text-[10px] text-gray-400 hover:text-white">
+                  {editing === id ? 'Done' : 'Reword'}
+                </button>
+              )}
+            </div>
+            {enabled && editing === id && (
+              <textarea
+                value={override?.text ?? ''}
+                onChange={e => updateSection(id, { text: e.target.value })}
+                onBlur={() => onChange(normalizePromptTemplate(template))}
+                placeholder="Leave empty for the built-in wording"
+                className="mt-1 w-full bg-gray-800 border border-gray-700 rounded p-2 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none min-h-[80px] resize-none"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PromptTemplateFields;
@@ -0,0 +1,68 @@
+import React, { useRef } from 'react';
+import type { PlacementQuad } from '../types';
+import { isConvexQuad } from '../services/perspectiveCompositor';
+import BlobImage from './BlobImage';
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+/** The base photo with four draggable corners marking where the framed piece goes; `children` render over the photo, under the corners */
+const QuadEditor: React.FC<{
+  image: string;
+  quad: PlacementQuad;
+  onChange: (quad: PlacementQuad) => void;
+  children?: React.ReactNode;
+}> = ({ image, quad, onChange, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef<number | null>(null);
+  const isValid = isConvexQuad(quad);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const corner = dragging.current;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (corner === null || !rect) return;
+    const next = [...quad] as PlacementQuad;
+    next[corner] = {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+    onChange(next);
+  };
+
+  const points = quad.map(p => `${p.x * 100},${p.y * 100}`).join(' ');
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative select-none touch-none rounded-lg overflow-hidden border border-gray-700"
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { dragging.current = null; }}
+      onPointerCancel={() => { dragging.current = null; }}
+    >
+      <BlobImage src={image} alt="Scene" draggable={false} className="w-full block" />
+      {children}
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+        <polygon
+          points={points}
+          fill={isValid ? 'rgba(234, 179, 8, 0.18)' : 'rgba(239, 68, 68, 0.25)'}
+          stroke={isValid ? '#eab308' : '#ef4444'}
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      {quad.map((p, i) => (
+        <div
+          key={i}
+          title={CORNER_LABELS[i]}
+          onPointerDown={e => {
+            e.currentTarget.parentElement?.setPointerCapture(e.pointerId);
+            dragging.current = i;
+          }}
+          className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-yellow-500 border-2 border-black shadow cursor-move"
+          style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default QuadEditor;
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { QualityCheckSettings } from '../types';
+import { DEFAULT_QUALITY_CHECK } from '../services/fidelity';
+
+const numberInput = 'w-16 bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none';
+const rowLabel = 'text-[10px] text-gray-500 uppercase flex-1';
+
+/** Scores each mockup against the artwork and re-renders ones below the minimum. Off skips the check entirely. */
+const QualityCheckFields: React.FC<{
+  check?: QualityCheckSettings;
+  onChange: (check: QualityCheckSettings | undefined) => void;
+}> = ({ check, onChange }) => {
+  const update = (changes: Partial<QualityCheckSettings>) => check && onChange({ ...check, ...changes });
+
+  return (
+    <div className="space-y-2 mb-3">
+      <div className="flex justify-between items-center">
+        <div>
+          <label className="block text-[10px] text-gray-500 uppercase">Quality Check</label>
+          <p className="text-[10px] text-gray-600">Adds an analysis call per image</p>
+        </div>
+        <button
+          onClick={() => onChange(check ? undefined : DEFAULT_QUALITY_CHECK)}
+          className={`text-[11px] px-3 py-1.5 rounded-full border transition-all ${
+            check
+              ? 'bg-yellow-500 text-black border-yellow-500 shadow-md'
+              : 'bg-gray-800 text-gray-300 border-gray-700 hover:border-gray-500'
+          }`}
+        >
+          {check ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {check && (
+        <>
+          <div className="flex items-center gap-1.5">
+            <span className={rowLabel}>Minimum Score</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={Math.round(check.minScore * 100)}
+              onChange={e => update({ minScore: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+              className={numberInput}
+              aria-label="Minimum score in percent"
+            />
+            <span className="text-[10px] text-gray-500">%</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <span className={rowLabel}>Retries</span>
+            <select value={check.maxRetries} onChange={e => update({ maxRetries: Number(e.target.value) })} className="bg-gray-800 border border-gray-700 rounded p-1.5 text-xs">
+              {[0, 1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input type="checkbox" checked={check.critique} onChange={e => update({ critique: e.target.checked })} className="accent-yellow-500" />
+            Model critique
+            <span className="text-[10px] text-gray-500">(looks for warping, glare and invented details)</span>
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QualityCheckFields;
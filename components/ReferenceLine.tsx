@@ -0,0 +1,62 @@
+import React, { useRef } from 'react';
+import type { NormalizedPoint } from '../types';
+
+/** A draggable measuring line over a photo, for marking the ends of a scale reference. Fills its positioned parent. */
+const ReferenceLine: React.FC<{
+  from: NormalizedPoint;
+  to: NormalizedPoint;
+  label: string;
+  onChange: (from: NormalizedPoint, to: NormalizedPoint) => void;
+}> = ({ from, to, label, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef<'from' | 'to' | null>(null);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const end = dragging.current;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!end || !rect) return;
+    const p = {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+    if (end === 'from') onChange(p, to);
+    else onChange(from, p);
+  };
+
+  const handle = (end: 'from' | 'to', p: NormalizedPoint) => (
+    <div
+      title={`Drag to one end of the ${label}`}
+      onPointerDown={e => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragging.current = end;
+      }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { dragging.current = null; }}
+      onPointerCancel={() => { dragging.current = null; }}
+      className="absolute w-3.5 h-3.5 -ml-[7px] -mt-[7px] rounded-full bg-cyan-400 border-2 border-black shadow cursor-move pointer-events-auto"
+      style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+    />
+  );
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none">
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+        <line
+          x1={from.x * 100} y1={from.y * 100} x2={to.x * 100} y2={to.y * 100}
+          stroke="#22d3ee" strokeWidth={2} strokeDasharray="6 4" vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <span
+        className="absolute -translate-x-1/2 -translate-y-full px-1 rounded bg-cyan-400 text-[8px] font-bold text-black whitespace-nowrap"
+        style={{ left: `${(from.x + to.x) * 50}%`, top: `${(from.y + to.y) * 50}%` }}
+      >
+        {label}
+      </span>
+      {handle('from', from)}
+      {handle('to', to)}
+    </div>
+  );
+};
+
+export default ReferenceLine;
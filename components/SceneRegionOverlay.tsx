@@ -0,0 +1,44 @@
+import React from 'react';
+import type { SceneAnalysis, SceneRegion } from '../types';
+
+const ORIENTATION_LABELS: Record<SceneRegion['orientation'], string> = {
+  'frontal': 'facing camera',
+  'angled-left': 'angled left',
+  'angled-right': 'angled right',
+};
+
+/** Clickable boxes over a scene photo: existing frames in blue, empty wall space in green. Fills its positioned parent. */
+const SceneRegionOverlay: React.FC<{
+  analysis: SceneAnalysis;
+  onPick: (region: SceneRegion) => void;
+}> = ({ analysis, onPick }) => (
+  <div className="absolute inset-0 pointer-events-none">
+    {[...analysis.frames, ...analysis.emptyWalls].map((region, i) => (
+      <button
+        key={i}
+        onClick={() => onPick(region)}
+        onPointerDown={e => e.stopPropagation()}
+        title={`${region.label} · ${ORIENTATION_LABELS[region.orientation]} · light: ${region.lighting}`}
+        className={`absolute pointer-events-auto border-2 border-dashed rounded-sm transition-colors group/region ${
+          region.kind === 'frame'
+            ? 'border-sky-400 hover:bg-sky-400/25'
+            : 'border-emerald-400 hover:bg-emerald-400/25'
+        }`}
+        style={{
+          left: `${region.box.x * 100}%`,
+          top: `${region.box.y * 100}%`,
+          width: `${region.box.width * 100}%`,
+          height: `${region.box.height * 100}%`,
+        }}
+      >
+        <span className={`absolute top-0 left-0 max-w-full truncate px-1 text-[8px] font-bold text-black ${
+          region.kind === 'frame' ? 'bg-sky-400' : 'bg-emerald-400'
+        }`}>
+          {region.label}
+        </span>
+      </button>
+    ))}
+  </div>
+);
+
+export default SceneRegionOverlay;
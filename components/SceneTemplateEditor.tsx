@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { FrameStyle, GenerationSettings, SceneTemplate } from '../types';
+import { DEFAULT_PLACEMENT_QUAD, isConvexQuad } from '../services/perspectiveCompositor';
+import QuadEditor from './QuadEditor';
+
+const ASPECT_RATIOS: GenerationSettings['aspectRatio'][] = ['3:4', '1:1', '4:3', '16:9', '9:16'];
+
+/** Modal for naming a scene's wall regions and its defaults; slots are numbered in list order */
+const SceneTemplateEditor: React.FC<{
+  template: SceneTemplate;
+  frames: FrameStyle[];
+  onSave: (template: SceneTemplate) => void;
+  onClose: () => void;
+}> = ({ template, frames, onSave, onClose }) => {
+  const [draft, setDraft] = useState<SceneTemplate>(template);
+  const [selected, setSelected] = useState(0);
+  const slot = draft.slots[selected];
+
+  const update = (changes: Partial<SceneTemplate>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateSlot = (index: number, changes: Partial<SceneTemplate['slots'][number]>) =>
+    update({ slots: draft.slots.map((s, i) => i === index ? { ...s, ...changes } : s) });
+
+  const addSlot = () => {
+    update({ slots: [...draft.slots, { name: `Slot ${draft.slots.length + 1}`, quad: DEFAULT_PLACEMENT_QUAD }] });
+    setSelected(draft.slots.length);
+  };
+
+  const removeSlot = (index: number) => {
+    update({ slots: draft.slots.filter((_, i) => i !== index) });
+    setSelected(prev => Math.max(0, prev >= index ? prev - 1 : prev));
+  };
+
+  const invalidSlot = draft.slots.findIndex(s => !isConvexQuad(s.quad));
+  const canSave = draft.name.trim() !== '' && draft.slots.length > 0 && invalidSlot === -1;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-full flex flex-col bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+          <h2 className="text-sm font-bold text-white">Scene template</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-5 grid md:grid-cols-[1fr_16rem] gap-5 overflow-y-auto">
+          <div className="space-y-2">
+            {slot && (
+              <QuadEditor image={draft.imageUrl} quad={slot.quad} onChange={quad => updateSlot(selected, { quad })} />
+            )}
+            <p className="text-[10px] text-gray-500">Drag the corners of the selected slot to the outer edge of the frame it should hold.</p>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Name</label>
+              <input
+                value={draft.name}
+                onChange={e => update({ name: e.target.value })}
+                placeholder="e.g. Loft living room"
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label className="block text-[10px] text-gray-500 uppercase">Slots</label>
+              {draft.slots.map((s, i) => (
+                <div
+                  key={i}
+                  onClick={() => setSelected(i)}
+                  className={`flex items-center gap-2 rounded border px-2 py-1 cursor-pointer ${
+                    i === selected ? 'border-yellow-500 bg-yellow-500/10' : 'border-gray-700 hover:border-gray-500'
+                  }`}
+                >
+                  <span className={`text-[10px] font-bold w-4 ${i === invalidSlot ? 'text-red-400' : 'text-gray-500'}`}>{i + 1}</span>
+                  <input
+                    value={s.name}
+                    onChange={e => updateSlot(i, { name: e.target.value })}
+                    className="flex-1 min-w-0 bg-transparent text-xs text-gray-200 focus:outline-none"
+                  />
+                  {draft.slots.length > 1 && (
+                    <button onClick={e => { e.stopPropagation(); removeSlot(i); }} title="Remove slot" className="text-gray-500 hover:text-red-400">
+                      <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button onClick={addSlot} className="flex items-center gap-1 text-[10px] text-yellow-500 hover:text-yellow-400">
+                <PlusIcon className="w-3 h-3" /> Add slot
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Default Frame</label>
+              <select
+                value={draft.defaultFrameStyle}
+                onChange={e => update({ defaultFrameStyle: e.target.value as FrameStyle })}
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs"
+              >
+                {frames.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Preferred Aspect Ratio</label>
+              <select
+                value={draft.aspectRatio ?? ''}
+                onChange={e => update({ aspectRatio: (e.target.value || undefined) as SceneTemplate['aspectRatio'] })}
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs"
+              >
+                <option value="">No preference</option>
+                {ASPECT_RATIOS.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Notes</label>
+              <textarea
+                value={draft.notes ?? ''}
+                onChange={e => update({ notes: e.target.value })}
+                placeholder="e.g. Warm evening light from the left window"
+                className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none min-h-[60px] resize-none"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-4 border-t border-gray-800">
+          <span className="text-[10px] text-gray-500">
+            {invalidSlot !== -1 ? `Slot ${invalidSlot + 1}'s corners cross; fix them to save` : `${draft.slots.length} slot${draft.slots.length === 1 ? '' : 's'}`}
+          </span>
+          <button
+            onClick={() => onSave({ ...draft, name: draft.name.trim(), notes: draft.notes?.trim() || undefined })}
+            disabled={!canSave}
+            className="bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-black text-xs font-bold rounded-lg px-3 py-2"
+          >
+            Save template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SceneTemplateEditor;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { ArrowDownTrayIcon, BookmarkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { StylePreset } from '../types';
+
+/** Team house styles: one click loads a preset, and the current selection can be saved as a new one or over the loaded one */
+const StylePresetPicker: React.FC<{
+  presets: StylePreset[];
+  /** Last preset loaded, if any */
+  activeId: string | null;
+  canEdit: (preset: StylePreset) => boolean;
+  onApply: (preset: StylePreset) => void;
+  onSaveNew: (name: string) => void;
+  onUpdate: (preset: StylePreset) => void;
+  onDelete: (preset: StylePreset) => void;
+}> = ({ presets, activeId, canEdit, onApply, onSaveNew, onUpdate, onDelete }) => {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const active = presets.find(p => p.id === activeId);
+
+  const submit = () => {
+    if (!name.trim()) return;
+    onSaveNew(name.trim());
+    setName('');
+    setNaming(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+        <BookmarkIcon className="w-4 h-4" /> Style Presets <span className="text-gray-600 font-normal normal-case">({presets.length})</span>
+      </label>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {presets.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => onApply(preset)}
+              title={`${preset.frames.join(', ')} · ${preset.lighting.join(', ')} · ${preset.analysisVibe}`}
+              className={`text-[11px] px-3 py-1.5 rounded-full border transition-all ${
+                preset.id === activeId
+                  ? 'bg-yellow-500 text-black border-yellow-500 shadow-md'
+                  : 'bg-gray-800 text-gray-300 border-gray-700 hover:border-gray-500'
+              }`}
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {naming ? (
+        <div className="flex items-center gap-1.5">
+          <input
+            autoFocus
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') submit(); if (e.key === 'Escape') setNaming(false); }}
+            placeholder="e.g. Client A house style"
+            className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none"
+          />
+          <button onClick={submit} disabled={!name.trim()} className="bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-black text-[10px] font-bold rounded px-2 py-1.5">Save</button>
+          <button onClick={() => setNaming(false)} className="text-[10px] text-gray-400 hover:text-white px-1">Cancel</button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-3">
+          <button onClick={() => setNaming(true)} className="text-[10px] text-yellow-500 hover:text-yellow-400">+ Save current as preset</button>
+          {active && canEdit(active) && (
+            <>
+              <button onClick={() => onUpdate(active)} title={`Overwrite "${active.name}" with the current selection`} className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-white">
+                <ArrowDownTrayIcon className="w-3 h-3" /> Update "{active.name}"
+              </button>
+              <button onClick={() => onDelete(active)} title={`Delete "${active.name}"`} className="ml-auto text-gray-500 hover:text-red-400">
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StylePresetPicker;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { ArrowRightIcon, SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { FrameStyle, GenerationSettings, LightingStyle, MockupResult, PrintSize, WallTexture } from '../types';
+import type { VariationOverrides } from '../services/variants';
+
+const ASPECT_RATIOS: GenerationSettings['aspectRatio'][] = ['3:4', '1:1', '4:3', '16:9', '9:16'];
+
+type VariedField = keyof VariationOverrides;
+
+/** Modal that shows a result's recorded settings and generates a variant with a few of them changed */
+const VaryResultPanel: React.FC<{
+  result: MockupResult;
+  settings: GenerationSettings;
+  options: { frames: FrameStyle[]; lighting: LightingStyle[]; textures: WallTexture[]; printSizes: PrintSize[] };
+  onGenerate: (overrides: VariationOverrides) => void;
+  onClose: () => void;
+}> = ({ result, settings, options, onGenerate, onClose }) => {
+  const [overrides, setOverrides] = useState<VariationOverrides>({});
+
+  const fields: { key: VariedField; label: string; values: readonly string[] }[] = [
+    { key: 'frameStyle', label: 'Frame', values: options.frames },
+    { key: 'lighting', label: 'Lighting', values: options.lighting },
+    { key: 'wallTexture', label: 'Wall Texture', values: options.textures },
+    { key: 'printSize', label: 'Print Size', values: options.printSizes },
+    { key: 'aspectRatio', label: 'Aspect Ratio', values: ASPECT_RATIOS },
+  ];
+
+  const change = (key: VariedField, value: string) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      if (value === settings[key]) delete next[key];
+      else (next as Record<VariedField, string>)[key] = value;
+      return next;
+    });
+  };
+
+  const changed = Object.keys(overrides) as VariedField[];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+          <div className="min-w-0">
+            <h2 className="text-sm font-bold text-white">Vary this</h2>
+            <p className="text-[10px] text-gray-500 truncate">{result.prompt}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-5 space-y-3">
+          {fields.map(({ key, label, values }) => {
+            const value = overrides[key] ?? settings[key];
+            const isChanged = key in overrides;
+            return (
+              <div key={key} className="grid grid-cols-[6rem_1fr] items-center gap-3">
+                <label className="text-[10px] text-gray-500 uppercase">{label}</label>
+                <div className="flex items-center gap-2">
+                  {isChanged && (
+                    <>
+                      <span className="text-[11px] text-gray-500 line-through truncate">{settings[key]}</span>
+                      <ArrowRightIcon className="w-3 h-3 text-gray-600 shrink-0" />
+                    </>
+                  )}
+                  <select
+                    value={value}
+                    onChange={e => change(key, e.target.value)}
+                    className={`flex-1 min-w-0 bg-gray-800 border rounded p-1.5 text-xs ${isChanged ? 'border-yellow-500 text-yellow-300' : 'border-gray-700 text-gray-200'}`}
+                  >
+                    {values.map(v => <option key={v} value={v}>{v}</option>)}
+                  </select>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-4 border-t border-gray-800">
+          <span className="text-[10px] text-gray-500">
+            {changed.length === 0 ? 'Change a setting to make a variant' : `${changed.length} change${changed.length === 1 ? '' : 's'}; everything else stays the same`}
+          </span>
+          <button
+            onClick={() => onGenerate(overrides)}
+            disabled={changed.length === 0}
+            className="flex items-center gap-1.5 bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-black text-xs font-bold rounded-lg px-3 py-2"
+          >
+            <SparklesIcon className="w-4 h-4" /> Generate variant
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaryResultPanel;
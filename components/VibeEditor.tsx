@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { AnalysisVibe, CustomVibe, VibeProfile } from '../types';
+import { getVibeProfile } from '../services/promptEngine';
+
+const REALISM_LEVELS: VibeProfile['realismLevel'][] = ['pristine', 'lived-in', 'worn', 'gritty'];
+
+type ListField = 'imperfections' | 'atmospheric' | 'sceneDressing' | 'negatives';
+
+const LIST_FIELDS: { field: ListField; label: string; placeholder: string }[] = [
+  { field: 'imperfections', label: 'Imperfections', placeholder: 'e.g. faint scuffs along the skirting board' },
+  { field: 'atmospheric', label: 'Atmosphere', placeholder: 'e.g. steam drifting from a coffee cup' },
+  { field: 'sceneDressing', label: 'Scene Dressing', placeholder: 'e.g. a stack of surf magazines' },
+  { field: 'negatives', label: 'Avoid', placeholder: 'e.g. snow, christmas decorations' },
+];
+
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+/** Modal for defining a team vibe; list fields take one entry per line */
+const VibeEditor: React.FC<{
+  vibe: CustomVibe;
+  builtIns: AnalysisVibe[];
+  /** Whether the vibe already exists and this user may delete it */
+  canDelete: boolean;
+  onSave: (vibe: CustomVibe) => void;
+  onDelete: (vibe: CustomVibe) => void;
+  onClose: () => void;
+}> = ({ vibe, builtIns, canDelete, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<CustomVibe>(vibe);
+  // Lists are edited as text so blank lines survive while typing
+  const [lists, setLists] = useState<Record<ListField, string>>(() => ({
+    imperfections: toLines(vibe.imperfections),
+    atmospheric: toLines(vibe.atmospheric),
+    sceneDressing: toLines(vibe.sceneDressing),
+    negatives: toLines(vibe.negatives),
+  }));
+
+  const update = (changes: Partial<CustomVibe>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const startFrom = (builtIn: AnalysisVibe) => {
+    const { systemPrompt, imperfections, atmospheric, sceneDressing, realismLevel, ambientDetails, negatives } = getVibeProfile(builtIn);
+    update({ systemPrompt, realismLevel, ambientDetails });
+    setLists({
+      imperfections: toLines(imperfections),
+      atmospheric: toLines(atmospheric),
+      sceneDressing: toLines(sceneDressing),
+      negatives: toLines(negatives),
+    });
+  };
+
+  const name = draft.name.trim();
+  const clashes = builtIns.some(b => b.toLowerCase() === name.toLowerCase());
+  const canSave = name !== '' && !clashes && draft.systemPrompt.trim() !== '';
+
+  const save = () => onSave({
+    ...draft,
+    name,
+    systemPrompt: draft.systemPrompt.trim(),
+    ambientDetails: draft.ambientDetails.trim(),
+    imperfections: fromLines(lists.imperfections),
+    atmospheric: fromLines(lists.atmospheric),
+    sceneDressing: fromLines(lists.sceneDressing),
+    negatives: fromLines(lists.negatives),
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-full flex flex-col bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+          <h2 className="text-sm font-bold text-white">Custom vibe</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Name</label>
+              <input
+                value={draft.name}
+                onChange={e => update({ name: e.target.value })}
+                placeholder="e.g. Coastal Scandi"
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none"
+              />
+              {clashes && <p className="text-[10px] text-red-400 mt-1">That name belongs to a built-in vibe</p>}
+            </div>
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Start From</label>
+              <select
+                value=""
+                onChange={e => e.target.value && startFrom(e.target.value as AnalysisVibe)}
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs"
+              >
+                <option value="">Copy a built-in vibe…</option>
+                {builtIns.map(b => <option key={b} value={b}>{b}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-[10px] text-gray-500 mb-1 uppercase">Theme</label>
+            <textarea
+              value={draft.systemPrompt}
+              onChange={e => update({ systemPrompt: e.target.value })}
+              placeholder="e.g. Bright coastal homes: whitewashed timber, linen, driftwood and sea light."
+              className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none min-h-[80px] resize-none"
+            />
+            <p className="text-[10px] text-gray-500 mt-1">Tells the analysis which kinds of places and details to suggest.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Realism</label>
+              <select
+                value={draft.realismLevel}
+                onChange={e => update({ realismLevel: e.target.value as VibeProfile['realismLevel'] })}
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs"
+              >
+                {REALISM_LEVELS.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1 uppercase">Ambient Details</label>
+              <input
+                value={draft.ambientDetails}
+                onChange={e => update({ ambientDetails: e.target.value })}
+                placeholder="e.g. salt air, distant gulls"
+                className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {LIST_FIELDS.map(({ field, label, placeholder }) => (
+              <div key={field}>
+                <label className="block text-[10px] text-gray-500 mb-1 uppercase">{label}</label>
+                <textarea
+                  value={lists[field]}
+                  onChange={e => setLists(prev => ({ ...prev, [field]: e.target.value }))}
+                  placeholder={placeholder}
+                  className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-xs text-gray-200 focus:border-yellow-500 focus:outline-none min-h-[80px] resize-none"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-4 border-t border-gray-800">
+          {canDelete ? (
+            <button onClick={() => onDelete(draft)} title={`Delete "${draft.name}"`} className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-red-400">
+              <TrashIcon className="w-3.5 h-3.5" /> Delete
+            </button>
+          ) : <span />}
+          <button
+            onClick={save}
+            disabled={!canSave}
+            className="bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-black text-xs font-bold rounded-lg px-3 py-2"
+          >
+            Save vibe
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VibeEditor;
@@ -0,0 +1,19 @@
+-- Baseline: the table api/mockups.ts and api/mcp.ts have always written to.
+-- Safe to run against an existing database.
+CREATE TABLE IF NOT EXISTS mockup_results (
+  id TEXT PRIMARY KEY,
+  image_url TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  is_high_res BOOLEAN,
+  is_contact_sheet BOOLEAN,
+  extracted_from TEXT,
+  camera_angle TEXT,
+  variant_type TEXT,
+  aspect_ratio TEXT,
+  refined_from TEXT,
+  composite_base_url TEXT,
+  composite_artwork_url TEXT
+);
+
+CREATE INDEX IF NOT EXISTS mockup_results_created_at_idx ON mockup_results (created_at DESC);
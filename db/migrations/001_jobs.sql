@@ -0,0 +1,17 @@
+-- Background generation jobs, processed by api/worker.ts.
+CREATE TABLE IF NOT EXISTS jobs (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,                     -- mockup | composite | contactSheet | upscale
+  status TEXT NOT NULL DEFAULT 'queued',  -- queued | running | succeeded | failed | cancelled
+  label TEXT NOT NULL,
+  batch_id TEXT,
+  input JSONB NOT NULL,
+  result JSONB,                           -- MockupResult[] once succeeded
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  started_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS jobs_status_created_at_idx ON jobs (status, created_at);
@@ -0,0 +1,7 @@
+-- Small server-generated previews so the gallery can page without full images.
+-- Existing rows get one from POST /api/mockups/migrate-blobs (see DEPLOYMENT.md).
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+-- Keyset pagination orders by (created_at, id)
+CREATE INDEX IF NOT EXISTS mockup_results_created_at_id_idx ON mockup_results (created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS mockup_results_variant_type_idx ON mockup_results (variant_type, created_at DESC);
@@ -0,0 +1,13 @@
+-- Sync metadata for mockup_results.
+--   updated_at: client-stamped time of the last change; last write wins on conflict
+--   deleted_at: set on tombstones, which are kept so deletes reach other devices
+--   synced_at:  server time of the last write, so the /api/mockups/sync delta
+--               doesn't depend on client clocks
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS updated_at BIGINT;
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS deleted_at BIGINT;
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS synced_at BIGINT;
+
+UPDATE mockup_results SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE mockup_results SET synced_at = created_at WHERE synced_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS mockup_results_synced_at_idx ON mockup_results (synced_at, id);
@@ -0,0 +1,24 @@
+-- Team accounts. Passwords and tokens are stored hashed (see api/_lib/users.ts).
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,             -- stored lower-cased
+  name TEXT,
+  role TEXT NOT NULL DEFAULT 'member',    -- admin | member
+  password_hash TEXT,                     -- NULL until the invite is accepted
+  invite_token_hash TEXT,
+  invite_expires_at BIGINT,
+  api_key_hash TEXT,                      -- personal MCP key
+  disabled_at BIGINT,
+  created_at BIGINT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS users_invite_token_idx ON users (invite_token_hash) WHERE invite_token_hash IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS users_api_key_idx ON users (api_key_hash) WHERE api_key_hash IS NOT NULL;
+
+-- Rows from before accounts have no owner; the first admin claims them on first sign-in.
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS owner_id TEXT REFERENCES users (id);
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS owner_id TEXT REFERENCES users (id);
+
+CREATE INDEX IF NOT EXISTS mockup_results_owner_created_at_idx ON mockup_results (owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS mockup_results_owner_synced_at_idx ON mockup_results (owner_id, synced_at, id);
+CREATE INDEX IF NOT EXISTS jobs_owner_created_at_idx ON jobs (owner_id, created_at DESC);
@@ -0,0 +1,19 @@
+-- Projects group a client's or a product drop's mockups. Synced like
+-- mockup_results: last write wins on updated_at, deletes leave a tombstone.
+CREATE TABLE IF NOT EXISTS projects (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL REFERENCES users (id),
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  deleted_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS projects_owner_idx ON projects (owner_id, created_at);
+
+-- No foreign key: a device may sync a result before the project it was made in.
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS project_id TEXT;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS project_id TEXT;
+
+CREATE INDEX IF NOT EXISTS mockup_results_owner_project_idx ON mockup_results (owner_id, project_id, created_at DESC);
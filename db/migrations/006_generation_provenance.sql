@@ -0,0 +1,4 @@
+-- How each result was generated (settings, resolved prompt, model, source
+-- artwork reference, timestamp, retry count). See GenerationRecord in types.ts.
+-- Images inside the record are stored as sha256: blob references.
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS generation JSONB;
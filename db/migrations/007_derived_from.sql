@@ -0,0 +1,3 @@
+-- Results made with "regenerate" or "vary this" point at the original they
+-- were derived from, so the gallery can group variants together.
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS derived_from TEXT;
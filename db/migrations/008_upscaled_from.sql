@@ -0,0 +1,3 @@
+-- Upscales point at the result they enhanced, completing the lineage links
+-- (refined_from, extracted_from, derived_from) the gallery builds its tree from.
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS upscaled_from TEXT;
@@ -0,0 +1,19 @@
+-- Scene photos with saved placement regions, so composites can target
+-- "scene X, slot 2". Synced like projects: last write wins on updated_at,
+-- deletes leave a tombstone. The photo is a sha256: blob reference.
+CREATE TABLE IF NOT EXISTS scene_templates (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL REFERENCES users (id),
+  name TEXT NOT NULL,
+  image_url TEXT NOT NULL,
+  slots JSONB NOT NULL,
+  default_frame_style TEXT NOT NULL,
+  aspect_ratio TEXT,
+  notes TEXT,
+  project_id TEXT,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  deleted_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS scene_templates_owner_idx ON scene_templates (owner_id, created_at);
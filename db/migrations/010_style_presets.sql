@@ -0,0 +1,20 @@
+-- Named house styles (frames, lighting, textures, vibe, generation settings
+-- and a style reference) shared by the whole team. Synced like scene
+-- templates: last write wins on updated_at, deletes leave a tombstone. Only
+-- the creator or an admin may change a preset.
+CREATE TABLE IF NOT EXISTS style_presets (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL REFERENCES users (id),
+  name TEXT NOT NULL,
+  frames JSONB NOT NULL,
+  lighting JSONB NOT NULL,
+  textures JSONB NOT NULL,
+  analysis_vibe TEXT NOT NULL,
+  settings JSONB NOT NULL,
+  style_reference_image TEXT,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  deleted_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS style_presets_created_idx ON style_presets (created_at);
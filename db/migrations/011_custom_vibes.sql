@@ -0,0 +1,23 @@
+-- Team-defined vibes: the analysis theme plus the realism details and
+-- negatives every mockup in that vibe gets. Shared and synced like style
+-- presets; only the creator or an admin may change one.
+CREATE TABLE IF NOT EXISTS custom_vibes (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL REFERENCES users (id),
+  name TEXT NOT NULL,
+  system_prompt TEXT NOT NULL,
+  imperfections JSONB NOT NULL,
+  atmospheric JSONB NOT NULL,
+  scene_dressing JSONB NOT NULL,
+  realism_level TEXT NOT NULL,
+  ambient_details TEXT NOT NULL,
+  negatives JSONB NOT NULL,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  deleted_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS custom_vibes_created_idx ON custom_vibes (created_at);
+
+-- Presets can pick a custom vibe; analysis_vibe stays as the fallback
+ALTER TABLE style_presets ADD COLUMN IF NOT EXISTS custom_vibe_id TEXT;
@@ -0,0 +1,8 @@
+-- Commit-ordered sync feed. synced_at is stamped when a write starts, so a write
+-- that commits late can land behind a cursor that has already moved past it.
+-- sync_xid is the id of the transaction that last wrote the row; the feed only
+-- returns rows below the oldest transaction still running, which every later
+-- commit is above. Existing rows start at 0 and are sent once to catching-up clients.
+ALTER TABLE mockup_results ADD COLUMN IF NOT EXISTS sync_xid BIGINT NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS mockup_results_owner_sync_xid_idx ON mockup_results (owner_id, sync_xid, id);
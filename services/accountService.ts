@@ -0,0 +1,86 @@
+import type { SessionUser, TeamMember, UserRole } from '../types';
+
+const TOKEN_KEY = 'site_token';
+const USER_KEY = 'site_user';
+
+function authHeaders(): HeadersInit {
+  const token = localStorage.getItem(TOKEN_KEY);
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const body = await res.json();
+    return body.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Signs in (or accepts an invite) and stores the session */
+async function signIn(credentials: { email: string; password: string } | { inviteToken: string; password: string }): Promise<SessionUser> {
+  const res = await fetch('/api/auth', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(credentials),
+  });
+  if (!res.ok) throw new Error(await errorMessage(res, 'Sign-in failed'));
+  const { token, user } = await res.json();
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  return user;
+}
+
+/** Forgets the session; local data stays in the browser, kept apart per account */
+function signOut(): void {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+}
+
+function currentUser(): SessionUser | null {
+  try {
+    return JSON.parse(localStorage.getItem(USER_KEY) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+/** New personal key for the MCP endpoint; the previous one stops working */
+async function createMcpApiKey(): Promise<string> {
+  const res = await fetch('/api/auth', { method: 'PUT', headers: authHeaders() });
+  if (!res.ok) throw new Error(await errorMessage(res, 'Could not create key'));
+  const { apiKey } = await res.json();
+  return apiKey;
+}
+
+// --- Admin ---
+
+async function listTeam(): Promise<TeamMember[]> {
+  const res = await fetch('/api/users', { headers: authHeaders() });
+  if (!res.ok) throw new Error(await errorMessage(res, 'Could not load team'));
+  return res.json();
+}
+
+async function invite(email: string, role: UserRole, name?: string): Promise<{ user: TeamMember; inviteUrl: string }> {
+  const res = await fetch('/api/users', {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify({ email, role, name }),
+  });
+  if (!res.ok) throw new Error(await errorMessage(res, 'Invite failed'));
+  return res.json();
+}
+
+async function setDisabled(id: string, disabled: boolean): Promise<void> {
+  const res = await fetch('/api/users', {
+    method: 'PATCH',
+    headers: authHeaders(),
+    body: JSON.stringify({ id, disabled }),
+  });
+  if (!res.ok) throw new Error(await errorMessage(res, 'Update failed'));
+}
+
+export const accountService = { signIn, signOut, currentUser, createMcpApiKey, listTeam, invite, setDisabled };
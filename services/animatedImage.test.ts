@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { buildPalette, encodeGif, indexPixels, lzwEncode, muxAnimatedWebP } from './animatedImage';
+
+const pixels = (...rgb: [number, number, number][]) => new Uint8ClampedArray(rgb.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+/** Reference GIF LZW decoder, to check the encoder round-trips */
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const out: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bits = 0, bitCount = 0, i = 0;
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, c) => [c]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+  for (;;) {
+    while (bitCount < codeSize) { bits |= data[i++] << bitCount; bitCount += 8; }
+    const code = bits & ((1 << codeSize) - 1);
+    bits >>>= codeSize;
+    bitCount -= codeSize;
+    if (code === clearCode) { reset(); continue; }
+    if (code === clearCode + 1) return out;
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    out.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+}
+
+describe('GIF encoding', () => {
+  it('builds a palette holding each distinct colour', () => {
+    const palette = buildPalette([pixels([255, 0, 0], [0, 0, 255], [255, 0, 0])], 4);
+    const colours = Array.from({ length: palette.length / 3 }, (_, i) => Array.from(palette.slice(i * 3, i * 3 + 3)));
+    expect(colours).toContainEqual([255, 0, 0]);
+    expect(colours).toContainEqual([0, 0, 255]);
+  });
+
+  it('maps pixels to their nearest palette colour', () => {
+    const palette = Uint8Array.from([0, 0, 0, 250, 250, 250]);
+    expect(Array.from(indexPixels(pixels([10, 5, 0], [240, 255, 230]), palette))).toEqual([0, 1]);
+  });
+
+  it('LZW-compresses losslessly, including past a full code table', () => {
+    const indices = Uint8Array.from({ length: 20000 }, (_, i) => (i * 7 + (i >> 5)) % 256);
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual(Array.from(indices));
+    const runs = Uint8Array.from({ length: 5000 }, (_, i) => (i >> 8) & 3);
+    expect(lzwDecode(lzwEncode(runs, 8), 8)).toEqual(Array.from(runs));
+  });
+
+  it('writes a looping GIF89a with one image per frame', () => {
+    const frame = pixels([255, 0, 0], [0, 255, 0], [0, 0, 255], [255, 255, 255]);
+    const gif = encodeGif([frame, frame, frame], 2, 2, 80);
+    expect(String.fromCharCode(...gif.slice(0, 6))).toBe('GIF89a');
+    expect([gif[6], gif[8]]).toEqual([2, 2]);
+    expect(String.fromCharCode(...gif.slice(13 + 768 + 3, 13 + 768 + 14))).toBe('NETSCAPE2.0');
+    expect(gif.filter((b, i) => b === 0x21 && gif[i + 1] === 0xf9).length).toBe(3);
+    // 80 ms is 8 hundredths
+    const control = gif.findIndex((b, i) => b === 0x21 && gif[i + 1] === 0xf9);
+    expect(gif[control + 4]).toBe(8);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+
+  it('rejects frames of the wrong size', () => {
+    expect(() => encodeGif([pixels([0, 0, 0])], 2, 2, 100)).toThrow('width × height');
+  });
+});
+
+describe('muxAnimatedWebP', () => {
+  const chunk = (fourCC: string, payload: number[]) => {
+    const padded = payload.length % 2 ? [...payload, 0] : payload;
+    return [...fourCC].map(c => c.charCodeAt(0)).concat([payload.length, 0, 0, 0], padded);
+  };
+  const still = (...chunks: number[][]) => {
+    const body = [...'WEBP'].map(c => c.charCodeAt(0)).concat(...chunks);
+    return Uint8Array.from([...'RIFF'].map(c => c.charCodeAt(0)).concat([body.length & 0xff, body.length >> 8, 0, 0], body));
+  };
+  const fourCCs = (file: Uint8Array) => {
+    const found: string[] = [];
+    for (let offset = 12; offset < file.length;) {
+      const fourCC = String.fromCharCode(...file.slice(offset, offset + 4));
+      found.push(fourCC);
+      const size = file[offset + 4] | (file[offset + 5] << 8) | (file[offset + 6] << 16);
+      offset += 8 + (fourCC === 'ANMF' ? 16 : size + (size & 1));
+    }
+    return found;
+  };
+
+  it('wraps each still\'s image data in an animation frame', () => {
+    const lossy = still(chunk('VP8 ', [1, 2, 3]));
+    const withAlpha = still(chunk('VP8X', Array(10).fill(0)), chunk('ALPH', [9, 9]), chunk('VP8 ', [4, 5, 6, 7]));
+    const webp = muxAnimatedWebP([lossy, withAlpha], 640, 480, 66.7);
+
+    expect(String.fromCharCode(...webp.slice(0, 4), ...webp.slice(8, 12))).toBe('RIFFWEBP');
+    expect(webp[4] | (webp[5] << 8)).toBe(webp.length - 8);
+    expect(fourCCs(webp)).toEqual(['VP8X', 'ANIM', 'ANMF', 'VP8 ', 'ANMF', 'ALPH', 'VP8 ']);
+    // Animation and alpha flags, canvas 640 × 480 stored minus one
+    expect(webp[20]).toBe(0x12);
+    expect(webp[24] | (webp[25] << 8)).toBe(639);
+    expect(webp[27] | (webp[28] << 8)).toBe(479);
+    // First frame: 16 header bytes plus the padded 12-byte VP8 chunk; 67 ms
+    const anmf = 12 + 18 + 14;
+    expect(webp[anmf + 4]).toBe(16 + 12);
+    expect(webp[anmf + 20]).toBe(67);
+  });
+
+  it('rejects files that are not WebP or have no image data', () => {
+    expect(() => muxAnimatedWebP([Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0, 0, 0, 0, 0])], 1, 1, 100)).toThrow('Not a WebP');
+    expect(() => muxAnimatedWebP([still(chunk('ALPH', [1, 2]))], 1, 1, 100)).toThrow('no image data');
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Animated GIF and WebP files built from rendered frames, entirely in the
+ * browser. Pure byte work with no DOM: GIF frames arrive as RGBA pixels and
+ * are quantised and LZW-compressed here; WebP frames arrive as still WebP
+ * files (the canvas encodes those) and are muxed into one animation.
+ */
+
+// ---------------------------------------------------------------- GIF
+
+const GIF_COLORS = 256;
+// Pixels sampled across all frames to build the shared palette
+const PALETTE_SAMPLES = 65536;
+
+/**
+ * Shared palette for `frames` (RGBA), by median cut over a sample of their
+ * pixels: the box with the widest channel is split at its median until there
+ * are `maxColors` boxes, and each box's average becomes a colour. Returns
+ * packed RGB triples.
+ */
+export function buildPalette(frames: Uint8ClampedArray[], maxColors = GIF_COLORS): Uint8Array {
+  const totalPixels = frames.reduce((sum, f) => sum + f.length / 4, 0);
+  const stride = Math.max(1, Math.floor(totalPixels / PALETTE_SAMPLES));
+  const samples: number[][] = [];
+  let seen = 0;
+  for (const frame of frames) {
+    for (let i = 0; i < frame.length; i += 4, seen++) {
+      if (seen % stride === 0) samples.push([frame[i], frame[i + 1], frame[i + 2]]);
+    }
+  }
+  if (samples.length === 0) return new Uint8Array(3);
+
+  const range = (box: number[][], c: number) => {
+    let min = 255, max = 0;
+    for (const p of box) { if (p[c] < min) min = p[c]; if (p[c] > max) max = p[c]; }
+    return max - min;
+  };
+
+  const boxes = [samples];
+  while (boxes.length < maxColors) {
+    let widest = -1, channel = 0, best = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        const r = range(box, c);
+        if (r > best) { best = r; widest = i; channel = c; }
+      }
+    });
+    if (widest < 0) break;
+    const box = boxes[widest].sort((a, b) => a[channel] - b[channel]);
+    const mid = box.length >> 1;
+    boxes.splice(widest, 1, box.slice(0, mid), box.slice(mid));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, i) => {
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(box.reduce((sum, p) => sum + p[c], 0) / box.length);
+  });
+  return palette;
+}
+
+/**
+ * Palette index of every pixel in `rgba`. Nearest colours are cached per
+ * 15-bit colour, so a frame costs a lookup per pixel rather than a search.
+ */
+export function indexPixels(rgba: Uint8ClampedArray, palette: Uint8Array, cache = new Int16Array(1 << 15).fill(-1)): Uint8Array {
+  const indices = new Uint8Array(rgba.length / 4);
+  const colors = palette.length / 3;
+  for (let i = 0, p = 0; i < rgba.length; i += 4, p++) {
+    const r = rgba[i], g = rgba[i + 1], b = rgba[i + 2];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    let index = cache[key];
+    if (index < 0) {
+      let bestDistance = Infinity;
+      for (let c = 0; c < colors; c++) {
+        const dr = r - palette[c * 3], dg = g - palette[c * 3 + 1], db = b - palette[c * 3 + 2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) { bestDistance = distance; index = c; }
+      }
+      cache[key] = index;
+    }
+    indices[p] = index;
+  }
+  return indices;
+}
+
+/** GIF-flavoured LZW: variable code width from minCodeSize + 1 up to 12 bits, clearing when the table fills */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bits = 0, bitCount = 0;
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    if (bitCount > 0) out.push(bits & 0xff);
+    return Uint8Array.from(out);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 4096) {
+      table.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) out.push(bits & 0xff);
+  return Uint8Array.from(out);
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+  byte(...values: number[]) { this.bytes.push(...values); }
+  u16(value: number) { this.bytes.push(value & 0xff, (value >> 8) & 0xff); }
+  u24(value: number) { this.bytes.push(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff); }
+  u32(value: number) { this.u16(value & 0xffff); this.u16(value >>> 16); }
+  ascii(text: string) { for (const ch of text) this.bytes.push(ch.charCodeAt(0)); }
+  data(values: Uint8Array) { for (let i = 0; i < values.length; i++) this.bytes.push(values[i]); }
+  get length() { return this.bytes.length; }
+  result() { return Uint8Array.from(this.bytes); }
+}
+
+/**
+ * Looping animated GIF of same-sized RGBA `frames`, each shown for
+ * `delayMs` (GIF delays are in hundredths of a second). One palette is shared
+ * by every frame so colours don't shimmer between them.
+ */
+export function encodeGif(frames: Uint8ClampedArray[], width: number, height: number, delayMs: number): Uint8Array {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  if (frames.some(f => f.length !== width * height * 4)) throw new Error('Frames must all be width × height');
+
+  const palette = new Uint8Array(GIF_COLORS * 3);
+  palette.set(buildPalette(frames));
+  const cache = new Int16Array(1 << 15).fill(-1);
+  const delay = Math.max(2, Math.round(delayMs / 10));
+
+  const out = new ByteWriter();
+  out.ascii('GIF89a');
+  out.u16(width);
+  out.u16(height);
+  out.byte(0xf7, 0, 0); // global table of 256 colours, background 0, square pixels
+  out.data(palette);
+  // NETSCAPE2.0 extension: loop forever
+  out.byte(0x21, 0xff, 0x0b);
+  out.ascii('NETSCAPE2.0');
+  out.byte(0x03, 0x01, 0x00, 0x00, 0x00);
+
+  for (const frame of frames) {
+    out.byte(0x21, 0xf9, 0x04, 0x04); // graphic control: leave the frame in place
+    out.u16(delay);
+    out.byte(0x00, 0x00);
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(width);
+    out.u16(height);
+    out.byte(0x00);
+    out.byte(8);
+    const compressed = lzwEncode(indexPixels(frame, palette, cache), 8);
+    for (let i = 0; i < compressed.length; i += 255) {
+      const block = compressed.subarray(i, i + 255);
+      out.byte(block.length);
+      out.data(block);
+    }
+    out.byte(0x00);
+  }
+  out.byte(0x3b);
+  return out.result();
+}
+
+// ---------------------------------------------------------------- WebP
+
+interface RiffChunk {
+  fourCC: string;
+  /** The whole chunk: header, payload and padding byte */
+  bytes: Uint8Array;
+}
+
+function readChunks(file: Uint8Array): RiffChunk[] {
+  const text = (offset: number) => String.fromCharCode(...file.subarray(offset, offset + 4));
+  if (file.length < 12 || text(0) !== 'RIFF' || text(8) !== 'WEBP') throw new Error('Not a WebP image');
+  const chunks: RiffChunk[] = [];
+  for (let offset = 12; offset + 8 <= file.length;) {
+    const size = file[offset + 4] | (file[offset + 5] << 8) | (file[offset + 6] << 16) | (file[offset + 7] << 24);
+    const end = offset + 8 + size + (size & 1);
+    chunks.push({ fourCC: text(offset), bytes: file.subarray(offset, Math.min(end, file.length)) });
+    offset = end;
+  }
+  return chunks;
+}
+
+/**
+ * Looping animated WebP from still WebP files of one `width` × `height`,
+ * each shown for `delayMs`. Each still's image data (VP8 or VP8L, plus any
+ * alpha) becomes one ANMF frame behind a VP8X header with the animation flag.
+ */
+export function muxAnimatedWebP(stills: Uint8Array[], width: number, height: number, delayMs: number): Uint8Array {
+  if (stills.length === 0) throw new Error('No frames to encode');
+  const frames = stills.map(still => readChunks(still).filter(c => c.fourCC === 'ALPH' || c.fourCC === 'VP8 ' || c.fourCC === 'VP8L'));
+  if (frames.some(chunks => !chunks.some(c => c.fourCC !== 'ALPH'))) throw new Error('WebP frame has no image data');
+  const hasAlpha = frames.some(chunks => chunks.some(c => c.fourCC === 'ALPH' || c.fourCC === 'VP8L'));
+
+  const body = new ByteWriter();
+  body.ascii('WEBP');
+  body.ascii('VP8X');
+  body.u32(10);
+  body.byte(0x02 | (hasAlpha ? 0x10 : 0), 0, 0, 0);
+  body.u24(width - 1);
+  body.u24(height - 1);
+  body.ascii('ANIM');
+  body.u32(6);
+  body.u32(0); // background colour
+  body.u16(0); // loop forever
+
+  for (const chunks of frames) {
+    const size = 16 + chunks.reduce((sum, c) => sum + c.bytes.length, 0);
+    body.ascii('ANMF');
+    body.u32(size);
+    body.u24(0);
+    body.u24(0);
+    body.u24(width - 1);
+    body.u24(height - 1);
+    body.u24(Math.round(delayMs));
+    body.byte(0x02); // no blending: every frame is opaque and complete
+    for (const chunk of chunks) body.data(chunk.bytes);
+  }
+
+  const out = new ByteWriter();
+  out.ascii('RIFF');
+  out.u32(body.length);
+  out.data(body.result());
+  return out.result();
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import type { ArtworkPreprocessing } from '../types';
+import { DEFAULT_PREPROCESS_OPTIONS, describePreprocessing, detectBorder, detectRatio, inspectImageHeader, planPreprocessing } from './artworkPreprocessing';
+
+const bytes = (...parts: (number[] | string)[]) =>
+  new Uint8Array(parts.flatMap(part => typeof part === 'string' ? [...part].map(c => c.charCodeAt(0)) : part));
+
+/** SOI, an optional APP2 ICC segment, then a start-of-frame with `components` channels */
+const jpeg = (components: number, icc?: string) => bytes(
+  [0xff, 0xd8],
+  ...(icc ? [[0xff, 0xe2, 0, 2 + 12 + icc.length], 'ICC_PROFILE', [0], icc] : []),
+  [0xff, 0xc0, 0, 8 + 3 * components, 8, 0, 10, 0, 10, components],
+  [0xff, 0xda, 0, 2]
+);
+
+const png = (bitDepth: number, colorType: number, ...chunks: string[]) => bytes(
+  [0x89], 'PNG', [0x0d, 0x0a, 0x1a, 0x0a],
+  [0, 0, 0, 13], 'IHDR', [0, 0, 0, 10, 0, 0, 0, 10, bitDepth, colorType, 0, 0, 0], [0, 0, 0, 0],
+  ...chunks.flatMap(type => [[0, 0, 0, 0], type, [0, 0, 0, 0]]),
+  [0, 0, 0, 0], 'IDAT', [0, 0, 0, 0]
+);
+
+/** White canvas with a dark `inner` rectangle, like a print on a scanner bed */
+function scan(width: number, height: number, inner: { x: number; y: number; w: number; h: number }) {
+  const data = new Uint8Array(width * height * 4).fill(255);
+  for (let y = inner.y; y < inner.y + inner.h; y++) {
+    for (let x = inner.x; x < inner.x + inner.w; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = 40 + (x % 7) * 20;
+      data[i + 1] = 60;
+      data[i + 2] = 90 + (y % 5) * 20;
+    }
+  }
+  return { data, width, height };
+}
+
+const source = (changes: Partial<ArtworkPreprocessing['source']> = {}): ArtworkPreprocessing['source'] => ({
+  width: 2000, height: 2500, format: 'jpeg', bytes: 1000, colorModel: 'rgb', bitDepth: 8, hasAlpha: false, colorProfile: 'none', ...changes,
+});
+
+describe('inspectImageHeader', () => {
+  it('reads colour model, depth and profile from JPEG and PNG headers', () => {
+    expect(inspectImageHeader(jpeg(4))).toMatchObject({ format: 'jpeg', colorModel: 'cmyk', bitDepth: 8, colorProfile: 'none' });
+    expect(inspectImageHeader(jpeg(3, 'desc sRGB IEC61966-2.1')).colorProfile).toBe('sRGB');
+    expect(inspectImageHeader(jpeg(3, 'desc Adobe RGB (1998)')).colorProfile).toBe('other');
+
+    expect(inspectImageHeader(png(16, 2))).toMatchObject({ format: 'png', colorModel: 'rgb', bitDepth: 16, hasAlpha: false });
+    expect(inspectImageHeader(png(8, 6)).hasAlpha).toBe(true);
+    expect(inspectImageHeader(png(8, 3, 'tRNS'))).toMatchObject({ colorModel: 'indexed', hasAlpha: true });
+    expect(inspectImageHeader(bytes('GIF89a', [0, 0, 0, 0, 0, 0, 0, 0, 0, 0])).format).toBe('unknown');
+  });
+});
+
+describe('detectBorder', () => {
+  it('finds scanner margins, including on only some sides', () => {
+    expect(detectBorder(scan(100, 80, { x: 10, y: 5, w: 70, h: 60 }))).toEqual({ top: 5, right: 20, bottom: 15, left: 10 });
+    expect(detectBorder(scan(100, 80, { x: 0, y: 0, w: 90, h: 80 }))).toEqual({ top: 0, right: 10, bottom: 0, left: 0 });
+  });
+
+  it('leaves full-bleed and uniform images alone', () => {
+    expect(detectBorder(scan(50, 50, { x: 0, y: 0, w: 50, h: 50 }))).toBeNull();
+    expect(detectBorder(scan(50, 50, { x: 0, y: 0, w: 0, h: 0 }))).toBeNull();
+  });
+});
+
+describe('detectRatio', () => {
+  it('snaps near-standard ratios and keeps others as measured', () => {
+    expect(detectRatio(2480, 3508)).toEqual({ ratio: 1 / Math.SQRT2, name: 'ISO A (1:√2)' });
+    expect(detectRatio(3508, 2480).name).toBe('ISO A (√2:1)');
+    expect(detectRatio(1601, 2000)).toEqual({ ratio: 0.8, name: '4:5' });
+    expect(detectRatio(2100, 1400).name).toBe('3:2');
+    expect(detectRatio(1234, 1000)).toEqual({ ratio: 1.234 });
+  });
+});
+
+describe('planPreprocessing', () => {
+  it('passes a small sRGB JPEG through untouched', () => {
+    const plan = planPreprocessing(source(), DEFAULT_PREPROCESS_OPTIONS, { border: null, alphaUsed: false });
+    expect(plan.output).toEqual({ width: 2000, height: 2500, mimeType: 'image/jpeg', reencoded: false });
+    expect(plan).toMatchObject({ aspectRatio: 0.8, ratioName: '4:5', conversions: [] });
+    expect(plan.trim).toBeUndefined();
+    expect(plan.downscale).toBeUndefined();
+  });
+
+  it('trims, downscales, converts and adds bleed in order', () => {
+    const plan = planPreprocessing(
+      source({ width: 6200, height: 8000, colorModel: 'cmyk', bitDepth: 16 }),
+      { maxEdge: 3000, autoTrim: true, bleedPercent: 2 },
+      { border: { top: 200, right: 100, bottom: 300, left: 100 }, alphaUsed: false }
+    );
+    expect(plan.trim).toMatchObject({ top: 200, left: 100 });
+    expect(plan.aspectRatio).toBe(0.8);
+    expect(plan.downscale).toEqual({ maxEdge: 3000, scale: 0.4 });
+    expect(plan.conversions).toEqual(['CMYK → sRGB', '16-bit → 8-bit']);
+    expect(plan.bleed).toEqual({ percent: 2, pixels: 60 });
+    expect(plan.output).toEqual({ width: 2520, height: 3120, mimeType: 'image/jpeg', reencoded: true });
+    expect(describePreprocessing(plan)).toEqual([
+      'Trimmed border (200/100/300/100px)',
+      'Downscaled 6200×8000 → 2400×3000',
+      'CMYK → sRGB',
+      '16-bit → 8-bit',
+      'Ratio 4:5',
+      '2% bleed (60px)',
+    ]);
+  });
+
+  it('keeps transparency as PNG and drops an unused alpha channel', () => {
+    const transparent = planPreprocessing(source({ format: 'webp', hasAlpha: true }), DEFAULT_PREPROCESS_OPTIONS, { border: null, alphaUsed: true });
+    expect(transparent.output.mimeType).toBe('image/png');
+    expect(transparent.conversions).toEqual(['WebP → PNG']);
+
+    const opaque = planPreprocessing(source({ format: 'png', hasAlpha: true }), DEFAULT_PREPROCESS_OPTIONS, { border: null, alphaUsed: false });
+    expect(opaque.output).toMatchObject({ mimeType: 'image/jpeg', reencoded: true });
+    expect(opaque.conversions).toEqual(['Unused alpha channel dropped']);
+  });
+
+  it('ignores a found border when auto-trim is off', () => {
+    const plan = planPreprocessing(source(), { ...DEFAULT_PREPROCESS_OPTIONS, autoTrim: false }, { border: { top: 10, right: 0, bottom: 0, left: 0 }, alphaUsed: false });
+    expect(plan.trim).toBeUndefined();
+    expect(plan.output.reencoded).toBe(false);
+  });
+});
@@ -0,0 +1,337 @@
+import type { ArtworkPreprocessing, ArtworkPreprocessOptions } from '../types';
+
+/**
+ * Prepares an uploaded artwork before generation: reads what the file is from
+ * its header, trims scanner borders, measures the ratio, downscales, converts
+ * to an 8-bit sRGB JPEG (or PNG when it has transparency) and optionally adds
+ * a bleed. Files that need none of that are passed through untouched. Every
+ * decision is returned as an ArtworkPreprocessing record for the results.
+ */
+
+export type ImageHeader = Pick<ArtworkPreprocessing['source'], 'format' | 'colorModel' | 'bitDepth' | 'hasAlpha' | 'colorProfile'>;
+
+/** Pixels cropped off each side */
+export interface Border {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+interface Raster {
+  /** RGBA, row-major, like ImageData */
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** The models gain nothing from larger inputs; they're tiled down server-side anyway */
+export const DEFAULT_PREPROCESS_OPTIONS: ArtworkPreprocessOptions = { maxEdge: 3072, autoTrim: true, bleedPercent: 0 };
+
+export const ACCEPTED_ARTWORK_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+
+/** Largest channel difference (0-255) still counted as the border colour */
+export const TRIM_TOLERANCE = 24;
+/** Share of a line that must be border colour, so dust and scan noise don't stop the trim */
+const BORDER_LINE_SHARE = 0.98;
+/** A trim leaving less than this share of either side is the artwork itself being uniform, not a border */
+const MIN_REMAINING_SHARE = 0.2;
+/** Longest edge of the copy borders and transparency are detected on */
+export const ANALYSIS_EDGE = 1024;
+/** Relative difference within which a measured ratio snaps to a standard one */
+const RATIO_TOLERANCE = 0.005;
+const JPEG_QUALITY = 0.92;
+
+// --- File headers ---
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/** Whether "sRGB" appears in the range, as ASCII (ICC v2 descriptions) or UTF-16 (v4) */
+function namesSrgb(bytes: Uint8Array, start: number, end: number): boolean {
+  const codes = [0x73, 0x52, 0x47, 0x42];
+  for (let at = start; at < Math.min(end, bytes.length); at++) {
+    if (codes.every((c, i) => bytes[at + i] === c)) return true;
+    if (codes.every((c, i) => bytes[at + 2 * i] === 0 && bytes[at + 2 * i + 1] === c)) return true;
+  }
+  return false;
+}
+
+const uint16 = (bytes: Uint8Array, at: number) => (bytes[at] << 8) | bytes[at + 1];
+const uint32 = (bytes: Uint8Array, at: number) => ((bytes[at] << 24) >>> 0) + (bytes[at + 1] << 16) + (bytes[at + 2] << 8) + bytes[at + 3];
+
+// Start-of-frame markers carry the component count; C4, C8 and CC are other segments
+const JPEG_SOF = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+function jpegHeader(bytes: Uint8Array): ImageHeader {
+  const header: ImageHeader = { format: 'jpeg', colorModel: 'unknown', hasAlpha: false, colorProfile: 'none' };
+  let at = 2;
+  while (at + 4 <= bytes.length && bytes[at] === 0xff) {
+    const marker = bytes[at + 1];
+    const length = uint16(bytes, at + 2);
+    if (marker === 0xda) break; // start of scan: the image data follows
+    if (marker === 0xe2 && ascii(bytes, at + 4, 11) === 'ICC_PROFILE') {
+      // The profile's description tag names it; cameras and editors mostly embed sRGB
+      header.colorProfile = namesSrgb(bytes, at + 4, at + 2 + length) ? 'sRGB' : 'other';
+    }
+    if (JPEG_SOF.has(marker)) {
+      header.bitDepth = bytes[at + 4];
+      const components = bytes[at + 9];
+      header.colorModel = components === 4 ? 'cmyk' : components === 1 ? 'grayscale' : components === 3 ? 'rgb' : 'unknown';
+    }
+    at += 2 + length;
+  }
+  return header;
+}
+
+const PNG_COLOR_TYPES: Record<number, ImageHeader['colorModel']> = { 0: 'grayscale', 2: 'rgb', 3: 'indexed', 4: 'grayscale', 6: 'rgb' };
+
+function pngHeader(bytes: Uint8Array): ImageHeader {
+  const colorType = bytes[25];
+  const header: ImageHeader = {
+    format: 'png',
+    colorModel: PNG_COLOR_TYPES[colorType] ?? 'unknown',
+    bitDepth: bytes[24],
+    hasAlpha: colorType === 4 || colorType === 6,
+    colorProfile: 'none',
+  };
+  let at = 8;
+  while (at + 8 <= bytes.length) {
+    const length = uint32(bytes, at);
+    const type = ascii(bytes, at + 4, 4);
+    if (type === 'IDAT' || type === 'IEND') break;
+    if (type === 'tRNS') header.hasAlpha = true;
+    // Only the profile's name is readable without inflating it
+    if (type === 'iCCP') header.colorProfile = namesSrgb(bytes, at + 8, at + 8 + Math.min(length, 80)) ? 'sRGB' : 'other';
+    if (type === 'sRGB') header.colorProfile = 'sRGB';
+    at += 12 + length;
+  }
+  return header;
+}
+
+function webpHeader(bytes: Uint8Array): ImageHeader {
+  // Only the extended format says up front whether there's alpha or a profile
+  const extended = ascii(bytes, 12, 4) === 'VP8X';
+  const flags = extended ? bytes[20] : 0;
+  return { format: 'webp', colorModel: 'rgb', bitDepth: 8, hasAlpha: (flags & 0x10) !== 0, colorProfile: flags & 0x20 ? 'other' : 'none' };
+}
+
+/** What kind of image a file is, from its first bytes; decoding is left to the browser */
+export function inspectImageHeader(bytes: Uint8Array): ImageHeader {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return jpegHeader(bytes);
+  if (ascii(bytes, 1, 3) === 'PNG' && ascii(bytes, 12, 4) === 'IHDR') return pngHeader(bytes);
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return webpHeader(bytes);
+  return { format: 'unknown', colorModel: 'unknown', hasAlpha: false, colorProfile: 'none' };
+}
+
+// --- Pixels ---
+
+/** Whether any pixel is less than fully opaque */
+export function hasTransparency(image: Raster): boolean {
+  for (let i = 3; i < image.data.length; i += 4) if (image.data[i] < 255) return true;
+  return false;
+}
+
+/**
+ * Uniform margins around the artwork, such as a scanner bed showing around a
+ * print. Each side is trimmed while its lines stay the colour of its outermost
+ * line, so a border on only some sides is found too. Null when there's none.
+ */
+export function detectBorder(image: Raster, tolerance = TRIM_TOLERANCE): Border | null {
+  const { data, width, height } = image;
+
+  // Walks inward from one side; `pixel(line, i)` is the i-th pixel of the line-th line in from that side
+  const scan = (lines: number, length: number, pixel: (line: number, i: number) => number): number => {
+    const reference = [0, 0, 0, 0];
+    for (let i = 0; i < length; i++) {
+      const p = pixel(0, i);
+      for (let c = 0; c < 4; c++) reference[c] += data[p + c] / length;
+    }
+    let line = 0;
+    for (; line < lines; line++) {
+      let matching = 0;
+      for (let i = 0; i < length; i++) {
+        const p = pixel(line, i);
+        if (Math.abs(data[p] - reference[0]) <= tolerance && Math.abs(data[p + 1] - reference[1]) <= tolerance
+          && Math.abs(data[p + 2] - reference[2]) <= tolerance && Math.abs(data[p + 3] - reference[3]) <= tolerance) matching++;
+      }
+      if (matching < length * BORDER_LINE_SHARE) break;
+    }
+    return line;
+  };
+
+  const top = scan(height, width, (line, i) => (line * width + i) * 4);
+  const bottom = scan(height, width, (line, i) => ((height - 1 - line) * width + i) * 4);
+  const left = scan(width, height, (line, i) => (i * width + line) * 4);
+  const right = scan(width, height, (line, i) => (i * width + width - 1 - line) * 4);
+
+  if (top + bottom + left + right === 0) return null;
+  if (width - left - right < width * MIN_REMAINING_SHARE || height - top - bottom < height * MIN_REMAINING_SHARE) return null;
+  return { top, right, bottom, left };
+}
+
+// --- Ratio ---
+
+/** Portrait forms as [width, height, name]; landscape forms are derived */
+const PORTRAIT_RATIOS: [number, number, string][] = [
+  [1, 1, '1:1'],
+  [4, 5, '4:5'],
+  [3, 4, '3:4'],
+  [2, 3, '2:3'],
+  [5, 7, '5:7'],
+  [11, 14, '11:14'],
+  [1, Math.SQRT2, 'ISO A (1:√2)'],
+  [9, 16, '9:16'],
+  [1, 2, '1:2'],
+];
+
+const STANDARD_RATIOS: [number, string][] = PORTRAIT_RATIOS.flatMap(([w, h, name]): [number, string][] => w === h
+  ? [[1, name]]
+  : [[w / h, name], [h / w, name.includes('√2') ? 'ISO A (√2:1)' : name.split(':').reverse().join(':')]]);
+
+/** The artwork's width/height, snapped to a standard print ratio when it's within a pixel or two of one */
+export function detectRatio(width: number, height: number): { ratio: number; name?: string } {
+  const measured = width / height;
+  let best: [number, string] | null = null;
+  for (const standard of STANDARD_RATIOS) {
+    const off = Math.abs(measured - standard[0]) / standard[0];
+    if (off <= RATIO_TOLERANCE && (!best || off < Math.abs(measured - best[0]) / best[0])) best = standard;
+  }
+  return best ? { ratio: best[0], name: best[1] } : { ratio: measured };
+}
+
+// --- Plan ---
+
+/**
+ * Decides every step from the file's header, its size and what was found in
+ * its pixels; `border` is in source pixels. Re-encoding happens only when a
+ * step changes the pixels or the file isn't a plain 8-bit sRGB JPEG or PNG.
+ */
+export function planPreprocessing(
+  source: ArtworkPreprocessing['source'],
+  options: ArtworkPreprocessOptions,
+  found: { border: Border | null; alphaUsed: boolean }
+): ArtworkPreprocessing {
+  const trim = options.autoTrim && found.border ? { ...found.border, tolerance: TRIM_TOLERANCE } : undefined;
+  const cropWidth = source.width - (trim ? trim.left + trim.right : 0);
+  const cropHeight = source.height - (trim ? trim.top + trim.bottom : 0);
+  const { ratio, name } = detectRatio(cropWidth, cropHeight);
+
+  const longest = Math.max(cropWidth, cropHeight);
+  const scale = longest > options.maxEdge ? options.maxEdge / longest : 1;
+  const width = Math.max(1, Math.round(cropWidth * scale));
+  const height = Math.max(1, Math.round(cropHeight * scale));
+
+  const conversions: string[] = [];
+  if (source.colorModel === 'cmyk') conversions.push('CMYK → sRGB');
+  if (source.bitDepth && source.bitDepth > 8) conversions.push(`${source.bitDepth}-bit → 8-bit`);
+  if (source.colorProfile === 'other') conversions.push('Embedded colour profile → sRGB');
+  if (source.hasAlpha && !found.alphaUsed) conversions.push('Unused alpha channel dropped');
+  if (source.format === 'webp' || source.format === 'unknown') conversions.push(`${source.format === 'webp' ? 'WebP' : 'Unknown format'} → ${found.alphaUsed ? 'PNG' : 'JPEG'}`);
+
+  const pixels = Math.round((options.bleedPercent / 100) * Math.max(width, height));
+  const bleed = pixels > 0 ? { percent: options.bleedPercent, pixels } : undefined;
+
+  const reencoded = conversions.length > 0 || !!trim || scale < 1 || !!bleed;
+  const mimeType = reencoded
+    ? found.alphaUsed ? 'image/png' : 'image/jpeg'
+    : source.format === 'png' ? 'image/png' : 'image/jpeg';
+
+  return {
+    source,
+    trim,
+    downscale: scale < 1 ? { maxEdge: options.maxEdge, scale: Math.round(scale * 10000) / 10000 } : undefined,
+    conversions,
+    output: { width: width + 2 * pixels, height: height + 2 * pixels, mimeType, reencoded },
+    aspectRatio: ratio,
+    ratioName: name,
+    bleed,
+  };
+}
+
+/** One short line per step that changed something, for showing under the upload */
+export function describePreprocessing(p: ArtworkPreprocessing): string[] {
+  const lines: string[] = [];
+  if (p.trim) lines.push(`Trimmed border (${p.trim.top}/${p.trim.right}/${p.trim.bottom}/${p.trim.left}px)`);
+  if (p.downscale) lines.push(`Downscaled ${p.source.width}×${p.source.height} → ${p.output.width - 2 * (p.bleed?.pixels ?? 0)}×${p.output.height - 2 * (p.bleed?.pixels ?? 0)}`);
+  lines.push(...p.conversions);
+  lines.push(`Ratio ${p.ratioName ?? `${p.aspectRatio.toFixed(3)}:1`}`);
+  if (p.bleed) lines.push(`${p.bleed.percent}% bleed (${p.bleed.pixels}px)`);
+  return lines;
+}
+
+// --- Browser ---
+
+const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read the artwork file'));
+    reader.readAsDataURL(file);
+  });
+
+function canvasOf(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+  return [canvas, ctx];
+}
+
+/** Runs the pipeline on an uploaded file; the data URL is what generation should be given */
+export async function preprocessArtwork(
+  file: Blob,
+  options: ArtworkPreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<{ dataUrl: string; preprocessing: ArtworkPreprocessing }> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const header = inspectImageHeader(bytes);
+  // Decoding converts CMYK, high bit depths and embedded profiles to 8-bit sRGB
+  const bitmap = await createImageBitmap(file);
+  const source = { width: bitmap.width, height: bitmap.height, bytes: bytes.length, ...header };
+
+  try {
+    const analysisScale = Math.min(1, ANALYSIS_EDGE / Math.max(source.width, source.height));
+    const [, analysisCtx] = canvasOf(Math.max(1, Math.round(source.width * analysisScale)), Math.max(1, Math.round(source.height * analysisScale)));
+    analysisCtx.drawImage(bitmap, 0, 0, analysisCtx.canvas.width, analysisCtx.canvas.height);
+    const raster = analysisCtx.getImageData(0, 0, analysisCtx.canvas.width, analysisCtx.canvas.height);
+
+    const found = options.autoTrim ? detectBorder(raster) : null;
+    // Rounded down so the trim never bites into the artwork
+    const toSource = (n: number, full: number, analysed: number) => Math.floor((n * full) / analysed);
+    const border = found && {
+      top: toSource(found.top, source.height, raster.height),
+      bottom: toSource(found.bottom, source.height, raster.height),
+      left: toSource(found.left, source.width, raster.width),
+      right: toSource(found.right, source.width, raster.width),
+    };
+    const preprocessing = planPreprocessing(source, options, { border, alphaUsed: header.hasAlpha && hasTransparency(raster) });
+    if (!preprocessing.output.reencoded) return { dataUrl: await readAsDataUrl(file), preprocessing };
+
+    const { output, trim } = preprocessing;
+    const pad = preprocessing.bleed?.pixels ?? 0;
+    const width = output.width - 2 * pad;
+    const height = output.height - 2 * pad;
+    const [canvas, ctx] = canvasOf(output.width, output.height);
+    if (output.mimeType === 'image/jpeg') {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(
+      bitmap,
+      trim?.left ?? 0, trim?.top ?? 0, source.width - (trim ? trim.left + trim.right : 0), source.height - (trim ? trim.top + trim.bottom : 0),
+      pad, pad, width, height
+    );
+    if (pad > 0) {
+      // Bleed: stretch the outermost rows, then the outermost columns (which now include the corners)
+      ctx.drawImage(canvas, pad, pad, width, 1, pad, 0, width, pad);
+      ctx.drawImage(canvas, pad, pad + height - 1, width, 1, pad, pad + height, width, pad);
+      ctx.drawImage(canvas, pad, 0, 1, output.height, 0, 0, pad, output.height);
+      ctx.drawImage(canvas, pad + width - 1, 0, 1, output.height, pad + width, 0, pad, output.height);
+    }
+    return { dataUrl: canvas.toDataURL(output.mimeType, JPEG_QUALITY), preprocessing };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { ArtworkPanel, ArtworkSet, GenerationSettings } from '../types';
+import { buildArtworkSetInstructions, gridColumns, isCompleteSet, mapPanelImages, panelPosition } from './artworkSets';
+
+const panel = (name: string, aspectRatio: number, frameStyle: ArtworkPanel['frameStyle'] = 'Auto'): ArtworkPanel =>
+  ({ name, image: `data:image/png;base64,${name}`, aspectRatio, frameStyle });
+
+const triptych: ArtworkSet = {
+  layout: 'row',
+  spacingCm: 6,
+  panels: [panel('Dawn', 0.75, 'Natural Oak'), panel('Noon', 1), panel('Dusk', 1.5, 'None')],
+};
+
+describe('isCompleteSet', () => {
+  it('needs two to nine panels', () => {
+    expect(isCompleteSet(undefined)).toBe(false);
+    expect(isCompleteSet({ ...triptych, panels: triptych.panels.slice(0, 1) })).toBe(false);
+    expect(isCompleteSet(triptych)).toBe(true);
+    expect(isCompleteSet({ ...triptych, panels: Array(10).fill(triptych.panels[0]) })).toBe(false);
+  });
+});
+
+describe('panel positions', () => {
+  it('keeps grids at most three wide and as square as possible', () => {
+    expect([2, 3, 4, 5, 6, 9].map(gridColumns)).toEqual([2, 3, 2, 3, 3, 3]);
+  });
+
+  it('names each position in reading order', () => {
+    expect([0, 1, 2].map(i => panelPosition('row', i, 3))).toEqual(['far left', '2nd from the left', 'far right']);
+    expect(panelPosition('column', 0, 2)).toBe('top');
+    expect(panelPosition('grid', 4, 5)).toBe('row 2, column 2');
+    expect(panelPosition('salon', 0, 4)).toContain('anchor');
+  });
+});
+
+describe('buildArtworkSetInstructions', () => {
+  it('describes every panel against its attached image', () => {
+    const text = buildArtworkSetInstructions(triptych, 2);
+    expect(text).toContain('3 separate artworks');
+    expect(text).toContain('Images 2 to 4 are the panels');
+    expect(text).toContain('exactly 6 cm');
+    expect(text).toContain('Panel 1 (image 2) "Dawn": portrait, width/height 0.750; Natural Oak frame; far left.');
+    expect(text).toContain('Panel 3 (image 4) "Dusk": landscape, width/height 1.500; unframed');
+  });
+
+  it('sizes each print and lets Auto frames follow the settings', () => {
+    const settings = { printSize: 'A3', frameStyle: 'Classic Gold' } as GenerationSettings;
+    const text = buildArtworkSetInstructions(triptych, 1, settings);
+    expect(text).toMatch(/Panel 2 \(image 2\) "Noon": square, width\/height 1\.000; [^;]*print; Classic Gold frame/);
+  });
+
+  it('lays out partial grid rows', () => {
+    const grid = { ...triptych, layout: 'grid' as const, panels: [...triptych.panels, ...triptych.panels.slice(0, 2)] };
+    expect(buildArtworkSetInstructions(grid, 1)).toContain('grid of 2 rows by 3 columns');
+    expect(buildArtworkSetInstructions(grid, 1)).toContain('The last row is shorter');
+  });
+});
+
+describe('mapPanelImages', () => {
+  it('maps images in order without touching the original', async () => {
+    const mapped = await mapPanelImages(triptych, async image => image.replace('data:image/png;base64,', 'ref:'));
+    expect(mapped.panels.map(p => p.image)).toEqual(['ref:Dawn', 'ref:Noon', 'ref:Dusk']);
+    expect(mapped.panels[0].frameStyle).toBe('Natural Oak');
+    expect(triptych.panels[0].image).toBe('data:image/png;base64,Dawn');
+  });
+});
@@ -0,0 +1,110 @@
+import type { ArtworkPanel, ArtworkSet, GenerationSettings, PanelLayout } from '../types';
+import { describePrintSize, printDimensions } from './printSizing';
+import { describeFrameSpec } from './frameSpec';
+
+/**
+ * Multi-panel sets: diptychs, triptychs and gallery walls. Pure, like the
+ * prompt engine that uses it, so every entry point describes a set the same
+ * way and attaches its images in the same order.
+ */
+
+export const MIN_PANELS = 2;
+export const MAX_PANELS = 9;
+export const DEFAULT_PANEL_SPACING_CM = 5;
+
+export const PANEL_LAYOUTS: { id: PanelLayout; label: string }[] = [
+  { id: 'row', label: 'Horizontal row' },
+  { id: 'column', label: 'Vertical stack' },
+  { id: 'grid', label: 'Grid' },
+  { id: 'salon', label: 'Salon cluster' },
+];
+
+/** Whether the set has enough pieces to generate, and not too many */
+export const isCompleteSet = (set?: ArtworkSet): set is ArtworkSet =>
+  !!set && set.panels.length >= MIN_PANELS && set.panels.length <= MAX_PANELS;
+
+/** Columns of a grid layout: as square as possible and never more than three wide */
+export const gridColumns = (count: number): number => count <= 3 ? count : count === 4 ? 2 : 3;
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th', '9th'];
+
+/** Where a panel sits in the layout, e.g. "far left" or "row 2, column 1" */
+export function panelPosition(layout: PanelLayout, index: number, count: number): string {
+  switch (layout) {
+    case 'row':
+      return index === 0 ? 'far left' : index === count - 1 ? 'far right' : `${ORDINALS[index]} from the left`;
+    case 'column':
+      return index === 0 ? 'top' : index === count - 1 ? 'bottom' : `${ORDINALS[index]} from the top`;
+    case 'grid': {
+      const columns = gridColumns(count);
+      return `row ${Math.floor(index / columns) + 1}, column ${(index % columns) + 1}`;
+    }
+    case 'salon':
+      return index === 0 ? 'anchor piece, near the centre of the cluster' : 'around the anchor piece';
+  }
+}
+
+function describeLayout(set: ArtworkSet): string {
+  const count = set.panels.length;
+  switch (set.layout) {
+    case 'row':
+      return `Hung side by side in one horizontal row, left to right in panel order, their centres on one horizontal line. Gaps between neighbouring frames: exactly ${set.spacingCm} cm, equal throughout.`;
+    case 'column':
+      return `Stacked in one vertical column, top to bottom in panel order, centred on one vertical line. Gaps between neighbouring frames: exactly ${set.spacingCm} cm, equal throughout.`;
+    case 'grid': {
+      const columns = gridColumns(count);
+      const rows = Math.ceil(count / columns);
+      const partial = count % columns !== 0 ? ' The last row is shorter and centred under the others.' : '';
+      return `Arranged in a grid of ${rows} rows by ${columns} columns, filled left to right then top to bottom in panel order, frame edges aligned along every row and column.${partial} Gaps between neighbouring frames: exactly ${set.spacingCm} cm, equal throughout.`;
+    }
+    case 'salon':
+      return `Hung salon style: an organic, balanced cluster built around panel 1, with the outer edge of the group forming a loose rectangle. Gaps between neighbouring frames: roughly ${set.spacingCm} cm, kept consistent.`;
+  }
+}
+
+function describePanelFrame(panel: ArtworkPanel, settings?: GenerationSettings): string {
+  if (panel.frameStyle === 'None') return 'unframed, pasted directly onto the wall as a poster';
+  if (panel.frameStyle !== 'Auto') return `${panel.frameStyle} frame`;
+  if (settings?.frameSpec) return `custom frame: ${describeFrameSpec(settings.frameSpec)}`;
+  if (settings && settings.frameStyle !== 'Auto' && settings.frameStyle !== 'None') return `${settings.frameStyle} frame`;
+  return 'frame chosen to suit the room and match the rest of the set';
+}
+
+function describePanelShape(ratio?: number): string {
+  if (!ratio) return 'keep its own proportions';
+  const orientation = ratio > 1.05 ? 'landscape' : ratio < 0.95 ? 'portrait' : 'square';
+  return `${orientation}, width/height ${ratio.toFixed(3)}`;
+}
+
+/**
+ * Prompt section describing the set panel by panel. `firstImage` is the
+ * position of panel 1 among the attached images; with `settings`, print sizes
+ * are given and "Auto" frames follow the settings' frame choice.
+ */
+export function buildArtworkSetInstructions(set: ArtworkSet, firstImage: number, settings?: GenerationSettings): string {
+  const count = set.panels.length;
+  const panels = set.panels.map((panel, i) => {
+    const details = [describePanelShape(panel.aspectRatio)];
+    if (settings) {
+      const print = printDimensions(settings.printSize, settings.customPrintSize, panel.aspectRatio);
+      if (print) details.push(`${describePrintSize(settings.printSize, print)} print`);
+    }
+    details.push(describePanelFrame(panel, settings), panelPosition(set.layout, i, count));
+    return `    - Panel ${i + 1} (image ${firstImage + i}) "${panel.name}": ${details.join('; ')}.`;
+  });
+
+  return `
+    ARTWORK SET (CRITICAL): ${count} separate artworks hang together as one arrangement, each in its own frame.
+    - Images ${firstImage} to ${firstImage + count - 1} are the panels, in order. Every panel shows ONLY its own image, exactly as supplied: never merge, swap, mirror, repeat or leave out a panel.
+    - LAYOUT: ${describeLayout(set)}
+    - NEVER crop, stretch or distort a piece. Each frame takes the shape of its own artwork, so frames in the set may differ in shape.
+    PANELS:
+${panels.join('\n')}`;
+}
+
+/** Copy of `set` with every panel image passed through `fn`, e.g. to store or resolve blob references */
+export async function mapPanelImages(set: ArtworkSet, fn: (image: string) => Promise<string>): Promise<ArtworkSet> {
+  const panels: ArtworkPanel[] = [];
+  for (const panel of set.panels) panels.push({ ...panel, image: await fn(panel.image) });
+  return { ...set, panels };
+}
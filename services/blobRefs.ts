@@ -0,0 +1,105 @@
+/**
+ * Content-addressed image references, shared by the browser and the API.
+ *
+ * Image fields on MockupResult hold either a legacy `data:` URL or a blob
+ * reference `sha256:<hex>`, where the hex is the SHA-256 of the image bytes.
+ * The bytes live in IndexedDB locally and behind /api/blobs remotely.
+ */
+
+import type { GenerationSettings, JobRequest, MockupResult } from '../types';
+import { mapPanelImages } from './artworkSets';
+
+const BLOB_REF_PATTERN = /^sha256:[0-9a-f]{64}$/;
+
+/** MockupResult fields that carry image data */
+export const IMAGE_FIELDS = ['imageUrl', 'compositeBaseUrl', 'compositeArtworkUrl'] as const satisfies readonly (keyof MockupResult)[];
+
+/** Every image a result carries: the IMAGE_FIELDS plus the artwork, style reference and set panels in its generation record */
+export const resultImages = (result: MockupResult): string[] => [
+  ...IMAGE_FIELDS.map(field => result[field]),
+  result.generation?.sourceArtwork,
+  result.generation?.settings?.styleReferenceImage,
+  ...(result.generation?.settings?.artworkSet?.panels.map(panel => panel.image) ?? []),
+  ...(result.generation?.artworkSet?.panels.map(panel => panel.image) ?? []),
+].filter((value): value is string => !!value);
+
+/** Copy of `result` with every image value (see resultImages) passed through `fn` */
+export async function mapResultImages(result: MockupResult, fn: (value: string) => Promise<string>): Promise<MockupResult> {
+  const next = { ...result };
+  for (const field of IMAGE_FIELDS) {
+    const value = next[field];
+    if (value) next[field] = await fn(value);
+  }
+  if (next.generation) {
+    const generation = { ...next.generation };
+    if (generation.sourceArtwork) generation.sourceArtwork = await fn(generation.sourceArtwork);
+    if (generation.settings) generation.settings = await mapSettingsImages(generation.settings, fn);
+    if (generation.artworkSet) generation.artworkSet = await mapPanelImages(generation.artworkSet, fn);
+    next.generation = generation;
+  }
+  return next;
+}
+
+/** Copy of `settings` with its style reference and set panels passed through `fn` */
+export async function mapSettingsImages(settings: GenerationSettings, fn: (value: string) => Promise<string>): Promise<GenerationSettings> {
+  const next = { ...settings };
+  if (next.styleReferenceImage) next.styleReferenceImage = await fn(next.styleReferenceImage);
+  if (next.artworkSet) next.artworkSet = await mapPanelImages(next.artworkSet, fn);
+  return next;
+}
+
+/** Copy of a job request with every image in its input (artwork, scene, style reference, panels) passed through `fn` */
+export async function mapJobImages(request: JobRequest, fn: (value: string) => Promise<string>): Promise<JobRequest> {
+  switch (request.kind) {
+    case 'mockup':
+      return { ...request, input: { ...request.input, artwork: await fn(request.input.artwork), settings: await mapSettingsImages(request.input.settings, fn) } };
+    case 'contactSheet':
+      return { ...request, input: { ...request.input, artwork: await fn(request.input.artwork), settings: await mapSettingsImages(request.input.settings, fn) } };
+    case 'composite': {
+      const { baseImage, artwork, artworkSet } = request.input;
+      return {
+        ...request,
+        input: {
+          ...request.input,
+          baseImage: await fn(baseImage),
+          artwork: await fn(artwork),
+          artworkSet: artworkSet && await mapPanelImages(artworkSet, fn),
+        },
+      };
+    }
+    case 'upscale':
+      return { ...request, input: { ...request.input, image: await fn(request.input.image) } };
+  }
+}
+
+export const isBlobRef = (value?: string | null): value is string => !!value && BLOB_REF_PATTERN.test(value);
+
+export const isDataUrl = (value?: string | null): value is string => !!value && value.startsWith('data:');
+
+export const toBlobRef = (hash: string): string => `sha256:${hash}`;
+
+export const blobRefHash = (ref: string): string => ref.slice('sha256:'.length);
+
+/** Public, cacheable URL for a blob reference */
+export const blobUrl = (ref: string): string => `/api/blobs?hash=${blobRefHash(ref)}`;
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; base64: string } | null => {
+  const match = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+  return { mimeType: match[1] || 'application/octet-stream', base64: match[2] };
+};
+
+/** Identifies PNG / JPEG / WebP / GIF from magic bytes, so blobs need no metadata sidecar */
+export const sniffImageMimeType = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'image/jpeg';
+  if (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
+      bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) return 'image/webp';
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return 'image/gif';
+  return 'application/octet-stream';
+};
+
+export const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -1,4 +1,6 @@
-import type { MockupResult } from '../types';
+import type { MockupChanges, MockupPage, MockupQuery, MockupResult } from '../types';
+import { isBlobRef, isDataUrl, blobUrl, mapResultImages } from './blobRefs';
+import { storageService } from './storageService';
 
 const TOKEN_KEY = 'site_token';
 
@@ -10,27 +12,82 @@ function authHeaders(): HeadersInit {
   };
 }
 
-async function fetchAll(): Promise<MockupResult[]> {
-  const res = await fetch('/api/mockups', { headers: authHeaders() });
-  if (!res.ok) throw new Error(`fetchAll failed: ${res.status}`);
+const QUERY_PARAMS: Record<keyof MockupQuery, string> = {
+  cursor: 'cursor',
+  limit: 'limit',
+  fields: 'fields',
+  variantType: 'variant_type',
+  isContactSheet: 'is_contact_sheet',
+  aspectRatio: 'aspect_ratio',
+  cameraAngle: 'camera_angle',
+  projectId: 'project_id',
+  from: 'from',
+  to: 'to',
+};
+
+/** One page of cloud results, newest first; pass `nextCursor` back to continue */
+async function fetchPage(query: Omit<MockupQuery, 'fields'> = {}): Promise<MockupPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(QUERY_PARAMS[key as keyof MockupQuery], String(value));
+  }
+  const res = await fetch(`/api/mockups?${params}`, { headers: authHeaders() });
+  if (!res.ok) throw new Error(`fetchPage failed: ${res.status}`);
   return res.json();
 }
 
+// Refs known to exist remotely, so repeated saves skip the HEAD check
+const uploadedRefs = new Set<string>();
+
+/** Makes sure the server has an image's bytes and returns its reference */
+async function uploadImage(value: string): Promise<string> {
+  if (isBlobRef(value)) {
+    if (uploadedRefs.has(value)) return value;
+    const head = await fetch(blobUrl(value), { method: 'HEAD' });
+    if (head.ok) {
+      uploadedRefs.add(value);
+      return value;
+    }
+    value = await storageService.resolveImage(value);
+  }
+  const res = await fetch('/api/blobs', {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify({ dataUrl: value }),
+  });
+  if (!res.ok) throw new Error(`uploadImage failed: ${res.status}`);
+  const { ref } = await res.json();
+  uploadedRefs.add(ref);
+  return ref;
+}
+
 async function saveResult(result: MockupResult): Promise<void> {
+  // Upload image bytes first so the row itself stays small
+  const row = await mapResultImages(result, async value => isBlobRef(value) || isDataUrl(value) ? uploadImage(value) : value);
+
   const res = await fetch('/api/mockups', {
     method: 'POST',
     headers: authHeaders(),
-    body: JSON.stringify(result),
+    body: JSON.stringify(row),
   });
   if (!res.ok) throw new Error(`saveResult failed: ${res.status}`);
 }
 
-async function deleteResult(id: string): Promise<void> {
-  const res = await fetch(`/api/mockups?id=${encodeURIComponent(id)}`, {
+/** Changes from any device since `since`; omit it to get a cursor for "now" */
+async function fetchChanges(since?: string): Promise<MockupChanges> {
+  const query = since ? `?since=${encodeURIComponent(since)}` : '';
+  const res = await fetch(`/api/mockups/sync${query}`, { headers: authHeaders() });
+  if (!res.ok) throw new Error(`fetchChanges failed: ${res.status}`);
+  return res.json();
+}
+
+async function deleteResult(id: string, deletedAt?: number): Promise<void> {
+  const at = deletedAt ? `&deletedAt=${deletedAt}` : '';
+  const res = await fetch(`/api/mockups?id=${encodeURIComponent(id)}${at}`, {
     method: 'DELETE',
     headers: authHeaders(),
   });
   if (!res.ok) throw new Error(`deleteResult failed: ${res.status}`);
 }
 
-export const cloudStorageService = { fetchAll, saveResult, deleteResult };
+export const cloudStorageService = { fetchPage, fetchChanges, saveResult, deleteResult, uploadImage };
@@ -0,0 +1,15 @@
+import type { CustomVibe } from '../types';
+import { storageService } from './storageService';
+import { createSyncedCollection } from './syncedCollection';
+
+/** Vibes that haven't been deleted, by name */
+export const activeCustomVibes = (vibes: CustomVibe[]): CustomVibe[] =>
+  vibes.filter(v => !v.deletedAt).sort((a, b) => a.name.localeCompare(b.name));
+
+export const customVibeService = createSyncedCollection<CustomVibe>({
+  label: 'custom vibe',
+  endpoint: '/api/vibes',
+  load: () => storageService.loadAllCustomVibes(),
+  store: vibe => storageService.saveCustomVibe(vibe),
+  active: activeCustomVibes,
+});
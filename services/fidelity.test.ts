@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import type { FidelityReport, GeneratedImage, GenerationSettings } from '../types';
+import { buildFidelityReport, checkFidelity, compareArtwork, generateChecked, qualityCheckFor, type RasterImage } from './fidelity';
+
+const REGION = { x: 0.2, y: 0.2, width: 0.5, height: 0.6 };
+
+/** A left-to-right red ramp with a dark block top-left, so it isn't symmetric */
+function artwork(size = 64): RasterImage {
+  const data = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = (y * size + x) * 4;
+      const block = x < size / 3 && y < size / 2;
+      data[i] = block ? 20 : Math.round((x / size) * 255);
+      data[i + 1] = block ? 20 : 120;
+      data[i + 2] = block ? 60 : 200 - y;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+function mirror(image: RasterImage): RasterImage {
+  const data = new Uint8Array(image.data.length);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const from = (y * image.width + x) * 4;
+      const to = (y * image.width + image.width - 1 - x) * 4;
+      for (let c = 0; c < 4; c++) data[to + c] = image.data[from + c];
+    }
+  }
+  return { ...image, data };
+}
+
+const image = (id: string): GeneratedImage => ({ imageUrl: id, generation: { model: 'test', resolvedPrompt: 'p', generatedAt: 1, retryCount: 0 } });
+const report = (score: number): FidelityReport => ({ score, passed: score >= 0.6, checks: { hash: score, histogram: score, aspect: 1 }, failures: [], attempts: 1 });
+
+describe('compareArtwork', () => {
+  it('matches an image against itself and spots a mirrored copy', () => {
+    const same = compareArtwork(artwork(), artwork(48));
+    expect(same.hash).toBeGreaterThan(0.9);
+    expect(same.histogram).toBeGreaterThan(0.9);
+
+    const mirrored = compareArtwork(artwork(), mirror(artwork()));
+    expect(mirrored.mirroredHash).toBeGreaterThan(0.9);
+    expect(mirrored.mirroredHash - mirrored.hash).toBeGreaterThanOrEqual(0.15);
+  });
+});
+
+describe('buildFidelityReport', () => {
+  it('passes a faithful placement and explains a poor one', () => {
+    const good = buildFidelityReport({ region: REGION, comparison: { hash: 1, mirroredHash: 0.5, histogram: 0.95 }, aspect: 1 }, 0.6);
+    expect(good).toMatchObject({ score: 0.99, passed: true, failures: [] });
+
+    const bad = buildFidelityReport({ region: REGION, comparison: { hash: 0.55, mirroredHash: 0.9, histogram: 0.4 }, aspect: 0.7 }, 0.6);
+    expect(bad.passed).toBe(false);
+    expect(bad.failures).toEqual([
+      'Artwork proportions are off by 30% (cropped or stretched)',
+      'Artwork appears mirrored',
+      'Colours differ noticeably from the source',
+    ]);
+  });
+
+  it('scores zero when the artwork is missing and folds in a critique', () => {
+    expect(buildFidelityReport({}, 0.6)).toMatchObject({ score: 0, passed: false, failures: ['Artwork not found in the mockup'] });
+
+    const critiqued = buildFidelityReport({
+      region: REGION, comparison: { hash: 1, mirroredHash: 0.5, histogram: 1 }, aspect: 1,
+      critique: { score: 0.5, issues: ['Glare hides the lower corner'] },
+    }, 0.9);
+    expect(critiqued.score).toBe(0.85);
+    expect(critiqued.passed).toBe(false);
+    expect(critiqued.failures).toEqual(['Glare hides the lower corner']);
+  });
+});
+
+describe('checkFidelity', () => {
+  it('crops the mockup to the region the model found', async () => {
+    const decoded: unknown[] = [];
+    const result = await checkFidelity('mockup', 'art', { critique: false, minScore: 0.6, maxRetries: 0 }, {
+      inspect: async () => ({ region: REGION }),
+      decode: async (src, region) => {
+        decoded.push([src, region]);
+        return { raster: artwork(), aspectRatio: src === 'art' ? 1 : 0.8 };
+      },
+    });
+    expect(decoded).toContainEqual(['mockup', REGION]);
+    expect(result.checks.aspect).toBe(0.8);
+    expect(result.failures[0]).toContain('off by 20%');
+  });
+});
+
+describe('generateChecked', () => {
+  it('retries a failing image and keeps the best attempt', async () => {
+    const scores = [0.3, 0.5, 0.4];
+    let n = 0;
+    const result = await generateChecked(
+      async () => image(`img-${n}`),
+      async () => report(scores[n++]),
+      { critique: false, minScore: 0.6, maxRetries: 2 }
+    );
+    expect(result?.imageUrl).toBe('img-1');
+    expect(result?.generation.fidelity).toMatchObject({ score: 0.5, attempts: 3 });
+  });
+
+  it('stops at the first pass and keeps the image when the check errors', async () => {
+    let calls = 0;
+    const passed = await generateChecked(async () => image(`img-${calls++}`), async () => report(0.8), { critique: false, minScore: 0.6, maxRetries: 3 });
+    expect(calls).toBe(1);
+    expect(passed?.generation.fidelity?.attempts).toBe(1);
+
+    const unscored = await generateChecked(async () => image('img'), async () => { throw new Error('quota'); }, { critique: false, minScore: 0.6, maxRetries: 3 });
+    expect(unscored?.imageUrl).toBe('img');
+    expect(unscored?.generation.fidelity).toBeUndefined();
+  });
+});
+
+describe('qualityCheckFor', () => {
+  it('skips sets and products that bend the print', () => {
+    const qualityCheck = { critique: false, minScore: 0.6, maxRetries: 1 };
+    const settings = { qualityCheck } as GenerationSettings;
+    expect(qualityCheckFor(settings)).toBe(qualityCheck);
+    expect(qualityCheckFor({ ...settings, productType: 'Phone Case' })).toBe(qualityCheck);
+    expect(qualityCheckFor({ ...settings, productType: 'Mug' })).toBeUndefined();
+    expect(qualityCheckFor({ ...settings, artworkSet: { layout: 'row', spacingCm: 5, panels: [] } })).toBeUndefined();
+  });
+});
@@ -0,0 +1,241 @@
+import type { FidelityReport, GeneratedImage, GenerationSettings, NormalizedBox, QualityCheckSettings } from '../types';
+import { productProfile } from './productTypes';
+
+/**
+ * Fidelity scoring: how closely the artwork placed in a mockup matches the
+ * source. Pure pixel maths on RGBA buffers plus the retry loop around it, so
+ * the browser (canvas) and the server (sharp) score identically; decoding and
+ * the analysis-model call are passed in by the caller.
+ */
+
+export interface RasterImage {
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** A decoded image (or region of one), reduced for hashing, with the aspect ratio it had at full size */
+export interface DecodedRaster {
+  raster: RasterImage;
+  aspectRatio: number;
+}
+
+/** The analysis model's view of a mockup: where the artwork is and, when asked, what's wrong with it */
+export interface FidelityInspection {
+  region: NormalizedBox | null;
+  /** Score is 0-1 */
+  critique?: { score: number; issues: string[] };
+}
+
+export interface ArtworkComparison {
+  /** Perceptual hash similarity, 0.5 being unrelated images */
+  hash: number;
+  /** The same against the horizontally flipped source */
+  mirroredHash: number;
+  /** Colour histogram intersection */
+  histogram: number;
+}
+
+export const DEFAULT_QUALITY_CHECK: QualityCheckSettings = { critique: false, minScore: 0.6, maxRetries: 1 };
+
+/**
+ * The check to run for `settings`. Artwork sets go unchecked, as the
+ * inspection locates a single artwork, and so do products that bend the print
+ * out of shape (fabric, mugs).
+ */
+export const qualityCheckFor = (settings: GenerationSettings): QualityCheckSettings | undefined => {
+  const product = productProfile(settings);
+  if (product) return product.flat ? settings.qualityCheck : undefined;
+  return settings.artworkSet ? undefined : settings.qualityCheck;
+};
+
+/** Longest edge images are reduced to before comparing; plenty for a 32×32 hash and a coarse histogram */
+export const RASTER_SIZE = 128;
+
+const HASH_SIZE = 32;
+/** Low-frequency block of the DCT whose signs make up the 64-bit hash */
+const HASH_BLOCK = 8;
+const HISTOGRAM_BINS = 4;
+
+/** Luminance averaged down to size×size, one cell per output pixel */
+export function toGrayscale(image: RasterImage, size = HASH_SIZE): Float64Array {
+  const { data, width, height } = image;
+  const out = new Float64Array(size * size);
+  for (let ty = 0; ty < size; ty++) {
+    const y0 = Math.floor(ty * height / size);
+    const y1 = Math.max(y0 + 1, Math.floor((ty + 1) * height / size));
+    for (let tx = 0; tx < size; tx++) {
+      const x0 = Math.floor(tx * width / size);
+      const x1 = Math.max(x0 + 1, Math.floor((tx + 1) * width / size));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        }
+      }
+      out[ty * size + tx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+}
+
+const mirrorGrayscale = (gray: Float64Array, size = HASH_SIZE): Float64Array => {
+  const out = new Float64Array(gray.length);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) out[y * size + x] = gray[y * size + size - 1 - x];
+  }
+  return out;
+};
+
+/** DCT perceptual hash: whether each low-frequency coefficient is above their median */
+export function perceptualHash(gray: Float64Array, size = HASH_SIZE): boolean[] {
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_BLOCK; v++) {
+    for (let u = 0; u < HASH_BLOCK; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        const cy = Math.cos(((2 * y + 1) * v * Math.PI) / (2 * size));
+        for (let x = 0; x < size; x++) {
+          sum += gray[y * size + x] * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size)) * cy;
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+  // The DC term is overall brightness, which lighting changes anyway
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  return coefficients.map(c => c > median);
+}
+
+/** Share of matching bits */
+export const hashSimilarity = (a: boolean[], b: boolean[]): number =>
+  a.reduce((same, bit, i) => same + (bit === b[i] ? 1 : 0), 0) / a.length;
+
+/** Normalized joint RGB histogram with HISTOGRAM_BINS levels per channel */
+export function colorHistogram(image: RasterImage): Float64Array {
+  const bins = new Float64Array(HISTOGRAM_BINS ** 3);
+  const step = 256 / HISTOGRAM_BINS;
+  const pixels = image.width * image.height;
+  for (let i = 0; i < pixels * 4; i += 4) {
+    const r = Math.floor(image.data[i] / step);
+    const g = Math.floor(image.data[i + 1] / step);
+    const b = Math.floor(image.data[i + 2] / step);
+    bins[(r * HISTOGRAM_BINS + g) * HISTOGRAM_BINS + b] += 1 / pixels;
+  }
+  return bins;
+}
+
+/** Histogram intersection: 1 for identical colour distributions */
+export const histogramSimilarity = (a: Float64Array, b: Float64Array): number =>
+  a.reduce((sum, value, i) => sum + Math.min(value, b[i]), 0);
+
+/** 1 for equal ratios, falling towards 0 as they diverge */
+export const aspectSimilarity = (a: number, b: number): number =>
+  a > 0 && b > 0 ? Math.min(a, b) / Math.max(a, b) : 0;
+
+export function compareArtwork(source: RasterImage, found: RasterImage): ArtworkComparison {
+  const sourceGray = toGrayscale(source);
+  const foundHash = perceptualHash(toGrayscale(found));
+  return {
+    hash: hashSimilarity(perceptualHash(sourceGray), foundHash),
+    mirroredHash: hashSimilarity(perceptualHash(mirrorGrayscale(sourceGray)), foundHash),
+    histogram: histogramSimilarity(colorHistogram(source), colorHistogram(found)),
+  };
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Combines the checks into a score and the reasons it's low. Pixel checks
+ * weigh 40% hash, 30% colour, 30% proportions; a critique, when there is one,
+ * makes up 30% of the total.
+ */
+export function buildFidelityReport(
+  input: { region?: NormalizedBox; comparison?: ArtworkComparison; aspect?: number; critique?: FidelityInspection['critique'] },
+  minScore: number,
+  attempts = 1
+): FidelityReport {
+  const { region, comparison, aspect = 0, critique } = input;
+  if (!region || !comparison) {
+    return {
+      score: 0, passed: false,
+      checks: { hash: 0, histogram: 0, aspect: 0, critique: critique && round2(critique.score) },
+      failures: ['Artwork not found in the mockup'],
+      attempts,
+    };
+  }
+
+  const failures: string[] = [];
+  if (aspect < 0.9) failures.push(`Artwork proportions are off by ${Math.round((1 - aspect) * 100)}% (cropped or stretched)`);
+  if (comparison.mirroredHash >= 0.8 && comparison.mirroredHash - comparison.hash >= 0.15) failures.push('Artwork appears mirrored');
+  else if (comparison.hash < 0.75) failures.push('Artwork content differs from the source (cropped, altered or invented)');
+  if (comparison.histogram < 0.6) failures.push('Colours differ noticeably from the source');
+  if (critique) failures.push(...critique.issues);
+
+  // Unrelated images agree on about half the hash bits, so that's the zero point
+  const pixelScore = 0.4 * clamp01((comparison.hash - 0.5) / 0.5) + 0.3 * comparison.histogram + 0.3 * aspect;
+  const score = round2(critique ? 0.7 * pixelScore + 0.3 * critique.score : pixelScore);
+  return {
+    score,
+    passed: score >= minScore,
+    region,
+    checks: { hash: round2(comparison.hash), histogram: round2(comparison.histogram), aspect: round2(aspect), critique: critique && round2(critique.score) },
+    failures,
+    attempts,
+  };
+}
+
+/** Runs every check on one mockup; `decode` crops to the region when given one */
+export async function checkFidelity(
+  mockup: string,
+  artwork: string,
+  check: QualityCheckSettings,
+  deps: {
+    inspect: (mockup: string, artwork: string, critique: boolean) => Promise<FidelityInspection>;
+    decode: (image: string, region?: NormalizedBox) => Promise<DecodedRaster>;
+  }
+): Promise<FidelityReport> {
+  const inspection = await deps.inspect(mockup, artwork, check.critique);
+  if (!inspection.region) return buildFidelityReport({ critique: inspection.critique }, check.minScore);
+  const [source, found] = await Promise.all([deps.decode(artwork), deps.decode(mockup, inspection.region)]);
+  return buildFidelityReport({
+    region: inspection.region,
+    comparison: compareArtwork(source.raster, found.raster),
+    aspect: aspectSimilarity(source.aspectRatio, found.aspectRatio),
+    critique: inspection.critique,
+  }, check.minScore);
+}
+
+/**
+ * Generates one image, checks it, and tries again while it fails and
+ * `check.maxRetries` allows, returning the best-scoring attempt. A check that
+ * errors out leaves the image unscored rather than failing the generation.
+ */
+export async function generateChecked(
+  generate: () => Promise<GeneratedImage | null>,
+  verify: (image: GeneratedImage) => Promise<FidelityReport>,
+  check: QualityCheckSettings
+): Promise<GeneratedImage | null> {
+  let best: GeneratedImage | null = null;
+  let attempts = 0;
+  while (attempts <= check.maxRetries) {
+    attempts++;
+    const image = await generate();
+    if (!image) continue;
+    let fidelity: FidelityReport;
+    try {
+      fidelity = await verify(image);
+    } catch (e) {
+      console.warn('Fidelity check failed, keeping the image unscored:', e);
+      return best ?? image;
+    }
+    if (!best || fidelity.score > best.generation.fidelity!.score) {
+      best = { ...image, generation: { ...image.generation, fidelity } };
+    }
+    if (fidelity.passed) break;
+  }
+  return best && { ...best, generation: { ...best.generation, fidelity: { ...best.generation.fidelity!, attempts } } };
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { FrameSpec } from '../types';
+import { buildFrameSpecContext, buildFrameSpecPhysics, describeFrameSpec, framedDimensions, frameSpecFromStyle } from './frameSpec';
+
+const spec = (overrides: Partial<FrameSpec> = {}): FrameSpec => ({ ...frameSpecFromStyle('Sleek Black'), matWidth: 5, ...overrides });
+
+describe('framedDimensions', () => {
+  it('adds the mat and moulding on every side', () => {
+    expect(framedDimensions({ width: 29.7, height: 42, unit: 'cm' }, spec())).toEqual({ width: 43.7, height: 56, unit: 'cm' });
+  });
+
+  it('converts inch prints and ignores the mat on a gallery wrap', () => {
+    expect(framedDimensions({ width: 10, height: 20, unit: 'in' }, spec({ mount: 'Canvas Wrap' }))).toEqual({ width: 25.4, height: 50.8, unit: 'cm' });
+  });
+});
+
+describe('describeFrameSpec', () => {
+  it('lists the moulding, profile, mat, glazing and mount', () => {
+    expect(describeFrameSpec(spec({ glazing: 'Anti-Glare', mount: 'Float' })))
+      .toBe('matte black painted wood · 2 × 3 cm · 5 cm white mat · anti-glare glass · float mount');
+  });
+
+  it('leaves out what a poster hanger cannot have', () => {
+    expect(describeFrameSpec(spec({ mount: 'Poster Hanger', mouldingMaterial: 'Wood', mouldingColour: 'oak' }))).toBe('oak wood poster hanger · 2 cm rails');
+  });
+});
+
+describe('frame spec prompts', () => {
+  it('describes the mat and glazing of a standard frame', () => {
+    const text = buildFrameSpecContext(spec({ glazing: 'Acrylic' }), 'A3');
+    expect(text).toContain('5 cm white mat (passe-partout)');
+    expect(text).toContain('behind acrylic');
+  });
+
+  it('drops glass reflections from a gallery wrap', () => {
+    const physics = buildFrameSpecPhysics(spec({ mount: 'Canvas Wrap', profileDepth: 4 }));
+    expect(physics).toContain('CANVAS GALLERY WRAP');
+    expect(physics).toContain('4 cm deep');
+    expect(physics).not.toContain('Glass shows');
+  });
+});
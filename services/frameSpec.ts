@@ -0,0 +1,126 @@
+import type { FrameSpec, FrameStyle, PhysicalSize } from '../types';
+import { sizeInCm } from './printSizing';
+
+/**
+ * Structured frame builds: moulding, mat, glazing and mount. Pure, like the
+ * prompt engine that uses it, so browser and server describe a build the same way.
+ */
+
+export const FRAME_SPEC_PRESETS: Record<Exclude<FrameStyle, 'Auto' | 'None'>, FrameSpec> = {
+  'Sleek Black': { mouldingMaterial: 'Painted Wood', mouldingColour: 'matte black', profileWidth: 2, profileDepth: 3, matWidth: 0, matColour: 'white', glazing: 'Glass', mount: 'Standard' },
+  'Modern White': { mouldingMaterial: 'Painted Wood', mouldingColour: 'white', profileWidth: 2, profileDepth: 3, matWidth: 0, matColour: 'white', glazing: 'Glass', mount: 'Standard' },
+  'Natural Oak': { mouldingMaterial: 'Wood', mouldingColour: 'natural oak', profileWidth: 3, profileDepth: 3.5, matWidth: 0, matColour: 'off-white', glazing: 'Glass', mount: 'Standard' },
+  'Classic Gold': { mouldingMaterial: 'Gilded', mouldingColour: 'antique gold', profileWidth: 5, profileDepth: 4, matWidth: 0, matColour: 'cream', glazing: 'Glass', mount: 'Standard' },
+  'Industrial Metal': { mouldingMaterial: 'Metal', mouldingColour: 'raw steel', profileWidth: 1, profileDepth: 2.5, matWidth: 0, matColour: 'white', glazing: 'Glass', mount: 'Standard' },
+};
+
+/** Starting point for a custom build: the preset for `style`, or a black frame with a white mat */
+export const frameSpecFromStyle = (style?: FrameStyle): FrameSpec =>
+  style && style !== 'Auto' && style !== 'None'
+    ? FRAME_SPEC_PRESETS[style]
+    : { ...FRAME_SPEC_PRESETS['Sleek Black'], matWidth: 5 };
+
+/**
+ * The build as it can actually exist: gallery wraps and poster hangers have
+ * no mat or glazing, and a wrap has no moulding either.
+ */
+export function effectiveFrameSpec(spec: FrameSpec): FrameSpec {
+  if (spec.mount === 'Canvas Wrap' || spec.mount === 'Poster Hanger') {
+    return { ...spec, matWidth: 0, glazing: 'None' };
+  }
+  return spec;
+}
+
+const round = (v: number) => String(Math.round(v * 10) / 10);
+
+const GLAZING_LABELS: Record<FrameSpec['glazing'], string> = {
+  'None': 'no glazing',
+  'Glass': 'glass',
+  'Acrylic': 'acrylic',
+  'Anti-Glare': 'anti-glare glass',
+};
+
+/** A short label for pills and captions, e.g. "matte black painted wood · 2 × 3 cm · 5 cm white mat · glass" */
+export function describeFrameSpec(spec: FrameSpec): string {
+  const s = effectiveFrameSpec(spec);
+  if (s.mount === 'Canvas Wrap') return `canvas gallery wrap · ${round(s.profileDepth)} cm deep`;
+  const moulding = `${s.mouldingColour.trim()} ${s.mouldingMaterial.toLowerCase()}`;
+  if (s.mount === 'Poster Hanger') return `${moulding} poster hanger · ${round(s.profileWidth)} cm rails`;
+  const parts = [moulding, `${round(s.profileWidth)} × ${round(s.profileDepth)} cm`];
+  if (s.matWidth > 0) parts.push(`${round(s.matWidth)} cm ${s.matColour.trim()} mat`);
+  parts.push(GLAZING_LABELS[s.glazing]);
+  if (s.mount === 'Float') parts.push('float mount');
+  return parts.join(' · ');
+}
+
+/** Outside dimensions of the framed piece in centimetres: the print plus mat and moulding */
+export function framedDimensions(print: PhysicalSize, spec: FrameSpec): PhysicalSize {
+  const s = effectiveFrameSpec(spec);
+  const cm = sizeInCm(print);
+  if (s.mount === 'Canvas Wrap') return cm;
+  if (s.mount === 'Poster Hanger') return { width: cm.width, height: cm.height + 2 * s.profileWidth, unit: 'cm' };
+  const border = 2 * (s.matWidth + s.profileWidth);
+  return { width: cm.width + border, height: cm.height + border, unit: 'cm' };
+}
+
+/** How the piece is mounted, for the frame context of a prompt; `sizeContext` names the print size */
+export function buildFrameSpecContext(spec: FrameSpec, sizeContext: string): string {
+  const s = effectiveFrameSpec(spec);
+  switch (s.mount) {
+    case 'Canvas Wrap':
+      return `The attached image is printed on canvas (${sizeContext}) and stretched over ${round(s.profileDepth)} cm deep stretcher bars as a frameless gallery wrap, the image continuing around the sides.`;
+    case 'Poster Hanger':
+      return `The attached image is a ${sizeContext} poster hung from a ${s.mouldingColour.trim()} ${s.mouldingMaterial.toLowerCase()} poster hanger: ${round(s.profileWidth)} cm rails clamp its top and bottom edges and it hangs from a cord, with no glass.`;
+  }
+  const mat = s.matWidth > 0
+    ? `surrounded by a ${round(s.matWidth)} cm ${s.matColour.trim()} mat (passe-partout) with a bevelled inner edge`
+    : 'with no mat';
+  const glazing = s.glazing === 'None' ? 'with no glazing' : `behind ${GLAZING_LABELS[s.glazing]}`;
+  const float = s.mount === 'Float' ? ' The print is float mounted: raised on the backing so its edges are visible and cast a thin shadow.' : '';
+  return `The attached image (${sizeContext} print) is framed in a ${s.mouldingColour.trim()} ${s.mouldingMaterial.toLowerCase()} moulding ${round(s.profileWidth)} cm wide and ${round(s.profileDepth)} cm deep, ${mat}, ${glazing}, hanging on the wall.${float}`;
+}
+
+const GLAZING_PHYSICS: Record<FrameSpec['glazing'], string> = {
+  'None': '- No glazing: the print surface is open to the room, no reflections, paper texture fully visible',
+  'Glass': '- Glass shows soft room reflections (20-30% opacity) and a small specular highlight from the main light',
+  'Acrylic': '- Acrylic shows softer, slightly warped reflections than glass and a faint static-dust sheen',
+  'Anti-Glare': '- Anti-glare glass: almost no reflections, a faint satin diffusion over the print, colours stay saturated',
+};
+
+/** Physical shadow, depth and surface behaviour of a build, for the realism block of a prompt */
+export function buildFrameSpecPhysics(spec: FrameSpec): string {
+  const s = effectiveFrameSpec(spec);
+  const depth = round(s.profileDepth);
+  switch (s.mount) {
+    case 'Canvas Wrap':
+      return `
+        CANVAS GALLERY WRAP PHYSICS:
+        - Stretched canvas ${depth} cm deep, no frame; its sides are visible at any angle off square
+        - Woven canvas texture across the image, slightly taut at the corners with folded corner pleats
+        - Shadow on the wall below and beside the canvas, sized to its ${depth} cm depth
+        - No glass: matte surface with soft, broad light falloff and no reflections
+      `;
+    case 'Poster Hanger':
+      return `
+        POSTER HANGER PHYSICS:
+        - ${round(s.profileWidth)} cm ${s.mouldingMaterial.toLowerCase()} rails clamp top and bottom; the sides of the paper are free
+        - Paper hangs slightly away from the wall with gentle waviness between the rails
+        - Thin hanging cord from the top rail to a single hook; soft shadow behind the paper
+        - No glass: semi-matte paper texture visible, no reflections
+      `;
+  }
+  const lines = [
+    `- Frame stands ${depth} cm off the wall and casts a matching graduated shadow (darker at base, fading outward)`,
+    `- ${round(s.profileWidth)} cm face of ${s.mouldingColour.trim()} ${s.mouldingMaterial.toLowerCase()} with authentic surface texture and tight mitred corners`,
+    s.matWidth > 0
+      ? `- ${round(s.matWidth)} cm ${s.matColour.trim()} mat with a crisp white bevel around the print and a faint shadow from the frame lip onto the mat`
+      : '- Frame lip casts a crisp shadow line on the artwork edge',
+    GLAZING_PHYSICS[s.glazing],
+  ];
+  if (s.mount === 'Float') lines.push('- Float mount: the print sits raised on the backing with a visible gap to the frame; its edges cast a thin shadow onto the backing');
+  return `
+        CUSTOM FRAME PHYSICS:
+        ${lines.join('\n        ')}
+        - PRINT MATERIAL: Semi-matte fine art paper with subtle surface texture, paper grain visible on close inspection.
+      `;
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_ZOOM, RESET_VIEW, pixelDifference, zoomAt } from './imageCompare';
+
+const pixels = (...rgb: [number, number, number][]) => new Uint8ClampedArray(rgb.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+describe('zoomAt', () => {
+  it('keeps the point under the cursor fixed', () => {
+    const view = zoomAt(RESET_VIEW, 2, 100, 50);
+    expect(view).toEqual({ scale: 2, x: -100, y: -50 });
+    // The pane point (100, 50) still shows image point (100, 50): (100 - x) / scale
+    expect((100 - view.x) / view.scale).toBe(100);
+  });
+
+  it('clamps the zoom and snaps back to the full view at 1x', () => {
+    expect(zoomAt({ scale: 6, x: 0, y: 0 }, 4, 0, 0).scale).toBe(MAX_ZOOM);
+    expect(zoomAt({ scale: 2, x: -30, y: -40 }, 0.25, 10, 10)).toEqual(RESET_VIEW);
+  });
+});
+
+describe('pixelDifference', () => {
+  it('marks changed pixels red and counts them', () => {
+    const { data, changedRatio } = pixelDifference(pixels([0, 0, 0], [100, 100, 100]), pixels([0, 0, 0], [100, 160, 100]));
+    expect(changedRatio).toBe(0.5);
+    expect(Array.from(data.slice(0, 4))).toEqual([0, 0, 0, 255]);
+    expect(data[4]).toBeGreaterThan(data[5]);
+  });
+
+  it('ignores compression-level noise when counting', () => {
+    expect(pixelDifference(pixels([50, 50, 50]), pixels([58, 50, 50])).changedRatio).toBe(0);
+  });
+
+  it('rejects buffers of different sizes', () => {
+    expect(() => pixelDifference(pixels([0, 0, 0]), pixels([0, 0, 0], [0, 0, 0]))).toThrow('same size');
+  });
+});
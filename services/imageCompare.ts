@@ -0,0 +1,73 @@
+/** Zoom and pan shared by every pane of the compare viewer; x/y are screen pixels, applied before the scale */
+export interface ZoomView {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+
+export const RESET_VIEW: ZoomView = { scale: 1, x: 0, y: 0 };
+
+/** Zooms by `factor` keeping the point under the cursor (px, py, relative to the pane) fixed */
+export function zoomAt(view: ZoomView, factor: number, px: number, py: number): ZoomView {
+  const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.scale * factor));
+  if (scale === MIN_ZOOM) return RESET_VIEW;
+  const ratio = scale / view.scale;
+  return { scale, x: px - (px - view.x) * ratio, y: py - (py - view.y) * ratio };
+}
+
+// Channel differences at or below this are treated as compression noise
+const CHANGE_THRESHOLD = 16;
+
+/**
+ * Renders where two same-sized RGBA buffers differ: changed pixels glow red
+ * (brighter for larger differences, scaled by `gain`) over a dimmed grayscale
+ * copy of `a`. Also returns the share of pixels that changed noticeably.
+ */
+export function pixelDifference(a: Uint8ClampedArray, b: Uint8ClampedArray, gain = 4): { data: Uint8ClampedArray; changedRatio: number } {
+  if (a.length !== b.length) throw new Error('Images must be the same size');
+  const data = new Uint8ClampedArray(a.length);
+  let changed = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const diff = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+    if (diff > CHANGE_THRESHOLD) changed++;
+    const base = (0.299 * a[i] + 0.587 * a[i + 1] + 0.114 * a[i + 2]) * 0.3;
+    data[i] = base + diff * gain;
+    data[i + 1] = base;
+    data[i + 2] = base;
+    data[i + 3] = 255;
+  }
+  return { data, changedRatio: a.length ? changed / (a.length / 4) : 0 };
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for comparison'));
+    img.src = src;
+  });
+
+/**
+ * Difference overlay of two displayable image URLs as a PNG data URL. `after`
+ * is stretched to `before`'s size, so an upscale compares against its original.
+ */
+export async function differenceImage(before: string, after: string): Promise<{ url: string; changedRatio: number }> {
+  const [a, b] = await Promise.all([loadImage(before), loadImage(after)]);
+  const canvas = document.createElement('canvas');
+  canvas.width = a.naturalWidth;
+  canvas.height = a.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+
+  ctx.drawImage(a, 0, 0);
+  const pixelsA = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(b, 0, 0, canvas.width, canvas.height);
+  const pixelsB = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const { data, changedRatio } = pixelDifference(pixelsA.data, pixelsB.data);
+  ctx.putImageData(new ImageData(data, canvas.width, canvas.height), 0, 0);
+  return { url: canvas.toDataURL('image/png'), changedRatio };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { JobRequest } from '../types';
+
+vi.mock('./accountService', () => ({ accountService: { currentUser: () => ({ id: 'u1' }) } }));
+
+vi.mock('./cloudStorageService', () => ({
+  cloudStorageService: {
+    uploadImage: vi.fn(async (value: string) => `sha256:${value.slice(-1).repeat(64)}`),
+  },
+}));
+
+const ART = 'data:image/png;base64,a';
+const SCENE_1 = 'data:image/jpeg;base64,b';
+const SCENE_2 = 'data:image/jpeg;base64,c';
+const ref = (c: string) => `sha256:${c.repeat(64)}`;
+
+const composite = (baseImage: string): JobRequest => ({
+  kind: 'composite',
+  label: 'Place it',
+  input: { baseImage, artwork: ART, instructions: '', aspectRatio: '3:4', imageSize: '2K' },
+});
+
+describe('jobService.enqueue', () => {
+  let jobService: typeof import('./jobService').jobService;
+  let cloud: typeof import('./cloudStorageService').cloudStorageService;
+  let posted: { jobs: JobRequest[] };
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => store.set(k, v),
+    });
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      if (url === '/api/jobs') posted = JSON.parse(init!.body as string);
+      return { ok: true, json: async () => [] } as unknown as Response;
+    }));
+    jobService = (await import('./jobService')).jobService;
+    cloud = (await import('./cloudStorageService')).cloudStorageService;
+  });
+
+  it('uploads each distinct image once and sends references', async () => {
+    await jobService.enqueue([composite(SCENE_1), composite(SCENE_2), composite(SCENE_1)]);
+    expect(cloud.uploadImage).toHaveBeenCalledTimes(3);
+    expect(posted.jobs.map(j => j.kind === 'composite' && [j.input.baseImage, j.input.artwork])).toEqual([
+      [ref('b'), ref('a')],
+      [ref('c'), ref('a')],
+      [ref('b'), ref('a')],
+    ]);
+  });
+
+  it('uploads the style reference and set panels of mockup settings', async () => {
+    await jobService.enqueue([{
+      kind: 'mockup',
+      label: 'Loft',
+      input: {
+        artwork: ART,
+        variantType: 'standard',
+        settings: {
+          prompt: 'Loft', negativePrompt: '', count: 1, aspectRatio: '3:4', imageSize: '2K',
+          frameStyle: 'Auto', lighting: 'Auto', wallTexture: 'Auto', printSize: 'A2', generationMode: 'batch',
+          styleReferenceImage: SCENE_1,
+          artworkSet: { layout: 'row', spacingCm: 5, panels: [{ name: 'Left', image: SCENE_2, frameStyle: 'Auto' }] },
+        },
+      },
+    }]);
+    const { input } = posted.jobs[0] as Extract<JobRequest, { kind: 'mockup' }>;
+    expect(input.artwork).toBe(ref('a'));
+    expect(input.settings.styleReferenceImage).toBe(ref('b'));
+    expect(input.settings.artworkSet?.panels[0].image).toBe(ref('c'));
+  });
+});
@@ -0,0 +1,104 @@
+import type { GenerationJob, JobRequest, JobStatus } from '../types';
+import { accountService } from './accountService';
+import { isBlobRef, isDataUrl, mapJobImages } from './blobRefs';
+import { cloudStorageService } from './cloudStorageService';
+
+const TOKEN_KEY = 'site_token';
+const WATCHED_KEY = 'watched_jobs';
+
+function authHeaders(): HeadersInit {
+  const token = localStorage.getItem(TOKEN_KEY);
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export const isTerminalStatus = (status: JobStatus): boolean =>
+  status === 'succeeded' || status === 'failed' || status === 'cancelled';
+
+/**
+ * Jobs carry references instead of inline images: each distinct image is
+ * uploaded once, however many jobs of the batch share it, which keeps the
+ * request under the platform's body limit and the stored inputs small.
+ */
+async function withUploadedImages(jobs: JobRequest[]): Promise<JobRequest[]> {
+  const refs = new Map<string, Promise<string>>();
+  const upload = async (value: string) => {
+    if (!isDataUrl(value) && !isBlobRef(value)) return value;
+    if (!refs.has(value)) refs.set(value, cloudStorageService.uploadImage(value));
+    return refs.get(value)!;
+  };
+  const uploaded: JobRequest[] = [];
+  for (const job of jobs) uploaded.push(await mapJobImages(job, upload));
+  return uploaded;
+}
+
+async function enqueue(jobs: JobRequest[], batchId?: string): Promise<GenerationJob[]> {
+  const res = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify({ jobs: await withUploadedImages(jobs), batchId }),
+  });
+  if (!res.ok) throw new Error(`enqueue failed: ${res.status}`);
+  const created: GenerationJob[] = await res.json();
+  watch(created.map(j => j.id));
+  kickWorker();
+  return created;
+}
+
+/** Full jobs, including results for finished ones */
+async function fetchJobs(ids: string[]): Promise<GenerationJob[]> {
+  if (ids.length === 0) return [];
+  const res = await fetch(`/api/jobs?ids=${ids.map(encodeURIComponent).join(',')}`, { headers: authHeaders() });
+  if (!res.ok) throw new Error(`fetchJobs failed: ${res.status}`);
+  return res.json();
+}
+
+async function fetchActive(): Promise<GenerationJob[]> {
+  const res = await fetch('/api/jobs?active=1', { headers: authHeaders() });
+  if (!res.ok) throw new Error(`fetchActive failed: ${res.status}`);
+  return res.json();
+}
+
+async function cancel(id: string): Promise<void> {
+  const res = await fetch(`/api/jobs?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  if (!res.ok && res.status !== 409) throw new Error(`cancel failed: ${res.status}`);
+}
+
+/** Starts a worker run now instead of waiting for the cron; the request outlives this tab */
+function kickWorker(): void {
+  fetch('/api/worker', { method: 'POST', headers: authHeaders(), keepalive: true })
+    .catch(e => console.warn('Worker kick failed:', e));
+}
+
+// Watched ids survive reloads so results of jobs that finished while the tab
+// was closed are still collected (contact sheet frames are cut client-side).
+
+// Kept per account, like the rest of the browser's local data
+function watchedKey(): string {
+  return `${WATCHED_KEY}:${accountService.currentUser()?.id ?? ''}`;
+}
+
+function watchedIds(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(watchedKey()) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function watch(ids: string[]): void {
+  const next = new Set([...watchedIds(), ...ids]);
+  localStorage.setItem(watchedKey(), JSON.stringify([...next]));
+}
+
+function unwatch(ids: string[]): void {
+  const drop = new Set(ids);
+  localStorage.setItem(watchedKey(), JSON.stringify(watchedIds().filter(id => !drop.has(id))));
+}
+
+export const jobService = { enqueue, fetchJobs, fetchActive, cancel, kickWorker, watchedIds, watch, unwatch };
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { MockupResult } from '../types';
+import { buildLineage, findInLineage, flattenLineage, lineageRoots, type LineageNode } from './lineage';
+
+const result = (id: string, createdAt: number, extra: Partial<MockupResult> = {}): MockupResult =>
+  ({ id, imageUrl: `sha256:${id}`, prompt: id, createdAt, ...extra });
+
+// Compact form of a tree for assertions: "id:link" leaves, { "id:link": children } branches
+const shape = (node: LineageNode): unknown => {
+  const label = node.link ? `${node.result.id}:${node.link}` : node.result.id;
+  return node.children.length ? { [label]: node.children.map(shape) } : label;
+};
+
+describe('buildLineage', () => {
+  it('chains original, refinements, upscales and extracted frames', () => {
+    const roots = buildLineage([
+      result('frame', 6, { extractedFrom: 'sheet' }),
+      result('sheet', 5, { derivedFrom: 'orig', isContactSheet: true }),
+      result('up', 4, { upscaledFrom: 'orig' }),
+      result('ref', 3, { refinedFrom: 'orig' }),
+      result('orig', 1),
+    ]);
+    expect(roots.map(shape)).toEqual([{ orig: ['ref:refined', 'up:upscaled', { 'sheet:contactSheet': ['frame:extracted'] }] }]);
+  });
+
+  it('groups unlinked composites made from the same sources under the earliest', () => {
+    const composite = (id: string, createdAt: number, artwork: string) =>
+      result(id, createdAt, { variantType: 'composite', compositeBaseUrl: 'sha256:room', compositeArtworkUrl: artwork });
+    const roots = buildLineage([composite('b', 2, 'sha256:art'), composite('a', 1, 'sha256:art'), composite('c', 3, 'sha256:other')]);
+    expect(roots.map(shape)).toEqual([{ a: ['b:sameSources'] }, 'c']);
+  });
+
+  it('treats results whose parent is missing as roots', () => {
+    expect(buildLineage([result('ref', 2, { refinedFrom: 'deleted' })]).map(n => n.result.id)).toEqual(['ref']);
+  });
+
+  it('breaks link loops instead of dropping results', () => {
+    const roots = buildLineage([result('a', 1, { refinedFrom: 'b' }), result('b', 2, { refinedFrom: 'a' })]);
+    expect(roots.flatMap(flattenLineage).map(n => n.result.id).sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('lineage lookups', () => {
+  const roots = buildLineage([
+    result('orig', 1),
+    result('v1', 2, { derivedFrom: 'orig' }),
+    result('v2', 3, { derivedFrom: 'orig' }),
+    result('up', 4, { upscaledFrom: 'v1' }),
+  ]);
+
+  it('maps every result to its root', () => {
+    const byId = lineageRoots(roots);
+    expect(byId.get('up')?.result.id).toBe('orig');
+    expect(byId.get('orig')?.result.id).toBe('orig');
+  });
+
+  it('finds a node with its parent, for sibling comparison and subtree deletes', () => {
+    const found = findInLineage(roots[0], 'v1')!;
+    expect(found.parent?.children.map(n => n.result.id)).toEqual(['v1', 'v2']);
+    expect(flattenLineage(found.node).map(n => n.result.id)).toEqual(['v1', 'up']);
+  });
+});
@@ -0,0 +1,121 @@
+import type { MockupResult } from '../types';
+
+/** How a result was made from its parent */
+export type LineageLink = 'refined' | 'variant' | 'sameSources' | 'upscaled' | 'contactSheet' | 'extracted';
+
+export interface LineageNode {
+  result: MockupResult;
+  /** Absent on originals */
+  link?: LineageLink;
+  children: LineageNode[];
+}
+
+export const LINEAGE_LINK_LABELS: Record<LineageLink, string> = {
+  refined: 'Refinement',
+  variant: 'Variant',
+  sameSources: 'Same sources',
+  upscaled: 'Upscale',
+  contactSheet: 'Contact sheet',
+  extracted: 'Frame',
+};
+
+// Children are listed in the order work usually happens: refine, vary, upscale, then split into frames
+const LINK_ORDER: LineageLink[] = ['refined', 'variant', 'sameSources', 'upscaled', 'contactSheet', 'extracted'];
+
+/** The explicit link a result records to the result it was made from */
+function recordedParent(result: MockupResult): { id: string; link: LineageLink } | null {
+  if (result.refinedFrom) return { id: result.refinedFrom, link: 'refined' };
+  if (result.upscaledFrom) return { id: result.upscaledFrom, link: 'upscaled' };
+  if (result.extractedFrom) return { id: result.extractedFrom, link: 'extracted' };
+  if (result.derivedFrom) return { id: result.derivedFrom, link: result.isContactSheet ? 'contactSheet' : 'variant' };
+  return null;
+}
+
+const compositeSources = (result: MockupResult): string | null =>
+  result.variantType === 'composite' && result.compositeBaseUrl && result.compositeArtworkUrl
+    ? `${result.compositeBaseUrl}|${result.compositeArtworkUrl}`
+    : null;
+
+/**
+ * Builds the lineage forest of `results` from refinedFrom, upscaledFrom,
+ * extractedFrom and derivedFrom. Composites with no recorded parent hang off
+ * the earliest composite made from the same scene photo and artwork. Results
+ * whose parent is missing (deleted, or in another project) become roots.
+ */
+export function buildLineage(results: MockupResult[]): LineageNode[] {
+  const nodes = new Map(results.map(result => [result.id, { result, children: [] } as LineageNode]));
+  const parents = new Map<string, { id: string; link: LineageLink }>();
+
+  const firstBySources = new Map<string, MockupResult>();
+  for (const result of results) {
+    const key = compositeSources(result);
+    if (!key || recordedParent(result)) continue;
+    const first = firstBySources.get(key);
+    if (!first || result.createdAt < first.createdAt) firstBySources.set(key, result);
+  }
+
+  for (const result of results) {
+    const recorded = recordedParent(result);
+    if (recorded) {
+      if (nodes.has(recorded.id)) parents.set(result.id, recorded);
+      continue;
+    }
+    const key = compositeSources(result);
+    const first = key ? firstBySources.get(key) : undefined;
+    if (first && first.id !== result.id) parents.set(result.id, { id: first.id, link: 'sameSources' });
+  }
+
+  // Links come from synced data; a loop would hide results, so break it at the node where it closes
+  const reachesItself = (id: string): boolean => {
+    const seen = new Set<string>();
+    for (let at = parents.get(id)?.id; at; at = parents.get(at)?.id) {
+      if (at === id) return true;
+      if (seen.has(at)) return false;
+      seen.add(at);
+    }
+    return false;
+  };
+  for (const id of [...parents.keys()]) {
+    if (reachesItself(id)) parents.delete(id);
+  }
+
+  const roots: LineageNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = parents.get(node.result.id);
+    if (parent) {
+      node.link = parent.link;
+      nodes.get(parent.id)!.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  for (const node of nodes.values()) {
+    node.children.sort((a, b) =>
+      LINK_ORDER.indexOf(a.link!) - LINK_ORDER.indexOf(b.link!) || a.result.createdAt - b.result.createdAt);
+  }
+  return roots;
+}
+
+/** Every node in the tree under `node`, itself first */
+export function flattenLineage(node: LineageNode): LineageNode[] {
+  return [node, ...node.children.flatMap(flattenLineage)];
+}
+
+/** Maps each result id to the root of the tree it belongs to */
+export function lineageRoots(roots: LineageNode[]): Map<string, LineageNode> {
+  const byId = new Map<string, LineageNode>();
+  for (const root of roots) {
+    for (const node of flattenLineage(root)) byId.set(node.result.id, root);
+  }
+  return byId;
+}
+
+/** Finds `id` under `node`, with the node it hangs off (null for the root itself) */
+export function findInLineage(node: LineageNode, id: string, parent: LineageNode | null = null): { node: LineageNode; parent: LineageNode | null } | null {
+  if (node.result.id === id) return { node, parent };
+  for (const child of node.children) {
+    const found = findInLineage(child, id, node);
+    if (found) return found;
+  }
+  return null;
+}
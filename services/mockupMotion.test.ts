@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import type { MockupResult } from '../types';
+import { PUSH_IN_ZOOM, crossfadeFrame, frameTimes, kenBurnsView, motionFocus, outputSize, parallaxFrame } from './mockupMotion';
+
+const result = (generation?: Partial<NonNullable<MockupResult['generation']>>): MockupResult =>
+  ({ id: 'r1', imageUrl: 'data:image/png;base64,', prompt: '', createdAt: 0, generation: generation && { resolvedPrompt: '', model: '', generatedAt: 0, retryCount: 0, ...generation } });
+
+describe('motionFocus', () => {
+  it('uses the detected artwork region, then a composite\'s placement bounds', () => {
+    const region = { x: 0.3, y: 0.2, width: 0.4, height: 0.5 };
+    expect(motionFocus(result({ fidelity: { score: 1, passed: true, region, checks: { hash: 1, histogram: 1, aspect: 1 }, failures: [], attempts: 1 } }))).toEqual(region);
+
+    const quad = [{ x: 0.2, y: 0.1 }, { x: 0.6, y: 0.15 }, { x: 0.62, y: 0.5 }, { x: 0.18, y: 0.45 }] as const;
+    const focus = motionFocus(result({ placement: { quad: [...quad], frameStyle: 'None', dropShadow: false, lightTint: 0 } }))!;
+    expect(focus.x).toBeCloseTo(0.18);
+    expect(focus.y).toBeCloseTo(0.1);
+    expect(focus.width).toBeCloseTo(0.44);
+    expect(focus.height).toBeCloseTo(0.4);
+
+    expect(motionFocus(result())).toBeUndefined();
+  });
+});
+
+describe('frameTimes', () => {
+  it('ends a push-in on its last view but never repeats a loop\'s first frame', () => {
+    expect(frameTimes(1, 4, false)).toEqual([0, 1 / 3, 2 / 3, 1]);
+    expect(frameTimes(1, 4, true)).toEqual([0, 0.25, 0.5, 0.75]);
+  });
+});
+
+describe('kenBurnsView', () => {
+  it('eases from the full frame to a closer view centred on the artwork', () => {
+    const focus = { x: 0.5, y: 0.1, width: 0.2, height: 0.2 };
+    expect(kenBurnsView(0, focus)).toEqual({ x: 0, y: 0, width: 1, height: 1 });
+    const end = kenBurnsView(1, focus);
+    expect(end.width).toBeCloseTo(1 / PUSH_IN_ZOOM);
+    expect(end.x + end.width / 2).toBeCloseTo(0.6);
+    // Centred on y 0.2 would leave the image; the view stops at the top edge
+    expect(end.y).toBe(0);
+  });
+
+  it('pushes into the centre without a focus', () => {
+    const end = kenBurnsView(1);
+    expect(end.x + end.width / 2).toBeCloseTo(0.5);
+    expect(end.y + end.height / 2).toBeCloseTo(0.5);
+  });
+});
+
+describe('parallaxFrame', () => {
+  const focus = { x: 0.3, y: 0.25, width: 0.3, height: 0.4 };
+
+  it('loops seamlessly', () => {
+    expect(parallaxFrame(1, focus).background.x).toBeCloseTo(parallaxFrame(0, focus).background.x);
+    expect(parallaxFrame(1, focus).foreground.dest.y).toBeCloseTo(parallaxFrame(0, focus).foreground.dest.y);
+  });
+
+  it('keeps the background over the whole frame and the foreground over its copy in the background', () => {
+    for (let t = 0; t < 1; t += 0.05) {
+      const { background: bg, foreground } = parallaxFrame(t, focus);
+      expect(bg.x).toBeLessThanOrEqual(0);
+      expect(bg.y).toBeLessThanOrEqual(0);
+      expect(bg.x + bg.width).toBeGreaterThanOrEqual(1);
+      expect(bg.y + bg.height).toBeGreaterThanOrEqual(1);
+
+      const copy = { x: bg.x + focus.x * bg.width, y: bg.y + focus.y * bg.height, width: focus.width * bg.width, height: focus.height * bg.height };
+      const { dest } = foreground;
+      expect(dest.x).toBeLessThanOrEqual(copy.x + 1e-9);
+      expect(dest.y).toBeLessThanOrEqual(copy.y + 1e-9);
+      expect(dest.x + dest.width).toBeGreaterThanOrEqual(copy.x + copy.width - 1e-9);
+      expect(dest.y + dest.height).toBeGreaterThanOrEqual(copy.y + copy.height - 1e-9);
+    }
+  });
+
+  it('moves the foreground further than the background', () => {
+    const a = parallaxFrame(0, focus), b = parallaxFrame(0.5, focus);
+    expect(Math.abs(a.foreground.dest.x - b.foreground.dest.x)).toBeGreaterThan(Math.abs(a.background.x - b.background.x));
+  });
+});
+
+describe('crossfadeFrame', () => {
+  it('holds each slide, then fades into the next and back to the first', () => {
+    expect(crossfadeFrame(0, 3)).toMatchObject({ from: 0, to: 1, mix: 0 });
+    expect(crossfadeFrame(0.5, 3)).toMatchObject({ from: 1, to: 2, mix: 0 });
+    const fading = crossfadeFrame(0.3, 3);
+    expect(fading.from).toBe(0);
+    expect(fading.mix).toBeGreaterThan(0);
+    expect(crossfadeFrame(0.999, 3)).toMatchObject({ from: 2, to: 0 });
+    expect(crossfadeFrame(0.999, 3).mix).toBeGreaterThan(0.99);
+  });
+});
+
+describe('outputSize', () => {
+  it('fits the longest edge and rounds to even pixels', () => {
+    expect(outputSize(3000, 4000, 1080)).toEqual({ width: 810, height: 1080 });
+    expect(outputSize(1001, 667, 480)).toEqual({ width: 480, height: 320 });
+  });
+});
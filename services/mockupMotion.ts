@@ -0,0 +1,318 @@
+import type { MockupResult, NormalizedBox } from '../types';
+import { encodeGif, muxAnimatedWebP } from './animatedImage';
+
+/**
+ * Short motion clips of finished mockups for marketplaces and social feeds,
+ * rendered on a canvas in the browser: a slow push-in, a two-layer parallax
+ * loop, or a crossfade reel through several results. The camera maths is pure;
+ * rendering and encoding below it need a DOM.
+ */
+
+export type MotionEffect = 'kenBurns' | 'parallax' | 'crossfade';
+export type MotionFormat = 'video' | 'webp' | 'gif';
+
+export const MOTION_EFFECTS: { id: MotionEffect; label: string }[] = [
+  { id: 'kenBurns', label: 'Push-in' },
+  { id: 'parallax', label: 'Parallax loop' },
+  { id: 'crossfade', label: 'Crossfade reel' },
+];
+
+/** Frame rate and longest edge per format; GIF and WebP grow quickly with size, video doesn't */
+export const MOTION_FORMATS: Record<MotionFormat, { label: string; fps: number; longEdge: number }> = {
+  video: { label: 'Video', fps: 30, longEdge: 1080 },
+  webp: { label: 'WebP', fps: 15, longEdge: 720 },
+  gif: { label: 'GIF', fps: 12, longEdge: 480 },
+};
+
+export interface MotionOptions {
+  effect: MotionEffect;
+  format: MotionFormat;
+  durationSec: number;
+}
+
+/** An image to animate, with where its artwork sits when that's known */
+export interface MotionSource {
+  /** Displayable URL; blob references must be resolved first */
+  imageUrl: string;
+  focus?: NormalizedBox;
+}
+
+const FULL_FRAME: NormalizedBox = { x: 0, y: 0, width: 1, height: 1 };
+// How far the push-in closes in: the last frame shows 1/PUSH_IN_ZOOM of the image
+export const PUSH_IN_ZOOM = 1.3;
+// Background drift of the parallax loop, as a share of the frame
+const PARALLAX_DRIFT = 0.03;
+// The foreground is drawn this much larger than it sits in the background, so its
+// own movement never uncovers the copy of it left in the background
+const FOREGROUND_LIFT = 1.08;
+// Share of each crossfade slide spent fading into the next
+const CROSSFADE_SHARE = 0.25;
+const SLIDE_ZOOM = 1.06;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export const easeInOut = (t: number): number => t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+
+/**
+ * Where the artwork sits in a result: the quality check's detected region, or
+ * the bounds of the quad a perspective composite was drawn into. These are the
+ * depth cues motion has: the piece is the foreground, the room the background.
+ */
+export function motionFocus(result: MockupResult): NormalizedBox | undefined {
+  const generation = result.generation;
+  if (generation?.fidelity?.region) return generation.fidelity.region;
+  const quad = generation?.placement?.quad;
+  if (!quad) return undefined;
+  const xs = quad.map(p => p.x), ys = quad.map(p => p.y);
+  const x = clamp(Math.min(...xs), 0, 1), y = clamp(Math.min(...ys), 0, 1);
+  return { x, y, width: clamp(Math.max(...xs), 0, 1) - x, height: clamp(Math.max(...ys), 0, 1) - y };
+}
+
+/**
+ * Times (0–1) of each frame. Loops stop one frame short of 1, which would
+ * repeat frame 0; a push-in ends exactly on its closest view.
+ */
+export function frameTimes(durationSec: number, fps: number, loop: boolean): number[] {
+  const count = Math.max(2, Math.round(durationSec * fps));
+  return Array.from({ length: count }, (_, i) => loop ? i / count : i / (count - 1));
+}
+
+/**
+ * Part of the image shown at time `t` of a push-in: the whole frame at the
+ * start, easing in to a view 1/`zoom` the size centred on `focus` (kept inside
+ * the image), or on the centre without one.
+ */
+export function kenBurnsView(t: number, focus?: NormalizedBox, zoom = PUSH_IN_ZOOM): NormalizedBox {
+  const size = 1 / zoom;
+  const cx = focus ? focus.x + focus.width / 2 : 0.5;
+  const cy = focus ? focus.y + focus.height / 2 : 0.5;
+  const end = { x: clamp(cx - size / 2, 0, 1 - size), y: clamp(cy - size / 2, 0, 1 - size), width: size, height: size };
+  const e = easeInOut(clamp(t, 0, 1));
+  return {
+    x: lerp(FULL_FRAME.x, end.x, e),
+    y: lerp(FULL_FRAME.y, end.y, e),
+    width: lerp(1, size, e),
+    height: lerp(1, size, e),
+  };
+}
+
+export interface ParallaxFrame {
+  /** Where the whole image is drawn, in fractions of the output frame */
+  background: NormalizedBox;
+  /** The focus region cut from the image, and where it's drawn */
+  foreground: { source: NormalizedBox; dest: NormalizedBox };
+}
+
+/**
+ * Two layers of a seamless loop at time `t`: the image, slightly enlarged,
+ * drifts around an ellipse, and the artwork region (`focus`, or the middle of
+ * the image without one) moves further in step with it, so it reads as nearer
+ * the camera than the wall behind it.
+ */
+export function parallaxFrame(t: number, focus?: NormalizedBox): ParallaxFrame {
+  const source = focus ?? { x: 0.25, y: 0.2, width: 0.5, height: 0.6 };
+  const angle = 2 * Math.PI * t;
+  const ux = Math.cos(angle), uy = Math.sin(angle) / 2;
+
+  const scale = 1 + 2 * PARALLAX_DRIFT;
+  const background = {
+    x: -PARALLAX_DRIFT - PARALLAX_DRIFT * ux,
+    y: -PARALLAX_DRIFT - PARALLAX_DRIFT * uy,
+    width: scale,
+    height: scale,
+  };
+
+  // Where the region sits in the background, then lifted and moved by up to the lift's margin
+  const width = source.width * scale, height = source.height * scale;
+  const marginX = ((FOREGROUND_LIFT - 1) / 2) * width;
+  const marginY = ((FOREGROUND_LIFT - 1) / 2) * height;
+  const dest = {
+    x: background.x + source.x * scale - marginX - marginX * ux,
+    y: background.y + source.y * scale - marginY - 2 * marginY * uy,
+    width: width * FOREGROUND_LIFT,
+    height: height * FOREGROUND_LIFT,
+  };
+  return { background, foreground: { source, dest } };
+}
+
+export interface CrossfadeFrame {
+  /** Slide showing, and how far through its own slow zoom it is (0–1) */
+  from: number;
+  progress: number;
+  /** Slide fading in over it, wrapping to the first so the reel loops */
+  to: number;
+  /** Opacity of `to`; 0 outside the fade */
+  mix: number;
+}
+
+/** Which of `count` equal slides show at time `t`, fading into the next over the last quarter of each */
+export function crossfadeFrame(t: number, count: number, fadeShare = CROSSFADE_SHARE): CrossfadeFrame {
+  const position = clamp(t, 0, 1) * count;
+  const from = Math.min(count - 1, Math.floor(position));
+  const progress = position - from;
+  const fadeStart = 1 - fadeShare;
+  return {
+    from,
+    progress,
+    to: (from + 1) % count,
+    mix: progress > fadeStart ? easeInOut((progress - fadeStart) / fadeShare) : 0,
+  };
+}
+
+/** Output size: the first image's shape with its longest edge at `longEdge`, rounded to even pixels for video encoders */
+export function outputSize(imageWidth: number, imageHeight: number, longEdge: number): { width: number; height: number } {
+  const scale = longEdge / Math.max(imageWidth, imageHeight);
+  const even = (n: number) => Math.max(2, Math.round((n * scale) / 2) * 2);
+  return { width: even(imageWidth), height: even(imageHeight) };
+}
+
+// ---------------------------------------------------------------- Rendering (DOM)
+
+const VIDEO_TYPES = ['video/mp4;codecs=avc1.42E01E', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/** Best video type this browser can record from a canvas, MP4 first; undefined without MediaRecorder */
+export function videoMimeType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+/** Whether the canvas can encode WebP stills (Safari falls back to PNG) */
+export function canEncodeWebP(): boolean {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  return canvas.toDataURL('image/webp').startsWith('data:image/webp');
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for animation'));
+    img.src = src;
+  });
+
+/** Draws `box` (fractions of the image) of `img` to fill the canvas, cropping to the canvas's shape */
+function drawView(ctx: CanvasRenderingContext2D, img: HTMLImageElement, box: NormalizedBox, zoom = 1) {
+  const { width, height } = ctx.canvas;
+  let sw = box.width * img.naturalWidth / zoom, sh = box.height * img.naturalHeight / zoom;
+  const target = width / height;
+  if (sw / sh > target) sw = sh * target;
+  else sh = sw / target;
+  const cx = (box.x + box.width / 2) * img.naturalWidth, cy = (box.y + box.height / 2) * img.naturalHeight;
+  ctx.drawImage(img, cx - sw / 2, cy - sh / 2, sw, sh, 0, 0, width, height);
+}
+
+function drawFrame(ctx: CanvasRenderingContext2D, images: HTMLImageElement[], sources: MotionSource[], effect: MotionEffect, t: number) {
+  const { width, height } = ctx.canvas;
+  ctx.globalAlpha = 1;
+  ctx.shadowColor = 'transparent';
+  switch (effect) {
+    case 'kenBurns':
+      drawView(ctx, images[0], kenBurnsView(t, sources[0].focus));
+      return;
+    case 'parallax': {
+      const img = images[0];
+      const { background, foreground } = parallaxFrame(t, sources[0].focus);
+      ctx.drawImage(img, background.x * width, background.y * height, background.width * width, background.height * height);
+      const { source, dest } = foreground;
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+      ctx.shadowBlur = Math.round(width * 0.02);
+      ctx.drawImage(
+        img,
+        source.x * img.naturalWidth, source.y * img.naturalHeight, source.width * img.naturalWidth, source.height * img.naturalHeight,
+        dest.x * width, dest.y * height, dest.width * width, dest.height * height,
+      );
+      return;
+    }
+    case 'crossfade': {
+      const frame = crossfadeFrame(t, images.length);
+      drawView(ctx, images[frame.from], FULL_FRAME, lerp(1, SLIDE_ZOOM, frame.progress));
+      if (frame.mix > 0) {
+        ctx.globalAlpha = frame.mix;
+        drawView(ctx, images[frame.to], FULL_FRAME);
+      }
+      return;
+    }
+  }
+}
+
+const nextFrame = (at: number) => new Promise(resolve => setTimeout(resolve, Math.max(0, at - performance.now())));
+
+/**
+ * Records the frames in real time from the canvas's stream; MediaRecorder
+ * timestamps by the clock, so the tab must stay visible while it runs.
+ */
+async function recordVideo(canvas: HTMLCanvasElement, times: number[], fps: number, draw: (t: number) => void, onProgress: (share: number) => void): Promise<Blob> {
+  const mimeType = videoMimeType();
+  if (!mimeType) throw new Error('This browser cannot record video from a canvas');
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+  const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+  recorder.start();
+  const start = performance.now();
+  for (let i = 0; i < times.length; i++) {
+    draw(times[i]);
+    track.requestFrame();
+    onProgress((i + 1) / times.length);
+    await nextFrame(start + ((i + 1) * 1000) / fps);
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(t => t.stop());
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+}
+
+const toWebP = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => canvas.toBlob(
+    blob => blob ? blob.arrayBuffer().then(b => resolve(new Uint8Array(b)), reject) : reject(new Error('Failed to encode frame')),
+    'image/webp',
+    0.85,
+  ));
+
+/**
+ * Renders `sources` with `options` into a video, animated WebP or GIF. Push-in
+ * and parallax animate the first source; a crossfade reel needs at least two.
+ * `onProgress` gets the share of frames done.
+ */
+export async function renderMotion(sources: MotionSource[], options: MotionOptions, onProgress: (share: number) => void = () => {}): Promise<Blob> {
+  if (sources.length === 0) throw new Error('Nothing to animate');
+  if (options.effect === 'crossfade' && sources.length < 2) throw new Error('A crossfade reel needs at least two images');
+  const images = await Promise.all((options.effect === 'crossfade' ? sources : sources.slice(0, 1)).map(s => loadImage(s.imageUrl)));
+
+  const { fps, longEdge } = MOTION_FORMATS[options.format];
+  const canvas = document.createElement('canvas');
+  Object.assign(canvas, outputSize(images[0].naturalWidth, images[0].naturalHeight, longEdge));
+  const ctx = canvas.getContext('2d', { willReadFrequently: options.format === 'gif' });
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.imageSmoothingQuality = 'high';
+
+  const times = frameTimes(options.durationSec, fps, options.effect !== 'kenBurns');
+  const draw = (t: number) => {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawFrame(ctx, images, sources, options.effect, t);
+  };
+
+  if (options.format === 'video') return recordVideo(canvas, times, fps, draw, onProgress);
+
+  const frameMs = 1000 / fps;
+  const frames: (Uint8ClampedArray | Uint8Array)[] = [];
+  for (let i = 0; i < times.length; i++) {
+    draw(times[i]);
+    frames.push(options.format === 'gif'
+      ? ctx.getImageData(0, 0, canvas.width, canvas.height).data
+      : await toWebP(canvas));
+    onProgress((i + 1) / times.length);
+    // Let the progress bar paint between frames
+    await nextFrame(0);
+  }
+  const bytes = options.format === 'gif'
+    ? encodeGif(frames as Uint8ClampedArray[], canvas.width, canvas.height, frameMs)
+    : muxAnimatedWebP(frames as Uint8Array[], canvas.width, canvas.height, frameMs);
+  return new Blob([bytes], { type: options.format === 'gif' ? 'image/gif' : 'image/webp' });
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ambientTint,
+  applyHomography,
+  boxToQuad,
+  computeHomography,
+  fitBoxToAspect,
+  fitAspectToQuad,
+  fitToQuad,
+  framePixels,
+  isConvexQuad,
+  printQuad,
+  warpInto,
+  type PixelBuffer,
+  type Quad,
+} from './perspectiveCompositor';
+
+const solid = (width: number, height: number, rgb: [number, number, number]): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([...rgb, 255], i);
+  return { width, height, data };
+};
+
+// Distinct colour per pixel so any resampling shows up
+const gradient = (width: number, height: number): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([x * 40, y * 40, (x + y) * 20, 255], (y * width + x) * 4);
+  }
+  return { width, height, data };
+};
+
+const rect = (x: number, y: number, w: number, h: number): Quad =>
+  [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }];
+
+const pixel = (buf: PixelBuffer, x: number, y: number) => Array.from(buf.data.slice((y * buf.width + x) * 4, (y * buf.width + x) * 4 + 4));
+
+describe('computeHomography', () => {
+  it('maps each source corner onto its destination corner', () => {
+    const dst: Quad = [{ x: 12, y: 8 }, { x: 90, y: 20 }, { x: 85, y: 70 }, { x: 15, y: 95 }];
+    const h = computeHomography(rect(0, 0, 100, 100), dst);
+    rect(0, 0, 100, 100).forEach((corner, i) => {
+      const p = applyHomography(h, corner);
+      expect(p.x).toBeCloseTo(dst[i].x, 6);
+      expect(p.y).toBeCloseTo(dst[i].y, 6);
+    });
+  });
+
+  it('rejects corners that collapse onto a line', () => {
+    expect(() => computeHomography(rect(0, 0, 10, 10), [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }])).toThrow('degenerate');
+  });
+});
+
+describe('isConvexQuad', () => {
+  it('accepts a perspective quad and rejects a crossed one', () => {
+    expect(isConvexQuad([{ x: 0, y: 0 }, { x: 10, y: 1 }, { x: 9, y: 9 }, { x: 1, y: 10 }])).toBe(true);
+    expect(isConvexQuad([{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }])).toBe(false);
+  });
+});
+
+describe('boxToQuad', () => {
+  it('uses the box corners on a frontal wall', () => {
+    expect(boxToQuad({ x: 0.1, y: 0.2, width: 0.3, height: 0.5 })).toEqual([
+      { x: 0.1, y: 0.2 }, { x: 0.4, y: 0.2 }, { x: 0.4, y: 0.7 }, { x: 0.1, y: 0.7 },
+    ]);
+  });
+
+  it('shortens the far edge of an angled wall', () => {
+    const [tl, tr, br, bl] = boxToQuad({ x: 0, y: 0, width: 0.5, height: 0.5 }, 'angled-right');
+    expect(br.y - tr.y).toBeLessThan(bl.y - tl.y);
+    expect(isConvexQuad([tl, tr, br, bl])).toBe(true);
+  });
+});
+
+describe('fitBoxToAspect', () => {
+  it('centres the artwork\'s proportions in the box, measured in photo pixels', () => {
+    // A 0.4 × 0.4 box on a 2:1 photo is 0.8 : 0.4 in pixels, so square artwork takes half its width
+    const box = fitBoxToAspect({ x: 0.1, y: 0.2, width: 0.4, height: 0.4 }, 1, 2);
+    expect(box.x).toBeCloseTo(0.2, 9);
+    expect(box.y).toBeCloseTo(0.2, 9);
+    expect(box.width).toBeCloseTo(0.2, 9);
+    expect(box.height).toBeCloseTo(0.4, 9);
+  });
+
+  it('narrows the height for wide artwork', () => {
+    const box = fitBoxToAspect({ x: 0, y: 0, width: 0.5, height: 0.5 }, 2, 1);
+    expect(box.width).toBeCloseTo(0.5, 9);
+    expect(box.height).toBeCloseTo(0.25, 9);
+    expect(box.y).toBeCloseTo(0.125, 9);
+  });
+});
+
+describe('fitToQuad', () => {
+  it('centres a piece of the given pixel size in a frontal region', () => {
+    expect(fitToQuad(rect(100, 100, 200, 200), 100, 50).map(p => [p.x, p.y].map(v => Math.round(v * 1e6) / 1e6)))
+      .toEqual([[150, 175], [250, 175], [250, 225], [150, 225]]);
+  });
+
+  it('keeps the region perspective', () => {
+    const region: Quad = [{ x: 0, y: 0 }, { x: 100, y: 20 }, { x: 100, y: 80 }, { x: 0, y: 100 }];
+    const [tl, tr, br, bl] = fitToQuad(region, 50, 50);
+    expect(br.y - tr.y).toBeLessThan(bl.y - tl.y);
+  });
+});
+
+describe('fitAspectToQuad', () => {
+  const round = (quad: Quad) => quad.map(p => [p.x, p.y].map(v => Math.round(v * 1e6) / 1e6));
+
+  it('fits landscape artwork across a portrait region and portrait artwork up a landscape one', () => {
+    expect(round(fitAspectToQuad(rect(0, 0, 100, 200), 2))).toEqual([[0, 75], [100, 75], [100, 125], [0, 125]]);
+    expect(round(fitAspectToQuad(rect(0, 0, 200, 100), 0.5))).toEqual([[75, 0], [125, 0], [125, 100], [75, 100]]);
+  });
+
+  it('fills a region that already has the artwork\'s proportions', () => {
+    expect(round(fitAspectToQuad(rect(10, 10, 300, 200), 1.5))).toEqual(round(rect(10, 10, 300, 200)));
+  });
+});
+
+describe('printQuad', () => {
+  it('fits artwork shaped unlike the print inside it instead of stretching it', () => {
+    // Square artwork on an unframed A3 (29.7 × 42 cm) at 10 px/cm: 297 × 297 px, centred
+    const [tl, tr, br, bl] = printQuad(rect(0, 0, 1000, 1000), { width: 29.7, height: 42, unit: 'cm' }, 1, 'None', 10);
+    expect(tr.x - tl.x).toBeCloseTo(297, 6);
+    expect(bl.y - tl.y).toBeCloseTo(297, 6);
+    expect((tl.y + bl.y) / 2).toBeCloseTo(500, 6);
+    expect(br.x - bl.x).toBeCloseTo(297, 6);
+  });
+
+  it('adds the moulding around the fitted artwork', () => {
+    // 2:1 artwork on a 20 × 20 cm print is 20 × 10 cm; Sleek Black adds 3% of 20 cm per side
+    const [tl, tr, , bl] = printQuad(rect(0, 0, 1000, 1000), { width: 20, height: 20, unit: 'cm' }, 2, 'Sleek Black', 10);
+    expect(tr.x - tl.x).toBeCloseTo(212, 6);
+    expect(bl.y - tl.y).toBeCloseTo(112, 6);
+  });
+});
+
+describe('warpInto', () => {
+  it('copies the artwork pixel for pixel when the quad is an aligned rectangle of the same size', () => {
+    const art = gradient(4, 3);
+    const dst = solid(10, 10, [255, 255, 255]);
+    warpInto(dst, art, rect(2, 5, 4, 3));
+    for (let y = 0; y < 3; y++) {
+      for (let x = 0; x < 4; x++) expect(pixel(dst, x + 2, y + 5)).toEqual(pixel(art, x, y));
+    }
+    expect(pixel(dst, 1, 5)).toEqual([255, 255, 255, 255]);
+    expect(pixel(dst, 6, 5)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('applies the light tint', () => {
+    const dst = solid(4, 4, [0, 0, 0]);
+    warpInto(dst, solid(2, 2, [200, 200, 200]), rect(1, 1, 2, 2), [0.5, 1, 1]);
+    expect(pixel(dst, 1, 1)).toEqual([100, 200, 200, 255]);
+  });
+});
+
+describe('framePixels', () => {
+  it('surrounds the untouched artwork with a moulding', () => {
+    const art = gradient(100, 50);
+    const framed = framePixels(art, 'Natural Oak');
+    const border = (framed.width - art.width) / 2;
+    expect(border).toBeGreaterThan(0);
+    expect(framed.height - art.height).toBe(2 * border);
+    expect(pixel(framed, border + 3, border + 2)).toEqual(pixel(art, 3, 2));
+    expect(pixel(framed, 0, framed.height >> 1)).not.toEqual(pixel(art, 0, 25));
+  });
+
+  it('leaves the artwork alone without a frame', () => {
+    const art = gradient(4, 4);
+    expect(framePixels(art, 'None')).toBe(art);
+  });
+});
+
+describe('ambientTint', () => {
+  it('darkens towards a dim wall and warms towards a warm one', () => {
+    const [r, g, b] = ambientTint(solid(20, 20, [120, 100, 80]), rect(5, 5, 10, 10), 1);
+    expect(g).toBeLessThan(1);
+    expect(r).toBeGreaterThan(b);
+  });
+
+  it('does nothing at zero strength', () => {
+    expect(ambientTint(solid(20, 20, [50, 50, 50]), rect(5, 5, 10, 10), 0)).toEqual([1, 1, 1]);
+  });
+});
@@ -0,0 +1,427 @@
+import type { FrameStyle, NormalizedBox, PerspectivePlacement, PhysicalSize, PlacementQuad, WallOrientation } from '../types';
+import { fitArtworkToPrint, referencePixelsPerCm, sizeInCm } from './printSizing';
+
+/**
+ * Local, deterministic alternative to generateComposite: the artwork is
+ * warped onto a wall region of the base photo with a homography, so the room
+ * is untouched and the artwork's own pixels are what ends up on the wall.
+ * Nothing here calls the network.
+ */
+
+/** Recorded as the `model` of results made here */
+export const PERSPECTIVE_COMPOSITOR_MODEL = 'perspective-compositor';
+
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  /** RGBA, row-major, like ImageData */
+  data: Uint8ClampedArray;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Quad = [Point, Point, Point, Point];
+
+/** Row-major 3x3 matrix with the last entry fixed at 1 */
+export type Homography = number[];
+
+type Rgb = [number, number, number];
+
+/** Solves A·x = b by Gaussian elimination with partial pivoting */
+function solveLinear(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-10) throw new Error('Placement corners are degenerate');
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const f = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= f * m[col][k];
+    }
+  }
+  const x = new Array<number>(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/** The projective transform taking each corner of `src` to the matching corner of `dst` */
+export function computeHomography(src: Quad, dst: Quad): Homography {
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  return [...solveLinear(A, b), 1];
+}
+
+export function applyHomography(h: Homography, p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return { x: (h[0] * p.x + h[1] * p.y + h[2]) / w, y: (h[3] * p.x + h[4] * p.y + h[5]) / w };
+}
+
+/** Whether the corners, in order, outline a convex shape (anything else can't be a flat rectangle seen in perspective) */
+export function isConvexQuad(quad: readonly Point[]): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const [a, b, c] = [quad[i], quad[(i + 1) % 4], quad[(i + 2) % 4]];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < 1e-9) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
+
+export const toPixelQuad = (quad: PlacementQuad, width: number, height: number): Quad =>
+  quad.map(p => ({ x: p.x * width, y: p.y * height })) as Quad;
+
+/** Centred starting region for the corner editor */
+export const DEFAULT_PLACEMENT_QUAD: PlacementQuad = [
+  { x: 0.35, y: 0.25 },
+  { x: 0.65, y: 0.25 },
+  { x: 0.65, y: 0.65 },
+  { x: 0.35, y: 0.65 },
+];
+
+/**
+ * The largest box of `aspectRatio` (width / height in photo pixels) centred in
+ * `box`, both normalised to a photo whose own aspect ratio is `photoAspectRatio`.
+ */
+export function fitBoxToAspect(box: NormalizedBox, aspectRatio: number, photoAspectRatio: number): NormalizedBox {
+  const ratio = aspectRatio / photoAspectRatio;
+  const width = Math.min(box.width, box.height * ratio);
+  const height = width / ratio;
+  return { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height };
+}
+
+/**
+ * Starting corners for a region found by scene analysis. On an angled wall
+ * the far edge is pulled in a little so the editor starts close to the real
+ * perspective; the user drags the corners the rest of the way.
+ */
+export function boxToQuad(box: NormalizedBox, orientation: WallOrientation = 'frontal'): PlacementQuad {
+  const left = box.x, right = box.x + box.width, top = box.y, bottom = box.y + box.height;
+  const inset = box.height * 0.08;
+  const leftInset = orientation === 'angled-left' ? inset : 0;
+  const rightInset = orientation === 'angled-right' ? inset : 0;
+  return [
+    { x: left, y: top + leftInset },
+    { x: right, y: top + rightInset },
+    { x: right, y: bottom - rightInset },
+    { x: left, y: bottom - leftInset },
+  ];
+}
+
+// Moulding colour and width (as a share of the artwork's longer side); "Auto" uses a plain black frame
+const FRAME_FINISHES: Record<FrameStyle, { color: Rgb; width: number } | null> = {
+  'Auto': { color: [26, 26, 26], width: 0.03 },
+  'None': null,
+  'Sleek Black': { color: [26, 26, 26], width: 0.03 },
+  'Modern White': { color: [242, 242, 238], width: 0.035 },
+  'Natural Oak': { color: [176, 133, 82], width: 0.045 },
+  'Classic Gold': { color: [184, 150, 62], width: 0.06 },
+  'Industrial Metal': { color: [110, 115, 120], width: 0.02 },
+};
+
+/** Outer size of a print once `frameStyle`'s moulding is added, in the print's own unit */
+function framedSize(print: PhysicalSize, frameStyle: FrameStyle): PhysicalSize {
+  const border = (FRAME_FINISHES[frameStyle]?.width ?? 0) * Math.max(print.width, print.height);
+  return { ...print, width: print.width + 2 * border, height: print.height + 2 * border };
+}
+
+const UNIT_SQUARE: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+/** Mean width (top and bottom edges) and height (the sides) of a region, in pixels */
+function quadSize(quad: Quad): { width: number; height: number } {
+  const [tl, tr, br, bl] = quad;
+  const dist = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  return { width: (dist(tl, tr) + dist(bl, br)) / 2, height: (dist(tl, bl) + dist(tr, br)) / 2 };
+}
+
+/**
+ * The outline of a piece `widthPx` by `heightPx` centred in the wall region
+ * `quad`. Widths are compared with the region's top and bottom edges and
+ * heights with its sides, so the piece follows the region's perspective.
+ */
+export function fitToQuad(quad: Quad, widthPx: number, heightPx: number): Quad {
+  const size = quadSize(quad);
+  const fw = widthPx / size.width;
+  const fh = heightPx / size.height;
+  const h = computeHomography(UNIT_SQUARE, quad);
+  return UNIT_SQUARE.map(p => applyHomography(h, { x: 0.5 + (p.x - 0.5) * fw, y: 0.5 + (p.y - 0.5) * fh })) as Quad;
+}
+
+/**
+ * Where a `print` of true size hangs in the wall region `quad` at `pxPerCm`:
+ * the artwork fitted to the print in its own proportions, plus the moulding
+ * of `frameStyle`, centred.
+ */
+export function printQuad(quad: Quad, print: PhysicalSize, artworkAspectRatio: number, frameStyle: FrameStyle, pxPerCm: number): Quad {
+  const outer = framedSize(fitArtworkToPrint(sizeInCm(print), artworkAspectRatio), frameStyle);
+  return fitToQuad(quad, outer.width * pxPerCm, outer.height * pxPerCm);
+}
+
+/**
+ * The largest piece of `aspectRatio` (width / height) centred in the wall
+ * region `quad`, so artwork keeps its proportions whatever shape was marked.
+ */
+export function fitAspectToQuad(quad: Quad, aspectRatio: number): Quad {
+  const { width, height } = quadSize(quad);
+  return width / height > aspectRatio
+    ? fitToQuad(quad, height * aspectRatio, height)
+    : fitToQuad(quad, width, width / aspectRatio);
+}
+
+/**
+ * The artwork with a moulding of `frameStyle` around it. The artwork's pixels
+ * are copied unchanged; the moulding is lit from the top-left, with a darker
+ * lip where it meets the artwork.
+ */
+export function framePixels(artwork: PixelBuffer, frameStyle: FrameStyle): PixelBuffer {
+  const finish = FRAME_FINISHES[frameStyle];
+  if (!finish) return artwork;
+  const border = Math.max(1, Math.round(finish.width * Math.max(artwork.width, artwork.height)));
+  const lip = Math.max(1, Math.round(border * 0.15));
+  const width = artwork.width + 2 * border;
+  const height = artwork.height + 2 * border;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const ax = x - border;
+      const ay = y - border;
+      if (ax >= 0 && ay >= 0 && ax < artwork.width && ay < artwork.height) {
+        const j = (ay * artwork.width + ax) * 4;
+        data[i] = artwork.data[j];
+        data[i + 1] = artwork.data[j + 1];
+        data[i + 2] = artwork.data[j + 2];
+        data[i + 3] = artwork.data[j + 3];
+        continue;
+      }
+      // The nearest outer edge decides which side of the moulding this is
+      const toEdge = [y, width - 1 - x, height - 1 - y, x]; // top, right, bottom, left
+      const side = toEdge.indexOf(Math.min(...toEdge));
+      let shade = [1.15, 0.9, 0.8, 1.08][side];
+      if (Math.min(...toEdge) >= border - lip) shade *= 0.7;
+      data[i] = finish.color[0] * shade;
+      data[i + 1] = finish.color[1] * shade;
+      data[i + 2] = finish.color[2] * shade;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function pointInQuad(quad: Quad, x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = 3; i < 4; j = i++) {
+    const a = quad[i];
+    const b = quad[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+function quadBounds(quad: Quad, width: number, height: number) {
+  const xs = quad.map(p => p.x);
+  const ys = quad.map(p => p.y);
+  return {
+    x0: Math.max(0, Math.floor(Math.min(...xs))),
+    y0: Math.max(0, Math.floor(Math.min(...ys))),
+    x1: Math.min(width, Math.ceil(Math.max(...xs))),
+    y1: Math.min(height, Math.ceil(Math.max(...ys))),
+  };
+}
+
+const quadArea = (quad: Quad): number =>
+  Math.abs(quad.reduce((sum, p, i) => {
+    const q = quad[(i + 1) % 4];
+    return sum + p.x * q.y - q.x * p.y;
+  }, 0)) / 2;
+
+/**
+ * Per-channel multipliers that bring the artwork towards the light falling on
+ * the wall region it covers: darker for a dim wall, warmer for a warm one.
+ * `strength` 0 returns [1, 1, 1].
+ */
+export function ambientTint(base: PixelBuffer, quad: Quad, strength: number): Rgb {
+  if (strength <= 0) return [1, 1, 1];
+  const { x0, y0, x1, y1 } = quadBounds(quad, base.width, base.height);
+  // Sample at most ~10k pixels; the average doesn't need more
+  const step = Math.max(1, Math.floor(Math.sqrt(((x1 - x0) * (y1 - y0)) / 10000)));
+  const sum: Rgb = [0, 0, 0];
+  let count = 0;
+  for (let y = y0; y < y1; y += step) {
+    for (let x = x0; x < x1; x += step) {
+      if (!pointInQuad(quad, x + 0.5, y + 0.5)) continue;
+      const i = (y * base.width + x) * 4;
+      sum[0] += base.data[i];
+      sum[1] += base.data[i + 1];
+      sum[2] += base.data[i + 2];
+      count++;
+    }
+  }
+  if (count === 0) return [1, 1, 1];
+  const mean = sum.map(c => c / count) as Rgb;
+  const gray = (mean[0] + mean[1] + mean[2]) / 3 || 1;
+  // A well-lit pale wall reads ~200; brighter walls don't brighten the print
+  const brightness = Math.min(1, Math.max(0.45, gray / 200));
+  return mean.map(c => 1 + (brightness * (c / gray) - 1) * Math.min(1, strength)) as Rgb;
+}
+
+/**
+ * Draws `src` into `quad` on `dst` (in place), sampling bilinearly through the
+ * inverse homography and anti-aliasing the edges. Pixels are multiplied by `tint`.
+ */
+export function warpInto(dst: PixelBuffer, src: PixelBuffer, quad: Quad, tint: Rgb = [1, 1, 1]): void {
+  const { width: sw, height: sh, data: s } = src;
+  const toSource = computeHomography(quad, [
+    { x: 0, y: 0 },
+    { x: sw, y: 0 },
+    { x: sw, y: sh },
+    { x: 0, y: sh },
+  ]);
+  // Source pixels per destination pixel, so edge softening is about one screen pixel wide
+  const scale = Math.sqrt((sw * sh) / Math.max(1, quadArea(quad)));
+  const { x0, y0, x1, y1 } = quadBounds(quad, dst.width, dst.height);
+  const d = dst.data;
+
+  const sample = (x: number, y: number, c: number) => s[(y * sw + x) * 4 + c];
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const p = applyHomography(toSource, { x: x + 0.5, y: y + 0.5 });
+      const edge = Math.min(p.x, sw - p.x, p.y, sh - p.y) / scale + 0.5;
+      if (edge <= 0) continue;
+      const coverage = Math.min(1, edge);
+
+      const fx = Math.min(sw - 1, Math.max(0, p.x - 0.5));
+      const fy = Math.min(sh - 1, Math.max(0, p.y - 0.5));
+      const ix = Math.floor(fx);
+      const iy = Math.floor(fy);
+      const jx = Math.min(sw - 1, ix + 1);
+      const jy = Math.min(sh - 1, iy + 1);
+      const tx = fx - ix;
+      const ty = fy - iy;
+
+      const i = (y * dst.width + x) * 4;
+      const alpha = coverage * (
+        (sample(ix, iy, 3) * (1 - tx) + sample(jx, iy, 3) * tx) * (1 - ty) +
+        (sample(ix, jy, 3) * (1 - tx) + sample(jx, jy, 3) * tx) * ty
+      ) / 255;
+      for (let c = 0; c < 3; c++) {
+        const value = (
+          (sample(ix, iy, c) * (1 - tx) + sample(jx, iy, c) * tx) * (1 - ty) +
+          (sample(ix, jy, c) * (1 - tx) + sample(jx, jy, c) * tx) * ty
+        ) * tint[c];
+        d[i + c] = value * alpha + d[i + c] * (1 - alpha);
+      }
+    }
+  }
+}
+
+// --- Canvas side (browser only) ---
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+
+/** Width / height of an image (data or object URL) */
+export async function imageAspectRatio(src: string): Promise<number> {
+  const img = await loadImage(src);
+  return img.naturalWidth / img.naturalHeight;
+}
+
+function pixelsOf(source: CanvasImageSource, width: number, height: number): PixelBuffer {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  return { width, height, data };
+}
+
+/**
+ * Places `artwork` on `baseImage` (data or object URLs) and returns a PNG data
+ * URL at the base photo's full resolution. The framed artwork keeps its
+ * proportions: fitted to the print at its true size with a scale, otherwise as large as fits in
+ * the marked region, centred either way. Artwork much larger than its spot
+ * on the wall is first reduced with the browser's high-quality resampling,
+ * which aliases less than sampling it directly.
+ */
+export async function composePerspective(
+  baseImage: string,
+  artwork: string,
+  placement: PerspectivePlacement
+): Promise<{ imageUrl: string; width: number; height: number }> {
+  const [base, art] = await Promise.all([loadImage(baseImage), loadImage(artwork)]);
+  const { naturalWidth: width, naturalHeight: height } = base;
+  let quad = toPixelQuad(placement.quad, width, height);
+  if (!isConvexQuad(quad)) throw new Error('The four corners must outline a convex shape');
+  if (placement.scale) {
+    const pxPerCm = referencePixelsPerCm(placement.scale.reference, width, height);
+    if (!pxPerCm) throw new Error('Mark both ends of the scale reference and give its length');
+    quad = printQuad(quad, placement.scale.print, art.naturalWidth / art.naturalHeight, placement.frameStyle, pxPerCm);
+  }
+
+  const longestEdge = Math.max(...quad.map((p, i) => Math.hypot(quad[(i + 1) % 4].x - p.x, quad[(i + 1) % 4].y - p.y)));
+  const reduce = Math.min(1, (2 * longestEdge) / Math.max(art.naturalWidth, art.naturalHeight));
+  const framed = framePixels(
+    pixelsOf(art, Math.max(1, Math.round(art.naturalWidth * reduce)), Math.max(1, Math.round(art.naturalHeight * reduce))),
+    placement.frameStyle
+  );
+  if (!placement.scale) quad = fitAspectToQuad(quad, framed.width / framed.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.drawImage(base, 0, 0);
+  const tint = ambientTint(pixelsOf(base, width, height), quad, placement.lightTint);
+
+  if (placement.dropShadow) {
+    // The shape itself is drawn off-canvas so only its shadow lands on the wall
+    const size = Math.sqrt(quadArea(quad));
+    const shift = width + size;
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+    ctx.shadowBlur = size * 0.05;
+    ctx.shadowOffsetX = size * 0.008 + shift;
+    ctx.shadowOffsetY = size * 0.02;
+    ctx.fillStyle = '#000';
+    ctx.beginPath();
+    quad.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x - shift, p.y) : ctx.lineTo(p.x - shift, p.y)));
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+  }
+
+  const image = ctx.getImageData(0, 0, width, height);
+  warpInto({ width, height, data: image.data }, framed, quad, tint);
+  ctx.putImageData(image, 0, 0);
+  return { imageUrl: canvas.toDataURL('image/png'), width, height };
+}
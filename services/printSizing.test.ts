@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { buildScaleInstructions, fitArtworkToPrint, formatPhysicalSize, printDimensions, referencePixelsPerCm } from './printSizing';
+
+describe('printDimensions', () => {
+  it('turns standard sizes landscape for landscape artwork', () => {
+    expect(printDimensions('A3')).toEqual({ width: 29.7, height: 42, unit: 'cm' });
+    expect(printDimensions('18x24', undefined, 1.5)).toEqual({ width: 24, height: 18, unit: 'in' });
+  });
+
+  it('takes custom sizes as entered and rejects unusable ones', () => {
+    expect(printDimensions('Custom', { width: 100, height: 50, unit: 'cm' }, 0.5)).toEqual({ width: 100, height: 50, unit: 'cm' });
+    expect(printDimensions('Custom')).toBeNull();
+    expect(printDimensions('Custom', { width: 0, height: 50, unit: 'cm' })).toBeNull();
+  });
+});
+
+describe('fitArtworkToPrint', () => {
+  it('fits square artwork on a portrait sheet by its width', () => {
+    expect(fitArtworkToPrint({ width: 29.7, height: 42, unit: 'cm' }, 1)).toEqual({ width: 29.7, height: 29.7, unit: 'cm' });
+  });
+
+  it('fits tall artwork on a landscape sheet by its height', () => {
+    expect(fitArtworkToPrint({ width: 24, height: 18, unit: 'in' }, 0.5)).toEqual({ width: 9, height: 18, unit: 'in' });
+  });
+
+  it('keeps the sheet without a ratio', () => {
+    expect(fitArtworkToPrint({ width: 8, height: 10, unit: 'in' })).toEqual({ width: 8, height: 10, unit: 'in' });
+  });
+});
+
+describe('formatPhysicalSize', () => {
+  it('adds centimetres to inch sizes', () => {
+    expect(formatPhysicalSize({ width: 29.7, height: 42, unit: 'cm' })).toBe('29.7 × 42 cm');
+    expect(formatPhysicalSize({ width: 8, height: 10, unit: 'in' })).toBe('8 × 10 in (20.3 × 25.4 cm)');
+  });
+});
+
+describe('buildScaleInstructions', () => {
+  it('relates the print to the reference across units', () => {
+    const text = buildScaleInstructions({ width: 21, height: 29.7, unit: 'cm' }, { label: 'sofa width', length: 84, unit: 'in' });
+    // 84 in = 213.36 cm
+    expect(text).toContain('exactly 21 × 29.7 cm');
+    expect(text).toContain('the sofa width is 84 in');
+    expect(text).toContain('width is 10% and its height 14%');
+  });
+
+  it('states the size alone without a reference', () => {
+    expect(buildScaleInstructions({ width: 42, height: 59.4, unit: 'cm' })).not.toContain('Scale reference');
+  });
+});
+
+describe('referencePixelsPerCm', () => {
+  it('measures the marked reference on the photo', () => {
+    const reference = { label: 'ceiling', length: 250, unit: 'cm' as const, from: { x: 0.5, y: 0 }, to: { x: 0.5, y: 1 } };
+    expect(referencePixelsPerCm(reference, 800, 1000)).toBe(4);
+    expect(referencePixelsPerCm({ ...reference, to: undefined }, 800, 1000)).toBeNull();
+  });
+});
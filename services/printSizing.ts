@@ -0,0 +1,92 @@
+import type { LengthUnit, PhysicalSize, PrintSize, SceneReference } from '../types';
+
+/**
+ * Physical print sizes and the scale cues built from them. Pure, like the
+ * prompt engine that uses it, so browser, server and compositor agree.
+ */
+
+export const CM_PER_INCH = 2.54;
+
+/** Portrait sizes; ISO sizes in centimetres, US frame sizes in inches */
+export const STANDARD_PRINT_SIZES: Record<Exclude<PrintSize, 'Custom'>, PhysicalSize> = {
+  'A1': { width: 59.4, height: 84.1, unit: 'cm' },
+  'A2': { width: 42, height: 59.4, unit: 'cm' },
+  'A3': { width: 29.7, height: 42, unit: 'cm' },
+  'A4': { width: 21, height: 29.7, unit: 'cm' },
+  '8x10': { width: 8, height: 10, unit: 'in' },
+  '11x14': { width: 11, height: 14, unit: 'in' },
+  '18x24': { width: 18, height: 24, unit: 'in' },
+  '24x36': { width: 24, height: 36, unit: 'in' },
+};
+
+/** Starting values when the user switches to a custom size or turns on scale-aware mode */
+export const DEFAULT_CUSTOM_PRINT_SIZE: PhysicalSize = { width: 50, height: 70, unit: 'cm' };
+export const DEFAULT_SCENE_REFERENCE: SceneReference = { label: 'ceiling height', length: 250, unit: 'cm' };
+
+export const toCm = (length: number, unit: LengthUnit): number => unit === 'in' ? length * CM_PER_INCH : length;
+
+export const sizeInCm = (size: PhysicalSize): PhysicalSize =>
+  ({ width: toCm(size.width, size.unit), height: toCm(size.height, size.unit), unit: 'cm' });
+
+const isValidSize = (size?: PhysicalSize): size is PhysicalSize =>
+  !!size && size.width > 0 && size.height > 0 && Number.isFinite(size.width) && Number.isFinite(size.height);
+
+/**
+ * The print as hung. Standard sizes turn landscape for landscape artwork;
+ * custom sizes are taken as entered. Null for "Custom" without a usable size.
+ */
+export function printDimensions(printSize: PrintSize, custom?: PhysicalSize, artworkAspectRatio?: number): PhysicalSize | null {
+  if (printSize === 'Custom') return isValidSize(custom) ? custom : null;
+  const size = STANDARD_PRINT_SIZES[printSize];
+  return artworkAspectRatio && artworkAspectRatio > 1 ? { width: size.height, height: size.width, unit: size.unit } : size;
+}
+
+/**
+ * The artwork as printed on a `print` sheet: as large as fits in its own
+ * proportions, so artwork shaped unlike the sheet is never stretched to it.
+ * Without a ratio the artwork is taken to fill the sheet.
+ */
+export function fitArtworkToPrint(print: PhysicalSize, artworkAspectRatio?: number): PhysicalSize {
+  if (!artworkAspectRatio || !(artworkAspectRatio > 0)) return print;
+  return print.width / print.height > artworkAspectRatio
+    ? { ...print, width: print.height * artworkAspectRatio }
+    : { ...print, height: print.width / artworkAspectRatio };
+}
+
+const round = (v: number) => String(Math.round(v * 10) / 10);
+
+/** e.g. "29.7 × 42 cm" or "18 × 24 in (45.7 × 61 cm)" */
+export function formatPhysicalSize(size: PhysicalSize): string {
+  const own = `${round(size.width)} × ${round(size.height)} ${size.unit}`;
+  if (size.unit === 'cm') return own;
+  const cm = sizeInCm(size);
+  return `${own} (${round(cm.width)} × ${round(cm.height)} cm)`;
+}
+
+/** A print size label for prompts and captions, e.g. "A3 (29.7 × 42 cm)" */
+export function describePrintSize(printSize: PrintSize, size: PhysicalSize): string {
+  return printSize === 'Custom' ? formatPhysicalSize(size) : `${printSize} (${formatPhysicalSize(size)})`;
+}
+
+/**
+ * Tells the model the print's true size and, in scale-aware mode, how it
+ * compares with a known length in the scene, since models otherwise guess and
+ * routinely render an A4 as large as an A1.
+ */
+export function buildScaleInstructions(print: PhysicalSize, reference?: SceneReference): string {
+  const lines = [`TRUE SCALE: The print measures exactly ${formatPhysicalSize(print)}. Show it at that real size relative to the furniture and room; do not enlarge or shrink it for effect.`];
+  if (reference && reference.length > 0 && reference.label.trim()) {
+    const printCm = sizeInCm(print);
+    const referenceCm = toCm(reference.length, reference.unit);
+    const share = (v: number) => `${Math.round((v / referenceCm) * 100)}%`;
+    lines.push(`Scale reference: the ${reference.label.trim()} is ${round(reference.length)} ${reference.unit}. The print's width is ${share(printCm.width)} and its height ${share(printCm.height)} of that length.`);
+  }
+  return lines.join(' ');
+}
+
+/** Photo pixels per centimetre along the reference marked on a `width` × `height` base photo */
+export function referencePixelsPerCm(reference: SceneReference, width: number, height: number): number | null {
+  if (!reference.from || !reference.to || !(reference.length > 0)) return null;
+  const pixels = Math.hypot((reference.to.x - reference.from.x) * width, (reference.to.y - reference.from.y) * height);
+  return pixels > 0 ? pixels / toCm(reference.length, reference.unit) : null;
+}
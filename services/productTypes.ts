@@ -0,0 +1,137 @@
+import type { CameraAngle, GenerationSettings, ProductType } from '../types';
+
+/**
+ * Merchandise mockups: the artwork printed on a product instead of hung on a
+ * wall. Each product supplies what wall art gets from its frame, print size
+ * and paper: where the print sits, how the product is shown, its materials,
+ * what to avoid and how to shoot it. Wall art has no profile; the prompt
+ * engine's frame logic covers it.
+ */
+
+export const PRODUCT_TYPES: ProductType[] = ['Wall Art', 'T-Shirt', 'Mug', 'Phone Case', 'Tote Bag', 'Book'];
+
+export interface ProductProfile {
+  /** The product as it reads after "the", e.g. "ceramic mug" */
+  noun: string;
+  /** Where the print sits on the product and how large it is */
+  printArea: string;
+  /** Whether the print stays flat enough to score against the artwork; fabric folds and curved mugs don't */
+  flat: boolean;
+  /** How the product is shown in the scene */
+  placement: string;
+  /** Material and print method, and how they take the light */
+  physics: string;
+  /** Surface a macro shot studies, in place of fine art paper */
+  macroMaterial: string;
+  /** Part of the product detail angles close in on */
+  detailFocus: string;
+  negatives: string[];
+}
+
+const PRODUCT_PROFILES: Record<Exclude<ProductType, 'Wall Art'>, ProductProfile> = {
+  'T-Shirt': {
+    noun: 'cotton t-shirt',
+    printArea: 'Front print centred on the chest, at most 30 × 40 cm, starting about 8 cm below the collar.',
+    flat: false,
+    placement: 'The t-shirt hangs on a wooden hanger, is laid flat, or is neatly folded on a surface in this setting, front facing the camera. Nobody is wearing it.',
+    physics: `DTG PRINT ON COTTON:
+        - Ink soaks into the jersey knit; the fabric's texture shows through the print
+        - The print follows every fold, crease and drape, bending with the fabric and shaded by it
+        - Matte surface with no sheen; the print never looks like a sticker or sits above the fabric
+        - Collar ribbing, shoulder seams and hem stitching visible`,
+    macroMaterial: 'Cotton jersey knit with individual yarn loops visible, ink sitting in the fibres rather than on top of them, stray fibres catching the light at the print edge',
+    detailFocus: 'the chest print and the collar ribbing',
+    negatives: ['person wearing the shirt', 'mannequin', 'glossy plastic print', 'print floating above the fabric', 'sticker-like print', 'wrinkle-free CGI fabric'],
+  },
+  'Mug': {
+    noun: 'ceramic mug',
+    printArea: 'Printed on the side of a white 11 oz (325 ml) ceramic mug, about 9 cm tall. The print wraps around the curved body, so its left and right edges foreshorten as they turn away from the camera. The handle never covers the print.',
+    flat: false,
+    placement: 'The mug stands on a table, desk, shelf or counter in this setting, seen from slightly above (about 20°), print facing the camera and handle to one side.',
+    physics: `SUBLIMATED CERAMIC:
+        - The print sits under a glossy glaze, colours saturated and sharp
+        - A tall, curved specular highlight runs down the body and crosses the print
+        - The glaze faintly reflects the surroundings, bent by the curve
+        - Bright highlight along the rim; soft contact shadow under the base`,
+    macroMaterial: 'Glossy glaze over the print, a fine curved specular highlight, tiny dust specks, reflections bending with the curve of the mug',
+    detailFocus: 'the curved print and the rim of the mug',
+    negatives: ['flat label', 'sticker on the mug', 'print over the handle', 'matte paper texture', 'distorted handle', 'floating mug'],
+  },
+  'Phone Case': {
+    noun: 'phone case',
+    printArea: 'Printed across the back of a slim smartphone case, about 7.5 × 15.5 cm, leaving the camera cut-out in the top corner clear.',
+    flat: true,
+    placement: 'The phone in its case lies on a surface or leans against an object in this setting, back facing the camera and screen hidden.',
+    physics: `PRINTED POLYCARBONATE CASE:
+        - Semi-gloss finish with a broad, soft highlight sweeping across the back
+        - Rounded edges and corners catch rim light; the print curves slightly onto the sides
+        - Raised lip around the camera cut-out, with the lenses visible inside
+        - Faint reflections of the scene on the surface`,
+    macroMaterial: 'Smooth semi-gloss print surface, the print curving over the rounded case edge, the raised lip of the camera cut-out',
+    detailFocus: 'the camera cut-out and the rounded case edge',
+    negatives: ['hands holding the phone', 'screen facing the camera', 'print covering the camera lenses', 'phone brand logos', 'flat slab without depth'],
+  },
+  'Tote Bag': {
+    noun: 'canvas tote bag',
+    printArea: 'Screen printed on the front panel of a natural cotton canvas tote, at most 30 × 35 cm, centred below the handles.',
+    flat: true,
+    placement: 'The tote hangs from a hook, door handle or chair back, or stands slumped against furniture in this setting, handles up and front panel facing the camera.',
+    physics: `SCREEN PRINT ON CANVAS:
+        - Heavy plain-weave canvas; the ink sits in the weave and shows its texture
+        - Gentle sag and soft creases bend the print slightly where the fabric folds
+        - Stitched seams and reinforced handle joins visible
+        - Matte surface with no sheen; soft shadows inside the folds`,
+    macroMaterial: 'Coarse canvas weave with ink filling the threads, slightly uneven coverage where the threads cross',
+    detailFocus: 'the printed panel and the stitched handle join',
+    negatives: ['person carrying the bag', 'glossy print', 'leather bag', 'plastic bag', 'logo patches'],
+  },
+  'Book': {
+    noun: 'hardcover book',
+    printArea: 'The artwork is the front cover of a hardcover book about 23 cm tall, printed edge to edge; the cover takes the artwork\'s proportions. No title or author text is added that the artwork doesn\'t already contain.',
+    flat: true,
+    placement: 'The book lies on a table or stands on a shelf in this setting, front cover facing the camera, perhaps beside other books or a cup.',
+    physics: `LAMINATED HARDCOVER:
+        - Matte laminate with an even, soft sheen and a gentle highlight along the spine edge
+        - Visible board thickness, the hinge groove beside the spine, and the page block at the fore-edge
+        - Slightly softened cover corners; contact shadow under the book`,
+    macroMaterial: 'Matte laminate over the printed board, the hinge groove, and the stacked page edges below the cover',
+    detailFocus: 'a cover corner and the stacked page edges',
+    negatives: ['invented title text', 'added author name', 'barcode on the front cover', 'open book', 'curling paperback', 'e-reader'],
+  },
+};
+
+/** The product `settings` mock up onto, or undefined for wall art */
+export const productProfile = (settings: Pick<GenerationSettings, 'productType'>): ProductProfile | undefined =>
+  settings.productType && settings.productType !== 'Wall Art' ? PRODUCT_PROFILES[settings.productType] : undefined;
+
+/** Replaces the frame-shape rules: the artwork keeps its proportions inside the product's print area */
+export function buildProductArtworkInstructions(product: ProductProfile, artworkAspectRatio?: number): string {
+  const shape = artworkAspectRatio
+    ? `The artwork is ${artworkAspectRatio > 1.05 ? 'landscape' : artworkAspectRatio < 0.95 ? 'portrait' : 'square'} (width/height ${artworkAspectRatio.toFixed(3)}). `
+    : '';
+  return `
+    ARTWORK ON THE ${product.noun.toUpperCase()} (CRITICAL):
+    - PRINT AREA: ${product.printArea}
+    - ${shape}Scale it to fit the print area with its proportions kept exactly. NEVER stretch, squash, crop or add to it; where the shapes differ, the product's own colour shows around it.
+    - The print is part of the product's surface, shaped and lit by it — not a flat overlay.`;
+}
+
+/** Material text for the physics section; the chosen lighting is stated separately */
+export const buildProductPhysics = (product: ProductProfile): string => `
+        ${product.physics}
+        - Shadows, highlights and colour temperature on the product follow the scene's light sources`;
+
+const PRODUCT_ANGLES: Record<CameraAngle, (product: ProductProfile) => string> = {
+  'Wide Establishing': p => `Wide shot of the setting with the ${p.noun} as the focal point. Camera 2-3 metres back, eye-level.`,
+  'Medium Focus': p => `Medium shot centred on the ${p.noun}, filling about half the frame. Camera about 1 metre away, slightly above (15° down).`,
+  'Close Detail': p => `Close-up on ${p.detailFocus}, showing the print texture. Camera about 30 cm away, straight-on.`,
+  'Low Dramatic': p => `Low angle from just above the surface the ${p.noun} rests on, looking slightly up for a heroic product view.`,
+  'High Overhead': p => `Top-down flat-lay of the ${p.noun} and its surroundings. Camera directly above, angled down 75-90°.`,
+  'Extreme Macro': p => `Extreme close-up on the printed surface of the ${p.noun}. Camera inches away, slight diagonal angle to show texture.`,
+  'Side Depth': p => `Side view emphasising the ${p.noun}'s thickness and form. Camera 45-60° off-axis at the product's height.`,
+  'Three-Quarter': p => `Three-quarter view of the ${p.noun}. Camera 45° to the left or right, slightly elevated (20°).`,
+  'Corner Detail': p => `Detail shot of ${p.detailFocus}, angled to show how the product is made.`,
+};
+
+/** Contact sheet shot description for `angle`, aimed at the product instead of a frame on a wall */
+export const describeProductAngle = (product: ProductProfile, angle: CameraAngle): string => PRODUCT_ANGLES[angle](product);
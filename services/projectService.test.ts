@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import type { Project } from '../types';
+import { activeProjects } from './projectService';
+
+const project = (id: string, updatedAt: number, extra: Partial<Project> = {}): Project =>
+  ({ id, name: id, createdAt: 1, updatedAt, ...extra });
+
+describe('activeProjects', () => {
+  it('drops tombstones and orders by creation', () => {
+    expect(activeProjects([
+      project('new', 1, { createdAt: 20 }),
+      project('gone', 1, { deletedAt: 5 }),
+      project('old', 1, { createdAt: 10 }),
+    ]).map(p => p.id)).toEqual(['old', 'new']);
+  });
+});
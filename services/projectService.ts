@@ -0,0 +1,25 @@
+import type { Project } from '../types';
+import { storageService } from './storageService';
+import { createSyncedCollection } from './syncedCollection';
+
+/** Projects that haven't been deleted, oldest first (the order they appear in the switcher) */
+export const activeProjects = (projects: Project[]): Project[] =>
+  projects.filter(p => !p.deletedAt).sort((a, b) => a.createdAt - b.createdAt);
+
+const projects = createSyncedCollection<Project>({
+  label: 'project',
+  endpoint: '/api/projects',
+  load: () => storageService.loadAllProjects(),
+  store: project => storageService.saveProject(project),
+  active: activeProjects,
+});
+
+async function create(name: string, description?: string): Promise<Project> {
+  const now = Date.now();
+  return projects.save({ id: crypto.randomUUID(), name, description, createdAt: now, updatedAt: now });
+}
+
+/** Deletes a project; the caller moves its results and library items back to "no project" */
+const remove = (project: Project): Promise<void> => projects.remove(project);
+
+export const projectService = { sync: projects.sync, create, save: projects.save, remove };
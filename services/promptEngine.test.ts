@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import type { ArtworkSet, CustomVibe, GenerationSettings } from '../types';
+import {
+  buildMockupRequest,
+  buildCompositeRequest,
+  buildAnalysisPrompt,
+  resolveShotContext,
+  resolveImageSize,
+  stripBase64Header,
+  extractImageFromResponse,
+  parseSceneAnalysis,
+  parseFidelityInspection,
+  buildRegionInstructions,
+  buildFrameContext,
+  getVibeProfile,
+  buildContactSheetPrompt,
+  buildRefineRequest,
+  buildAnalysisRequest,
+  buildFidelityInspectionRequest,
+} from './promptEngine';
+import { BUILT_IN_TEMPLATES } from './promptTemplates';
+import { frameSpecFromStyle } from './frameSpec';
+
+function makeSettings(overrides: Partial<GenerationSettings> = {}): GenerationSettings {
+  return {
+    prompt: 'A sunlit loft with exposed beams',
+    negativePrompt: '',
+    count: 1,
+    aspectRatio: '3:4',
+    imageSize: '1K',
+    frameStyle: 'Natural Oak',
+    lighting: 'Golden Hour',
+    wallTexture: 'Exposed Brick',
+    printSize: 'A2',
+    generationMode: 'batch',
+    ...overrides,
+  };
+}
+
+describe('prompt engine', () => {
+  it('produces identical requests for identical settings', () => {
+    const settings = makeSettings();
+    const a = buildMockupRequest('data:image/jpeg;base64,AAAA', settings, resolveShotContext());
+    const b = buildMockupRequest('data:image/jpeg;base64,AAAA', settings, resolveShotContext());
+    expect(a).toEqual(b);
+  });
+
+  it('puts the prompt first, then the stripped artwork with its own MIME type', () => {
+    const { prompt, parts } = buildMockupRequest('data:image/png;base64,AAAA', makeSettings(), resolveShotContext());
+    expect(parts[0]).toEqual({ text: prompt });
+    expect(parts[1]).toEqual({ inlineData: { mimeType: 'image/png', data: 'AAAA' } });
+    expect(prompt).toContain('A sunlit loft with exposed beams');
+    expect(prompt).toContain('Natural Oak');
+  });
+
+  it('appends the style reference as a third part with its own mime type', () => {
+    const settings = makeSettings({ styleReferenceImage: 'data:image/png;base64,BBBB' });
+    const { parts } = buildMockupRequest('AAAA', settings, resolveShotContext());
+    expect(parts).toHaveLength(3);
+    expect(parts[2]).toEqual({ inlineData: { mimeType: 'image/png', data: 'BBBB' } });
+  });
+
+  it('bumps macro shots to at least 2K', () => {
+    const macro = resolveShotContext({ macro: true });
+    expect(macro.shotType).toBe('macro');
+    expect(resolveImageSize(makeSettings({ imageSize: '1K' }), macro)).toBe('2K');
+    expect(resolveImageSize(makeSettings({ imageSize: '1K' }), resolveShotContext())).toBe('1K');
+  });
+
+  it('sends PNG and WebP artwork as such to refine, analysis and fidelity requests', () => {
+    expect(buildRefineRequest('data:image/jpeg;base64,OUT', 'data:image/png;base64,ART', 'warmer').parts[2])
+      .toEqual({ inlineData: { mimeType: 'image/png', data: 'ART' } });
+    expect(buildAnalysisRequest('data:image/webp;base64,ART', 'Describe').parts[1])
+      .toEqual({ inlineData: { mimeType: 'image/webp', data: 'ART' } });
+    expect(buildFidelityInspectionRequest('data:image/png;base64,MOCK', 'data:image/png;base64,ART', false).parts.slice(1)).toEqual([
+      { inlineData: { mimeType: 'image/png', data: 'MOCK' } },
+      { inlineData: { mimeType: 'image/png', data: 'ART' } },
+    ]);
+  });
+
+  it('orders composite parts as prompt, scene, artwork', () => {
+    const { parts } = buildCompositeRequest('SCENE', 'ART', 'Above the sofa', 1.5);
+    expect(parts.slice(1)).toEqual([
+      { inlineData: { mimeType: 'image/jpeg', data: 'SCENE' } },
+      { inlineData: { mimeType: 'image/jpeg', data: 'ART' } },
+    ]);
+  });
+
+  it('attaches every panel of a set in order and describes each one', () => {
+    const set: ArtworkSet = {
+      layout: 'column',
+      spacingCm: 4,
+      panels: [
+        { name: 'Left', image: 'data:image/png;base64,P1', aspectRatio: 0.8, frameStyle: 'Auto' },
+        { name: 'Right', image: 'data:image/jpeg;base64,P2', aspectRatio: 0.8, frameStyle: 'None' },
+      ],
+    };
+    const mockup = buildMockupRequest('data:image/jpeg;base64,AAAA', makeSettings({ artworkSet: set }), resolveShotContext());
+    expect(mockup.parts.slice(1)).toEqual([
+      { inlineData: { mimeType: 'image/png', data: 'P1' } },
+      { inlineData: { mimeType: 'image/jpeg', data: 'P2' } },
+    ]);
+    expect(mockup.prompt).toContain('Panel 1 (image 1) "Left"');
+    expect(mockup.prompt).toContain('Natural Oak frame; top');
+
+    const composite = buildCompositeRequest('SCENE', 'ART', '', undefined, set);
+    expect(composite.parts.slice(1).map(p => 'inlineData' in p && p.inlineData.data)).toEqual(['SCENE', 'P1', 'P2']);
+    expect(composite.prompt).toContain('SET of 2 ARTWORKS (images 2 to 3)');
+    expect(composite.prompt).toContain('Panel 2 (image 3) "Right"');
+  });
+
+  it('keeps the analysis prompt deterministic for a fixed timestamp', () => {
+    expect(buildAnalysisPrompt('Modern & Minimalist', 42)).toBe(buildAnalysisPrompt('Modern & Minimalist', 42));
+  });
+
+  it('strips data URL headers and extracts inline images', () => {
+    expect(stripBase64Header('data:image/webp;base64,CCCC')).toBe('CCCC');
+    const response = { candidates: [{ content: { parts: [{ inlineData: { data: 'DDDD' } }] } }] };
+    expect(extractImageFromResponse(response)).toBe('data:image/png;base64,DDDD');
+    expect(extractImageFromResponse({})).toBeNull();
+  });
+
+  it('converts scene analysis boxes from the 0-1000 grid and drops malformed regions', () => {
+    const analysis = parseSceneAnalysis(JSON.stringify({
+      frames: [{ label: 'Frame above sofa', box_2d: [100, 200, 400, 500], orientation: 'angled-left', lighting: 'left' }],
+      emptyWalls: [
+        { box_2d: [0, 0, 1200, 300], orientation: 'sideways', lighting: 'moonlight' },
+        { label: 'Inverted', box_2d: [500, 500, 400, 600] },
+        { label: 'No box' },
+      ],
+    }));
+    expect(analysis.frames).toEqual([{
+      kind: 'frame', label: 'Frame above sofa', box: { x: 0.2, y: 0.1, width: 0.3, height: 0.3 }, orientation: 'angled-left', lighting: 'left',
+    }]);
+    expect(analysis.emptyWalls).toEqual([{
+      kind: 'emptyWall', label: 'Empty wall', box: { x: 0, y: 0, width: 0.3, height: 1 }, orientation: 'frontal', lighting: 'diffuse',
+    }]);
+    expect(parseSceneAnalysis('not json')).toEqual({ frames: [], emptyWalls: [] });
+  });
+
+  it('pre-fills region instructions with position, orientation and light', () => {
+    const text = buildRegionInstructions({
+      kind: 'frame', label: 'Frame above sofa', box: { x: 0.2, y: 0.1, width: 0.3, height: 0.3 }, orientation: 'angled-right', lighting: 'above',
+    });
+    expect(text).toContain('Replace the artwork in the existing frame: Frame above sofa (20% to 50% across, 10% to 40% down)');
+    expect(text).toContain('recedes towards the right');
+    expect(text).toContain('from above');
+  });
+
+  it('describes a custom frame build in place of the frame style', () => {
+    const frameSpec = { ...frameSpecFromStyle('Classic Gold'), matWidth: 8, mount: 'Float' as const };
+    const context = buildFrameContext(makeSettings({ printSize: 'A3', frameSpec }));
+    expect(context).toContain('antique gold gilded moulding 5 cm wide and 4 cm deep');
+    expect(context).toContain('Outside dimensions including the frame: 55.7 × 68 cm');
+    expect(context).not.toContain('Natural Oak');
+
+    const request = buildMockupRequest('data:image/jpeg;base64,AAAA', makeSettings({ frameSpec }), resolveShotContext());
+    expect(request.prompt).toContain('CUSTOM FRAME PHYSICS');
+  });
+
+  it('states the exact print size and the scale reference in the frame context', () => {
+    const context = buildFrameContext(makeSettings({
+      printSize: '11x14',
+      artworkAspectRatio: 1.4,
+      sceneReference: { label: 'ceiling height', length: 250, unit: 'cm' },
+    }));
+    expect(context).toContain('11x14 (14 × 11 in (35.6 × 27.9 cm)) print');
+    expect(context).toContain('the ceiling height is 250 cm');
+    expect(buildFrameContext(makeSettings({ printSize: 'Custom' }))).toContain('A3 (29.7 × 42 cm)');
+  });
+
+  it('uses a custom vibe in place of the built-in one', () => {
+    const vibe: CustomVibe = {
+      ...getVibeProfile('Modern & Minimalist'),
+      id: 'v1', name: 'Coastal Scandi', createdAt: 1, updatedAt: 1,
+      systemPrompt: 'Bright coastal homes with whitewashed timber.',
+      sceneDressing: ['driftwood on a sideboard'],
+      negatives: ['snow drifts'],
+    };
+    expect(buildAnalysisPrompt(vibe)).toContain('THEME: Bright coastal homes with whitewashed timber.');
+
+    const request = buildMockupRequest('data:image/jpeg;base64,AAAA', makeSettings({ analysisVibe: 'Industrial & Raw', customVibe: vibe }), resolveShotContext());
+    expect(request.prompt).toContain('driftwood on a sideboard');
+    expect(request.prompt).toContain('Do NOT include:');
+    expect(request.prompt).toContain('snow drifts');
+  });
+
+  it('round-trips a built-in vibe through its profile', () => {
+    const profile = getVibeProfile('Cozy & Bohemian');
+    expect(buildAnalysisPrompt(profile)).toBe(buildAnalysisPrompt('Cozy & Bohemian'));
+    expect(profile.negatives.length).toBeGreaterThan(0);
+  });
+
+  it('leaves out or rewords template sections', () => {
+    const clean = BUILT_IN_TEMPLATES.find(t => t.name === 'Clean digital catalogue')!.template;
+    const film = buildMockupRequest('data:image/jpeg;base64,AAAA', makeSettings(), resolveShotContext()).prompt;
+    expect(film).toContain('Kodak Portra 400');
+
+    const prompt = buildMockupRequest('data:image/jpeg;base64,AAAA', makeSettings({ promptTemplate: clean }), resolveShotContext()).prompt;
+    expect(prompt).toContain('e-commerce catalogue photography');
+    expect(prompt).toContain('CAMERA BEHAVIOR - CLEAN DIGITAL');
+    expect(prompt).not.toContain('Kodak Portra 400');
+    expect(prompt).toContain('PHYSICS & MATERIALS');
+
+    const minimal = buildMockupRequest('data:image/jpeg;base64,AAAA', makeSettings({
+      promptTemplate: { lensSpecs: { enabled: false }, colorOnPrint: { enabled: false } },
+    }), resolveShotContext()).prompt;
+    expect(minimal).not.toContain('CAMERA TECHNICAL SPECS');
+    expect(minimal).not.toContain('COLOR & LIGHT ON PRINT');
+  });
+
+  it('applies the template to contact sheets, with lens specs stated once', () => {
+    const prompt = buildContactSheetPrompt(makeSettings({
+      promptTemplate: { qualityPrefix: { enabled: false }, lensSpecs: { enabled: true, text: 'All frames on a 50mm lens at f/8.' } },
+    }), ['Wide Establishing', 'Medium Focus', 'Close Detail', 'Low Dramatic', 'High Overhead', 'Side Depth']);
+    expect(prompt).not.toContain('Kodak Portra 400');
+    expect(prompt).toContain('All frames on a 50mm lens at f/8.');
+    expect(prompt).not.toContain('LENS:');
+  });
+
+  it('mocks up merchandise without frames, print sizes or sets', () => {
+    const artworkSet: ArtworkSet = { layout: 'row', spacingCm: 5, panels: [{ name: 'A', image: 'data:image/png;base64,P1', frameStyle: 'Auto' }] };
+    const settings = makeSettings({ productType: 'Mug', artworkSet, artworkAspectRatio: 1.5, negativePrompt: 'steam' });
+    const { prompt, parts } = buildMockupRequest('data:image/jpeg;base64,AAAA', settings, resolveShotContext());
+    expect(parts.slice(1)).toEqual([{ inlineData: { mimeType: 'image/jpeg', data: 'AAAA' } }]);
+    expect(prompt).toContain('printed on the ceramic mug');
+    expect(prompt).toContain('The ceramic mug is located in this setting');
+    expect(prompt).toContain('landscape (width/height 1.500)');
+    expect(prompt).toContain('SUBLIMATED CERAMIC');
+    expect(prompt).toMatch(/Do NOT include: .*print over the handle.*steam\./);
+    expect(prompt).not.toContain('Natural Oak');
+    expect(prompt).not.toContain('A2');
+    expect(prompt).not.toContain('ARTWORK SET');
+
+    expect(buildMockupRequest('AAAA', settings, resolveShotContext({ macro: true })).prompt).toContain('PRODUCT MATERIAL DETAIL: Glossy glaze');
+    const sheet = buildContactSheetPrompt(makeSettings({ productType: 'Tote Bag' }), ['High Overhead', 'Close Detail']);
+    expect(sheet).toContain('Top-down flat-lay of the canvas tote bag');
+    expect(sheet).toContain('Close-up on the printed panel and the stitched handle join');
+    expect(sheet).toContain('Do NOT include: person carrying the bag');
+  });
+
+  it('parses the fidelity inspection, tolerating a missing critique', () => {
+    expect(parseFidelityInspection('{"box_2d":[100,200,600,700]}')).toEqual({ region: { x: 0.2, y: 0.1, width: 0.5, height: 0.5 } });
+    expect(parseFidelityInspection('{"box_2d":null,"score":12,"issues":[" Artwork missing ",""]}'))
+      .toEqual({ region: null, critique: { score: 1, issues: ['Artwork missing'] } });
+    expect(parseFidelityInspection('not json')).toEqual({ region: null });
+  });
+});
@@ -0,0 +1,1484 @@
+import type { ArtworkSet, GenerationSettings, AnalysisVibe, CameraAngle, LensSpec, ShotContext, EnvironmentalDetails, FrameSpec, GeneratedImage, LightDirection, NormalizedBox, SceneAnalysis, SceneRegion, VibeProfile, WallOrientation } from "../types";
+import { buildScaleInstructions, describePrintSize, formatPhysicalSize, printDimensions } from "./printSizing";
+import { buildFrameSpecContext, buildFrameSpecPhysics, framedDimensions } from "./frameSpec";
+import { renderSection } from "./promptTemplates";
+import { buildArtworkSetInstructions } from "./artworkSets";
+import { buildProductArtworkInstructions, buildProductPhysics, describeProductAngle, productProfile } from "./productTypes";
+import type { FidelityInspection } from "./fidelity";
+
+/**
+ * Shared prompt engine.
+ *
+ * Pure, browser-free module that turns GenerationSettings + ShotContext into the
+ * final Gemini prompt and content parts. The browser client (geminiService), the
+ * server lib (api/_lib/geminiServerService) and the MCP tools (api/mcp) all build
+ * their requests here, so every entry point sends identical prompts.
+ *
+ * Keep this file free of runtime imports (no SDK, no DOM, no Node APIs); it only
+ * imports other pure modules such as printSizing.
+ *
+ * The mockup and contact sheet prompts are built from named sections (see
+ * promptTemplates) that `settings.promptTemplate` can leave out or reword.
+ */
+
+// The model requested is "nano banana 2", which maps to 'gemini-3.1-flash-image-preview'
+export const GENERATION_MODEL = 'gemini-3.1-flash-image-preview';
+export const ANALYSIS_MODEL = 'gemini-3.1-flash-preview'; // Fast model for analyzing the image
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+/** A fully-assembled request: the resolved prompt text plus the ordered content parts. */
+export interface PromptRequest {
+  prompt: string;
+  parts: ContentPart[];
+}
+
+// Strip data-URL header from base64 strings
+export const stripBase64Header = (base64: string): string =>
+  base64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
+
+// Bare base64 (no data-URL header) is assumed to be JPEG
+const dataUrlMimeType = (value: string): string => {
+  const type = /^data:image\/(png|jpeg|jpg|webp);/.exec(value)?.[1];
+  return type && type !== "jpg" ? `image/${type}` : "image/jpeg";
+};
+
+// The MIME type follows the data URL, so a PNG artwork (transparency included) is sent as PNG
+const imagePart = (base64: string, mimeType = dataUrlMimeType(base64)): ContentPart => ({
+  inlineData: { mimeType, data: stripBase64Header(base64) }
+});
+
+const panelParts = (set: ArtworkSet): ContentPart[] => set.panels.map(panel => imagePart(panel.image));
+
+/** The artwork's parts: every panel of a set in order, or the single artwork (always, on merchandise) */
+const artworkParts = (artworkBase64: string, settings: GenerationSettings): ContentPart[] =>
+  settings.artworkSet && !productProfile(settings) ? panelParts(settings.artworkSet) : [imagePart(artworkBase64)];
+
+// Minimal structural view of a GenerateContentResponse so this module stays SDK-free
+type ImageResponse = {
+  candidates?: Array<{ content?: { parts?: Array<{ inlineData?: { data?: string } }> } }>;
+};
+
+// Extract the first image data URL from a Gemini API response, or null if none found
+export const extractImageFromResponse = (response: ImageResponse): string | null => {
+  const parts = response.candidates?.[0]?.content?.parts;
+  if (parts) {
+    for (const part of parts) {
+      if (part.inlineData && part.inlineData.data) {
+        return `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+  }
+  return null;
+};
+
+/** Pairs a generated image with the prompt that produced it and how many retries it took */
+export const toGeneratedImage = (imageUrl: string, prompt: string, retryCount: number): GeneratedImage => ({
+  imageUrl,
+  generation: { resolvedPrompt: prompt, model: GENERATION_MODEL, generatedAt: Date.now(), retryCount },
+});
+
+/** Suggestions returned when artwork analysis fails. */
+export const FALLBACK_SUGGESTIONS = [
+  "A modern gallery wall with spot lighting",
+  "A cozy bohemian bedroom with plants",
+  "A professional office space with sleek furniture",
+  "An industrial loft with exposed brick"
+];
+
+/**
+ * Converts a numeric width/height ratio into a human-readable description
+ * so the AI knows the exact shape the frame must be.
+ */
+export const describeArtworkRatio = (ratio?: number): string => {
+  if (!ratio) return "";
+  const orientation = ratio > 1.05 ? "landscape (wider than tall)" : ratio < 0.95 ? "portrait (taller than wide)" : "square";
+  // Find closest common ratio name
+  const commonRatios: [number, string][] = [
+    [1, "1:1"], [4/3, "4:3"], [3/2, "3:2"], [16/9, "16:9"], [2/1, "2:1"],
+    [3/4, "3:4"], [2/3, "2:3"], [9/16, "9:16"], [1/2, "1:2"],
+    [5/4, "5:4"], [4/5, "4:5"], [7/5, "7:5"], [5/7, "5:7"]
+  ];
+  let closestName = `${ratio.toFixed(2)}:1`;
+  let closestDist = Infinity;
+  for (const [r, name] of commonRatios) {
+    const dist = Math.abs(ratio - r);
+    if (dist < closestDist) { closestDist = dist; closestName = name; }
+  }
+  return `The artwork is ${orientation}, with approximately ${closestName} proportions (exact ratio: ${ratio.toFixed(3)}). The frame MUST match this shape — a ${orientation} frame.`;
+};
+
+// Macro prompt helpers (stronger separation from standard shots)
+export const MACRO_NEGATIVES = [
+  "blurry",
+  "out of focus",
+  "soft focus",
+  "halos",
+  "oversharpened",
+  "double edges",
+  "harsh grain",
+  "noise",
+  "jpeg artifacts",
+  "motion blur",
+  // push away from wide/room views - CRITICAL for macro
+  "wide shot",
+  "full room",
+  "distant camera",
+  "full frame visible",
+  "entire artwork visible",
+  "whole print visible",
+  "tripod wide angle",
+  "flat lighting",
+  "environmental context",
+  "wall visible",
+  "room visible",
+  "background in focus",
+  "everything sharp",
+  "deep depth of field",
+  "medium shot",
+  "establishing shot",
+  "scene context"
+].join(", ");
+
+const PAPER_MACRO_DETAIL = `- PRINT MATERIAL DETAIL: Semi-matte fine art paper with visible tooth/texture at macro distance, paper fibers visible, ink sits slightly raised on surface creating micro-relief, subtle directional light reflections (not glossy), individual paper grain texture visible.
+  - Emphasize: paper texture, ink micro-relief, fiber detail, grain structure, gentle specular highlights on semi-matte surface.`;
+
+/** `productMaterial` replaces the paper detail when the artwork is printed on merchandise */
+export const buildMacroStyleInstructions = (productMaterial?: string) => `
+  MACRO MODE (override):
+  - CRITICAL: Extreme close-up, 1:1 macro magnification with camera 6-12 inches from print surface.
+  - The print surface must fill 80-90% of the frame - show ONLY a corner/edge of the artwork, NOT the full frame or wall.
+  - NO environmental context visible - no room, no wall texture, no surrounding objects.
+  - Background must be completely out of focus (creamy bokeh, abstract color blobs, unrecognizable).
+  - Razor-thin depth of field (2-3mm sharp plane) - only the print corner/edge is in focus.
+  - Frame composition: Corner of print filling most of frame, diagonal composition, background melted into bokeh.
+  ${productMaterial ? `- PRODUCT MATERIAL DETAIL: ${productMaterial}.
+  - Emphasize: surface texture, how the ink sits in the material, fine construction detail.` : PAPER_MACRO_DETAIL}
+  - This is NOT a detail shot or close-up - this is MACRO (1:1 magnification showing surface texture as primary subject).
+`;
+
+/**
+ * Returns appropriate lens/focal length specs based on camera angle and shot type.
+ * CRITICAL: Macros get macro lenses (100mm), wide shots get wide lenses (24mm), etc.
+ */
+export const getLensSpecsForContext = (context: ShotContext): LensSpec => {
+  const { cameraAngle, isMacro, shotType } = context;
+
+  // MACRO MODE: Always returns macro lens specs regardless of angle
+  if (isMacro || cameraAngle === "Extreme Macro") {
+    return {
+      focalLength: "100mm macro lens",
+      aperture: "f/2.8",
+      distanceFromSubject: "6-12 inches from subject",
+      depthOfField: "razor-thin, background melted into creamy bokeh",
+      lensCharacteristics: "1:1 magnification, exceptional sharpness on focused plane, extreme subject isolation",
+      perspective: "compressed, macro perspective with no room context"
+    };
+  }
+
+  // CONTACT SHEET MODE: Match lens to camera angle
+  if (shotType === "contactSheet" && cameraAngle) {
+    switch (cameraAngle) {
+      case "Wide Establishing":
+        return {
+          focalLength: "24mm wide-angle lens",
+          aperture: "f/5.6",
+          distanceFromSubject: "10-15 feet back",
+          depthOfField: "deep focus, entire scene sharp from foreground to background",
+          lensCharacteristics: "minimal distortion, slight edge softness, natural room perspective",
+          perspective: "natural spatial depth, room feels expansive"
+        };
+
+      case "Medium Focus":
+        return {
+          focalLength: "50mm standard lens",
+          aperture: "f/4",
+          distanceFromSubject: "5-6 feet from artwork",
+          depthOfField: "medium depth, artwork sharp with background slightly soft",
+          lensCharacteristics: "neutral perspective, classic photojournalistic feel, natural eye-level rendering",
+          perspective: "natural, human eye perspective"
+        };
+
+      case "Close Detail":
+        return {
+          focalLength: "85mm portrait lens",
+          aperture: "f/2.8",
+          distanceFromSubject: "2-3 feet from artwork",
+          depthOfField: "shallow, artwork surface in focus with soft background separation",
+          lensCharacteristics: "gentle compression, smooth bokeh, flattering subject rendering",
+          perspective: "slightly compressed, isolates subject from environment"
+        };
+
+      case "Low Dramatic":
+        return {
+          focalLength: "35mm wide-angle lens",
+          aperture: "f/4",
+          distanceFromSubject: "3-4 feet, positioned low to ground (12-18 inches high)",
+          depthOfField: "deep focus with dramatic perspective",
+          lensCharacteristics: "elongated vertical lines, dramatic scale exaggeration, slight barrel distortion",
+          perspective: "elongated, heroic upward angle"
+        };
+
+      case "High Overhead":
+        return {
+          focalLength: "35mm wide-angle lens",
+          aperture: "f/5.6",
+          distanceFromSubject: "6-8 feet, positioned overhead (ceiling height)",
+          depthOfField: "deep focus, entire scene readable",
+          lensCharacteristics: "flattened perspective, architectural view, subtle wide-angle distortion at edges",
+          perspective: "flattened, bird's-eye perspective"
+        };
+
+      case "Side Depth":
+        return {
+          focalLength: "85mm telephoto lens",
+          aperture: "f/2.8",
+          distanceFromSubject: "8-10 feet away, 45-60° off-axis",
+          depthOfField: "shallow, emphasizes frame depth and layering",
+          lensCharacteristics: "compressed perspective, strong depth compression, smooth background falloff",
+          perspective: "compressed, stacks visual planes together"
+        };
+
+      case "Three-Quarter":
+        return {
+          focalLength: "50mm standard lens",
+          aperture: "f/4",
+          distanceFromSubject: "6-7 feet, 45° angle, slightly elevated",
+          depthOfField: "medium depth, balanced sharpness",
+          lensCharacteristics: "natural rendering, balanced perspective, editorial feel",
+          perspective: "natural with dimensional depth"
+        };
+
+      case "Corner Detail":
+        return {
+          focalLength: "60mm macro lens",
+          aperture: "f/4",
+          distanceFromSubject: "1-2 feet from corner",
+          depthOfField: "medium-shallow, corner sharp with gentle falloff",
+          lensCharacteristics: "macro detail capability, sharp on corner with dimensional rendering",
+          perspective: "close inspection perspective, shows frame construction"
+        };
+
+      default:
+        // Fallback for standard shots
+        return {
+          focalLength: "50mm standard lens",
+          aperture: "f/4",
+          distanceFromSubject: "5-7 feet",
+          depthOfField: "medium depth",
+          lensCharacteristics: "neutral perspective, natural rendering",
+          perspective: "natural human eye perspective"
+        };
+    }
+  }
+
+  // STANDARD MODE: Default to medium-shot specs
+  return {
+    focalLength: "50mm standard lens",
+    aperture: "f/4",
+    distanceFromSubject: "5-7 feet from artwork",
+    depthOfField: "medium depth, artwork in focus with environment contextually readable",
+    lensCharacteristics: "natural perspective, slight vignetting in corners, organic lens falloff",
+    perspective: "natural, editorial perspective"
+  };
+};
+
+/** A built-in vibe by name, or a custom vibe's profile */
+export type VibeRef = AnalysisVibe | VibeProfile;
+
+/**
+ * Returns environment-specific imperfections and atmospheric details based on vibe.
+ * Includes realism level (pristine, lived-in, worn, gritty) and scene dressing.
+ */
+export const getEnvironmentalDetails = (vibe: VibeRef): EnvironmentalDetails => {
+  if (typeof vibe !== "string") {
+    const { imperfections, atmospheric, sceneDressing, realismLevel, ambientDetails } = vibe;
+    return { imperfections, atmospheric, sceneDressing, realismLevel, ambientDetails };
+  }
+
+  const baseDetails: Record<AnalysisVibe, EnvironmentalDetails> = {
+    "Industrial & Raw": {
+      imperfections: [
+        "fine concrete dust on horizontal surfaces",
+        "minor scuffs and wear marks on walls",
+        "exposed nail holes and patch repairs",
+        "subtle water staining in corners",
+        "uneven paint coverage revealing underlayers"
+      ],
+      atmospheric: [
+        "dust motes floating in harsh light beams",
+        "slight haze from ventilation systems",
+        "hard shadows with crisp edges",
+        "directional light revealing texture"
+      ],
+      sceneDressing: [
+        "exposed conduit or pipes in background",
+        "stacked materials or equipment (out of focus)",
+        "industrial lighting fixtures with visible wiring",
+        "concrete floor with minor cracks and staining"
+      ],
+      realismLevel: "worn",
+      ambientDetails: "Industrial space with authentic wear patterns, hard architectural shadows, visible construction details, and raw material textures. Environment shows use and age without looking neglected."
+    },
+
+    "Modern & Minimalist": {
+      imperfections: [
+        "extremely subtle finger smudges on glass surfaces",
+        "faint shoe scuff marks on pristine floors",
+        "microscopic dust particles visible in spotlight beams",
+        "perfectly imperfect wall texture (not plastic-smooth)",
+        "natural variations in white paint (warm vs cool tones)"
+      ],
+      atmospheric: [
+        "soft diffused daylight with gentle gradients",
+        "minimal haze creating atmospheric depth",
+        "subtle light bounce from white surfaces",
+        "gradual light falloff creating depth"
+      ],
+      sceneDressing: [
+        "single architectural plant (monstera or fiddle leaf fig) partially visible",
+        "minimal furniture edge in background (Eames chair corner, concrete bench)",
+        "polished concrete or light wood floor",
+        "single design object on peripheral surface (ceramic vase, art book)"
+      ],
+      realismLevel: "pristine",
+      ambientDetails: "Gallery-quality minimalist space with museum-level cleanliness but authentic material textures. Soft architectural lighting, negative space, extremely subtle environmental traces that prevent sterile/CGI appearance."
+    },
+
+    "Cozy & Bohemian": {
+      imperfections: [
+        "gentle dust accumulation on plant leaves",
+        "minor coffee ring stains on nearby surfaces",
+        "worn book spines with creased covers",
+        "soft fabric wrinkles and natural draping",
+        "aged wood patina with gentle wear patterns"
+      ],
+      atmospheric: [
+        "warm diffused light through curtains or foliage",
+        "soft shadows with gentle gradients",
+        "layered lighting from multiple warm sources",
+        "slight haze from candles or morning sun"
+      ],
+      sceneDressing: [
+        "trailing pothos or ivy plants with natural leaf orientation",
+        "stacked vintage books with visible titles",
+        "macramé or woven textile details",
+        "ceramic mugs or handmade pottery in background",
+        "warm wood furniture with natural grain"
+      ],
+      realismLevel: "lived-in",
+      ambientDetails: "Warm, inhabited space with gentle lived-in quality. Natural clutter, layered textures, soft diffused lighting, and organic materials. Space feels curated but authentically used and loved."
+    },
+
+    "Luxury & High-end": {
+      imperfections: [
+        "faint reflections revealing room depth in polished surfaces",
+        "micro-scratches on metal fixtures (shows real materials)",
+        "subtle marble veining variations",
+        "extremely fine dust in recessed lighting",
+        "natural leather grain and subtle creasing"
+      ],
+      atmospheric: [
+        "controlled dramatic lighting with gradients",
+        "subtle rim lighting on edges",
+        "atmospheric depth with layered shadows",
+        "moody light gradients across walls"
+      ],
+      sceneDressing: [
+        "designer furniture edge (Barcelona chair, Noguchi table)",
+        "dark wood paneling or rich textured wallcovering",
+        "brass or bronze fixtures with gentle patina",
+        "architectural plants in designer planters",
+        "marble or exotic stone surfaces"
+      ],
+      realismLevel: "pristine",
+      ambientDetails: "High-end architectural space with expensive materials showing authentic luxury. Dramatic controlled lighting, rich textures, designer furniture glimpses, moody sophistication. Pristine but shows material authenticity not CGI perfection."
+    },
+
+    "Public & Street": {
+      imperfections: [
+        "layered poster remnants and wheat paste residue",
+        "graffiti tags and marker scribbles",
+        "chipped paint revealing multiple underlayers",
+        "gum stains and ground-in dirt",
+        "rust streaks and weathering patterns",
+        "cracks in concrete or brick with organic growth"
+      ],
+      atmospheric: [
+        "harsh fluorescent light with green-blue cast",
+        "mixed color temperature (daylight + artificial)",
+        "strong directional shadows",
+        "slight atmospheric pollution haze"
+      ],
+      sceneDressing: [
+        "utility boxes, meters, or transit signage",
+        "chain-link fence or metal grating in background",
+        "weathered wood or corrugated metal surfaces",
+        "urban debris (plastic bags, crushed cans) naturally placed",
+        "tile or brick patterns typical of public infrastructure"
+      ],
+      realismLevel: "gritty",
+      ambientDetails: "Authentic urban public space with genuine street wear, layered history of use, municipal materials, and real-world grit. Mixed lighting, weathering patterns, organic urban decay, and traces of human presence."
+    },
+
+    "Surprise Me": {
+      imperfections: [
+        "environment-appropriate wear patterns",
+        "authentic material aging",
+        "subtle surface imperfections",
+        "organic accumulation of dust or marks"
+      ],
+      atmospheric: [
+        "natural or artificial light appropriate to scene",
+        "atmospheric depth elements",
+        "shadow complexity matching light source"
+      ],
+      sceneDressing: [
+        "contextually appropriate background elements",
+        "environment-specific materials",
+        "authentic spatial depth cues"
+      ],
+      realismLevel: "lived-in",
+      ambientDetails: "Varied environment with authentic material qualities, appropriate wear level, and natural atmospheric effects. Avoid generic or overly perfect rendering."
+    }
+  };
+
+  return baseDetails[vibe];
+};
+
+/**
+ * Returns enhanced physical interaction details for frame/glass/print behavior.
+ */
+export const getPhysicalInteractionDetails = (frameStyle: string, lighting: string, frameSpec?: FrameSpec): string => {
+  let frameInteraction = "";
+
+  // Frame-specific shadow and depth behavior; a custom build describes itself
+  switch (frameSpec ? "Custom" : frameStyle) {
+    case "Custom":
+      frameInteraction = buildFrameSpecPhysics(frameSpec!);
+      break;
+
+    case "None":
+      frameInteraction = `
+        UNFRAMED PRINT PHYSICS:
+        - Paper directly on wall, taped or pinned at corners
+        - Slight paper curl at edges (1-2mm lift from wall)
+        - Soft contact shadow around entire perimeter (2-3mm wide, very soft edge)
+        - Paper texture visible at edges (torn or cut edges with fiber detail)
+        - Tape or pins cast tiny hard shadows
+        - Paper shows subtle ripples from humidity or handling
+        - Direct light creates gradient shadow ONTO print surface from environmental objects
+        - PRINT MATERIAL: Semi-matte fine art paper with subtle tooth/texture, gentle directional light reflections (not glossy/not completely matte), visible paper grain at close inspection, ink absorption creates slight color depth variations.
+      `;
+      break;
+
+    case "Sleek Black":
+    case "Modern White":
+    case "Industrial Metal":
+      frameInteraction = `
+        FRAMED WITH GLASS PHYSICS:
+        - Frame depth: 1-2 inches, casts graduated shadow on wall (darker at base, fading outward)
+        - Glass surface shows subtle environmental reflections:
+          * Soft reflection of room light sources (20-30% opacity)
+          * Faint reflection of opposite wall or ceiling (very subtle, 10-15% opacity)
+          * Slight specular highlight from main light source (small, bright accent)
+        - Glass has micro-imperfections (barely visible dust specs, slight fingerprint smudge at corner)
+        - Frame edge casts crisp shadow line on artwork edge (1-2px hard shadow)
+        - Corner joints show dimensional depth (mitered edges with subtle gap/shadow)
+        - Glass creates slight color shift (cooler tone) and reduces contrast by ~5%
+        - Viewing angle determines reflection intensity (more reflection at oblique angles)
+        - PRINT MATERIAL (visible through glass): Semi-matte fine art paper with subtle surface texture, gentle light diffusion through glass onto textured paper surface, paper grain visible on close inspection.
+      `;
+      break;
+
+    case "Natural Oak":
+    case "Classic Gold":
+      frameInteraction = `
+        FRAMED WITH GLASS PHYSICS (Decorative Frame):
+        - Frame depth: 2-3 inches, creates strong architectural shadow
+        - Frame profile casts complex shadow with multiple edges (stepped shadow pattern)
+        - Glass surface reflections:
+          * Room environment softly reflected (25-35% opacity)
+          * Light source reflections with natural falloff
+          * Subtle color cast from frame material (warm for oak/gold)
+        - Frame material shows authentic surface:
+          * Wood grain or metal texture visible
+          * Slight wear at corners (minor scuffs for lived-in spaces)
+          * Natural material variations (oak grain, gold patina)
+        - Glass protective surface with barely-visible imperfections
+        - Dimensional shadow on artwork from frame lip (soft gradient, 3-5mm)
+        - Frame corners show joinery quality (tight miters with natural wood/metal behavior)
+        - PRINT MATERIAL (visible through glass): Semi-matte fine art paper with subtle surface texture, gentle light diffusion through glass onto textured paper surface, paper grain visible on close inspection.
+      `;
+      break;
+
+    case "Auto":
+    default:
+      frameInteraction = `
+        FRAMED PHYSICS (Style Matched to Environment):
+        - Frame appropriate to scene aesthetic with authentic depth (1-3 inches)
+        - Glass protection shows environmental reflections:
+          * Soft room reflections (20-30% opacity)
+          * Light source specular highlights
+          * Subtle environmental color cast
+        - Frame shadow on wall matches light direction and quality
+        - Glass surface has realistic imperfections (micro-dust, slight smudge)
+        - Frame material shows appropriate texture and wear level for environment
+        - Dimensional shadow on artwork edge from frame lip
+        - Corner construction visible with natural joinery
+        - PRINT MATERIAL (visible through glass): Semi-matte fine art paper with subtle surface texture, gentle light diffusion through glass onto textured paper surface, paper grain visible on close inspection.
+      `;
+  }
+
+  // Lighting-specific interaction
+  let lightInteraction = "";
+
+  switch (lighting) {
+    case "Natural Daylight":
+      lightInteraction = `
+        NATURAL DAYLIGHT INTERACTION:
+        - Directional shadows with soft penumbra (3-5x shadow core size)
+        - Color temperature 5500-6500K (cool, slightly blue-tinted)
+        - Gradual falloff across scene (inverse square law)
+        - Window-sourced light creates rectangular light patterns on walls
+        - Frame shadows more diffuse (larger light source = softer shadows)
+        - Glass reflections show window shape and exterior sky color
+        - Atmospheric scattering creates subtle haze in shadow areas
+      `;
+      break;
+
+    case "Soft Morning":
+      lightInteraction = `
+        SOFT MORNING LIGHT INTERACTION:
+        - Warm color temperature 3800-4500K (golden, peachy tones)
+        - Very soft shadows (large diffuse source = minimal shadow edge)
+        - Low angle creates elongated shadows
+        - Warm light wraps around frame edges (gentle rim lighting)
+        - Glass reflections show warm sunrise/morning sky colors
+        - Gentle gradient lighting across scene (darker shadows, brighter highlights = high dynamic range)
+        - Atmospheric glow in highlight areas
+      `;
+      break;
+
+    case "Golden Hour":
+      lightInteraction = `
+        GOLDEN HOUR INTERACTION:
+        - Warm color temperature 3000-3800K (deep orange-gold)
+        - Long dramatic shadows with warm-toned penumbra
+        - Strong directional light from low angle (sun near horizon)
+        - Frame creates elongated shadow (3-5x frame width)
+        - Glass shows warm colored reflections (orange, amber, gold)
+        - High contrast between warm highlights and cool shadows
+        - Light wraps around edges creating strong rim lighting effect
+        - Atmospheric haze visible in shadow regions (blue-purple shadow tones)
+      `;
+      break;
+
+    case "Studio Lighting":
+      lightInteraction = `
+        STUDIO LIGHTING INTERACTION:
+        - Multiple light sources with controlled ratios
+        - Key light creates main shadow (harder edge, defined direction)
+        - Fill light reduces shadow density (shadows are ~30-40% density, not black)
+        - Rim/separation light on frame edges (bright accent line)
+        - Controlled color temperature 5000-5500K (neutral, calibrated)
+        - Frame shadow has harder edge (smaller light source)
+        - Glass reflections show multiple light sources (key + fill visible)
+        - Even falloff across scene (managed lighting prevents hotspots)
+        - Minimal atmospheric effects (controlled studio environment)
+      `;
+      break;
+
+    case "Moody Dim":
+      lightInteraction = `
+        MOODY DIM LIGHTING INTERACTION:
+        - Low overall light level with dramatic contrast
+        - Warm tungsten color temperature 2700-3200K (amber-orange)
+        - Deep shadows with subtle ambient fill (10-20% shadow luminance)
+        - Small hard light source creates defined shadow edges
+        - Frame shadow is dark and prominent
+        - Glass reflections show warm point light sources (practical lights, lamps)
+        - High contrast ratio (bright highlights fall off quickly to shadow)
+        - Atmospheric fog or haze more visible in dim lighting (Tyndall effect)
+        - Shadow areas have warm ambient color (bounce from surrounding warm surfaces)
+      `;
+      break;
+
+    case "Auto":
+    default:
+      lightInteraction = `
+        NATURAL LIGHTING INTERACTION (Scene-Appropriate):
+        - Light direction and quality match environment logic
+        - Shadows appropriate to light source type (hard for point/sun, soft for diffuse/window)
+        - Color temperature matches scene context (cool daylight, warm interior, mixed urban)
+        - Frame shadows follow light physics (direction, falloff, penumbra)
+        - Glass reflections show environmental light sources accurately
+        - Contrast ratio appropriate to lighting condition
+        - Atmospheric effects scaled to light level and scene type
+      `;
+  }
+
+  return frameInteraction + "\n" + lightInteraction;
+};
+
+/**
+ * Returns atmospheric depth cues and camera behavior details.
+ */
+export const getAtmosphericAndCameraBehavior = (shotContext: ShotContext): string => {
+  const { isMacro, cameraAngle } = shotContext;
+
+  let depthCues = "";
+  let cameraBehavior = "";
+
+  // Atmospheric depth (varies by shot type)
+  if (isMacro) {
+    depthCues = `
+      MACRO ATMOSPHERIC DEPTH:
+      - Background completely out of focus (bokeh circles 5-10x subject size)
+      - Atmospheric haze negligible (too close for significant air)
+      - Focus falloff extremely rapid (sharp plane 2-3mm thick)
+      - Background color melts into abstract shapes
+      - No spatial context depth cues (no horizon, no room)
+    `;
+  } else {
+    depthCues = `
+      ATMOSPHERIC DEPTH CUES:
+      - Aerial perspective: background elements slightly desaturated and cooler-toned
+      - Contrast reduction with distance (foreground sharp, background softer)
+      - Atmospheric haze increases with distance (subtle blue-gray veil on far elements)
+      - Overlapping planes create spatial depth (frame → wall → background objects)
+      - Size gradient: nearer objects larger than distant similar objects
+      - Detail reduction: background elements less detailed than foreground
+      - Color saturation: vibrant foreground, muted background
+    `;
+  }
+
+  // Camera behavior (handheld vs tripod)
+  if (isMacro || cameraAngle === "Close Detail" || cameraAngle === "Extreme Macro") {
+    cameraBehavior = `
+      CAMERA BEHAVIOR - HANDHELD CLOSE-UP:
+      - Slight organic imperfection in framing (not perfectly centered, 2-3° tilt possible)
+      - Micro-motion blur on extreme edges (photographer breathing)
+      - Focus plane slightly off-perfect center (human focusing error)
+      - Subtle lens aberrations more visible (chromatic aberration at edges)
+      - Vignetting natural (not added in post)
+      - Grain structure organic and irregular (film grain, not digital noise)
+    `;
+  } else {
+    cameraBehavior = `
+      CAMERA BEHAVIOR - TRIPOD/STABILIZED:
+      - Precise framing with natural micro-variations (not CG-perfect)
+      - Even sharpness across frame (no motion blur)
+      - Subtle lens characteristics:
+        * Slight vignetting in corners (1-stop light falloff)
+        * Minimal chromatic aberration on high-contrast edges
+        * Gentle field curvature (edges slightly softer than center)
+      - Natural color rendering (film emulation color science)
+      - Film grain consistent across frame (Kodak Portra 400 grain structure)
+      - Exposure appropriate to scene (not HDR-flat, natural dynamic range)
+    `;
+  }
+
+  return depthCues + "\n" + cameraBehavior;
+};
+
+/** Vibe-specific negatives for the built-in vibes */
+const VIBE_NEGATIVES: Record<AnalysisVibe, string[]> = {
+  "Industrial & Raw": [
+    "pristine clean walls", "polished surfaces", "luxury materials",
+    "soft romantic lighting", "pastel colors", "decorative frames"
+  ],
+  "Modern & Minimalist": [
+    "clutter", "ornate decoration", "warm cluttered aesthetic",
+    "vintage patina", "rustic textures", "busy composition"
+  ],
+  "Cozy & Bohemian": [
+    "stark white walls", "harsh industrial lighting", "cold materials",
+    "minimalist emptiness", "sterile environment", "corporate aesthetic"
+  ],
+  "Luxury & High-end": [
+    "cheap materials", "plastic furniture", "fluorescent lighting",
+    "clutter", "DIY aesthetic", "budget fixtures"
+  ],
+  "Public & Street": [
+    "pristine gallery walls", "luxury materials", "clean minimalist spaces",
+    "perfect lighting", "staged photography", "interior design aesthetic"
+  ],
+  "Surprise Me": [
+    "generic stock photo", "corporate stock imagery", "overused composition"
+  ]
+};
+
+/**
+ * Returns context-specific negative prompts to push away from digital/perfect looks.
+ */
+export const getContextualNegativePrompts = (context: ShotContext, vibe: VibeRef): string[] => {
+  const baseNegatives = [
+    // Digital artifacts
+    "3d render", "cgi", "digital art", "photoshop composite", "artificial",
+    "plastic appearance", "waxy skin tones", "digital painting",
+
+    // Perfection indicators
+    "perfectly clean", "pristine showroom", "catalog photography",
+    "zero imperfections", "sterile", "too perfect",
+
+    // Common AI tells
+    "oversaturated colors", "blown out highlights", "crushed blacks",
+    "artificial bokeh overlay", "lens blur filter", "gaussian blur",
+    "artificial vignette", "fake film grain", "digital noise",
+
+    // Composition issues
+    "centered composition", "perfectly symmetrical", "floating objects",
+    "wrong perspective", "impossible shadows", "conflicting light sources",
+
+    // Quality issues
+    "blurry", "out of focus", "soft focus", "jpeg artifacts",
+    "compression artifacts", "banding", "pixelated",
+
+    // Unwanted elements
+    "people", "animals", "faces", "hands", "text", "watermarks",
+    "logos", "brands", "signage with readable text"
+  ];
+
+  // Macro-specific negatives
+  if (context.isMacro) {
+    return [
+      ...baseNegatives,
+      "wide shot", "full room view", "environmental context",
+      "distant camera", "entire frame visible", "wall visible",
+      "flat lighting", "even depth of field", "everything in focus",
+      "no bokeh", "sharp background", "tripod wide angle"
+    ];
+  }
+
+  // Vibe-specific negatives
+  return [...baseNegatives, ...(typeof vibe === "string" ? VIBE_NEGATIVES[vibe] : vibe.negatives)];
+};
+
+/** Analysis themes of the built-in vibes */
+const VIBE_THEMES: Record<AnalysisVibe, string> = {
+  "Industrial & Raw": "Focus on: Industrial lofts, concrete walls, abandoned factories, exposed brick, brutalist architecture, dramatic shadows. Be creative with specific details - rusty metal textures, peeling paint layers, weathered wood, harsh fluorescent tubes, architectural decay.",
+  "Modern & Minimalist": "Focus on: Clean white gallery spaces, scandinavian interiors, negative space, polished concrete floors, museum settings. Think specific - Bauhaus architecture, Japanese minimalism, sculptural furniture edges, geometric shadows, monochromatic palettes.",
+  "Cozy & Bohemian": "Focus on: Warm living rooms with plants, wooden shelves, coffee shops, soft morning light, messy but aesthetic desks. Get specific - vintage rugs, macramé details, ceramic collections, trailing ivy, golden hour through linen curtains.",
+  "Luxury & High-end": "Focus on: Expensive hotel lobbies, marble walls, gold accents, dark moody office spaces, architectural digest style. Think high-end details - Carrara marble veining, brass fixtures with patina, walnut paneling, designer lighting fixtures, leather upholstery.",
+  "Public & Street": "Focus on: Subway stations, wheatpasted street walls, bus stops, urban textures, cafe windows. Be specific - tile patterns, graffiti layers, chain-link fences, neon signage reflections, rain-slicked pavement, transit infrastructure.",
+  "Surprise Me": "Focus on: A mix of unexpected locations - from industrial factories to minimalist museums to gritty street corners. Be bold and creative - think film sets, art installations, architectural experiments, unusual cultural spaces, unexpected juxtapositions."
+};
+
+/**
+ * Helper to build the system prompt based on Vibe
+ */
+export const getSystemPromptForVibe = (vibe: VibeRef) => {
+  const vibeContext = typeof vibe === "string" ? VIBE_THEMES[vibe] ?? VIBE_THEMES["Surprise Me"] : vibe.systemPrompt;
+
+  return `
+    Analyze this artwork. Identify its style, color palette, and mood.
+    Based on this analysis, suggest DISTINCT, CREATIVE, HIGH-QUALITY, editorial-style settings where this art would look amazing.
+
+    THEME: ${vibeContext}
+
+    IMPORTANT: Be specific and unique. Avoid generic descriptions like "modern gallery wall" or "cozy bedroom".
+    Instead, include distinctive details that make each suggestion memorable and different from others.
+    Think like an editorial photographer choosing interesting, unexpected locations.
+
+    Output strictly a JSON array of strings.
+    Example: ["A raw concrete industrial wall with dramatic shadow", "A minimalist art gallery with polished floors"]
+  `;
+};
+
+/** Everything a vibe controls, e.g. to start a custom vibe from a built-in one */
+export const getVibeProfile = (vibe: VibeRef): VibeProfile => {
+  if (typeof vibe !== "string") return vibe;
+  return { systemPrompt: VIBE_THEMES[vibe], ...getEnvironmentalDetails(vibe), negatives: VIBE_NEGATIVES[vibe] };
+};
+
+/**
+ * Builds the shot context for a standard or macro mockup.
+ */
+export const resolveShotContext = (options?: { macro?: boolean }): ShotContext => {
+  const isMacro = options?.macro === true;
+  return {
+    cameraAngle: undefined,
+    isMacro,
+    shotType: isMacro ? "macro" : "standard"
+  };
+};
+
+/**
+ * Macro shots need at least 2K to resolve paper texture.
+ */
+export const resolveImageSize = (settings: GenerationSettings, shotContext: ShotContext): GenerationSettings["imageSize"] =>
+  shotContext.isMacro && settings.imageSize === "1K" ? "2K" : settings.imageSize;
+
+// --- Shared prompt sections ---
+
+const QUALITY_PREFIX = `
+    Award-winning editorial photography, shot on 35mm film, Kodak Portra 400 aesthetic.
+    Features: Slight chromatic aberration, organic color grading, imperfect lens characteristics.
+    The final image must look like a raw, unpolished photograph, not a 3D render.
+    8k resolution, hyperrealistic, detailed texture.
+
+    FILM GRAIN (MANDATORY):
+    - Apply authentic analog film grain throughout the ENTIRE image — this is non-negotiable.
+    - The grain should be organic, irregular, and vary in density across shadows vs highlights (denser grain in shadows, finer grain in highlights), like real Kodak Portra 400 pushed one stop.
+    - Grain should be SUBTLE but clearly VISIBLE at full resolution — it should feel embedded in the image, not overlaid on top.
+    - Do NOT shift or alter the color palette to achieve the grain. Preserve the scene's natural colors. The grain is luminance-based (monochromatic grain), not color noise.
+    - The grain should make the image feel analog and tactile, like a real film photograph scanned from a negative.
+  `;
+
+const CONTACT_SHEET_QUALITY_PREFIX = `
+    Award-winning editorial photography, shot on 35mm film, Kodak Portra 400 aesthetic.
+    Features: Slight chromatic aberration, organic color grading, imperfect lens characteristics.
+    The final image must look like a raw, unpolished photograph, not a 3D render.
+    8k resolution, hyperrealistic, detailed texture.
+
+    FILM GRAIN (MANDATORY):
+    - Apply authentic analog film grain throughout the ENTIRE image — this is non-negotiable.
+    - Organic, irregular grain that varies in density (denser in shadows, finer in highlights), like real Kodak Portra 400 pushed one stop.
+    - Subtle but clearly visible at full resolution — embedded in the image, not overlaid.
+    - Luminance-based (monochromatic) grain only — do NOT shift or alter the color palette. Preserve the scene's natural colors.
+    - The grain should make the image feel analog and tactile, like a real film photograph.
+  `;
+
+const COLOR_ON_PRINT = "COLOR & LIGHT ON PRINT: The artwork is a physical print LIT BY room light, not a self-illuminated screen. Tint the artwork's colors to match the room's ambient light temperature (warm room = warm tint on print, cool daylight = cool tint). The print's brightness and contrast should match what the room lighting would produce — dimmer in moody rooms, brighter near light sources, with natural light falloff across the surface. The artwork should sit within the room's tonal range, never appearing unnaturally vivid or glowing.";
+
+/** `position` names the reference among the attached images, which is after the artwork */
+const buildStyleReferenceInstructions = (position: string): string => `
+
+    STYLE REFERENCE (CRITICAL):
+    ${position} is provided as a STYLE REFERENCE. Match the overall visual style, mood, color grading,
+    lighting atmosphere, and aesthetic feel of this reference image. The reference dictates the photographic
+    style and tone — apply its look to the generated scene. Do NOT reproduce the reference image's content
+    or composition; only absorb its style, palette, and mood.
+    `;
+
+const buildAspectRatioPreservation = (artworkAspectRatio?: number): string => `
+    ARTWORK ASPECT RATIO PRESERVATION (CRITICAL):
+    - NEVER crop, stretch, or distort the artwork. The artwork's original aspect ratio MUST be preserved exactly.
+    - ${describeArtworkRatio(artworkAspectRatio)}
+    - The frame shape and proportions MUST match the artwork's aspect ratio. If the artwork is landscape, the frame MUST be landscape. If portrait, the frame MUST be portrait. Do NOT force the artwork into a square or differently-proportioned frame.
+    - ADJUST THE FRAME dimensions to fit the artwork — never the other way around.
+    - The entire artwork must be visible inside the frame with no parts cut off or hidden.`;
+
+const buildLensInstructions = (lensSpecs: LensSpec): string => `
+    CAMERA TECHNICAL SPECS:
+    - Lens: ${lensSpecs.focalLength}
+    - Aperture: ${lensSpecs.aperture}
+    - Distance: ${lensSpecs.distanceFromSubject}
+    - Depth of Field: ${lensSpecs.depthOfField}
+    - Lens Behavior: ${lensSpecs.lensCharacteristics}
+    - Perspective: ${lensSpecs.perspective}
+  `;
+
+/** First line of the subject hierarchy: one artwork, the panels of a set, or a printed product */
+const describePrimarySubject = (settings: GenerationSettings): string => {
+  const product = productProfile(settings);
+  if (product) return `The attached image is the artwork, printed on the ${product.noun} that is the focus of the photograph.`;
+  return settings.artworkSet
+    ? `The ${settings.artworkSet.panels.length} attached images are the artworks of a set, to be displayed together on the wall, each INSIDE its own frame.`
+    : "The attached image is the artwork/photograph to be displayed INSIDE the frame on the wall.";
+};
+
+/** How the artwork's shape must be kept: the single artwork's ratio, each panel's, or within a product's print area */
+const buildArtworkShapeInstructions = (settings: GenerationSettings): string => {
+  const product = productProfile(settings);
+  if (product) return buildProductArtworkInstructions(product, settings.artworkAspectRatio);
+  return settings.artworkSet
+    ? buildArtworkSetInstructions(settings.artworkSet, 1, settings)
+    : buildAspectRatioPreservation(settings.artworkAspectRatio);
+};
+
+/**
+ * Describes how the print is mounted (frame style + physical size), or how the product is shown.
+ */
+export const buildFrameContext = (settings: GenerationSettings): string => {
+  const product = productProfile(settings);
+  if (product) return product.placement;
+  if (settings.artworkSet) {
+    return `The set hangs on the wall as one group, each piece framed and sized as listed under ARTWORK SET. Show every piece at its real size relative to the furniture and room. Include realistic glass reflections and frame shadows on each framed piece.`;
+  }
+  // "Custom" without a usable size falls back to the A3 default
+  const printSize = settings.printSize && printDimensions(settings.printSize, settings.customPrintSize) ? settings.printSize : "A3";
+  const print = printDimensions(printSize, settings.customPrintSize, settings.artworkAspectRatio)!;
+  const sizeContext = describePrintSize(printSize, print);
+  const scale = buildScaleInstructions(print, settings.sceneReference);
+
+  if (settings.frameSpec) {
+    return `${buildFrameSpecContext(settings.frameSpec, sizeContext)} Outside dimensions including the frame: ${formatPhysicalSize(framedDimensions(print, settings.frameSpec))}. ${scale}`;
+  }
+  if (settings.frameStyle === "None") {
+    return `The attached image is taped or pasted directly onto the wall as a ${sizeContext} poster. Show paper texture, slight curling at corners, and surface shadows falling across the image. ${scale}`;
+  }
+  if (settings.frameStyle === "Auto") {
+    return `The attached image is professionally framed in a style that perfectly matches the environment's aesthetic (${sizeContext} print). Include realistic glass reflections and frame shadows. ${scale}`;
+  }
+  return `The attached image is physically framed in a ${settings.frameStyle} frame (${sizeContext} print) hanging on the wall. Include realistic glass reflections and frame shadows. ${scale}`;
+};
+
+/**
+ * Describes the explicitly chosen lighting / wall material, or asks the model to infer them.
+ */
+export const buildEnvironmentContext = (settings: GenerationSettings): string => {
+  let envContext = "";
+  if (settings.lighting !== "Auto") {
+    envContext += `Lighting Condition: ${settings.lighting}. `;
+  }
+  if (settings.wallTexture !== "Auto") {
+    envContext += `Wall Material: ${settings.wallTexture}. `;
+  }
+  if (!envContext) {
+    envContext = "Lighting and Wall Material should be inferred naturally from the scene description.";
+  }
+  return envContext;
+};
+
+// --- Mockup ---
+
+/**
+ * Assembles the final mockup prompt for a standard or macro shot.
+ */
+export const buildMockupPrompt = (settings: GenerationSettings, shotContext: ShotContext): string => {
+  const isMacro = shotContext.isMacro;
+  const template = settings.promptTemplate;
+  const vibe = settings.customVibe ?? (settings.analysisVibe || "Surprise Me");
+  const product = productProfile(settings);
+
+  // 1. Lens specifications (context-aware)
+  const lensInstructions = buildLensInstructions(getLensSpecsForContext(shotContext));
+
+  // 2. Environmental realism details
+  const environmentalDetails = getEnvironmentalDetails(vibe);
+  const environmentalRealism = `
+    ENVIRONMENTAL REALISM (${environmentalDetails.realismLevel.toUpperCase()}):
+    ${environmentalDetails.ambientDetails}
+
+    Surface Imperfections: ${environmentalDetails.imperfections.slice(0, 3).join("; ")}.
+    Atmospheric Elements: ${environmentalDetails.atmospheric.slice(0, 3).join("; ")}.
+    Scene Context: ${isMacro ? "No scene dressing (macro shot)" : environmentalDetails.sceneDressing.slice(0, 2).join("; ")}.
+  `;
+
+  // 3. Physical interaction + atmospheric / camera behavior
+  const physicalInteraction = product
+    ? buildProductPhysics(product)
+    : getPhysicalInteractionDetails(settings.frameStyle, settings.lighting, settings.frameSpec);
+  const atmosphericBehavior = getAtmosphericAndCameraBehavior(shotContext);
+
+  // 4. Assemble final prompt with clear hierarchy
+  let finalPrompt = `
+    ${renderSection(template, "qualityPrefix", QUALITY_PREFIX)}
+
+    ${renderSection(template, "lensSpecs", lensInstructions)}
+
+    CRITICAL INSTRUCTION - SUBJECT HIERARCHY:
+    1. PRIMARY SUBJECT: ${describePrimarySubject(settings)}
+    2. ENVIRONMENT/LOCATION: The ${product?.noun ?? "frame"} is located in this setting: ${settings.prompt}
+    3. ENVIRONMENTAL ENHANCEMENTS: Subtle realistic details are added to enhance authenticity (described below).
+${buildArtworkShapeInstructions(settings)}
+
+    PLACEMENT: ${buildFrameContext(settings)}
+
+    LIGHTING & MATERIALS CONTEXT: ${buildEnvironmentContext(settings)}
+
+    ${renderSection(template, "environmentalRealism", `${environmentalRealism}
+    Important: Environmental details are SUBTLE BACKGROUND ELEMENTS that exist in the location, not part of the framed artwork itself.`)}
+
+    ${renderSection(template, "physics", `PHYSICS & MATERIALS:
+    ${physicalInteraction}`)}
+
+    ${renderSection(template, "atmosphere", `ATMOSPHERE & CAMERA:
+    ${atmosphericBehavior}`)}
+
+    ${renderSection(template, "colorOnPrint", COLOR_ON_PRINT)}
+  `;
+
+  if (settings.styleReferenceImage) {
+    finalPrompt += buildStyleReferenceInstructions(settings.artworkSet && !product ? "The final image" : "A second image");
+  }
+
+  if (isMacro) {
+    finalPrompt += buildMacroStyleInstructions(product?.macroMaterial);
+  }
+
+  // 5. Contextual + product negatives + user negatives
+  const negativeClauses: string[] = [...getContextualNegativePrompts(shotContext, vibe), ...(product?.negatives ?? [])];
+  if (settings.negativePrompt && settings.negativePrompt.trim().length > 0) {
+    negativeClauses.push(settings.negativePrompt.trim());
+  }
+  if (negativeClauses.length > 0) {
+    finalPrompt += ` Do NOT include: ${negativeClauses.join(", ")}.`;
+  }
+
+  return finalPrompt;
+};
+
+/**
+ * Prompt + parts for a mockup: text, artwork (or every panel of a set, in
+ * order), then the optional style reference.
+ */
+export const buildMockupRequest = (
+  artworkBase64: string,
+  settings: GenerationSettings,
+  shotContext: ShotContext
+): PromptRequest => {
+  const prompt = buildMockupPrompt(settings, shotContext);
+  const parts: ContentPart[] = [{ text: prompt }, ...artworkParts(artworkBase64, settings)];
+
+  if (settings.styleReferenceImage) {
+    parts.push(imagePart(settings.styleReferenceImage));
+  }
+
+  return { prompt, parts };
+};
+
+// --- Contact sheet ---
+
+const ANGLE_INSTRUCTIONS: Record<CameraAngle, string> = {
+  "Wide Establishing": "Full wide shot showing the entire wall/room context with the framed artwork as the focal point. Camera positioned 10+ feet back, eye-level, straight-on.",
+  "Medium Focus": "Medium shot centered on the framed artwork. Camera 5-6 feet away, slightly above eye level (15° down), capturing frame and immediate surroundings.",
+  "Close Detail": "Close-up on the artwork surface showing print texture and frame edge. Camera 2 feet away, eye-level, straight-on.",
+  "Low Dramatic": "Low-angle shot from ground level looking up at the artwork. Camera positioned low (12-18 inches from floor), angled up 30-45°, creating elongated perspective.",
+  "High Overhead": "High-angle overhead view looking down at the artwork. Camera positioned above (ceiling height), angled down 60-75°.",
+  "Extreme Macro": "Extreme close-up detail on corner of frame or artwork texture. Camera inches away, slight diagonal angle to show depth.",
+  "Side Depth": "Side-angle profile shot emphasizing frame depth and wall shadows. Camera positioned far left or right, 45-60° off-axis, compressing perspective.",
+  "Three-Quarter": "Three-quarter angle combining side and front view. Camera 45° to the left/right, slightly elevated (20° above eye level).",
+  "Corner Detail": "Detail shot focusing on frame corner, mounting hardware, or texture intersection. Camera close, angled to show dimensional detail."
+};
+
+/**
+ * Builds specialized prompt for contact sheet generation.
+ * Reuses the same quality logic as regular mockups for consistency.
+ */
+export const buildContactSheetPrompt = (
+  settings: GenerationSettings,
+  cameraAngles: CameraAngle[]
+): string => {
+  const gridSize = cameraAngles.length === 6 ? '2x3' : '3x3';
+  const template = settings.promptTemplate;
+  const product = productProfile(settings);
+  const describeAngle = (angle: CameraAngle) => product ? describeProductAngle(product, angle) : ANGLE_INSTRUCTIONS[angle];
+  // Lens specs are per frame here, so a template can only drop them or state its own once
+  const lensOverride = template?.lensSpecs;
+
+  // Build shot list with lens specs per angle
+  const shotList = cameraAngles.map((angle, idx) => {
+    if (lensOverride) return `Frame ${idx + 1}: ${describeAngle(angle)}`;
+    const lensSpecs = getLensSpecsForContext({
+      cameraAngle: angle,
+      isMacro: false,
+      shotType: "contactSheet"
+    });
+
+    return `Frame ${idx + 1}: ${describeAngle(angle)}
+      LENS: ${lensSpecs.focalLength}, ${lensSpecs.aperture}
+      DISTANCE: ${lensSpecs.distanceFromSubject}
+      DOF: ${lensSpecs.depthOfField}
+      CHARACTERISTICS: ${lensSpecs.lensCharacteristics}`;
+  }).join('\n    ');
+
+  const environmentalDetails = getEnvironmentalDetails(settings.customVibe ?? (settings.analysisVibe || "Surprise Me"));
+  const environmentalRealism = `
+    ENVIRONMENTAL REALISM: ${environmentalDetails.ambientDetails}
+    Imperfections: ${environmentalDetails.imperfections.slice(0, 3).join("; ")}.
+    Atmosphere: ${environmentalDetails.atmospheric.slice(0, 2).join("; ")}.
+  `;
+
+  const physicalInteraction = product
+    ? buildProductPhysics(product)
+    : getPhysicalInteractionDetails(settings.frameStyle, settings.lighting, settings.frameSpec);
+  const negatives = [...(product?.negatives ?? []), settings.negativePrompt].filter(Boolean).join(", ");
+
+  return `
+    ${renderSection(template, "qualityPrefix", CONTACT_SHEET_QUALITY_PREFIX)}
+
+    CRITICAL INSTRUCTION: Generate a ${gridSize} contact sheet showing the EXACT SAME mockup scene from ${cameraAngles.length} different camera positions.
+
+    SUBJECT HIERARCHY:
+    1. PRIMARY SUBJECT: ${describePrimarySubject(settings)}
+    2. ENVIRONMENT/LOCATION: The ${product?.noun ?? "frame"} is located in this setting: ${settings.prompt}
+    3. ENVIRONMENTAL ENHANCEMENTS: Subtle realistic details that exist in the location (described below).
+${buildArtworkShapeInstructions(settings)}
+
+    PLACEMENT: ${buildFrameContext(settings)}
+    LIGHTING & MATERIALS CONTEXT: ${buildEnvironmentContext(settings)}
+
+    ${renderSection(template, "environmentalRealism", `${environmentalRealism}
+    Important: Environmental details are SUBTLE BACKGROUND ELEMENTS that exist in the location, not part of the framed artwork itself.`)}
+
+    ${renderSection(template, "physics", `PHYSICS: ${physicalInteraction}`)}
+    ${renderSection(template, "atmosphere", "")}
+    ${renderSection(template, "colorOnPrint", COLOR_ON_PRINT)}
+
+    CONSISTENCY ACROSS ALL ${cameraAngles.length} FRAMES:
+    - The artwork/print content must be IDENTICAL in every frame
+    - Frame style, lighting, wall texture, environment must remain EXACTLY the same
+    - Environmental imperfections and objects stay consistent
+    - Only camera angle/position/lens varies between frames
+
+    ${lensOverride ? `CAMERA POSITIONS:
+    ${renderSection(template, "lensSpecs", "")}` : "CAMERA POSITIONS WITH LENS SPECS:"}
+    ${shotList}
+
+    OUTPUT FORMAT:
+    - Generate a ${gridSize} grid contact sheet
+    - All ${cameraAngles.length} frames must be the same aspect ratio (${settings.aspectRatio})
+    - NO borders or gaps between frames - tight grid, frames directly adjacent
+    - Each frame is a complete, high-quality photograph
+    - No labels, numbers, or text overlays
+
+    ${negatives ? `Do NOT include: ${negatives}.` : ''}
+  `.trim();
+};
+
+export const buildContactSheetRequest = (
+  artworkBase64: string,
+  settings: GenerationSettings,
+  cameraAngles: CameraAngle[]
+): PromptRequest => {
+  const prompt = buildContactSheetPrompt(settings, cameraAngles);
+  return { prompt, parts: [{ text: prompt }, ...artworkParts(artworkBase64, settings)] };
+};
+
+// --- Composite / refine ---
+
+/**
+ * Prompt for placing artwork into an interior scene photo.
+ * If the photo has an existing frame/artwork, replaces it. If not, adds a frame on a natural wall spot.
+ * With `artworkSet`, the set's panels (images 2 onwards) are hung together instead.
+ */
+export const buildCompositePrompt = (instructions: string, artworkAspectRatio?: number, artworkSet?: ArtworkSet): string => {
+  const userGuidance = instructions.trim()
+    ? `USER INSTRUCTIONS: ${instructions.trim()}`
+    : `Place the artwork as ${artworkSet ? "a group of framed prints" : "a framed print"} on the wall in this interior scene.`;
+
+  const task = artworkSet
+    ? `place the provided SET of ${artworkSet.panels.length} ARTWORKS (images 2 to ${artworkSet.panels.length + 1}) into the INTERIOR SCENE PHOTO (first image) as a group of framed prints on the wall`
+    : "place the provided ARTWORK (second image) into the INTERIOR SCENE PHOTO (first image) as a framed print on the wall";
+
+  const shapeRule = artworkSet
+    ? `
+    ##################################################################
+    # RULE #1 — EACH FRAME MUST MATCH ITS PANEL'S SHAPE (NON-NEGOTIABLE) #
+    ##################################################################
+    ${buildArtworkSetInstructions(artworkSet, 2).trim()}
+    - If the scene already has frames with different proportions, you MUST CHANGE them to match the panels.
+    - The ENTIRE artwork of every panel must be visible inside its frame — nothing cut off, no letterboxing, no padding.
+    ##################################################################`
+    : `
+    ############################################################
+    # RULE #1 — FRAME MUST MATCH ARTWORK SHAPE (NON-NEGOTIABLE) #
+    ############################################################
+    ${describeArtworkRatio(artworkAspectRatio)}
+    The frame in the output image MUST have the SAME proportions as the artwork.
+    - If the artwork is PORTRAIT (tall), the frame MUST be PORTRAIT (tall). A portrait artwork must NEVER appear in a landscape or square frame.
+    - If the artwork is LANDSCAPE (wide), the frame MUST be LANDSCAPE (wide). A landscape artwork must NEVER appear in a portrait or square frame.
+    - If the artwork is SQUARE, the frame must be square.
+    - NEVER crop, stretch, squash, or distort the artwork to fit a differently-shaped frame.
+    - If the scene already has a frame with different proportions, you MUST CHANGE the frame shape to match the artwork. Remove the old frame and create a new one with correct proportions.
+    - The ENTIRE artwork must be visible inside the frame — nothing cut off, no letterboxing, no padding.
+    ############################################################`;
+
+  const replace = artworkSet
+    ? `- REPLACE the existing artwork with the whole set, arranged as described in Rule #1 and centred on the same spot`
+    : `- REPLACE the existing artwork with the provided artwork`;
+  const add = artworkSet
+    ? `- ADD the set, arranged as described in Rule #1, in frames that match the room's aesthetic
+       - Size the group proportionally to the wall space`
+    : `- ADD a frame that matches the room's aesthetic and the artwork's proportions
+       - Size the frame proportionally to the wall space`;
+
+  return `
+    You are a professional interior scene compositor. Your task is to ${task}.
+${shapeRule}
+
+    ${userGuidance}
+
+    SCENE ANALYSIS:
+    1. If the scene already has a frame, picture, or artwork on the wall:
+       ${replace}
+       - Keep the same approximate wall POSITION (centered above bed, above sofa, etc.)
+       - Keep a similar frame STYLE (material, color) if it suits the room
+       - BUT CHANGE THE FRAME SHAPE/PROPORTIONS to match the new artwork (see Rule #1 above). Do NOT keep the old frame shape if it doesn't match.
+    2. If the scene has NO existing frame or artwork:
+       - Find the most natural wall spot for hanging art
+       ${add}
+
+    OTHER REQUIREMENTS:
+    1. PERSPECTIVE: Match the wall's vanishing point and angle precisely
+       - If the wall is at an angle, the frame and artwork must follow that angle
+       - Apply correct perspective transformation so the frame looks physically mounted on the wall
+
+    2. COLOR & LIGHT INTEGRATION (CRITICAL FOR REALISM):
+       A print on a wall is NOT self-illuminated — it is LIT BY the room's ambient light. This means:
+       - The artwork's colors must be TINTED by the room's light color temperature:
+         * Warm room light (tungsten, golden hour, candles) → artwork gains a warm wash (shift toward orange/amber)
+         * Cool daylight → artwork shifts slightly cool/blue
+         * Mixed lighting → artwork shows warm/cool zones matching nearby light sources
+       - The artwork's BRIGHTNESS must match what a real print would show:
+         * In a dim/moody room, the print appears darker and lower-contrast
+         * In a bright room, the print appears vivid but not glowing
+         * Light falloff across the print surface if light comes from one side (brighter on the side nearest the light source, slightly darker on the far side)
+       - Glass surface effects:
+         * Subtle environmental reflections (15-25% opacity) — room lights, windows, ceiling
+         * Glass slightly reduces contrast and adds a faint cool shift
+         * Specular highlight from the main light source (small, bright accent)
+       - The print must NEVER look like a backlit screen or digital overlay. It should look like ink on paper reflecting room light.
+       - Overall, the print's tonal range should sit WITHIN the room's tonal range — it should not be the brightest or most saturated element unless the room lighting specifically spotlights it.
+
+    3. PHYSICAL REALISM:
+       - Frame casts a realistic shadow on the wall based on light direction and frame depth
+       - Frame material shows appropriate texture (wood grain, metal brushing, etc.)
+       - The artwork surface should look like semi-matte fine art paper behind glass, with subtle texture
+
+    4. PRESERVE everything else in the photo exactly as-is:
+       - Room furniture, objects, lighting setup, wall texture, architectural elements
+       - Only add/replace the framed artwork
+
+    QUALITY: Professional interior photography quality. The result should look like a real photo of a room with this artwork hanging on the wall.
+    OUTPUT: Generate exactly ONE high-quality composited image.
+  `.trim();
+};
+
+export const buildCompositeRequest = (
+  baseImageBase64: string,
+  artworkBase64: string,
+  instructions: string,
+  artworkAspectRatio?: number,
+  artworkSet?: ArtworkSet
+): PromptRequest => {
+  const prompt = buildCompositePrompt(instructions, artworkAspectRatio, artworkSet);
+  const artwork = artworkSet ? panelParts(artworkSet) : [imagePart(artworkBase64)];
+  return { prompt, parts: [{ text: prompt }, imagePart(baseImageBase64), ...artwork] };
+};
+
+/**
+ * Prompt for refining a previous composite output while keeping everything else.
+ */
+export const buildRefinePrompt = (refinementInstructions: string): string => `
+    You are refining a previously generated interior scene composite. The first image is the PREVIOUS OUTPUT (the composited scene with artwork on the wall). The second image is the ORIGINAL ARTWORK for reference.
+
+    REFINEMENT INSTRUCTIONS: ${refinementInstructions}
+
+    CRITICAL: Apply ONLY the refinement described above. Keep EVERYTHING else exactly the same:
+    - Same room, same wall, same furniture, same lighting
+    - Same frame position and style (unless the refinement specifically asks to change it)
+    - Same artwork placement (unless the refinement specifically asks to move it)
+    - Same perspective, same color grading, same atmosphere
+
+    The refinement should feel like a subtle adjustment to the existing image, not a complete regeneration.
+    OUTPUT: Generate exactly ONE refined image.
+  `.trim();
+
+export const buildRefineRequest = (
+  previousOutputBase64: string,
+  originalArtworkBase64: string,
+  refinementInstructions: string
+): PromptRequest => {
+  const prompt = buildRefinePrompt(refinementInstructions);
+  return { prompt, parts: [{ text: prompt }, imagePart(previousOutputBase64), imagePart(originalArtworkBase64)] };
+};
+
+// --- Upscale ---
+
+/**
+ * Prompt for a pixel-faithful 4K enhancement of an existing mockup.
+ */
+export const buildUpscalePrompt = (): string => `
+    TASK: Upscale this image to higher resolution. This is a PURE ENHANCEMENT — NOT a new generation.
+
+    Your output must be a pixel-faithful, higher-resolution version of this EXACT image. Do NOT reimagine, recompose, or relocate ANY element.
+
+    WHAT MUST STAY IDENTICAL (zero deviation allowed):
+    - Frame position on the wall (same X/Y placement, same size relative to the scene)
+    - Camera angle, perspective, and field of view
+    - Room layout, furniture placement, every object's position
+    - Lighting direction, shadows, color temperature
+    - Background elements, wall texture, floor, ceiling — everything
+    - Overall color grade, mood, and atmosphere
+
+    THE ONLY CHANGE: Higher resolution with sharper details and finer textures across the entire image — walls, frame, artwork inside the frame, furniture, floor, all surfaces.
+
+    Think of this as a super-resolution enhancement, like running an AI upscaler. The composition is LOCKED. Only resolution and detail improve.
+
+    OUTPUT: Generate exactly ONE high-resolution image that is visually identical to the input but at 4K quality.
+  `.trim();
+
+/**
+ * Prompt + parts for re-generating a mockup at higher resolution with the
+ * existing image as a composition reference.
+ */
+export const buildRegenerateHighResRequest = (mockupBase64: string, scenePrompt: string): PromptRequest => {
+  const prompt = `Regenerate this artwork mockup at higher resolution.
+Preserve the exact composition, framing, lighting, color grading, and film grain aesthetic.
+Enhance fine details — paper texture, frame material, glass reflections, wall surface.
+${scenePrompt}
+
+Output at maximum sharpness and detail. Award-winning editorial photography quality.`;
+  return { prompt, parts: [imagePart(mockupBase64), { text: prompt }] };
+};
+
+// --- Analysis ---
+
+/**
+ * Prompt asking the analysis model for 4 environment suggestions.
+ */
+export const buildAnalysisPrompt = (vibe: VibeRef, now = Date.now()): string => `
+    ${getSystemPromptForVibe(vibe)}
+    Generate exactly 4 UNIQUE, CREATIVE, and VARIED suggestions.
+    Each suggestion should be specific, unexpected, and avoid generic descriptions.
+    Think outside the box - surprise the user with interesting, editorial-quality locations.
+    Consider unusual angles, specific details, unique lighting scenarios.
+
+    Current timestamp: ${now} (use this to inspire fresh perspectives)
+  `;
+
+/**
+ * Prompt asking the analysis model for a single suggestion that avoids the existing ones.
+ */
+export const buildSingleSuggestionPrompt = (vibe: VibeRef, existingPrompts: string[] = [], now = Date.now()): string => {
+  const existingList = existingPrompts.length > 0
+    ? `\n\nAVOID DUPLICATING THESE EXISTING SUGGESTIONS:\n${existingPrompts.map((p, i) => `${i + 1}. ${p}`).join('\n')}\n`
+    : '';
+
+  return `
+    ${getSystemPromptForVibe(vibe)}
+    Generate exactly 1 UNIQUE, CREATIVE suggestion that is DIFFERENT from generic ones.
+    Be specific, unexpected, and avoid clichés.
+    ${existingList}
+    Current timestamp: ${now} (inspire fresh perspectives)
+    Output strictly a JSON array with one string.
+  `;
+};
+
+export const buildAnalysisRequest = (artworkBase64: string, prompt: string): PromptRequest => ({
+  prompt,
+  parts: [{ text: prompt }, imagePart(artworkBase64)]
+});
+
+// --- Scene analysis ---
+
+const WALL_ORIENTATIONS: WallOrientation[] = ["frontal", "angled-left", "angled-right"];
+const LIGHT_DIRECTIONS: LightDirection[] = ["left", "right", "above", "front", "behind", "diffuse"];
+
+/**
+ * Prompt asking the analysis model to locate existing frames and empty wall
+ * space on a scene photo. Boxes use Gemini's native [ymin, xmin, ymax, xmax]
+ * on a 0-1000 grid, which it localizes far more reliably than fractions.
+ */
+export const buildSceneAnalysisPrompt = (): string => `
+    You are preparing an interior photo for an art mockup. Find where a framed print could hang.
+
+    List:
+    1. "frames": every existing framed picture, poster, canvas or mirror on a wall (at most 6).
+    2. "emptyWalls": up to 4 clear, unobstructed stretches of wall that could hold a framed print, best candidates first. Leave margins around furniture, lamps and corners.
+
+    For each item give:
+    - "label": a short description a person would use, e.g. "Large frame above the sofa" or "Empty wall left of the window"
+    - "box_2d": [ymin, xmin, ymax, xmax] on a 0-1000 grid of the image
+    - "orientation": "frontal" if the wall faces the camera, "angled-left" if it recedes towards the left edge of the photo, "angled-right" if it recedes towards the right
+    - "lighting": where the main light on that spot comes from: "left", "right", "above", "front", "behind" or "diffuse"
+
+    Output strictly JSON: {"frames": [...], "emptyWalls": [...]}. Use empty arrays when nothing qualifies.
+  `.trim();
+
+export const buildSceneAnalysisRequest = (sceneBase64: string): PromptRequest => {
+  const prompt = buildSceneAnalysisPrompt();
+  return { prompt, parts: [{ text: prompt }, imagePart(sceneBase64)] };
+};
+
+const toNormalizedBox = (box2d: unknown): NormalizedBox | null => {
+  if (!Array.isArray(box2d) || box2d.length !== 4) return null;
+  const [ymin, xmin, ymax, xmax] = box2d.map(v => Math.min(1000, Math.max(0, Number(v))));
+  if (![ymin, xmin, ymax, xmax].every(Number.isFinite) || xmax <= xmin || ymax <= ymin) return null;
+  return { x: xmin / 1000, y: ymin / 1000, width: (xmax - xmin) / 1000, height: (ymax - ymin) / 1000 };
+};
+
+const toSceneRegions = (items: unknown, kind: SceneRegion["kind"]): SceneRegion[] => {
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((item: any): SceneRegion[] => {
+    const box = toNormalizedBox(item?.box_2d);
+    if (!box) return [];
+    return [{
+      kind,
+      label: typeof item.label === "string" && item.label.trim() ? item.label.trim() : kind === "frame" ? "Existing frame" : "Empty wall",
+      box,
+      orientation: WALL_ORIENTATIONS.includes(item.orientation) ? item.orientation : "frontal",
+      lighting: LIGHT_DIRECTIONS.includes(item.lighting) ? item.lighting : "diffuse",
+    }];
+  });
+};
+
+/** Reads the model's JSON leniently: malformed items are dropped rather than failing the whole scene */
+export const parseSceneAnalysis = (text: string): SceneAnalysis => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { frames: [], emptyWalls: [] };
+  }
+  return { frames: toSceneRegions(json?.frames, "frame"), emptyWalls: toSceneRegions(json?.emptyWalls, "emptyWall") };
+};
+
+const ORIENTATION_PHRASES: Record<WallOrientation, string> = {
+  "frontal": "The wall faces the camera square on.",
+  "angled-left": "The wall recedes towards the left, so the frame narrows in perspective on its left side.",
+  "angled-right": "The wall recedes towards the right, so the frame narrows in perspective on its right side.",
+};
+
+const LIGHT_PHRASES: Record<LightDirection, string> = {
+  "left": "Light falls from the left; match its shadows and falloff.",
+  "right": "Light falls from the right; match its shadows and falloff.",
+  "above": "Light falls from above; match its shadows and falloff.",
+  "front": "Light comes from the camera side, lighting the wall evenly from the front.",
+  "behind": "The spot is backlit, so keep the print slightly darker than its surroundings.",
+  "diffuse": "Light it with soft, even room light.",
+};
+
+/** Composite instructions pre-filled from a detected region; the user can edit them before generating */
+export const buildRegionInstructions = (region: SceneRegion): string => {
+  const pct = (v: number) => `${Math.round(v * 100)}%`;
+  const where = `(${pct(region.box.x)} to ${pct(region.box.x + region.box.width)} across, ${pct(region.box.y)} to ${pct(region.box.y + region.box.height)} down)`;
+  const action = region.kind === "frame"
+    ? `Replace the artwork in the existing frame: ${region.label} ${where}. Keep the frame itself.`
+    : `Hang the artwork on the empty wall: ${region.label} ${where}.`;
+  return [action, ORIENTATION_PHRASES[region.orientation], LIGHT_PHRASES[region.lighting]].join(" ");
+};
+
+// --- Fidelity check ---
+
+/**
+ * Asks the analysis model where the artwork sits in a mockup, on the same
+ * 0-1000 grid as scene analysis, and optionally for a critique of how it was
+ * reproduced. The pixel comparison itself happens locally (see fidelity).
+ */
+export const buildFidelityInspectionPrompt = (critique: boolean): string => `
+    The first image is a mockup photograph. The second image is the ORIGINAL ARTWORK that should appear in it as a print.
+
+    1. Find the artwork in the mockup: the printed image area only, inside any frame, mat or glazing.
+       Give it as "box_2d": [ymin, xmin, ymax, xmax] on a 0-1000 grid of the mockup, or null if the artwork does not appear.
+    ${critique ? `2. Critique how faithfully the artwork was reproduced compared with the original: cropping, stretching, mirroring, recolouring, missing or invented content. Ignore the lighting, reflections and perspective a real photo would add.
+       Give "score": 0 (unrecognisable) to 10 (identical apart from the photo's light), and "issues": a short phrase per problem, empty if none.` : ''}
+
+    Output strictly JSON: {"box_2d": ...${critique ? ', "score": ..., "issues": [...]' : ''}}.
+  `.trim();
+
+export const buildFidelityInspectionRequest = (mockupBase64: string, artworkBase64: string, critique: boolean): PromptRequest => {
+  const prompt = buildFidelityInspectionPrompt(critique);
+  return { prompt, parts: [{ text: prompt }, imagePart(mockupBase64), imagePart(artworkBase64)] };
+};
+
+/** Reads the inspection leniently: an unreadable box means the artwork wasn't found, an unreadable score means no critique */
+export const parseFidelityInspection = (text: string): FidelityInspection => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { region: null };
+  }
+  const region = toNormalizedBox(json?.box_2d);
+  const score = Number(json?.score);
+  if (json?.score === undefined || !Number.isFinite(score)) return { region };
+  const issues = Array.isArray(json.issues) ? json.issues.filter((i: unknown): i is string => typeof i === "string" && i.trim() !== "").map((i: string) => i.trim()) : [];
+  return { region, critique: { score: Math.min(10, Math.max(0, score)) / 10, issues } };
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { PromptExperiment } from '../types';
+import { BUILT_IN_TEMPLATES, experimentTally, normalizePromptTemplate, renderSection, templateName } from './promptTemplates';
+
+describe('renderSection', () => {
+  it('keeps, drops or rewords a section', () => {
+    expect(renderSection(undefined, 'physics', 'built-in')).toBe('built-in');
+    expect(renderSection({ physics: { enabled: false, text: 'ignored' } }, 'physics', 'built-in')).toBe('');
+    expect(renderSection({ physics: { enabled: true, text: ' custom ' } }, 'physics', 'built-in')).toBe('custom');
+    expect(renderSection({ physics: { enabled: true, text: '  ' } }, 'physics', 'built-in')).toBe('built-in');
+  });
+});
+
+describe('normalizePromptTemplate', () => {
+  it('drops overrides that match the built-in wording', () => {
+    expect(normalizePromptTemplate({ lensSpecs: { enabled: true, text: '' } })).toBeUndefined();
+    expect(normalizePromptTemplate({ lensSpecs: { enabled: false, text: 'x' }, physics: { enabled: true } }))
+      .toEqual({ lensSpecs: { enabled: false } });
+  });
+});
+
+describe('templateName', () => {
+  it('names built-in templates and calls anything else custom', () => {
+    expect(templateName(undefined)).toBe('Film (default)');
+    expect(templateName(BUILT_IN_TEMPLATES[1].template)).toBe('Clean digital catalogue');
+    expect(templateName({ colorOnPrint: { enabled: false } })).toBe('Custom');
+  });
+});
+
+describe('experimentTally', () => {
+  const experiment = (labels: [string, string], pickedIndex?: 0 | 1): PromptExperiment => ({
+    id: labels.join(), prompt: 'loft', createdAt: 1, pickedIndex,
+    variants: [
+      { label: labels[0], template: {}, resultId: 'a' },
+      { label: labels[1], template: {}, resultId: 'b' },
+    ],
+  });
+
+  it('counts wins per template and skips unpicked experiments', () => {
+    expect(experimentTally([
+      experiment(['Film', 'Clean'], 1),
+      experiment(['Clean', 'Film'], 0),
+      experiment(['Film', 'Clean'], 0),
+      experiment(['Film', 'Clean']),
+    ])).toEqual([
+      { label: 'Clean', wins: 2, runs: 3 },
+      { label: 'Film', wins: 1, runs: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import type { PromptExperiment, PromptSection, PromptTemplate } from '../types';
+
+/**
+ * Prompt templates: per-section toggles and rewordings of the mockup prompt.
+ * Pure, like the prompt engine that applies them, so every entry point renders
+ * a template the same way.
+ */
+
+/** In the order they appear in the mockup prompt */
+export const PROMPT_SECTIONS: { id: PromptSection; label: string }[] = [
+  { id: 'qualityPrefix', label: 'Quality prefix' },
+  { id: 'lensSpecs', label: 'Lens specs' },
+  { id: 'environmentalRealism', label: 'Environmental realism' },
+  { id: 'physics', label: 'Physics & materials' },
+  { id: 'atmosphere', label: 'Atmosphere & camera' },
+  { id: 'colorOnPrint', label: 'Colour on print' },
+];
+
+const CLEAN_DIGITAL_QUALITY = `
+    Professional e-commerce catalogue photography, shot on a full-frame digital camera with a prime lens.
+    Clean, crisp and true to colour: accurate white balance, controlled highlights, smooth tonal gradations.
+    The final image must look like a real photograph, not a 3D render.
+    NO film grain, NO noise, NO chromatic aberration: a clean digital file as delivered by a commercial studio.
+  `;
+
+const CLEAN_DIGITAL_CAMERA = `
+      CAMERA BEHAVIOR - CLEAN DIGITAL:
+      - Tripod-mounted, precisely levelled framing
+      - Even sharpness across the frame, no motion blur
+      - Neutral, accurate colour rendering with no film emulation
+      - No grain or noise anywhere in the image
+      - Natural dynamic range (not HDR-flat)
+    `;
+
+/** Named starting points for a template; the empty one is the built-in film look */
+export const BUILT_IN_TEMPLATES: { name: string; template: PromptTemplate }[] = [
+  { name: 'Film (default)', template: {} },
+  {
+    name: 'Clean digital catalogue',
+    template: {
+      qualityPrefix: { enabled: true, text: CLEAN_DIGITAL_QUALITY.trim() },
+      atmosphere: { enabled: true, text: CLEAN_DIGITAL_CAMERA.trim() },
+    },
+  },
+  {
+    name: 'Minimal',
+    template: {
+      lensSpecs: { enabled: false },
+      environmentalRealism: { enabled: false },
+      atmosphere: { enabled: false },
+    },
+  },
+];
+
+/** `template` without entries that match the built-in wording, or undefined if nothing is left */
+export function normalizePromptTemplate(template?: PromptTemplate): PromptTemplate | undefined {
+  const normalized: PromptTemplate = {};
+  for (const { id } of PROMPT_SECTIONS) {
+    const override = template?.[id];
+    if (!override) continue;
+    const text = override.text?.trim();
+    if (!override.enabled) normalized[id] = { enabled: false };
+    else if (text) normalized[id] = { enabled: true, text };
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/** The section as `template` has it: left out, reworded, or `builtIn` */
+export function renderSection(template: PromptTemplate | undefined, section: PromptSection, builtIn: string): string {
+  const override = template?.[section];
+  if (!override) return builtIn;
+  if (!override.enabled) return '';
+  return override.text?.trim() || builtIn;
+}
+
+/** The built-in template `template` matches, or "Custom" */
+export function templateName(template?: PromptTemplate): string {
+  const key = JSON.stringify(normalizePromptTemplate(template) ?? {});
+  return BUILT_IN_TEMPLATES.find(t => JSON.stringify(normalizePromptTemplate(t.template) ?? {}) === key)?.name ?? 'Custom';
+}
+
+/** How often each template won the experiments it took part in, most wins first */
+export function experimentTally(experiments: PromptExperiment[]): { label: string; wins: number; runs: number }[] {
+  const tally = new Map<string, { label: string; wins: number; runs: number }>();
+  for (const experiment of experiments) {
+    if (experiment.pickedIndex === undefined) continue;
+    experiment.variants.forEach((variant, i) => {
+      const entry = tally.get(variant.label) ?? { label: variant.label, wins: 0, runs: 0 };
+      entry.runs += 1;
+      if (i === experiment.pickedIndex) entry.wins += 1;
+      tally.set(variant.label, entry);
+    });
+  }
+  return [...tally.values()].sort((a, b) => b.wins - a.wins || a.label.localeCompare(b.label));
+}
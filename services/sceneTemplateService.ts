@@ -0,0 +1,17 @@
+import type { SceneTemplate } from '../types';
+import { storageService } from './storageService';
+import { createSyncedCollection } from './syncedCollection';
+
+/** Templates that haven't been deleted, oldest first */
+export const activeSceneTemplates = (templates: SceneTemplate[]): SceneTemplate[] =>
+  templates.filter(t => !t.deletedAt).sort((a, b) => a.createdAt - b.createdAt);
+
+export const sceneTemplateService = createSyncedCollection<SceneTemplate>({
+  label: 'scene template',
+  endpoint: '/api/scene-templates',
+  load: () => storageService.loadAllSceneTemplates(),
+  store: template => storageService.saveSceneTemplate(template),
+  active: activeSceneTemplates,
+  // The server may not have this device's blobs yet, so the photo goes inline
+  toUpload: async template => ({ ...template, imageUrl: await storageService.resolveImage(template.imageUrl) }),
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { PlacementQuad, SceneTemplate } from '../types';
+import { resolveSlot, sceneSlotInstructions } from './sceneTemplates';
+
+const quad: PlacementQuad = [{ x: 0.1, y: 0.2 }, { x: 0.4, y: 0.2 }, { x: 0.4, y: 0.6 }, { x: 0.1, y: 0.6 }];
+
+const template = (extra: Partial<SceneTemplate> = {}): SceneTemplate => ({
+  id: 't1',
+  name: 'Loft',
+  imageUrl: 'sha256:abc',
+  slots: [{ name: 'Above sofa', quad }, { name: 'Hallway', quad }],
+  defaultFrameStyle: 'Natural Oak',
+  createdAt: 1,
+  updatedAt: 1,
+  ...extra,
+});
+
+describe('resolveSlot', () => {
+  it('counts positions from 1', () => {
+    expect(resolveSlot(template(), 2)?.name).toBe('Hallway');
+    expect(resolveSlot(template(), '1')?.name).toBe('Above sofa');
+    expect(resolveSlot(template(), 0)).toBeUndefined();
+    expect(resolveSlot(template(), 3)).toBeUndefined();
+  });
+
+  it('matches names, preferring a slot literally named like a number', () => {
+    expect(resolveSlot(template(), 'hallway')?.name).toBe('Hallway');
+    expect(resolveSlot(template({ slots: [{ name: 'A', quad }, { name: '1', quad }] }), '1')?.name).toBe('1');
+    expect(resolveSlot(template(), 'Kitchen')).toBeUndefined();
+  });
+});
+
+describe('sceneSlotInstructions', () => {
+  it('describes the corners, frame and notes, then appends extra prose', () => {
+    const text = sceneSlotInstructions(template({ notes: 'Warm evening light' }), template().slots[0], 'Slightly tilted');
+    expect(text).toContain('"Above sofa"');
+    expect(text).toContain('top-left (10% across, 20% down)');
+    expect(text).toContain('bottom-right (40% across, 60% down)');
+    expect(text).toContain('Natural Oak frame');
+    expect(text).toContain('Scene notes: Warm evening light');
+    expect(text.endsWith('Slightly tilted')).toBe(true);
+  });
+
+  it('leaves the frame to the model on Auto', () => {
+    expect(sceneSlotInstructions(template({ defaultFrameStyle: 'Auto' }), template().slots[0])).not.toContain('frame.');
+    expect(sceneSlotInstructions(template({ defaultFrameStyle: 'None' }), template().slots[0])).toContain('unframed');
+  });
+});
@@ -0,0 +1,33 @@
+import type { PlacementSlot, SceneTemplate } from '../types';
+
+/**
+ * A slot by 1-based position ("slot 2") or by name. Numeric strings count as
+ * positions unless a slot is literally named that way.
+ */
+export function resolveSlot(template: Pick<SceneTemplate, 'slots'>, slot: number | string): PlacementSlot | undefined {
+  if (typeof slot === 'string') {
+    const name = slot.trim().toLowerCase();
+    const named = template.slots.find(s => s.name.trim().toLowerCase() === name);
+    if (named || !/^\d+$/.test(name)) return named;
+    slot = Number(name);
+  }
+  return Number.isInteger(slot) ? template.slots[slot - 1] : undefined;
+}
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+/**
+ * Placement instructions for the generative compositor: the slot's corners in
+ * percent of the photo, the template's frame, its notes, then any extra prose.
+ */
+export function sceneSlotInstructions(template: Pick<SceneTemplate, 'defaultFrameStyle' | 'notes'>, slot: PlacementSlot, extra = ''): string {
+  const [tl, tr, br, bl] = slot.quad.map(p => `(${percent(p.x)} across, ${percent(p.y)} down)`);
+  const lines = [
+    `Place the framed artwork in the wall region "${slot.name}". Its outer corners sit at top-left ${tl}, top-right ${tr}, bottom-right ${br} and bottom-left ${bl} of the scene photo; follow that outline and its perspective exactly.`,
+  ];
+  if (template.defaultFrameStyle === 'None') lines.push('Hang the artwork unframed.');
+  else if (template.defaultFrameStyle !== 'Auto') lines.push(`Use a ${template.defaultFrameStyle} frame.`);
+  if (template.notes?.trim()) lines.push(`Scene notes: ${template.notes.trim()}`);
+  if (extra.trim()) lines.push(extra.trim());
+  return lines.join('\n');
+}
@@ -0,0 +1,114 @@
+import type { ArtworkSet, GenerationSettings, CameraAngle, GenerationBackend, GeneratedImage, SceneAnalysis } from '../types';
+import type { VibeRef } from './promptEngine';
+
+// Mirrors the generation functions in geminiService, but runs them through the
+// authenticated /api routes so the Gemini key stays on the server.
+
+const TOKEN_KEY = 'site_token';
+const BACKEND_KEY = 'generation_backend';
+
+function authHeaders(): HeadersInit {
+  const token = localStorage.getItem(TOKEN_KEY);
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+async function post<T>(path: string, body: unknown): Promise<T> {
+  const res = await fetch(path, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `${path} failed: ${res.status}`);
+  return data as T;
+}
+
+type Generation = GeneratedImage['generation'];
+
+const zipGenerated = ({ images, generations }: { images: string[]; generations: Generation[] }): GeneratedImage[] =>
+  images.map((imageUrl, i) => ({ imageUrl, generation: generations[i] }));
+
+/** Server-only deployments (GENERATION_BACKEND=server at build time) always use the API routes */
+export const isServerOnlyDeployment = (): boolean => process.env.GENERATION_BACKEND === 'server';
+
+export const getGenerationBackend = (): GenerationBackend =>
+  isServerOnlyDeployment() || localStorage.getItem(BACKEND_KEY) === 'server' ? 'server' : 'browser';
+
+export const setGenerationBackend = (backend: GenerationBackend): void => {
+  localStorage.setItem(BACKEND_KEY, backend);
+};
+
+export const analyzeImageForPrompts = async (base64Image: string, vibe: VibeRef = 'Surprise Me'): Promise<string[]> => {
+  const { suggestions } = await post<{ suggestions: string[] }>('/api/analyze', { artwork: base64Image, vibe });
+  return suggestions;
+};
+
+export const analyzeScene = async (sceneBase64: string): Promise<SceneAnalysis> => {
+  const { analysis } = await post<{ analysis: SceneAnalysis }>('/api/analyze', { scene: sceneBase64 });
+  return analysis;
+};
+
+export const regenerateSinglePrompt = async (
+  base64Image: string,
+  vibe: VibeRef,
+  existingPrompts: string[] = []
+): Promise<string> => {
+  const { suggestion } = await post<{ suggestion: string }>('/api/analyze', { artwork: base64Image, vibe, single: true, existingPrompts });
+  return suggestion;
+};
+
+export const generateMockup = async (
+  base64Image: string,
+  settings: GenerationSettings,
+  options?: { macro?: boolean }
+): Promise<GeneratedImage[]> => {
+  return zipGenerated(await post('/api/generate', { kind: 'mockup', artwork: base64Image, settings, macro: options?.macro }));
+};
+
+export const generateContactSheet = async (
+  base64Image: string,
+  settings: GenerationSettings,
+  cameraAngles: CameraAngle[]
+): Promise<GeneratedImage> => {
+  const { image, generation } = await post<{ image: string; generation: Generation }>('/api/generate', { kind: 'contactSheet', artwork: base64Image, settings, cameraAngles });
+  return { imageUrl: image, generation };
+};
+
+export const upscaleMockupWithGemini = async (
+  mockupDataUrl: string,
+  prompt: string,
+  targetSize: '2K' | '4K',
+  aspectRatio: string
+): Promise<GeneratedImage> => {
+  const { image, generation } = await post<{ image: string; generation: Generation }>('/api/generate', { kind: 'highRes', image: mockupDataUrl, prompt, targetSize, aspectRatio });
+  return { imageUrl: image, generation };
+};
+
+export const generateComposite = async (
+  baseImageBase64: string,
+  artworkBase64: string,
+  instructions: string,
+  aspectRatio: string,
+  imageSize: string,
+  artworkAspectRatio?: number,
+  artworkSet?: ArtworkSet
+): Promise<GeneratedImage[]> => {
+  return zipGenerated(await post('/api/composite', {
+    baseImage: baseImageBase64, artwork: artworkBase64, instructions, aspectRatio, imageSize, artworkAspectRatio, artworkSet,
+  }));
+};
+
+export const refineComposite = async (
+  previousOutputBase64: string,
+  originalArtworkBase64: string,
+  refinementInstructions: string,
+  aspectRatio: string,
+  imageSize: string
+): Promise<GeneratedImage[]> => {
+  return zipGenerated(await post('/api/refine', {
+    previousOutput: previousOutputBase64, artwork: originalArtworkBase64, instructions: refinementInstructions, aspectRatio, imageSize,
+  }));
+};
@@ -1,13 +1,59 @@
-import { MockupResult, ArtworkLibraryItem, SourcePhotoLibraryItem } from '../types';
+import { MockupResult, ArtworkLibraryItem, SourcePhotoLibraryItem, Project, SceneTemplate, StylePreset, CustomVibe, PromptExperiment } from '../types';
+import { isBlobRef, isDataUrl, parseDataUrl, sha256Hex, toBlobRef, blobRefHash, blobUrl, mapResultImages, resultImages } from './blobRefs';
 
 const DB_NAME = 'mockup-magic-storage';
-const DB_VERSION = 3;
+// Account whose data lives in DB_NAME. The browser's original database holds what was made before
+// accounts existed and goes to the first account signed in here; every other account gets its own.
+const DB_OWNER_KEY = 'mockup_storage_owner';
+const DB_VERSION = 10;
 const STORE_NAME = 'mockup-results';
 const ARTWORK_STORE_NAME = 'artwork-library';
 const SOURCE_PHOTO_STORE_NAME = 'source-photo-library';
+const BLOB_STORE_NAME = 'blobs';
+const OUTBOX_STORE_NAME = 'sync-outbox';
+const PROJECT_STORE_NAME = 'projects';
+const SCENE_TEMPLATE_STORE_NAME = 'scene-templates';
+const STYLE_PRESET_STORE_NAME = 'style-presets';
+const CUSTOM_VIBE_STORE_NAME = 'custom-vibes';
+const EXPERIMENT_STORE_NAME = 'prompt-experiments';
+
+/** Image bytes keyed by SHA-256; results reference them as `sha256:<hash>` */
+interface BlobRecord {
+  hash: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+/** A local change not yet acknowledged by /api/mockups; one entry per result, latest change wins */
+export interface SyncOutboxEntry {
+  id: string;
+  op: 'upsert' | 'delete';
+  /** updatedAt of the upsert, or deletedAt of the delete */
+  at: number;
+  result?: MockupResult;
+}
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) throw new Error('Not a base64 data URL');
+  const binary = atob(parsed.base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: parsed.mimeType });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
 
 class StorageService {
   private db: IDBDatabase | null = null;
+  // Results stay as data URLs in memory and get re-saved often; remember what they hashed to
+  private refsByDataUrl = new Map<string, string>();
+  private objectUrls = new Map<string, string>();
 
   private requireDb(): IDBDatabase {
     if (!this.db) {
@@ -52,6 +98,18 @@ class StorageService {
     });
   }
 
+  private getItem<T>(storeName: string, key: string): Promise<T | undefined> {
+    const db = this.requireDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([storeName], 'readonly');
+      const store = transaction.objectStore(storeName);
+      const request = store.get(key);
+
+      request.onsuccess = () => resolve(request.result as T | undefined);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   private deleteItem(storeName: string, id: string): Promise<void> {
     const db = this.requireDb();
     return new Promise((resolve, reject) => {
@@ -76,12 +134,20 @@ class StorageService {
     });
   }
 
+  private databaseName(userId: string): string {
+    const owner = localStorage.getItem(DB_OWNER_KEY);
+    if (owner === null) localStorage.setItem(DB_OWNER_KEY, userId);
+    return owner === null || owner === userId ? DB_NAME : `${DB_NAME}:${userId}`;
+  }
+
   /**
-   * Initialize IndexedDB connection
+   * Initialize the IndexedDB connection to `userId`'s local data, closing any
+   * other account's
    */
-  async init(): Promise<void> {
+  async init(userId: string): Promise<void> {
+    this.close();
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = indexedDB.open(this.databaseName(userId), DB_VERSION);
 
       request.onerror = () => {
         console.error('Failed to open IndexedDB:', request.error);
@@ -96,6 +162,7 @@ class StorageService {
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
+        const upgrade = (event.target as IDBOpenDBRequest).transaction!;
 
         // Create object store if it doesn't exist
         if (!db.objectStoreNames.contains(STORE_NAME)) {
@@ -118,10 +185,77 @@ class StorageService {
           sourcePhotoStore.createIndex('createdAt', 'createdAt', { unique: false });
           console.log('Created object store:', SOURCE_PHOTO_STORE_NAME);
         }
+
+        // Create content-addressed blob store if it doesn't exist
+        if (!db.objectStoreNames.contains(BLOB_STORE_NAME)) {
+          db.createObjectStore(BLOB_STORE_NAME, { keyPath: 'hash' });
+          console.log('Created object store:', BLOB_STORE_NAME);
+        }
+
+        // Create sync outbox if it doesn't exist
+        if (!db.objectStoreNames.contains(OUTBOX_STORE_NAME)) {
+          db.createObjectStore(OUTBOX_STORE_NAME, { keyPath: 'id' });
+          console.log('Created object store:', OUTBOX_STORE_NAME);
+        }
+
+        // Create projects store if it doesn't exist
+        if (!db.objectStoreNames.contains(PROJECT_STORE_NAME)) {
+          const projectStore = db.createObjectStore(PROJECT_STORE_NAME, { keyPath: 'id' });
+          projectStore.createIndex('createdAt', 'createdAt', { unique: false });
+          console.log('Created object store:', PROJECT_STORE_NAME);
+        }
+
+        // Create scene templates store if it doesn't exist
+        if (!db.objectStoreNames.contains(SCENE_TEMPLATE_STORE_NAME)) {
+          const templateStore = db.createObjectStore(SCENE_TEMPLATE_STORE_NAME, { keyPath: 'id' });
+          templateStore.createIndex('createdAt', 'createdAt', { unique: false });
+          console.log('Created object store:', SCENE_TEMPLATE_STORE_NAME);
+        }
+
+        // Create style presets store if it doesn't exist
+        if (!db.objectStoreNames.contains(STYLE_PRESET_STORE_NAME)) {
+          const presetStore = db.createObjectStore(STYLE_PRESET_STORE_NAME, { keyPath: 'id' });
+          presetStore.createIndex('createdAt', 'createdAt', { unique: false });
+          console.log('Created object store:', STYLE_PRESET_STORE_NAME);
+        }
+
+        // Create custom vibes store if it doesn't exist
+        if (!db.objectStoreNames.contains(CUSTOM_VIBE_STORE_NAME)) {
+          const vibeStore = db.createObjectStore(CUSTOM_VIBE_STORE_NAME, { keyPath: 'id' });
+          vibeStore.createIndex('createdAt', 'createdAt', { unique: false });
+          console.log('Created object store:', CUSTOM_VIBE_STORE_NAME);
+        }
+
+        // Create prompt experiments store if it doesn't exist
+        if (!db.objectStoreNames.contains(EXPERIMENT_STORE_NAME)) {
+          const experimentStore = db.createObjectStore(EXPERIMENT_STORE_NAME, { keyPath: 'id' });
+          experimentStore.createIndex('createdAt', 'createdAt', { unique: false });
+          console.log('Created object store:', EXPERIMENT_STORE_NAME);
+        }
+
+        // Existing rows have no projectId and simply stay out of the index until assigned
+        for (const name of [STORE_NAME, ARTWORK_STORE_NAME, SOURCE_PHOTO_STORE_NAME]) {
+          const existing = upgrade.objectStore(name);
+          if (!existing.indexNames.contains('projectId')) {
+            existing.createIndex('projectId', 'projectId', { unique: false });
+          }
+        }
       };
     });
   }
 
+  /**
+   * Close the connection (on sign-out or before opening another account's data)
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+    // Hashes remembered for the previous database aren't necessarily stored in the next one
+    this.refsByDataUrl.clear();
+    for (const url of this.objectUrls.values()) URL.revokeObjectURL(url);
+    this.objectUrls.clear();
+  }
+
   /**
    * Save a single mockup result
    */
@@ -130,10 +264,12 @@ class StorageService {
       throw new Error('Database not initialized. Call init() first.');
     }
 
+    const stored = await this.externalizeImages(result);
+
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(result);
+      const request = store.put(stored);
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -150,6 +286,12 @@ class StorageService {
 
     if (results.length === 0) return;
 
+    // Blobs are written first: a transaction auto-commits across awaits
+    const stored: MockupResult[] = [];
+    for (const result of results) {
+      stored.push(await this.externalizeImages(result));
+    }
+
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
@@ -157,7 +299,7 @@ class StorageService {
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
 
-      for (const result of results) {
+      for (const result of stored) {
         store.put(result);
       }
     });
@@ -243,11 +385,17 @@ class StorageService {
     const results = await this.loadAllResults();
     const count = results.length;
 
-    // Rough estimate: sum of image data lengths
+    // Rough estimate: stored blobs plus any inline image data not yet migrated
     let totalBytes = 0;
+    const blobs = await this.loadAllBlobRecords();
+    for (const record of blobs) {
+      totalBytes += record.blob.size;
+    }
     for (const result of results) {
-      // Base64 image data is roughly 1.33x the actual size
-      totalBytes += result.imageUrl.length / 1.33;
+      for (const value of resultImages(result)) {
+        // Base64 image data is roughly 1.33x the actual size
+        if (isDataUrl(value)) totalBytes += value.length / 1.33;
+      }
     }
 
     return {
@@ -261,7 +409,9 @@ class StorageService {
    */
   async exportToJSON(): Promise<string> {
     const results = await this.loadAllResults();
-    return JSON.stringify(results, null, 2);
+    // Backups must stand alone, so blob references are inlined again
+    const portable = await Promise.all(results.map(r => this.inlineImages(r)));
+    return JSON.stringify(portable, null, 2);
   }
 
   /**
@@ -291,6 +441,175 @@ class StorageService {
     }
   }
 
+  // --- Blob Methods ---
+
+  private loadAllBlobRecords(): Promise<BlobRecord[]> {
+    const db = this.requireDb();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction([BLOB_STORE_NAME], 'readonly').objectStore(BLOB_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result as BlobRecord[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /** Store a data URL's bytes under their SHA-256 and return the `sha256:` reference */
+  async storeImage(dataUrl: string): Promise<string> {
+    const cached = this.refsByDataUrl.get(dataUrl);
+    if (cached) return cached;
+
+    const blob = dataUrlToBlob(dataUrl);
+    const hash = await sha256Hex(new Uint8Array(await blob.arrayBuffer()));
+    if (!(await this.getItem<BlobRecord>(BLOB_STORE_NAME, hash))) {
+      await this.putItem<BlobRecord>(BLOB_STORE_NAME, { hash, blob, createdAt: Date.now() });
+    }
+    const ref = toBlobRef(hash);
+    this.refsByDataUrl.set(dataUrl, ref);
+    return ref;
+  }
+
+  /** Local bytes for a reference, fetched from /api/blobs and cached on first use */
+  async loadBlob(ref: string): Promise<Blob | null> {
+    const hash = blobRefHash(ref);
+    const record = await this.getItem<BlobRecord>(BLOB_STORE_NAME, hash);
+    if (record) return record.blob;
+
+    try {
+      const res = await fetch(blobUrl(ref));
+      if (!res.ok) return null;
+      const blob = await res.blob();
+      await this.putItem<BlobRecord>(BLOB_STORE_NAME, { hash, blob, createdAt: Date.now() });
+      return blob;
+    } catch (err) {
+      console.warn('Blob fetch failed:', err);
+      return null;
+    }
+  }
+
+  /** Resolve an image field to a data URL (for Gemini, downloads and exports) */
+  async resolveImage(value: string): Promise<string> {
+    if (!isBlobRef(value)) return value;
+    const blob = await this.loadBlob(value);
+    if (!blob) throw new Error(`Image ${value} is not available offline or on the server`);
+    return blobToDataUrl(blob);
+  }
+
+  /** Resolve an image field to something an <img> can show; object URLs are reused per blob */
+  async resolveDisplayUrl(value: string): Promise<string> {
+    if (!isBlobRef(value)) return value;
+    const existing = this.objectUrls.get(value);
+    if (existing) return existing;
+    const blob = await this.loadBlob(value);
+    if (!blob) return blobUrl(value);
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.set(value, url);
+    return url;
+  }
+
+  private externalizeImages(result: MockupResult): Promise<MockupResult> {
+    return mapResultImages(result, async value => isDataUrl(value) ? this.storeImage(value) : value);
+  }
+
+  private inlineImages(result: MockupResult): Promise<MockupResult> {
+    return mapResultImages(result, async value => isBlobRef(value) ? this.resolveImage(value) : value);
+  }
+
+  /**
+   * Rewrites results saved before the blob store (inline data URLs) to use
+   * references. Safe to run on every start; already-migrated rows are skipped.
+   */
+  async migrateLegacyImages(): Promise<number> {
+    const results = await this.loadAllResults();
+    const legacy = results.filter(r => resultImages(r).some(isDataUrl));
+    if (legacy.length > 0) {
+      await this.saveResults(legacy);
+      console.log(`Migrated ${legacy.length} results to blob storage`);
+    }
+    return legacy.length;
+  }
+
+  // --- Sync Outbox Methods ---
+
+  async saveOutboxEntry(entry: SyncOutboxEntry): Promise<void> {
+    const stored = entry.result ? { ...entry, result: await this.externalizeImages(entry.result) } : entry;
+    return this.putItem(OUTBOX_STORE_NAME, stored);
+  }
+
+  loadOutbox(): Promise<SyncOutboxEntry[]> {
+    const db = this.requireDb();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction([OUTBOX_STORE_NAME], 'readonly').objectStore(OUTBOX_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result as SyncOutboxEntry[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteOutboxEntry(id: string): Promise<void> {
+    return this.deleteItem(OUTBOX_STORE_NAME, id);
+  }
+
+  // --- Project Methods ---
+
+  /** Save a project; deletions are saved too, as tombstones with `deletedAt` */
+  async saveProject(project: Project): Promise<void> {
+    return this.putItem(PROJECT_STORE_NAME, project);
+  }
+
+  /** Load all projects including tombstones, newest first */
+  async loadAllProjects(): Promise<Project[]> {
+    return this.loadAll<Project>(PROJECT_STORE_NAME);
+  }
+
+  // --- Scene Template Methods ---
+
+  /** Save a scene template with its photo in the blob store; deletions are saved as tombstones */
+  async saveSceneTemplate(template: SceneTemplate): Promise<void> {
+    const imageUrl = isDataUrl(template.imageUrl) ? await this.storeImage(template.imageUrl) : template.imageUrl;
+    return this.putItem(SCENE_TEMPLATE_STORE_NAME, { ...template, imageUrl });
+  }
+
+  /** Load all scene templates including tombstones, newest first */
+  async loadAllSceneTemplates(): Promise<SceneTemplate[]> {
+    return this.loadAll<SceneTemplate>(SCENE_TEMPLATE_STORE_NAME);
+  }
+
+  // --- Style Preset Methods ---
+
+  /** Save a style preset with its style reference in the blob store; deletions are saved as tombstones */
+  async saveStylePreset(preset: StylePreset): Promise<void> {
+    const reference = preset.styleReferenceImage;
+    const styleReferenceImage = reference && isDataUrl(reference) ? await this.storeImage(reference) : reference;
+    return this.putItem(STYLE_PRESET_STORE_NAME, { ...preset, styleReferenceImage });
+  }
+
+  /** Load all style presets including tombstones, newest first */
+  async loadAllStylePresets(): Promise<StylePreset[]> {
+    return this.loadAll<StylePreset>(STYLE_PRESET_STORE_NAME);
+  }
+
+  // --- Custom Vibe Methods ---
+
+  /** Save a custom vibe; deletions are saved as tombstones */
+  async saveCustomVibe(vibe: CustomVibe): Promise<void> {
+    return this.putItem(CUSTOM_VIBE_STORE_NAME, vibe);
+  }
+
+  /** Load all custom vibes including tombstones, newest first */
+  async loadAllCustomVibes(): Promise<CustomVibe[]> {
+    return this.loadAll<CustomVibe>(CUSTOM_VIBE_STORE_NAME);
+  }
+
+  // --- Prompt Experiment Methods ---
+
+  /** Save an A/B template experiment, before and after the user picks */
+  async savePromptExperiment(experiment: PromptExperiment): Promise<void> {
+    return this.putItem(EXPERIMENT_STORE_NAME, experiment);
+  }
+
+  /** Load all template experiments, newest first */
+  async loadAllPromptExperiments(): Promise<PromptExperiment[]> {
+    return this.loadAll<PromptExperiment>(EXPERIMENT_STORE_NAME);
+  }
+
   // --- Artwork Library Methods ---
 
   /** Save a single artwork to the library */
@@ -0,0 +1,20 @@
+import type { StylePreset } from '../types';
+import { storageService } from './storageService';
+import { createSyncedCollection } from './syncedCollection';
+
+/** Presets that haven't been deleted, by name */
+export const activeStylePresets = (presets: StylePreset[]): StylePreset[] =>
+  presets.filter(p => !p.deletedAt).sort((a, b) => a.name.localeCompare(b.name));
+
+export const stylePresetService = createSyncedCollection<StylePreset>({
+  label: 'style preset',
+  endpoint: '/api/style-presets',
+  load: () => storageService.loadAllStylePresets(),
+  store: preset => storageService.saveStylePreset(preset),
+  active: activeStylePresets,
+  // The server may not have this device's blobs yet, so the style reference goes inline
+  toUpload: async preset => ({
+    ...preset,
+    styleReferenceImage: preset.styleReferenceImage && await storageService.resolveImage(preset.styleReferenceImage),
+  }),
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { GenerationSettings, StylePreset } from '../types';
+import { applyStylePreset, canEditShared, presetSettings } from './stylePresets';
+
+const settings: GenerationSettings = {
+  prompt: 'A sunlit loft',
+  negativePrompt: 'people',
+  count: 1,
+  aspectRatio: '3:4',
+  imageSize: '1K',
+  frameStyle: 'Auto',
+  lighting: 'Auto',
+  wallTexture: 'Auto',
+  printSize: 'A3',
+  generationMode: 'batch',
+  artworkAspectRatio: 1.5,
+  styleReferenceImage: 'data:image/png;base64,AAAA',
+};
+
+const preset: StylePreset = {
+  id: 'p1',
+  name: 'Client A house style',
+  frames: ['Natural Oak', 'Modern White'],
+  lighting: ['Soft Morning'],
+  textures: ['Smooth Plaster'],
+  analysisVibe: 'Modern & Minimalist',
+  settings: { ...presetSettings(settings), aspectRatio: '4:3', printSize: 'A2' },
+  styleReferenceImage: 'sha256:ref',
+  ownerId: 'u1',
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+describe('presetSettings', () => {
+  it('leaves out the prompt, per-prompt picks and artwork', () => {
+    const saved = presetSettings(settings);
+    expect(saved).toMatchObject({ negativePrompt: 'people', printSize: 'A3' });
+    for (const key of ['prompt', 'frameStyle', 'artworkAspectRatio', 'styleReferenceImage']) expect(saved).not.toHaveProperty(key);
+  });
+});
+
+describe('applyStylePreset', () => {
+  it('takes the first of each pick and keeps the prompt', () => {
+    expect(applyStylePreset(settings, preset)).toMatchObject({
+      prompt: 'A sunlit loft', frameStyle: 'Natural Oak', lighting: 'Soft Morning', wallTexture: 'Smooth Plaster',
+      aspectRatio: '4:3', printSize: 'A2', analysisVibe: 'Modern & Minimalist', styleReferenceImage: 'sha256:ref',
+    });
+  });
+});
+
+describe('canEditShared', () => {
+  it('lets the creator and admins edit', () => {
+    expect(canEditShared(preset, { id: 'u1', role: 'member' })).toBe(true);
+    expect(canEditShared(preset, { id: 'u2', role: 'admin' })).toBe(true);
+    expect(canEditShared(preset, { id: 'u2', role: 'member' })).toBe(false);
+    expect(canEditShared({ ownerId: undefined }, { id: 'u2', role: 'member' })).toBe(true);
+  });
+});
@@ -0,0 +1,30 @@
+import type { CustomVibe, GenerationSettings, PresetSettings, StylePreset } from '../types';
+
+/** The part of `settings` a preset saves; the scene prompt, per-prompt picks and artwork stay out */
+export function presetSettings(settings: GenerationSettings): PresetSettings {
+  const { prompt, frameStyle, lighting, wallTexture, analysisVibe, customVibe, artworkAspectRatio, artworkPreprocessing, styleReferenceImage, ...rest } = settings;
+  return rest;
+}
+
+/**
+ * Settings for one generation in `preset`'s style, on top of `settings`. The
+ * first frame, lighting and texture stand in for the round-robin the UI does
+ * across prompts. `customVibe` is the preset's custom vibe, looked up by the
+ * caller; without it the preset's built-in vibe applies.
+ */
+export function applyStylePreset(settings: GenerationSettings, preset: StylePreset, customVibe?: CustomVibe): GenerationSettings {
+  return {
+    ...settings,
+    ...preset.settings,
+    frameStyle: preset.frames[0] ?? settings.frameStyle,
+    lighting: preset.lighting[0] ?? settings.lighting,
+    wallTexture: preset.textures[0] ?? settings.wallTexture,
+    analysisVibe: preset.analysisVibe,
+    customVibe,
+    styleReferenceImage: preset.styleReferenceImage ?? settings.styleReferenceImage,
+  };
+}
+
+/** Whether `user` may change or delete a team-shared preset or vibe: its creator, any admin, or anyone before the server has assigned an owner */
+export const canEditShared = (item: Pick<StylePreset, 'ownerId'>, user: { id: string; role: string } | null): boolean =>
+  !item.ownerId || !user || item.ownerId === user.id || user.role === 'admin';
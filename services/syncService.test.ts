@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { MockupResult } from '../types';
+import type { SyncOutboxEntry } from './storageService';
+
+const local = vi.hoisted(() => ({ results: [] as MockupResult[], outbox: [] as SyncOutboxEntry[] }));
+
+vi.mock('./storageService', () => ({
+  storageService: {
+    loadAllResults: vi.fn(async () => local.results),
+    loadOutbox: vi.fn(async () => local.outbox),
+    saveOutboxEntry: vi.fn(async () => {}),
+    deleteOutboxEntry: vi.fn(async () => {}),
+    saveResult: vi.fn(async () => {}),
+    deleteResult: vi.fn(async () => {}),
+  },
+}));
+
+vi.mock('./cloudStorageService', () => ({
+  cloudStorageService: {
+    saveResult: vi.fn(async () => {}),
+    deleteResult: vi.fn(async () => {}),
+    fetchChanges: vi.fn(async () => ({ changes: [], nextSince: 'x1:', hasMore: false })),
+  },
+}));
+
+const result = (id: string, at: number, extra: Partial<MockupResult> = {}): MockupResult =>
+  ({ id, imageUrl: `sha256:${id}`, prompt: id, createdAt: at, updatedAt: at, ...extra });
+
+describe('sync service', () => {
+  let syncService: typeof import('./syncService').syncService;
+  let cloud: typeof import('./cloudStorageService').cloudStorageService;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => store.set(k, v),
+    });
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.stubGlobal('window', { addEventListener: vi.fn(), removeEventListener: vi.fn() });
+    local.results = [];
+    local.outbox = [];
+    syncService = (await import('./syncService')).syncService;
+    cloud = (await import('./cloudStorageService')).cloudStorageService;
+  });
+
+  it('pushes results created before sync existed on the first run', async () => {
+    local.results = [result('a', 10)];
+    await syncService.start('u1', () => {});
+    expect(cloud.saveResult).toHaveBeenCalledWith(expect.objectContaining({ id: 'a', updatedAt: 10 }));
+  });
+
+  it('replays offline deletes with their original timestamp', async () => {
+    local.outbox = [{ id: 'gone', op: 'delete', at: 42 }];
+    localStorage.setItem('mockup_sync_cursor_v2:u1', 'x5:');
+    await syncService.start('u1', () => {});
+    expect(cloud.deleteResult).toHaveBeenCalledWith('gone', 42);
+  });
+
+  it('keeps a rejected entry queued and still pushes the ones after it', async () => {
+    local.outbox = [
+      { id: 'too-big', op: 'upsert', at: 1, result: result('too-big', 1) },
+      { id: 'fine', op: 'upsert', at: 2, result: result('fine', 2) },
+    ];
+    localStorage.setItem('mockup_sync_cursor_v2:u1', 'x5:');
+    vi.mocked(cloud.saveResult).mockImplementation(async r => { if (r.id === 'too-big') throw new Error('413'); });
+    const storage = (await import('./storageService')).storageService;
+    await syncService.start('u1', () => {});
+    expect(cloud.saveResult).toHaveBeenCalledWith(expect.objectContaining({ id: 'fine' }));
+    expect(storage.deleteOutboxEntry).toHaveBeenCalledWith('fine');
+    expect(storage.deleteOutboxEntry).not.toHaveBeenCalledWith('too-big');
+  });
+
+  it('applies remote tombstones and skips changes older than a pending local edit', async () => {
+    localStorage.setItem('mockup_sync_cursor_v2:u1', 'x5:');
+    vi.mocked(cloud.saveResult).mockRejectedValue(new Error('offline'));
+    const onChanges = vi.fn();
+    await syncService.start('u1', onChanges);
+    await syncService.recordUpsert([result('mine', 100)]);
+
+    vi.mocked(cloud.fetchChanges).mockResolvedValueOnce({
+      changes: [result('mine', 50), result('theirs', 60, { deletedAt: 60 })],
+      nextSince: 'x60:theirs',
+      hasMore: false,
+    });
+    await syncService.sync();
+    expect(onChanges).toHaveBeenCalledWith({ upserts: [], deletedIds: ['theirs'] });
+  });
+
+  it('only touches known results during the first catch-up', async () => {
+    local.results = [result('known', 1)];
+    vi.mocked(cloud.fetchChanges).mockResolvedValueOnce({
+      changes: [result('known', 9, { deletedAt: 9 }), result('older', 9, { deletedAt: 9 })],
+      nextSince: 'x9:older',
+      hasMore: false,
+    });
+    const onChanges = vi.fn();
+    await syncService.start('u1', onChanges);
+    expect(onChanges).toHaveBeenCalledWith({ upserts: [], deletedIds: ['known'] });
+    expect(localStorage.getItem('mockup_sync_cursor_v2:u1')).toBe('x9:older');
+  });
+
+  it('keeps a cursor per account and stops pushing the previous account\'s outbox', async () => {
+    localStorage.setItem('mockup_sync_cursor_v2:u1', 'x5:');
+    vi.mocked(cloud.saveResult).mockRejectedValue(new Error('offline'));
+    await syncService.start('u1', () => {});
+    await syncService.recordUpsert([result('first-user', 100)]);
+
+    syncService.stop();
+    vi.mocked(cloud.saveResult).mockReset();
+    await syncService.start('u2', () => {});
+    expect(cloud.saveResult).not.toHaveBeenCalled();
+    expect(cloud.fetchChanges).toHaveBeenLastCalledWith('0');
+    expect(localStorage.getItem('mockup_sync_cursor_v2:u2')).toBe('x1:');
+    expect(localStorage.getItem('mockup_sync_cursor_v2:u1')).toBe('x1:');
+  });
+});
@@ -0,0 +1,188 @@
+import type { MockupResult } from '../types';
+import { storageService, type SyncOutboxEntry } from './storageService';
+import { cloudStorageService } from './cloudStorageService';
+
+// v2 cursors follow the server's transaction order; a v1 (time-based) cursor is left behind, so
+// upgraded browsers start over with a first catch-up that only touches results they already have.
+// Each account on the browser keeps its own cursor.
+const CURSOR_KEY = 'mockup_sync_cursor_v2';
+const PULL_INTERVAL_MS = 60_000;
+
+export interface RemoteChanges {
+  upserts: MockupResult[];
+  deletedIds: string[];
+}
+
+type RemoteChangeHandler = (changes: RemoteChanges) => void;
+
+// In-memory mirror of the IndexedDB outbox, consulted when remote changes arrive
+const outbox = new Map<string, SyncOutboxEntry>();
+let onRemoteChanges: RemoteChangeHandler = () => {};
+let running: Promise<void> | null = null;
+let started = false;
+// Cursor key of the signed-in account; null while stopped
+let cursorKey: string | null = null;
+let interval: ReturnType<typeof setInterval> | undefined;
+
+const lastChangedAt = (r: MockupResult): number => r.updatedAt ?? r.createdAt;
+
+async function enqueue(entries: SyncOutboxEntry[]): Promise<void> {
+  for (const entry of entries) {
+    const existing = outbox.get(entry.id);
+    if (existing && existing.at > entry.at) continue;
+    outbox.set(entry.id, entry);
+    try {
+      await storageService.saveOutboxEntry(entry);
+    } catch (e) {
+      // Still queued in memory; only lost if the tab closes before the next sync
+      console.warn('Could not persist sync change:', e);
+    }
+  }
+  sync();
+}
+
+/** Queue new or changed results for upload; they stay queued until the server accepts them */
+async function recordUpsert(results: MockupResult[]): Promise<void> {
+  await enqueue(results.map(r => {
+    const result = { ...r, updatedAt: r.updatedAt ?? Date.now() };
+    return { id: r.id, op: 'upsert' as const, at: result.updatedAt, result };
+  }));
+}
+
+/** Queue deletions; the server keeps a tombstone so other devices drop the result too */
+async function recordDelete(ids: string[]): Promise<void> {
+  const at = Date.now();
+  await enqueue(ids.map(id => ({ id, op: 'delete' as const, at })));
+}
+
+/** Uploads the outbox oldest first; an entry the server rejects stays queued without holding up the rest */
+async function push(key: string): Promise<void> {
+  const entries = [...outbox.values()].sort((a, b) => a.at - b.at);
+  for (const entry of entries) {
+    if (cursorKey !== key) return;
+    try {
+      if (entry.op === 'upsert' && entry.result) {
+        await cloudStorageService.saveResult(entry.result);
+      } else {
+        await cloudStorageService.deleteResult(entry.id, entry.at);
+      }
+    } catch (e) {
+      console.warn(`Sync push of ${entry.id} failed, will retry:`, e);
+      continue;
+    }
+    // A newer local change may have replaced this entry while it was in flight
+    if (outbox.get(entry.id) === entry) {
+      outbox.delete(entry.id);
+      await storageService.deleteOutboxEntry(entry.id);
+    }
+  }
+}
+
+/**
+ * Applies remote changes that are newer than anything still queued locally.
+ * During the first catch-up only results this device already has are touched;
+ * older results arrive through the paginated gallery instead.
+ */
+async function apply(changes: MockupResult[], knownOnly: Set<string> | null): Promise<void> {
+  const upserts: MockupResult[] = [];
+  const deletedIds: string[] = [];
+  for (const change of changes) {
+    const local = outbox.get(change.id);
+    if (local && local.at >= lastChangedAt(change)) continue;
+    if (knownOnly && !knownOnly.has(change.id)) continue;
+    if (change.deletedAt) {
+      deletedIds.push(change.id);
+      await storageService.deleteResult(change.id);
+    } else {
+      upserts.push(change);
+      await storageService.saveResult(change);
+    }
+  }
+  if (upserts.length > 0 || deletedIds.length > 0) onRemoteChanges({ upserts, deletedIds });
+}
+
+async function pull(key: string): Promise<void> {
+  let since = localStorage.getItem(key) ?? '0';
+  const knownOnly = since === '0' ? new Set((await storageService.loadAllResults()).map(r => r.id)) : null;
+  for (;;) {
+    const page = await cloudStorageService.fetchChanges(since);
+    // Signed out (or switched account) while the page was in flight
+    if (cursorKey !== key) return;
+    await apply(page.changes, knownOnly);
+    since = page.nextSince;
+    localStorage.setItem(key, since);
+    if (!page.hasMore) break;
+  }
+}
+
+/**
+ * Push the outbox, then pull remote changes. A failed push still pulls:
+ * whatever stays queued outranks older remote versions. Concurrent calls share one run.
+ */
+function sync(): Promise<void> {
+  const key = cursorKey;
+  if (!started || !key || !navigator.onLine) return Promise.resolve();
+  if (!running) {
+    const run: Promise<void> = push(key)
+      .catch(e => console.warn('Sync push failed, will retry:', e))
+      .then(() => pull(key))
+      .catch(e => console.warn('Sync pull failed, will retry:', e))
+      .finally(() => { if (running === run) running = null; });
+    running = run;
+  }
+  return running;
+}
+
+const onOnline = () => { sync(); };
+
+/**
+ * Loads `userId`'s outbox and starts syncing: now, whenever the browser comes
+ * back online, and on an interval. On an account's first run in this browser
+ * every local result is queued, so results created before sync existed reach
+ * the server. Storage must already be open on that account's local data.
+ */
+async function start(userId: string, handler: RemoteChangeHandler): Promise<void> {
+  const key = `${CURSOR_KEY}:${userId}`;
+  if (started && cursorKey === key) {
+    onRemoteChanges = handler;
+    return;
+  }
+  stop();
+  cursorKey = key;
+  onRemoteChanges = handler;
+
+  for (const entry of await storageService.loadOutbox()) outbox.set(entry.id, entry);
+  if (localStorage.getItem(key) === null) {
+    const local = await storageService.loadAllResults();
+    for (const r of local) {
+      if (outbox.has(r.id)) continue;
+      const entry: SyncOutboxEntry = { id: r.id, op: 'upsert', at: lastChangedAt(r), result: r };
+      outbox.set(r.id, entry);
+      await storageService.saveOutboxEntry(entry);
+    }
+  }
+  if (cursorKey !== key) return;
+
+  started = true;
+  window.addEventListener('online', onOnline);
+  interval = setInterval(() => { sync(); }, PULL_INTERVAL_MS);
+  await sync();
+}
+
+/** Stops syncing and forgets the queued changes in memory (they stay in the account's outbox) */
+function stop(): void {
+  started = false;
+  cursorKey = null;
+  onRemoteChanges = () => {};
+  outbox.clear();
+  running = null;
+  clearInterval(interval);
+  window.removeEventListener('online', onOnline);
+}
+
+/** Drops results the user deleted locally but the server hasn't heard about yet */
+function withoutPendingDeletes(results: MockupResult[]): MockupResult[] {
+  return results.filter(r => outbox.get(r.id)?.op !== 'delete');
+}
+
+export const syncService = { start, stop, sync, recordUpsert, recordDelete, withoutPendingDeletes };
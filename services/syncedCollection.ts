@@ -0,0 +1,107 @@
+import type { SyncedRow } from './syncedRows';
+import { mergeSyncedRows } from './syncedRows';
+
+const TOKEN_KEY = 'site_token';
+
+function authHeaders(): HeadersInit {
+  const token = localStorage.getItem(TOKEN_KEY);
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+const isSignedIn = (): boolean => !!localStorage.getItem(TOKEN_KEY);
+
+export interface SyncedCollectionConfig<T extends SyncedRow> {
+  /** Singular name for log messages, e.g. "project" */
+  label: string;
+  /** API route with GET (every row, tombstones included), POST and DELETE ?id=&deletedAt= */
+  endpoint: string;
+  load: () => Promise<T[]>;
+  store: (row: T) => Promise<void>;
+  /** Rows that haven't been deleted, in display order */
+  active: (rows: T[]) => T[];
+  /** Upload body, e.g. with blob references inlined; the row itself by default */
+  toUpload?: (row: T) => Promise<unknown>;
+}
+
+export interface SyncedCollection<T extends SyncedRow> {
+  /** Local rows, reconciled with the server when signed in and reachable */
+  sync: () => Promise<T[]>;
+  save: (row: T) => Promise<T>;
+  remove: (row: T) => Promise<void>;
+}
+
+/** Local-first storage for rows synced with one API route (see syncedRows) */
+export function createSyncedCollection<T extends SyncedRow>(config: SyncedCollectionConfig<T>): SyncedCollection<T> {
+  const { label, endpoint } = config;
+
+  /** False when the server refuses the change for good (someone else's row) */
+  async function push(row: T): Promise<boolean> {
+    const res = row.deletedAt
+      ? await fetch(`${endpoint}?id=${encodeURIComponent(row.id)}&deletedAt=${row.deletedAt}`, {
+          method: 'DELETE',
+          headers: authHeaders(),
+        })
+      : await fetch(endpoint, {
+          method: 'POST',
+          headers: authHeaders(),
+          body: JSON.stringify(config.toUpload ? await config.toUpload(row) : row),
+        });
+    if (res.status === 403) return false;
+    if (!res.ok) throw new Error(`${label} sync failed: ${res.status}`);
+    return true;
+  }
+
+  /** Best effort: a change that fails to upload is retried by the next `sync` */
+  async function pushQuietly(row: T): Promise<boolean> {
+    if (!isSignedIn()) return true;
+    try {
+      return await push(row);
+    } catch (e) {
+      console.warn(`Could not upload ${label}, will retry on next sync:`, e);
+      return true;
+    }
+  }
+
+  async function sync(): Promise<T[]> {
+    const local = await config.load();
+    if (!isSignedIn()) return config.active(local);
+
+    let remote: T[];
+    try {
+      const res = await fetch(endpoint, { headers: authHeaders() });
+      if (!res.ok) throw new Error(`fetching ${label}s failed: ${res.status}`);
+      remote = await res.json();
+    } catch (e) {
+      console.warn(`${label} sync failed, using local copies:`, e);
+      return config.active(local);
+    }
+
+    const { merged, toPush } = mergeSyncedRows(local, remote);
+    for (const row of merged) await config.store(row);
+    const refused = new Set<string>();
+    for (const row of toPush) if (!(await pushQuietly(row))) refused.add(row.id);
+    // Edits the server won't take give way to its copy instead of being retried forever
+    const kept = merged.map(row => refused.has(row.id) ? remote.find(r => r.id === row.id) ?? row : row);
+    for (const row of kept) if (refused.has(row.id)) await config.store(row);
+    return config.active(kept);
+  }
+
+  async function save(row: T): Promise<T> {
+    const next = { ...row, updatedAt: Date.now() };
+    await config.store(next);
+    pushQuietly(next);
+    return next;
+  }
+
+  async function remove(row: T): Promise<void> {
+    const now = Date.now();
+    const tombstone: T = { ...row, updatedAt: now, deletedAt: now };
+    await config.store(tombstone);
+    pushQuietly(tombstone);
+  }
+
+  return { sync, save, remove };
+}
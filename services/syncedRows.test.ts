@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { findByIdOrName, mergeSyncedRows, type SyncedRow } from './syncedRows';
+
+const row = (id: string, updatedAt: number, extra: Partial<SyncedRow> = {}): SyncedRow =>
+  ({ id, name: id, createdAt: 1, updatedAt, ...extra });
+
+describe('mergeSyncedRows', () => {
+  it('keeps the newer copy of each row', () => {
+    const { merged, toPush } = mergeSyncedRows(
+      [row('a', 5, { name: 'local a' }), row('b', 1, { name: 'local b' })],
+      [row('a', 3, { name: 'remote a' }), row('b', 4, { name: 'remote b' })],
+    );
+    expect(merged.map(r => r.name).sort()).toEqual(['local a', 'remote b']);
+    expect(toPush.map(r => r.id)).toEqual(['a']);
+  });
+
+  it('uploads rows the server has never seen, and keeps remote-only ones', () => {
+    const { merged, toPush } = mergeSyncedRows([row('local', 1)], [row('remote', 1)]);
+    expect(merged.map(r => r.id).sort()).toEqual(['local', 'remote']);
+    expect(toPush.map(r => r.id)).toEqual(['local']);
+  });
+
+  it('lets a newer remote tombstone win over a stale local copy', () => {
+    const { merged, toPush } = mergeSyncedRows([row('a', 1)], [row('a', 2, { deletedAt: 2 })]);
+    expect(toPush).toEqual([]);
+    expect(merged.filter(r => !r.deletedAt)).toEqual([]);
+  });
+
+  it('keeps the owner the server knows on a newer local copy', () => {
+    const { merged } = mergeSyncedRows([row('a', 5)], [row('a', 3, { ownerId: 'u2' })]);
+    expect(merged[0]).toMatchObject({ updatedAt: 5, ownerId: 'u2' });
+  });
+});
+
+describe('findByIdOrName', () => {
+  it('matches by id, then by name ignoring case', () => {
+    const rows = [row('t1', 1, { name: 'Loft' }), row('t2', 1, { name: 'Gallery' })];
+    expect(findByIdOrName(rows, 't2')?.name).toBe('Gallery');
+    expect(findByIdOrName(rows, ' loft ')?.id).toBe('t1');
+    expect(findByIdOrName(rows, 'Kitchen')).toBeUndefined();
+  });
+});
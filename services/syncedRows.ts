@@ -0,0 +1,38 @@
+/**
+ * Rows kept on the device and on the server, like projects, scene templates,
+ * style presets and custom vibes: the newer `updatedAt` wins and deletions
+ * are tombstones. Pure, so the browser and the API share it.
+ */
+export interface SyncedRow {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number;
+  /** Creator, set by the server */
+  ownerId?: string;
+}
+
+/**
+ * Combines this device's rows with the server's, keeping the newer copy of
+ * each. A local copy keeps the owner the server knows. `toPush` lists the
+ * local copies the server hasn't seen yet.
+ */
+export function mergeSyncedRows<T extends SyncedRow>(local: T[], remote: T[]): { merged: T[]; toPush: T[] } {
+  const byId = new Map(remote.map(r => [r.id, r]));
+  const toPush: T[] = [];
+  for (const row of local) {
+    const other = byId.get(row.id);
+    if (!other || other.updatedAt < row.updatedAt) {
+      byId.set(row.id, other?.ownerId === undefined ? row : { ...row, ownerId: other.ownerId });
+      toPush.push(row);
+    }
+  }
+  return { merged: [...byId.values()], toPush };
+}
+
+/** Looks a row up by id, or by name ignoring case so agents can say "scene Loft" or "preset House style" */
+export function findByIdOrName<T extends Pick<SyncedRow, 'id' | 'name'>>(rows: T[], ref: string): T | undefined {
+  const name = ref.trim().toLowerCase();
+  return rows.find(r => r.id === ref) ?? rows.find(r => r.name.trim().toLowerCase() === name);
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { GenerationSettings, MockupResult } from '../types';
+import { canRegenerate, groupVariants, regenerationSettings, variantRootId } from './variants';
+import { frameSpecFromStyle } from './frameSpec';
+
+const settings: GenerationSettings = {
+  prompt: 'A sunlit loft',
+  negativePrompt: '',
+  count: 4,
+  aspectRatio: '3:4',
+  imageSize: '2K',
+  frameStyle: 'Natural Oak',
+  lighting: 'Golden Hour',
+  wallTexture: 'Exposed Brick',
+  printSize: 'A2',
+  generationMode: 'batch',
+  analysisVibe: 'Industrial & Raw',
+};
+
+const result = (id: string, extra: Partial<MockupResult> = {}): MockupResult => ({
+  id,
+  imageUrl: `sha256:${id}`,
+  prompt: id,
+  createdAt: 1,
+  generation: { settings, resolvedPrompt: 'p', model: 'm', sourceArtwork: 'sha256:art', generatedAt: 1, retryCount: 0 },
+  ...extra,
+});
+
+describe('regenerationSettings', () => {
+  it('re-rolls one image with the recorded settings', () => {
+    expect(regenerationSettings(result('a'))).toEqual({ ...settings, count: 1 });
+  });
+
+  it('applies overrides and keeps everything else', () => {
+    const next = regenerationSettings(result('a'), { lighting: 'Moody Dim', aspectRatio: '16:9' });
+    expect(next).toMatchObject({ lighting: 'Moody Dim', aspectRatio: '16:9', frameStyle: 'Natural Oak', analysisVibe: 'Industrial & Raw' });
+  });
+
+  it('drops a custom frame build when the frame style changes', () => {
+    const frameSpec = frameSpecFromStyle('Natural Oak');
+    const custom = result('a', { generation: { ...result('a').generation!, settings: { ...settings, frameSpec } } });
+    expect(regenerationSettings(custom, { lighting: 'Moody Dim' })?.frameSpec).toEqual(frameSpec);
+    expect(regenerationSettings(custom, { frameStyle: 'Classic Gold' })?.frameSpec).toBeUndefined();
+  });
+
+  it('returns null for results without recorded settings', () => {
+    expect(regenerationSettings(result('a', { generation: undefined }))).toBeNull();
+    expect(canRegenerate(result('a', { generation: undefined }))).toBe(false);
+    expect(canRegenerate(result('a', { isContactSheet: true }))).toBe(false);
+    expect(canRegenerate(result('a'))).toBe(true);
+  });
+});
+
+describe('groupVariants', () => {
+  it('puts variants right after their original', () => {
+    const grouped = groupVariants([
+      result('v2', { derivedFrom: 'b' }),
+      result('v1', { derivedFrom: 'a' }),
+      result('a'),
+      result('b'),
+    ]);
+    expect(grouped.map(r => r.id)).toEqual(['a', 'v1', 'b', 'v2']);
+  });
+
+  it('leaves variants of missing originals in place', () => {
+    expect(groupVariants([result('a'), result('v', { derivedFrom: 'gone' })]).map(r => r.id)).toEqual(['a', 'v']);
+  });
+
+  it('links variants of variants to the original', () => {
+    expect(variantRootId(result('v', { derivedFrom: 'a' }))).toBe('a');
+    expect(variantRootId(result('a'))).toBe('a');
+  });
+});
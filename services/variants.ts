@@ -0,0 +1,40 @@
+import type { GenerationSettings, MockupResult } from '../types';
+
+/** The settings the "vary this" editor lets you change; everything else is kept from the original */
+export type VariationOverrides = Partial<Pick<GenerationSettings, 'frameStyle' | 'lighting' | 'wallTexture' | 'printSize' | 'aspectRatio'>>;
+
+/** Whether `result` recorded enough provenance to be generated again */
+export const canRegenerate = (result: MockupResult): boolean =>
+  !result.isContactSheet && !!result.generation?.settings && !!result.generation.sourceArtwork;
+
+/**
+ * Settings for one more image like `result`, with `overrides` applied.
+ * Null when the result has no recorded settings.
+ */
+export function regenerationSettings(result: MockupResult, overrides: VariationOverrides = {}): GenerationSettings | null {
+  const settings = result.generation?.settings;
+  if (!settings) return null;
+  const next: GenerationSettings = { ...settings, ...overrides, generationMode: 'batch', count: 1 };
+  // A different frame style replaces a custom frame build
+  if (overrides.frameStyle && overrides.frameStyle !== settings.frameStyle) delete next.frameSpec;
+  return next;
+}
+
+/** The `derivedFrom` for a new variant of `result`: variants of variants join the original's group */
+export const variantRootId = (result: MockupResult): string => result.derivedFrom ?? result.id;
+
+/**
+ * Orders results so each original is followed by its variants, keeping the
+ * originals in their existing order. Variants whose original isn't in the
+ * list stay where they are.
+ */
+export function groupVariants(results: MockupResult[]): MockupResult[] {
+  const ids = new Set(results.map(r => r.id));
+  const variants = new Map<string, MockupResult[]>();
+  for (const result of results) {
+    if (!result.derivedFrom || !ids.has(result.derivedFrom)) continue;
+    variants.set(result.derivedFrom, [...(variants.get(result.derivedFrom) ?? []), result]);
+  }
+  return results.flatMap(result =>
+    result.derivedFrom && ids.has(result.derivedFrom) ? [] : [result, ...(variants.get(result.id) ?? [])]);
+}
@@ -1,5 +1,8 @@
 export type GenerationMode = "batch" | "contactSheet";
 
+/** Where Gemini calls run: directly from the browser, or through the authenticated /api routes */
+export type GenerationBackend = "browser" | "server";
+
 export type ContactSheetGrid = "2x3" | "3x3";
 
 export type CameraAngle =
@@ -33,6 +36,141 @@ export interface MockupResult {
   refinedFrom?: string;
   compositeBaseUrl?: string;
   compositeArtworkUrl?: string;
+  /** Server-generated preview (blob reference); absent on results that were never synced */
+  thumbnailUrl?: string;
+  /** Last change, for last-write-wins sync; results without one count as changed at createdAt */
+  updatedAt?: number;
+  /** Set on tombstones: the result was deleted on some device and should disappear everywhere */
+  deletedAt?: number;
+  /** Project the result belongs to; unassigned results only show under "All projects" */
+  projectId?: string;
+  /** How the image was made; absent on results from before provenance was recorded */
+  generation?: GenerationRecord;
+  /** Original this result was regenerated or varied from; variants of variants point at the same original */
+  derivedFrom?: string;
+  /** Result this one is a higher-resolution copy of */
+  upscaledFrom?: string;
+}
+
+/** Everything needed to reproduce a result */
+export interface GenerationRecord {
+  /** Settings the image was generated with (mockups and contact sheets; composites carry their instructions in the prompt) */
+  settings?: GenerationSettings;
+  /** The exact prompt text sent to the model */
+  resolvedPrompt: string;
+  model: string;
+  /** Artwork the image was made from; a blob reference once stored */
+  sourceArtwork?: string;
+  /** Set hung in a composite; mockups and contact sheets carry theirs in `settings` */
+  artworkSet?: ArtworkSet;
+  /** When the model returned the image */
+  generatedAt: number;
+  /** Retries after transient API errors before the call succeeded */
+  retryCount: number;
+  /** Set on perspective composites, which are drawn locally instead of generated */
+  placement?: PerspectivePlacement;
+  /** How faithfully the artwork came through; set when the settings asked for a quality check */
+  fidelity?: FidelityReport;
+}
+
+/** Quality check of a mockup against its source artwork */
+export interface FidelityReport {
+  /** 0-1, higher is more faithful */
+  score: number;
+  /** Whether `score` reached the check's `minScore` */
+  passed: boolean;
+  /** Where the artwork was found in the mockup; absent when it wasn't */
+  region?: NormalizedBox;
+  /** Each check's similarity, 0-1 */
+  checks: { hash: number; histogram: number; aspect: number; critique?: number };
+  /** Why the score is low, e.g. "Artwork appears mirrored" */
+  failures: string[];
+  /** Generations made for this image, counting auto-retries */
+  attempts: number;
+}
+
+export interface QualityCheckSettings {
+  /** Also ask the analysis model to critique the placed artwork */
+  critique: boolean;
+  /** Results scoring below this (0-1) fail */
+  minScore: number;
+  /** Extra generations to try for a failing result, keeping the best; 0 only flags it */
+  maxRetries: number;
+}
+
+/** Choices for preparing an uploaded artwork before it's sent to the model */
+export interface ArtworkPreprocessOptions {
+  /** Longest edge, in pixels, larger artwork is reduced to */
+  maxEdge: number;
+  /** Crop uniform borders such as scanner bed margins */
+  autoTrim: boolean;
+  /** Margin added by extending the artwork's edges, as a percentage of its longer side; 0 for none */
+  bleedPercent: number;
+}
+
+/** What the pre-processing pipeline did to an artwork, step by step */
+export interface ArtworkPreprocessing {
+  source: {
+    width: number;
+    height: number;
+    format: "jpeg" | "png" | "webp" | "unknown";
+    bytes: number;
+    colorModel: "rgb" | "cmyk" | "grayscale" | "indexed" | "unknown";
+    bitDepth?: number;
+    hasAlpha: boolean;
+    /** Embedded ICC profile, if any; only non-sRGB ones need converting */
+    colorProfile: "none" | "sRGB" | "other";
+  };
+  /** Border cropped off each side, in source pixels */
+  trim?: { top: number; right: number; bottom: number; left: number; tolerance: number };
+  /** Scale applied after trimming, when the artwork was larger than `maxEdge` */
+  downscale?: { maxEdge: number; scale: number };
+  /** Why the file was re-encoded, e.g. "CMYK → sRGB"; empty when it was only resized or passed through */
+  conversions: string[];
+  output: { width: number; height: number; mimeType: "image/jpeg" | "image/png"; reencoded: boolean };
+  /** Width/height of the trimmed artwork, before bleed; what `artworkAspectRatio` is set to */
+  aspectRatio: number;
+  /** Standard ratio the measured one was within tolerance of, e.g. "4:5" or "ISO A (1:√2)" */
+  ratioName?: string;
+  bleed?: { percent: number; pixels: number };
+}
+
+/** One image from a generation call; callers add the settings and source artwork to its record */
+export interface GeneratedImage {
+  imageUrl: string;
+  generation: Omit<GenerationRecord, 'settings' | 'sourceArtwork'>;
+}
+
+/** A gallery row without its image data, as returned by GET /api/mockups?fields=meta */
+export type MockupResultMeta = Omit<MockupResult, 'imageUrl' | 'compositeBaseUrl' | 'compositeArtworkUrl'>;
+
+/** Filters and paging for GET /api/mockups; all filters are optional and combine with AND */
+export interface MockupQuery {
+  /** Opaque cursor from the previous page's `nextCursor` */
+  cursor?: string;
+  limit?: number;
+  fields?: 'meta';
+  variantType?: NonNullable<MockupResult['variantType']>;
+  isContactSheet?: boolean;
+  aspectRatio?: NonNullable<MockupResult['aspectRatio']>;
+  cameraAngle?: CameraAngle;
+  projectId?: string;
+  /** Inclusive lower / exclusive upper bound on createdAt (ms since epoch) */
+  from?: number;
+  to?: number;
+}
+
+export interface MockupPage<T = MockupResult> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/** Response of GET /api/mockups/sync: rows changed (or deleted) since the given cursor */
+export interface MockupChanges {
+  changes: MockupResult[];
+  /** Pass back as `since`; stable even when no changes came back */
+  nextSince: string;
+  hasMore: boolean;
 }
 
 export interface ArtworkLibraryItem {
@@ -40,6 +178,7 @@ export interface ArtworkLibraryItem {
   name: string;
   imageUrl: string;
   createdAt: number;
+  projectId?: string;
 }
 
 export interface SourcePhotoLibraryItem {
@@ -47,18 +186,201 @@ export interface SourcePhotoLibraryItem {
   name: string;
   imageUrl: string;
   createdAt: number;
+  projectId?: string;
+}
+
+/** Groups results and library items, e.g. one client or one product drop */
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: number;
+  /** Last change; the newer copy wins when devices disagree */
+  updatedAt: number;
+  /** Set on tombstones so the deletion reaches other devices */
+  deletedAt?: number;
 }
 
 export type FrameStyle = "Auto" | "None" | "Sleek Black" | "Modern White" | "Natural Oak" | "Classic Gold" | "Industrial Metal";
 
+/** What the artwork is shown on: hung as wall art, or printed on merchandise */
+export type ProductType = "Wall Art" | "T-Shirt" | "Mug" | "Phone Case" | "Tote Bag" | "Book";
+
+export type PanelLayout = "row" | "column" | "grid" | "salon";
+
+/** One piece of a multi-panel set */
+export interface ArtworkPanel {
+  /** Library item the piece came from */
+  artworkId?: string;
+  name: string;
+  /** The piece's image: a data URL, or a blob reference once stored */
+  image: string;
+  /** Width/height of the artwork */
+  aspectRatio?: number;
+  /** This piece's frame; "Auto" frames it to match the rest of the set */
+  frameStyle: FrameStyle;
+}
+
+/** Diptych, triptych or gallery wall: 2-9 pieces hung as one arrangement */
+export interface ArtworkSet {
+  layout: PanelLayout;
+  /** Gap between neighbouring frames, in cm */
+  spacingCm: number;
+  /** In the order their images are attached to the request */
+  panels: ArtworkPanel[];
+}
+
+export type MouldingMaterial = "Wood" | "Metal" | "Painted Wood" | "Gilded";
+
+export type GlazingType = "None" | "Glass" | "Acrylic" | "Anti-Glare";
+
+/** How the piece is held: behind a frame's lip, floated on a backing, as a canvas gallery wrap, or between poster hanger rails */
+export type MountType = "Standard" | "Float" | "Canvas Wrap" | "Poster Hanger";
+
+/** A frame built to order; takes precedence over `frameStyle` when set. Lengths in centimetres. */
+export interface FrameSpec {
+  mouldingMaterial: MouldingMaterial;
+  mouldingColour: string;
+  /** Face width of the moulding seen from the front */
+  profileWidth: number;
+  /** How far the frame stands off the wall */
+  profileDepth: number;
+  /** 0 for no mat */
+  matWidth: number;
+  matColour: string;
+  glazing: GlazingType;
+  mount: MountType;
+}
+
 export type LightingStyle = "Auto" | "Natural Daylight" | "Soft Morning" | "Golden Hour" | "Studio Lighting" | "Moody Dim";
 
 export type WallTexture = "Auto" | "Clean Drywall" | "Exposed Brick" | "Raw Concrete" | "Smooth Plaster" | "Wooden Paneling";
 
-export type PrintSize = "A1" | "A2" | "A3" | "A4";
+/** ISO A sizes, common US frame sizes in inches, or `customPrintSize` */
+export type PrintSize = "A1" | "A2" | "A3" | "A4" | "8x10" | "11x14" | "18x24" | "24x36" | "Custom";
+
+export type LengthUnit = "cm" | "in";
+
+/** Physical width and height of a print as hung */
+export interface PhysicalSize {
+  width: number;
+  height: number;
+  unit: LengthUnit;
+}
+
+/** Something in the scene of known size, e.g. a 240 cm ceiling or a 200 cm sofa, that the print is scaled against */
+export interface SceneReference {
+  label: string;
+  length: number;
+  unit: LengthUnit;
+  /** Ends of the reference as marked on a base photo; the perspective compositor needs them, prompts don't */
+  from?: NormalizedPoint;
+  to?: NormalizedPoint;
+}
+
+/** A point on an image in fractions of its width and height, from the top-left */
+export interface NormalizedPoint {
+  x: number;
+  y: number;
+}
+
+/** Corners of the wall region a piece hangs in: top-left, top-right, bottom-right, bottom-left */
+export type PlacementQuad = [NormalizedPoint, NormalizedPoint, NormalizedPoint, NormalizedPoint];
+
+/** Everything the perspective compositor needs besides the two images */
+export interface PerspectivePlacement {
+  /** Outer edge of the framed piece on the base photo */
+  quad: PlacementQuad;
+  frameStyle: FrameStyle;
+  dropShadow: boolean;
+  /** 0 keeps the artwork's colours untouched, 1 fully matches the wall's light */
+  lightTint: number;
+  /** Sizes the piece from real dimensions, centred in `quad`, instead of filling the drawn corners */
+  scale?: { print: PhysicalSize; reference: SceneReference };
+}
+
+/** Axis-aligned box on an image, in fractions of its width and height from the top-left */
+export interface NormalizedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Which way the wall faces the camera: square on, or receding to the left or right */
+export type WallOrientation = "frontal" | "angled-left" | "angled-right";
+
+/** Where the main light on a region comes from, as seen from the camera */
+export type LightDirection = "left" | "right" | "above" | "front" | "behind" | "diffuse";
+
+/** An existing frame or an empty stretch of wall found by scene analysis */
+export interface SceneRegion {
+  kind: "frame" | "emptyWall";
+  /** Short description, e.g. "Large frame above the sofa" */
+  label: string;
+  box: NormalizedBox;
+  orientation: WallOrientation;
+  lighting: LightDirection;
+}
+
+/** What analyzeScene found on a scene photo */
+export interface SceneAnalysis {
+  frames: SceneRegion[];
+  emptyWalls: SceneRegion[];
+}
+
+/** A named wall region on a scene template, e.g. "Above the sofa" */
+export interface PlacementSlot {
+  name: string;
+  quad: PlacementQuad;
+}
+
+/** A scene photo with saved placement regions, so composites can target "scene X, slot 2" instead of prose */
+export interface SceneTemplate {
+  id: string;
+  name: string;
+  /** Data URL or blob reference of the scene photo */
+  imageUrl: string;
+  slots: PlacementSlot[];
+  defaultFrameStyle: FrameStyle;
+  /** Preferred output aspect ratio for composites on this scene */
+  aspectRatio?: GenerationSettings["aspectRatio"];
+  notes?: string;
+  projectId?: string;
+  createdAt: number;
+  /** Last change; the newer copy wins when devices disagree */
+  updatedAt: number;
+  /** Set on tombstones so the deletion reaches other devices */
+  deletedAt?: number;
+}
 
 export type AnalysisVibe = "Industrial & Raw" | "Modern & Minimalist" | "Cozy & Bohemian" | "Luxury & High-end" | "Public & Street" | "Surprise Me";
 
+/** Everything a vibe controls: the analysis theme, and the realism details and negatives of each mockup */
+export interface VibeProfile {
+  /** Theme of the analysis system prompt: the kinds of places and details to suggest */
+  systemPrompt: string;
+  imperfections: string[];
+  atmospheric: string[];
+  sceneDressing: string[];
+  realismLevel: EnvironmentalDetails["realismLevel"];
+  ambientDetails: string;
+  negatives: string[];
+}
+
+/** A vibe defined by the team, usable anywhere a built-in `AnalysisVibe` is */
+export interface CustomVibe extends VibeProfile {
+  id: string;
+  name: string;
+  /** Creator; only they and admins can change it. Unset until the server has seen it. */
+  ownerId?: string;
+  createdAt: number;
+  /** Last change; the newer copy wins when devices disagree */
+  updatedAt: number;
+  /** Set on tombstones so the deletion reaches other devices */
+  deletedAt?: number;
+}
+
 export interface GenerationSettings {
   prompt: string;
   negativePrompt: string;
@@ -73,10 +395,85 @@ export interface GenerationSettings {
   contactSheetSettings?: ContactSheetSettings;
   macroMode?: boolean;
   analysisVibe?: AnalysisVibe;
+  /** Custom vibe definition, carried whole so jobs and provenance don't depend on lookups; overrides `analysisVibe` */
+  customVibe?: CustomVibe;
   /** Original artwork width/height ratio (e.g. 1.5 for 3:2 landscape) */
   artworkAspectRatio?: number;
+  /** How the uploaded artwork was prepared before generation; recorded for provenance, not used by the prompt */
+  artworkPreprocessing?: ArtworkPreprocessing;
   /** Base64 data URL of an optional style reference image */
   styleReferenceImage?: string;
+  /** Used when `printSize` is "Custom" */
+  customPrintSize?: PhysicalSize;
+  /** Scale-aware mode: the print is sized against this known length in the scene */
+  sceneReference?: SceneReference;
+  /** Custom frame build; overrides `frameStyle` */
+  frameSpec?: FrameSpec;
+  /** Sections of the mockup prompt to leave out or reword; unset keeps the built-in film look */
+  promptTemplate?: PromptTemplate;
+  /** Multi-panel mode: these pieces hang together in place of the single artwork */
+  artworkSet?: ArtworkSet;
+  /** Verify each mockup against the artwork; unset skips the check */
+  qualityCheck?: QualityCheckSettings;
+  /** Merchandise to print the artwork on; unset is wall art. Frame, print size and set settings only apply to wall art */
+  productType?: ProductType;
+}
+
+/** Sections of the mockup and contact sheet prompts a template can switch off or replace */
+export type PromptSection = "qualityPrefix" | "lensSpecs" | "environmentalRealism" | "physics" | "atmosphere" | "colorOnPrint";
+
+export interface PromptSectionOverride {
+  /** false leaves the section out of the prompt */
+  enabled: boolean;
+  /** Replaces the built-in wording when non-empty */
+  text?: string;
+}
+
+/** Per-section overrides; sections it doesn't mention keep the built-in wording */
+export type PromptTemplate = Partial<Record<PromptSection, PromptSectionOverride>>;
+
+export interface PromptExperimentVariant {
+  /** Built-in template name, or "Custom" */
+  label: string;
+  template: PromptTemplate;
+  resultId: string;
+}
+
+/** Two renders of the same settings with different prompt templates, and which one the user preferred */
+export interface PromptExperiment {
+  id: string;
+  prompt: string;
+  /** In the order they were shown, which is shuffled so the pick is blind */
+  variants: [PromptExperimentVariant, PromptExperimentVariant];
+  /** Index into `variants`; unset until the user picks */
+  pickedIndex?: 0 | 1;
+  createdAt: number;
+  pickedAt?: number;
+}
+
+/** The settings a style preset carries: everything but the scene prompt, the per-prompt picks and the artwork itself */
+export type PresetSettings = Omit<GenerationSettings, "prompt" | "frameStyle" | "lighting" | "wallTexture" | "analysisVibe" | "customVibe" | "artworkAspectRatio" | "artworkPreprocessing" | "styleReferenceImage" | "artworkSet">;
+
+/** A named house style (frames, lighting, textures, vibe, settings, style reference) shared with the whole team */
+export interface StylePreset {
+  id: string;
+  name: string;
+  frames: FrameStyle[];
+  lighting: LightingStyle[];
+  textures: WallTexture[];
+  analysisVibe: AnalysisVibe;
+  /** Custom vibe to use instead of `analysisVibe`, if it still exists */
+  customVibeId?: string;
+  settings: PresetSettings;
+  /** Data URL or blob reference */
+  styleReferenceImage?: string;
+  /** Creator; only they and admins can change it. Unset until the server has seen it. */
+  ownerId?: string;
+  createdAt: number;
+  /** Last change; the newer copy wins when devices disagree */
+  updatedAt: number;
+  /** Set on tombstones so the deletion reaches other devices */
+  deletedAt?: number;
 }
 
 // Realism enhancement types
@@ -101,4 +498,95 @@ export interface EnvironmentalDetails {
   sceneDressing: string[];
   realismLevel: "pristine" | "lived-in" | "worn" | "gritty";
   ambientDetails: string;
-}
\ No newline at end of file
+}
+// --- Background jobs (server backend) ---
+
+export type JobKind = "mockup" | "composite" | "contactSheet" | "upscale";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface MockupJobInput {
+  artwork: string;
+  settings: GenerationSettings;
+  macro?: boolean;
+  variantType: "standard" | "macro";
+  /** Copied onto the results when regenerating or varying an existing one */
+  derivedFrom?: string;
+}
+
+export interface CompositeJobInput {
+  baseImage: string;
+  artwork: string;
+  instructions: string;
+  aspectRatio: NonNullable<MockupResult["aspectRatio"]>;
+  imageSize: GenerationSettings["imageSize"];
+  artworkAspectRatio?: number;
+  artworkSet?: ArtworkSet;
+}
+
+export interface ContactSheetJobInput {
+  artwork: string;
+  settings: GenerationSettings;
+  cameraAngles: CameraAngle[];
+  gridSize: ContactSheetGrid;
+  variantType?: MockupResult["variantType"];
+  /** Lineage links copied onto the sheet (see MockupResult) */
+  derivedFrom?: string;
+  upscaledFrom?: string;
+}
+
+export interface UpscaleJobInput {
+  image: string;
+  targetSize: "2K" | "4K";
+  aspectRatio: NonNullable<MockupResult["aspectRatio"]>;
+  variantType?: MockupResult["variantType"];
+  upscaledFrom?: string;
+}
+
+/** What the client sends to POST /api/jobs; `label` doubles as the resulting mockup's prompt, `projectId` is copied onto it */
+export type JobRequest = { label: string; projectId?: string } & (
+  | { kind: "mockup"; input: MockupJobInput }
+  | { kind: "composite"; input: CompositeJobInput }
+  | { kind: "contactSheet"; input: ContactSheetJobInput }
+  | { kind: "upscale"; input: UpscaleJobInput }
+);
+
+/** A job as returned by /api/jobs (inputs are never sent back, they can be tens of MB) */
+export interface GenerationJob {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  label: string;
+  batchId?: string;
+  results?: MockupResult[];
+  error?: string;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Contact sheet jobs only: how the client should slice the sheet into frames */
+  frameGrid?: { gridSize: ContactSheetGrid; cameraAngles: CameraAngle[]; framePrompt: string };
+}
+
+// --- Accounts ---
+
+export type UserRole = 'admin' | 'member';
+
+/** A team member as shown to admins by GET /api/users */
+export interface TeamMember {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  createdAt: number;
+  disabledAt?: number;
+  /** Invited but hasn't set a password yet */
+  invitePending: boolean;
+}
+
+/** The signed-in user, as returned alongside the token by POST /api/auth */
+export interface SessionUser {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+}
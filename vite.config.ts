@@ -4,6 +4,9 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // GENERATION_BACKEND=server keeps the Gemini key out of the bundle; the app then calls /api/generate etc.
+    const serverOnly = env.GENERATION_BACKEND === 'server';
+    const bundledKey = serverOnly ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +14,9 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(bundledKey),
+        'process.env.GENERATION_BACKEND': JSON.stringify(serverOnly ? 'server' : 'browser')
       },
       resolve: {
         alias: {